@@ -0,0 +1,29 @@
+# Strings not in Zotero's reader.ftl yet. Messages that are there take precedence.
+
+reader-strikeout-text = Strike Out Text
+reader-squiggly-text = Squiggly Underline Text
+reader-toolbar-strikeout =
+    .title = { reader-strikeout-text }
+    .aria-description = Select text to strike it out
+reader-toolbar-squiggly =
+    .title = { reader-squiggly-text }
+    .aria-description = Select text to add a squiggly underline
+reader-strikeout-annotation = Strikeout
+reader-squiggly-annotation = Squiggly Underline
+reader-convert-to-strikeout = Convert to Strikeout
+reader-convert-to-squiggly = Convert to Squiggly Underline
+
+reader-copy-reference = Copy Reference
+reader-show-references = Show References
+reader-no-references = No references found
+reader-cited-on = Cited on
+
+reader-layout = Layout
+reader-layout-continuous = Continuous
+reader-layout-paged = Pages
+reader-tracked-changes = Tracked Changes
+reader-revisions-markup = Markup
+reader-revisions-final = Final
+reader-revisions-original = Original
+
+reader-pdf-export-encrypted = Annotations can’t be saved into encrypted PDF files.
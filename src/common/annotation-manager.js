@@ -1,6 +1,6 @@
 import { approximateMatch } from './lib/approximate-match';
 import { measureTextAnnotationDimensions } from '../pdf/lib/text-annotation';
-import { ANNOTATION_POSITION_MAX_SIZE } from './defines';
+import { ANNOTATION_POSITION_MAX_SIZE, MARKUP_ANNOTATION_TYPES } from './defines';
 import { basicDeepEqual, sortTags } from './lib/utilities';
 import { isSelector } from "../dom/common/lib/selector";
 
@@ -32,6 +32,8 @@ class AnnotationManager {
 		this._lastChangeTime = 0;
 		this._lastSaveTime = 0;
 
+		// History points are { time, changes }, where changes maps annotation IDs to their
+		// previous state and time is when the point was last pushed or extended
 		this._undoStack = [];
 		this._redoStack = [];
 
@@ -42,6 +44,16 @@ class AnnotationManager {
 		this._onChangeFilter(this._filter);
 	}
 
+	// When the most recent undoable change was made, or 0 if there is nothing to undo
+	get lastChangeTime() {
+		return this._undoStack.at(-1)?.time ?? 0;
+	}
+
+	// When the most recent redoable undo was made, or 0 if there is nothing to redo
+	get lastUndoTime() {
+		return this._redoStack.at(-1)?.time ?? 0;
+	}
+
 	setReadOnly(readOnly) {
 		this._readOnly = readOnly;
 	}
@@ -85,9 +97,15 @@ class AnnotationManager {
 		annotation.id = this._generateObjectKey();
 		annotation.dateCreated = (new Date()).toISOString();
 		annotation.dateModified = annotation.dateCreated;
-		annotation.authorName = this._authorName;
-		if (this._authorName) {
-			annotation.isAuthorNameAuthoritative = true;
+		// Annotations imported from the file (e.g. Word comments) keep their own author
+		if (annotation.authorName !== undefined) {
+			annotation.isAuthorNameAuthoritative = !!annotation.isAuthorNameAuthoritative;
+		}
+		else {
+			annotation.authorName = this._authorName;
+			if (this._authorName) {
+				annotation.isAuthorNameAuthoritative = true;
+			}
 		}
 		// Ensure numbers have 3 or less decimal places
 		if (annotation.position.rects) {
@@ -193,13 +211,16 @@ class AnnotationManager {
 	}
 
 	convertAnnotations(ids, type) {
+		if (!MARKUP_ANNOTATION_TYPES.includes(type)) {
+			throw new Error(`Cannot convert to '${type}'`);
+		}
 		let changedAnnotations = new Map();
 		let annotations = [];
 		for (let id of ids) {
 			let annotation = this._getAnnotationByID(id);
 			if (annotation) {
-				if (!['highlight', 'underline'].includes(annotation.type)) {
-					throw new Error('Only highlight ↔ underline conversion is supported');
+				if (!MARKUP_ANNOTATION_TYPES.includes(annotation.type)) {
+					throw new Error('Only text markup annotations can be converted');
 				}
 				if (annotation.type === type) {
 					continue;
@@ -477,10 +498,10 @@ class AnnotationManager {
 		let disableTextualJoin = true;
 		if (
 			prevPoint && point
-			&& prevPoint.size === 1 && point.size === 1 && oldAnnotations.size === 1
+			&& prevPoint.changes.size === 1 && point.changes.size === 1 && oldAnnotations.size === 1
 		) {
-			let [id1, annotation1] = [...prevPoint][0];
-			let [id2, annotation2] = [...point][0];
+			let [id1, annotation1] = [...prevPoint.changes][0];
+			let [id2, annotation2] = [...point.changes][0];
 			let [id3, annotation3] = [...oldAnnotations][0];
 			if (id1 === id2 && id2 === id3) {
 				disableJoin = false;
@@ -501,7 +522,7 @@ class AnnotationManager {
 		}
 
 		if (!point || disableJoin || Date.now() - this._lastChange > 500 && disableTextualJoin) {
-			point = new Map();
+			point = { time: 0, changes: new Map() };
 			this._undoStack.push(point);
 		}
 		for (let [id, annotation] of oldAnnotations) {
@@ -509,34 +530,35 @@ class AnnotationManager {
 				annotation = JSON.parse(JSON.stringify(annotation));
 				delete annotation.image;
 			}
-			point.set(id, annotation);
+			point.changes.set(id, annotation);
 		}
 
 		this._lastChange = Date.now();
+		point.time = this._lastChange;
 		this._redoStack = [];
 	}
 
 	remapHistory(mapping) {
 		for (let [oldID, newID] of mapping) {
-			for (let point of this._undoStack) {
-				if (point.has(oldID)) {
-					let annotation = point.get(oldID);
+			for (let { changes } of this._undoStack) {
+				if (changes.has(oldID)) {
+					let annotation = changes.get(oldID);
 					if (annotation) {
 						annotation.id = newID;
 					}
-					point.delete(oldID);
-					point.set(newID, annotation);
+					changes.delete(oldID);
+					changes.set(newID, annotation);
 				}
 			}
 
-			for (let point of this._redoStack) {
-				if (point.has(oldID)) {
-					let annotation = point.get(oldID);
+			for (let { changes } of this._redoStack) {
+				if (changes.has(oldID)) {
+					let annotation = changes.get(oldID);
 					if (annotation) {
 						annotation.id = newID;
 					}
-					point.delete(oldID);
-					point.set(newID, annotation);
+					changes.delete(oldID);
+					changes.set(newID, annotation);
 				}
 			}
 		}
@@ -548,12 +570,12 @@ class AnnotationManager {
 			return false;
 		}
 		let mapping = new Map();
-		let redoPoint = new Map();
+		let redoChanges = new Map();
 		let allAnnotations = new Map(this._annotations.map(x => [x.id, x]));
-		for (let [id, annotation] of undoPoint) {
+		for (let [id, annotation] of undoPoint.changes) {
 			annotation = annotation && { ...annotation };
 			let prevAnnotation = allAnnotations.get(id);
-			redoPoint.set(id, prevAnnotation);
+			redoChanges.set(id, prevAnnotation);
 			if (annotation) {
 				annotation.dateModified = (new Date()).toISOString();
 			}
@@ -566,7 +588,7 @@ class AnnotationManager {
 			allAnnotations.set(id, annotation);
 			this._unsavedAnnotations.set(id, annotation);
 		}
-		this._redoStack.push(redoPoint);
+		this._redoStack.push({ time: Date.now(), changes: redoChanges });
 		this.remapHistory(mapping);
 		this._annotations = [...allAnnotations.values()].filter(x => x);
 		this._annotations.sort((a, b) => (a.sortIndex > b.sortIndex) - (a.sortIndex < b.sortIndex));
@@ -581,12 +603,12 @@ class AnnotationManager {
 			return false;
 		}
 		let mapping = new Map();
-		let undoPoint = new Map();
+		let undoChanges = new Map();
 		let allAnnotations = new Map(this._annotations.map(x => [x.id, x]));
-		for (let [id, annotation] of redoPoint) {
+		for (let [id, annotation] of redoPoint.changes) {
 			annotation = annotation && { ...annotation };
 			let prevAnnotation = allAnnotations.get(id);
-			undoPoint.set(id, prevAnnotation);
+			undoChanges.set(id, prevAnnotation);
 			if (annotation) {
 				annotation.dateModified = (new Date()).toISOString();
 			}
@@ -599,7 +621,7 @@ class AnnotationManager {
 			allAnnotations.set(id, annotation);
 			this._unsavedAnnotations.set(id, annotation);
 		}
-		this._undoStack.push(undoPoint);
+		this._undoStack.push({ time: Date.now(), changes: undoChanges });
 		this.remapHistory(mapping);
 		this._annotations = [...allAnnotations.values()].filter(x => x);
 		this._annotations.sort((a, b) => (a.sortIndex > b.sortIndex) - (a.sortIndex < b.sortIndex));
@@ -610,13 +632,13 @@ class AnnotationManager {
 
 	_clearInterferingHistory(affectedAnnotationIDs) {
 		for (let i = this._undoStack.length - 1; i >= 0; i--) {
-			if (affectedAnnotationIDs.some(id => this._undoStack[i].has(id))) {
+			if (affectedAnnotationIDs.some(id => this._undoStack[i].changes.has(id))) {
 				this._undoStack = this._undoStack.slice(i + 1);
 				break;
 			}
 		}
 		for (let i = 0; i < this._redoStack.length; i++) {
-			if (affectedAnnotationIDs.some(id => this._redoStack[i].has(id))) {
+			if (affectedAnnotationIDs.some(id => this._redoStack[i].changes.has(id))) {
 				this._redoStack = this._redoStack.slice(0, Math.max(0, i - 1));
 				break;
 			}
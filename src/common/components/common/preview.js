@@ -1,4 +1,5 @@
 import React, { useContext, useRef } from 'react';
+import PropTypes from 'prop-types';
 import { useLocalization } from '@fluent/react';
 import cx from 'classnames';
 import Editor from './editor';
@@ -6,9 +7,12 @@ import ExpandableEditor from './expandable-editor';
 import { getPopupCoordinatesFromClickEvent } from '../../lib/utilities';
 import { ReaderContext } from '../../reader';
 import CustomSections from './custom-sections';
+import { MARKUP_ANNOTATION_TYPES } from '../../defines';
 
 import IconHighlight from '../../../../res/icons/16/annotate-highlight.svg';
 import IconUnderline from '../../../../res/icons/16/annotate-underline.svg';
+import IconStrikeout from '../../../../res/icons/16/annotate-strikeout.svg';
+import IconSquiggly from '../../../../res/icons/16/annotate-squiggly.svg';
 import IconNote from '../../../../res/icons/16/annotate-note.svg';
 import IconArea from '../../../../res/icons/16/annotate-area.svg';
 import IconInk from '../../../../res/icons/16/annotate-ink.svg';
@@ -67,6 +71,8 @@ export function PopupPreview(props) {
 						{
 							annotation.type === 'highlight' && <IconHighlight/>
 							|| annotation.type === 'underline' && <IconUnderline/>
+							|| annotation.type === 'strikeout' && <IconStrikeout/>
+							|| annotation.type === 'squiggly' && <IconSquiggly/>
 							|| annotation.type === 'note' && <IconNote/>
 							|| annotation.type === 'image' && <IconArea/>
 							|| annotation.type === 'ink' && <IconInk/>
@@ -131,6 +137,12 @@ export function PopupPreview(props) {
 	);
 }
 
+PopupPreview.propTypes = {
+	annotation: PropTypes.shape({
+		type: PropTypes.string.isRequired
+	}).isRequired
+};
+
 export function SidebarPreview(props) {
 	const { l10n } = useLocalization();
 	const { platform } = useContext(ReaderContext);
@@ -225,7 +237,7 @@ export function SidebarPreview(props) {
 
 	let { annotation, state, type } = props;
 
-	let text = ['highlight', 'underline'].includes(annotation.type) && (
+	let text = MARKUP_ANNOTATION_TYPES.includes(annotation.type) && (
 		<div
 			className="text"
 			onClick={e => handleSectionClick(e, 'text')}
@@ -308,6 +320,8 @@ export function SidebarPreview(props) {
 						{
 							annotation.type === 'highlight' && <IconHighlight/>
 							|| annotation.type === 'underline' && <IconUnderline/>
+							|| annotation.type === 'strikeout' && <IconStrikeout/>
+							|| annotation.type === 'squiggly' && <IconSquiggly/>
 							|| annotation.type === 'note' && <IconNote/>
 							|| annotation.type === 'image' && <IconArea/>
 							|| annotation.type === 'ink' && <IconInk/>
@@ -373,3 +387,9 @@ export function SidebarPreview(props) {
 	);
 }
 
+SidebarPreview.propTypes = {
+	annotation: PropTypes.shape({
+		type: PropTypes.string.isRequired
+	}).isRequired
+};
+
@@ -1,4 +1,5 @@
 import React, { useContext, useLayoutEffect, useRef } from 'react';
+import PropTypes from 'prop-types';
 import cx from 'classnames';
 
 import IconRevert from '../../../../res/icons/16/revert.svg';
@@ -247,6 +248,58 @@ function Theme({ theme, active, onSet, onOpenContextMenu }) {
 		);
 }
 
+function DOCXViewSection({ viewStats, onChangeLayoutMode, onChangeRevisionMode }) {
+	const { l10n } = useLocalization();
+
+	if (!viewStats.layoutMode && !viewStats.revisionMode) {
+		return null;
+	}
+
+	return (
+		<div className="group">
+			{viewStats.layoutMode && (
+				<div className="option">
+					<label>{l10n.getString('reader-layout')}</label>
+					<div className="split-toggle" data-tabstop={1}>
+						{['continuous', 'paged'].map(mode => (
+							<button
+								key={mode}
+								tabIndex={-1}
+								className={cx('text', { active: viewStats.layoutMode === mode })}
+								onClick={() => onChangeLayoutMode(mode)}
+							>{l10n.getString(`reader-layout-${mode}`)}</button>
+						))}
+					</div>
+				</div>
+			)}
+			{viewStats.revisionMode && (
+				<div className="option">
+					<label>{l10n.getString('reader-tracked-changes')}</label>
+					<div className="split-toggle" data-tabstop={1}>
+						{['markup', 'final', 'original'].map(mode => (
+							<button
+								key={mode}
+								tabIndex={-1}
+								className={cx('text', { active: viewStats.revisionMode === mode })}
+								onClick={() => onChangeRevisionMode(mode)}
+							>{l10n.getString(`reader-revisions-${mode}`)}</button>
+						))}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
+
+DOCXViewSection.propTypes = {
+	viewStats: PropTypes.shape({
+		layoutMode: PropTypes.oneOf(['continuous', 'paged']),
+		revisionMode: PropTypes.oneOf(['markup', 'final', 'original'])
+	}).isRequired,
+	onChangeLayoutMode: PropTypes.func.isRequired,
+	onChangeRevisionMode: PropTypes.func.isRequired
+};
+
 function AppearancePopup(props) {
 	let overlayRef = useRef();
 	let { l10n } = useLocalization();
@@ -376,6 +429,7 @@ function AppearancePopup(props) {
 						</div>
 					</div>
 				)}
+				{type === 'docx' && <DOCXViewSection {...props}/>}
 				<div className="group">
 					<div className="option">
 						<label>{l10n.getString('reader-split-view')}</label>
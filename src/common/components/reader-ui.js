@@ -1,4 +1,5 @@
 import React, { Fragment, useState, useRef, useImperativeHandle, useEffect } from 'react';
+import PropTypes from 'prop-types';
 import { LocalizationProvider, ReactLocalization } from "@fluent/react";
 import Toolbar from './toolbar';
 import Sidebar from './sidebar/sidebar';
@@ -10,6 +11,7 @@ import SidebarResizer from './sidebar/sidebar-resizer';
 import SplitViewResizer from './split-view-resizer';
 import ThumbnailsView from './sidebar/thumbnails-view';
 import OutlineView from './sidebar/outline-view';
+import ReferencesView from './sidebar/references-view';
 import OverlayPopup from './view-popup/overlay-popup';
 import ContextMenu from './context-menu';
 import LabelPopup from './modal-popup/label-popup';
@@ -271,6 +273,14 @@ const ReaderUI = React.forwardRef((props, ref) => {
 										onUpdate={props.onUpdateOutline}
 									/>
 								}
+								referencesView={
+									<ReferencesView
+										references={state.references}
+										pageLabels={state.pageLabels}
+										onNavigate={props.onNavigate}
+										onOpenLink={props.onOpenLink}
+									/>
+								}
 							/>
 						}
 
@@ -319,6 +329,8 @@ const ReaderUI = React.forwardRef((props, ref) => {
 						onChangeScrollMode={props.onChangeScrollMode}
 						onChangeSpreadMode={props.onChangeSpreadMode}
 						onChangeFlowMode={props.onChangeFlowMode}
+						onChangeRevisionMode={props.onChangeRevisionMode}
+						onChangeLayoutMode={props.onChangeLayoutMode}
 						onChangeAppearance={props.onChangeAppearance}
 						onChangeFocusModeEnabled={props.onChangeFocusModeEnabled}
 						onAddTheme={props.onAddTheme}
@@ -344,4 +356,11 @@ const ReaderUI = React.forwardRef((props, ref) => {
 	);
 });
 
+ReaderUI.propTypes = {
+	onChangeRevisionMode: PropTypes.func.isRequired,
+	onChangeLayoutMode: PropTypes.func.isRequired,
+	onNavigate: PropTypes.func.isRequired,
+	onOpenLink: PropTypes.func.isRequired
+};
+
 export default ReaderUI;
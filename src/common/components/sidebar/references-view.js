@@ -0,0 +1,91 @@
+import React from 'react';
+import PropTypes from 'prop-types';
+import { useLocalization } from '@fluent/react';
+import cx from 'classnames';
+import FormattedText from '../view-popup/overlay-popup/reference/common/formated-text';
+
+function Reference({ reference, pageLabels, onNavigate, onOpenLink }) {
+	let { l10n } = useLocalization();
+
+	function handleClick() {
+		onNavigate({ position: reference.position });
+	}
+
+	return (
+		<li className="reference">
+			<div className="text" onClick={handleClick}>
+				<FormattedText chars={reference.chars} onOpenLink={onOpenLink}/>
+			</div>
+			<div className="citations">
+				{l10n.getString('reader-cited-on')}
+				{reference.citations.map((position, index) => (
+					<button
+						key={index}
+						className="citation"
+						tabIndex={-1}
+						onClick={() => onNavigate({ position })}
+					>{pageLabels[position.pageIndex] || (position.pageIndex + 1).toString()}</button>
+				))}
+			</div>
+		</li>
+	);
+}
+
+Reference.propTypes = {
+	reference: PropTypes.shape({
+		chars: PropTypes.array.isRequired,
+		position: PropTypes.object.isRequired,
+		citations: PropTypes.arrayOf(PropTypes.shape({ pageIndex: PropTypes.number.isRequired })).isRequired
+	}).isRequired,
+	pageLabels: PropTypes.array.isRequired,
+	onNavigate: PropTypes.func.isRequired,
+	onOpenLink: PropTypes.func.isRequired
+};
+
+function ReferencesView({ references, pageLabels, onNavigate, onOpenLink }) {
+	let { l10n } = useLocalization();
+
+	let content;
+	if (references === null) {
+		content = <div className="spinner"/>;
+	}
+	else if (!references.length) {
+		content = <div className="placeholder">{l10n.getString('reader-no-references')}</div>;
+	}
+	else {
+		content = (
+			<ul>
+				{references.map((reference, index) => (
+					<Reference
+						key={index}
+						reference={reference}
+						pageLabels={pageLabels}
+						onNavigate={onNavigate}
+						onOpenLink={onOpenLink}
+					/>
+				))}
+			</ul>
+		);
+	}
+
+	return (
+		<div
+			className={cx('references-view', { loading: references === null })}
+			data-tabstop="1"
+			tabIndex={-1}
+			id="referencesView"
+		>
+			{content}
+		</div>
+	);
+}
+
+ReferencesView.propTypes = {
+	// null while references are being extracted
+	references: PropTypes.array,
+	pageLabels: PropTypes.array.isRequired,
+	onNavigate: PropTypes.func.isRequired,
+	onOpenLink: PropTypes.func.isRequired
+};
+
+export default ReferencesView;
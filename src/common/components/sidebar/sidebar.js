@@ -1,9 +1,11 @@
 import React from 'react';
+import PropTypes from 'prop-types';
 import { useLocalization } from '@fluent/react';
 import cx from 'classnames';
 import IconThumbnails from '../../../../res/icons/20/thumbnail.svg';
 import IconAnnotations from '../../../../res/icons/20/annotation.svg';
 import IconOutline from '../../../../res/icons/20/outline.svg';
+import IconReferences from '../../../../res/icons/20/references.svg';
 import SearchBox from './search-box';
 
 function Sidebar(props) {
@@ -136,6 +138,18 @@ function Sidebar(props) {
 						onClick={() => props.onChangeView('outline')}
 						onDoubleClick={handleOutlineDoubleClick}
 					><IconOutline/></button>
+					{props.type === 'pdf' && (
+						<button
+							id="viewReferences"
+							className={cx('toolbar-button', { active: props.view === 'references' })}
+							tabIndex={-1}
+							title={l10n.getString('reader-show-references')}
+							role="tab"
+							aria-selected={props.view === 'references'}
+							aria-controls="referencesView"
+							onClick={() => props.onChangeView('references')}
+						><IconReferences/></button>
+					)}
 				</div>
 				<div className="end">
 					{props.view === 'annotations' &&
@@ -164,9 +178,30 @@ function Sidebar(props) {
 				<div className={cx("viewWrapper", { hidden: props.view !== 'outline'})} role="tabpanel">
 					{props.outlineView}
 				</div>
+				{props.type === 'pdf' && (
+					<div className={cx("viewWrapper", { hidden: props.view !== 'references' })} role="tabpanel" aria-labelledby="viewReferences">
+						{props.referencesView}
+					</div>
+				)}
 			</div>
 		</div>
 	);
 }
 
+Sidebar.propTypes = {
+	type: PropTypes.string.isRequired,
+	view: PropTypes.oneOf(['thumbnails', 'annotations', 'outline', 'references']).isRequired,
+	filter: PropTypes.shape({ query: PropTypes.string }).isRequired,
+	outline: PropTypes.array,
+	outlineQuery: PropTypes.string,
+	onUpdateOutline: PropTypes.func.isRequired,
+	onUpdateOutlineQuery: PropTypes.func.isRequired,
+	onChangeView: PropTypes.func.isRequired,
+	onChangeFilter: PropTypes.func.isRequired,
+	thumbnailsView: PropTypes.node,
+	annotationsView: PropTypes.node,
+	outlineView: PropTypes.node,
+	referencesView: PropTypes.node
+};
+
 export default Sidebar;
@@ -1,4 +1,5 @@
 import React, { useEffect, useRef, useContext, Fragment } from 'react';
+import PropTypes from 'prop-types';
 import { Localized, useLocalization } from "@fluent/react";
 import cx from 'classnames';
 import CustomSections from './common/custom-sections';
@@ -16,6 +17,8 @@ import IconChevronDown from '../../../res/icons/20/chevron-down.svg';
 import IconFormatText from '../../../res/icons/20/format-text.svg';
 import IconHighlight from '../../../res/icons/20/annotate-highlight.svg';
 import IconUnderline from '../../../res/icons/20/annotate-underline.svg';
+import IconStrikeout from '../../../res/icons/20/annotate-strikeout.svg';
+import IconSquiggly from '../../../res/icons/20/annotate-squiggly.svg';
 import IconNote from '../../../res/icons/20/annotate-note.svg';
 import IconText from '../../../res/icons/20/annotate-text.svg';
 import IconImage from '../../../res/icons/20/annotate-area.svg';
@@ -31,10 +34,10 @@ function Toolbar(props) {
 	const { l10n } = useLocalization();
 
 	useEffect(() => {
-		if (['pdf', 'epub'].includes(props.type)) {
+		if (pageInputRef.current) {
 			pageInputRef.current.value = props.pageLabel ?? (props.pageIndex + 1);
 		}
-	}, [props.pageLabel, props.pageIndex]);
+	}, [props.pageLabel, props.pageIndex, props.pagesCount]);
 
 	function handleSidebarButtonClick(event) {
 		props.onToggleSidebar(!props.sidebarOpen);
@@ -71,6 +74,9 @@ function Toolbar(props) {
 		props.onChangeTool({ type });
 	}
 
+	// DOCX documents have pages only in the paged layout
+	let hasPages = ['pdf', 'epub'].includes(props.type) || props.type === 'docx' && props.pagesCount > 0;
+
 	function handlePageNumberKeydown(event) {
 		if (event.key === 'Enter') {
 			props.onChangePageNumber(event.target.value);
@@ -135,7 +141,7 @@ function Toolbar(props) {
 					onClick={props.onNavigateBack}
 				><IconChevronLeft/></button>
 				<div className="divider"/>
-				{['pdf', 'epub'].includes(props.type) && (
+				{(hasPages || props.type === 'ipynb') && (
 					<React.Fragment>
 						<button
 							className="toolbar-button pageUp"
@@ -157,7 +163,7 @@ function Toolbar(props) {
 						><IconChevronDown/></button>
 					</React.Fragment>
 				)}
-				{['pdf', 'epub'].includes(props.type) && (
+				{hasPages && (
 					<input
 						ref={pageInputRef}
 						type="input"
@@ -177,29 +183,28 @@ function Toolbar(props) {
 						onBlur={handlePageNumberBlur}
 					/>)}
 				{props.pageLabel && (
-					<span id="numPages">&nbsp;<div>{!(props.type === 'pdf' && props.pageIndex + 1 == props.pageLabel)
+					<span id="numPages">&nbsp;<div>{!(['pdf', 'docx'].includes(props.type) && props.pageIndex + 1 == props.pageLabel)
 						&& (props.pageIndex + 1)} / {props.pagesCount}</div></span>
 				)}
 			</div>
 			{/* Annotation tools - disabled for ipynb */}
 			{props.type !== 'ipynb' && (
 				<div className="center tools">
-					<Localized id="reader-toolbar-highlight" attrs={{ title: true, 'aria-description': true }}>
-						<button
-							tabIndex={-1}
-							className={cx('toolbar-button highlight', { active: props.tool.type === 'highlight' })}
-							disabled={props.readOnly}
-							onClick={() => handleToolClick('highlight')}
-						><IconHighlight/></button>
-					</Localized>
-					<Localized id="reader-toolbar-underline" attrs={{ title: true, 'aria-description': true }}>
-						<button
-							tabIndex={-1}
-							className={cx('toolbar-button underline', { active: props.tool.type === 'underline' })}
-							disabled={props.readOnly}
-							onClick={() => handleToolClick('underline')}
-						><IconUnderline/></button>
-					</Localized>
+					{[
+						['highlight', IconHighlight],
+						['underline', IconUnderline],
+						['strikeout', IconStrikeout],
+						['squiggly', IconSquiggly]
+					].map(([type, Icon]) => (
+						<Localized key={type} id={`reader-toolbar-${type}`} attrs={{ title: true, 'aria-description': true }}>
+							<button
+								tabIndex={-1}
+								className={cx('toolbar-button', type, { active: props.tool.type === type })}
+								disabled={props.readOnly}
+								onClick={() => handleToolClick(type)}
+							><Icon/></button>
+						</Localized>
+					))}
 					<Localized id="reader-toolbar-note" attrs={{ title: true, 'aria-description': true }}>
 						<button
 							tabIndex={-1}
@@ -278,4 +283,9 @@ function Toolbar(props) {
 	);
 }
 
+Toolbar.propTypes = {
+	// 0 for DOCX documents in continuous layout mode
+	pagesCount: PropTypes.number.isRequired
+};
+
 export default Toolbar;
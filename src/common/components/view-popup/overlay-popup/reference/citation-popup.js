@@ -1,19 +1,9 @@
 import React from 'react';
+import PropTypes from 'prop-types';
 import ViewPopup from '../../common/view-popup';
-import FormattedText from './common/formated-text';
-
-function ReferenceRow({ reference, onNavigate, onOpenLink }) {
-	function handleClick() {
-		let { position } = reference;
-		// onNavigate({ position });
-	}
+import ReferenceRow from './common/reference-row';
 
-	return (
-		<div className="reference-row" onClick={handleClick}><FormattedText chars={reference.chars} onOpenLink={onOpenLink}/></div>
-	);
-}
-
-export default function CitationPopup(props) {
+function CitationPopup(props) {
 	return (
 		<ViewPopup
 			className="citation-popup"
@@ -23,9 +13,22 @@ export default function CitationPopup(props) {
 		>
 			<div className="inner">
 				{props.params.references.map((reference, index) => {
-					return <ReferenceRow key={index} reference={reference} onNavigate={props.onNavigate} onOpenLink={props.onOpenLink}/>;
+					return <ReferenceRow key={index} reference={reference} onNavigate={props.onNavigate} onOpenLink={props.onOpenLink} onClose={props.onClose}/>;
 				})}
 			</div>
 		</ViewPopup>
 	);
 }
+
+CitationPopup.propTypes = {
+	params: PropTypes.shape({
+		rect: PropTypes.array.isRequired,
+		ref: PropTypes.any,
+		references: PropTypes.array.isRequired
+	}).isRequired,
+	onNavigate: PropTypes.func.isRequired,
+	onOpenLink: PropTypes.func.isRequired,
+	onClose: PropTypes.func.isRequired
+};
+
+export default CitationPopup;
@@ -0,0 +1,27 @@
+import React from 'react';
+import PropTypes from 'prop-types';
+import FormattedText from './formated-text';
+
+function ReferenceRow({ reference, onNavigate, onOpenLink, onClose }) {
+	function handleClick() {
+		let { position } = reference;
+		onNavigate({ position });
+		onClose();
+	}
+
+	return (
+		<div className="reference-row" onClick={handleClick}><FormattedText chars={reference.chars} onOpenLink={onOpenLink}/></div>
+	);
+}
+
+ReferenceRow.propTypes = {
+	reference: PropTypes.shape({
+		chars: PropTypes.array.isRequired,
+		position: PropTypes.object.isRequired
+	}).isRequired,
+	onNavigate: PropTypes.func.isRequired,
+	onOpenLink: PropTypes.func.isRequired,
+	onClose: PropTypes.func.isRequired
+};
+
+export default ReferenceRow;
@@ -1,19 +1,9 @@
 import React from 'react';
+import PropTypes from 'prop-types';
 import ViewPopup from '../../common/view-popup';
-import FormattedText from './common/formated-text';
-
-function ReferenceRow({ reference, onNavigate, onOpenLink }) {
-	function handleClick() {
-		let { position } = reference;
-		// onNavigate({ position });
-	}
+import ReferenceRow from './common/reference-row';
 
-	return (
-		<div className="reference-row" onClick={handleClick}><FormattedText chars={reference.chars} onOpenLink={onOpenLink}/></div>
-	);
-}
-
-export default function ReferencePopup(props) {
+function ReferencePopup(props) {
 	return (
 		<ViewPopup
 			className="reference-popup"
@@ -22,8 +12,21 @@ export default function ReferencePopup(props) {
 			padding={10}
 		>
 			{props.params.references.map((reference, index) => {
-				return <ReferenceRow key={index} reference={reference} onNavigate={props.onNavigate} onOpenLink={props.onOpenLink}/>;
+				return <ReferenceRow key={index} reference={reference} onNavigate={props.onNavigate} onOpenLink={props.onOpenLink} onClose={props.onClose}/>;
 			})}
 		</ViewPopup>
 	);
 }
+
+ReferencePopup.propTypes = {
+	params: PropTypes.shape({
+		rect: PropTypes.array.isRequired,
+		ref: PropTypes.any,
+		references: PropTypes.array.isRequired
+	}).isRequired,
+	onNavigate: PropTypes.func.isRequired,
+	onOpenLink: PropTypes.func.isRequired,
+	onClose: PropTypes.func.isRequired
+};
+
+export default ReferencePopup;
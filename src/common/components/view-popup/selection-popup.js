@@ -1,7 +1,8 @@
 import React from 'react';
+import PropTypes from 'prop-types';
 import { useLocalization } from '@fluent/react';
 import cx from 'classnames';
-import { ANNOTATION_COLORS } from '../../defines';
+import { ANNOTATION_COLORS, MARKUP_ANNOTATION_TYPES } from '../../defines';
 import ViewPopup from './common/view-popup';
 import CustomSections from '../common/custom-sections';
 
@@ -9,6 +10,8 @@ import { IconColor16 } from '../common/icons';
 
 import IconHighlight from '../../../../res/icons/16/annotate-highlight.svg';
 import IconUnderline from '../../../../res/icons/16/annotate-underline.svg';
+import IconStrikeout from '../../../../res/icons/16/annotate-strikeout.svg';
+import IconSquiggly from '../../../../res/icons/16/annotate-squiggly.svg';
 
 function SelectionPopup(props) {
 	const { l10n } = useLocalization();
@@ -52,6 +55,18 @@ function SelectionPopup(props) {
 						title={l10n.getString('reader-underline-text')}
 						onClick={() => props.onChangeTextSelectionAnnotationMode('underline')}
 					><IconUnderline/></button>
+					<button
+						tabIndex={-1}
+						className={cx('strikeout', { active: props.textSelectionAnnotationMode === 'strikeout' })}
+						title={l10n.getString('reader-strikeout-text')}
+						onClick={() => props.onChangeTextSelectionAnnotationMode('strikeout')}
+					><IconStrikeout/></button>
+					<button
+						tabIndex={-1}
+						className={cx('squiggly', { active: props.textSelectionAnnotationMode === 'squiggly' })}
+						title={l10n.getString('reader-squiggly-text')}
+						onClick={() => props.onChangeTextSelectionAnnotationMode('squiggly')}
+					><IconSquiggly/></button>
 				</div>
 			</div>
 			{props.enableAddToNote &&
@@ -63,4 +78,9 @@ function SelectionPopup(props) {
 	);
 }
 
+SelectionPopup.propTypes = {
+	textSelectionAnnotationMode: PropTypes.oneOf(MARKUP_ANNOTATION_TYPES).isRequired,
+	onChangeTextSelectionAnnotationMode: PropTypes.func.isRequired
+};
+
 export default SelectionPopup;
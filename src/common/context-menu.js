@@ -3,6 +3,7 @@ import {
 	DEFAULT_THEMES,
 	EXTRA_INK_AND_TEXT_COLORS,
 	INK_ANNOTATION_WIDTH_STEPS,
+	MARKUP_ANNOTATION_TYPES,
 	TEXT_ANNOTATION_FONT_SIZE_STEPS
 } from './defines';
 import { measureTextAnnotationDimensions } from '../pdf/lib/text-annotation';
@@ -123,6 +124,15 @@ export function createViewContextMenu(reader, params) {
 					}
 				}
 			],
+			[
+				{
+					label: reader._getString('reader-copy-reference'),
+					disabled: !(params.overlay && ['citation', 'reference'].includes(params.overlay.type) && !reader.canCopy),
+					onCommand: () => {
+						navigator.clipboard.writeText(params.overlay.references.map(x => x.text).join('\n'));
+					}
+				}
+			],
 			[
 				{
 					label: reader._getString('general-copy'),
@@ -268,7 +278,7 @@ export function createAnnotationContextMenu(reader, params) {
 					label: reader._getString('reader-edit-annotation-text'),
 					disabled: readOnly || !(
 						params.ids.length === 1
-						&& reader._state.annotations.find(x => x.id === params.ids[0] && ['highlight', 'underline'].includes(x.type))
+						&& reader._state.annotations.find(x => x.id === params.ids[0] && MARKUP_ANNOTATION_TYPES.includes(x.type))
 						&& !params.popup
 					),
 					persistent: true,
@@ -297,24 +307,16 @@ export function createAnnotationContextMenu(reader, params) {
 					}
 				}
 			],
-			[
-				annotations.every(x => ['highlight', 'underline'].includes(x.type))
-				&& annotations.some(x => x.type === 'underline')
+			MARKUP_ANNOTATION_TYPES.map(type => (
+				annotations.every(x => MARKUP_ANNOTATION_TYPES.includes(x.type))
+				&& annotations.some(x => x.type !== type)
 				&& {
-					label: reader._getString('reader-convert-to-highlight'),
+					label: reader._getString(`reader-convert-to-${type}`),
 					disabled: readOnly,
 					persistent: true,
-					onCommand: () => reader.convertAnnotations(params.ids, 'highlight')
-				},
-				annotations.every(x => ['highlight', 'underline'].includes(x.type))
-				&& annotations.some(x => x.type === 'highlight')
-				&& {
-					label: reader._getString('reader-convert-to-underline'),
-					disabled: readOnly,
-					persistent: true,
-					onCommand: () => reader.convertAnnotations(params.ids, 'underline')
-				},
-			],
+					onCommand: () => reader.convertAnnotations(params.ids, type)
+				}
+			)),
 			[
 				annotations.length >= 2 && annotations.every(x => x.type === 'ink') && {
 					label: reader._getString('reader-merge'),
@@ -21,6 +21,11 @@ export const DARKEN_INK_AND_TEXT_COLOR = 5; // percent
 // TEMP: Use Mac color everywhere, since Highlight is too dark on Windows without opacity
 export let SELECTION_COLOR = '#71ADFD';
 
+// Annotation types that mark up a text selection and can be converted into each other
+export const MARKUP_ANNOTATION_TYPES = ['highlight', 'underline', 'strikeout', 'squiggly'];
+// Markup annotation types drawn as a line along the text
+export const LINE_MARKUP_ANNOTATION_TYPES = ['underline', 'strikeout', 'squiggly'];
+
 export const PDF_NOTE_DIMENSIONS = 22; // pt
 export const MIN_IMAGE_ANNOTATION_SIZE = 10; // pt
 
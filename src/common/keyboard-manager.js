@@ -180,13 +180,33 @@ export class KeyboardManager {
 		}
 		else if (view && ['Cmd-z', 'Ctrl-z'].includes(key)) {
 			event.preventDefault();
-			this._reader._annotationManager.undo();
-			this._reader.setSelectedAnnotations([]);
+			// Notebook cell edits share the shortcut with annotations; undo whichever changed last
+			let lastView = this._reader._getLastViewSafe();
+			let annotationTime = this._reader._annotationManager.lastChangeTime;
+			let undone = lastView?.lastEditTime > annotationTime && lastView.undoEdit();
+			if (!undone) {
+				if (this._reader._annotationManager.undo()) {
+					this._reader.setSelectedAnnotations([]);
+				}
+				else {
+					lastView?.undoEdit?.();
+				}
+			}
 		}
 		else if (view && ['Cmd-Shift-z', 'Ctrl-Shift-z'].includes(key)) {
 			event.preventDefault();
-			this._reader._annotationManager.redo();
-			this._reader.setSelectedAnnotations([]);
+			// Redo whichever was undone last
+			let lastView = this._reader._getLastViewSafe();
+			let annotationTime = this._reader._annotationManager.lastUndoTime;
+			let redone = lastView?.lastUndoTime > annotationTime && lastView.redoEdit();
+			if (!redone) {
+				if (this._reader._annotationManager.redo()) {
+					this._reader.setSelectedAnnotations([]);
+				}
+				else {
+					lastView?.redoEdit?.();
+				}
+			}
 		}
 		else if (['Cmd-f', 'Ctrl-f'].includes(key)) {
 			event.preventDefault();
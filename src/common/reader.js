@@ -16,7 +16,8 @@ import {
 	createViewContextMenu
 } from './context-menu';
 import { initPDFPrintService } from '../pdf/pdf-print-service';
-import { ANNOTATION_COLORS, DEBOUNCE_STATE_CHANGE, DEBOUNCE_STATS_CHANGE, DEFAULT_THEMES } from './defines';
+import { EncryptedPDFError } from '../pdf/lib/pdf-file';
+import { ANNOTATION_COLORS, DEBOUNCE_STATE_CHANGE, DEBOUNCE_STATS_CHANGE, DEFAULT_THEMES, MARKUP_ANNOTATION_TYPES } from './defines';
 import { FocusManager } from './focus-manager';
 import { KeyboardManager } from './keyboard-manager';
 import {
@@ -102,10 +103,18 @@ class Reader {
 		// Only used on Zotero client, sets text/plain and text/html values from Note Markdown and Note HTML translators
 		this._onSetDataTransferAnnotations = options.onSetDataTransferAnnotations;
 		this._onSetZoom = options.onSetZoom;
+		// Optional NotebookKernel used by NotebookView to execute code cells
+		this._notebookKernel = options.notebookKernel;
+		// Called with the IDs of notebook annotations whose text is no longer in the notebook
+		this._onSetOrphanedAnnotations = options.onSetOrphanedAnnotations;
 
 		this._readerRef = React.createRef();
 		this._primaryView = null;
 		this._secondaryView = null;
+		// Slide presented in the primary notebook view, for the speaker notes in the secondary one
+		this._notebookSlideIndex = null;
+		// Other version of the notebook, compared with the open one in the split view
+		this._notebookCompareData = null;
 		this._lastViewPrimary = true;
 
 		this.initializedPromise = new Promise(resolve => this._resolveInitializedPromise = resolve);
@@ -133,6 +142,14 @@ class Reader {
 				type: 'underline',
 				color: ANNOTATION_COLORS[0][1],
 			},
+			strikeout: {
+				type: 'strikeout',
+				color: ANNOTATION_COLORS[1][1],
+			},
+			squiggly: {
+				type: 'squiggly',
+				color: ANNOTATION_COLORS[0][1],
+			},
 			note: {
 				type: 'note',
 				color: ANNOTATION_COLORS[0][1],
@@ -195,6 +212,7 @@ class Reader {
 			tool: this._tools['pointer'], // Must always be a reference to one of this._tools objects
 			thumbnails: [],
 			outline: null, // null — loading, [] — empty
+			references: null, // null — loading, [] — empty
 			outlineQuery: '',
 			pageLabels: [],
 			sidebarOpen: options.sidebarOpen !== undefined ? options.sidebarOpen : true,
@@ -474,6 +492,8 @@ class Reader {
 						onChangeScrollMode={(mode) => this.scrollMode = mode}
 						onChangeSpreadMode={(mode) => this.spreadMode = mode}
 						onChangeFlowMode={(mode) => this.flowMode = mode}
+						onChangeRevisionMode={(mode) => this.revisionMode = mode}
+						onChangeLayoutMode={(mode) => this.layoutMode = mode}
 						onAddTheme={() => this._updateState({ themePopup: {} })}
 						onOpenThemeContextMenu={params => this._onOpenContextMenu(createThemeContextMenu(this, params))}
 						onCloseThemePopup={() => this._updateState({ themePopup: null })}
@@ -758,6 +778,12 @@ class Reader {
 				this._updateState({ secondaryViewState: { ...this._state.primaryViewState } });
 				try {
 					this._secondaryView = this._createView(false);
+					if (this._type === 'ipynb' && this._notebookCompareData) {
+						this._secondaryView.setDiff(this._notebookCompareData, 'changed');
+					}
+					else if (this._type === 'ipynb' && this._notebookSlideIndex !== null) {
+						this._secondaryView.showSpeakerNotes(this._notebookSlideIndex);
+					}
 				} catch (e) {
 					console.error('Failed to create secondary view:', e);
 					this._secondaryView = null;
@@ -992,7 +1018,7 @@ class Reader {
 	}
 
 	setTextSelectionAnnotationMode(mode) {
-		if (!['highlight', 'underline'].includes(mode)) {
+		if (!MARKUP_ANNOTATION_TYPES.includes(mode)) {
 			throw new Error(`Invalid 'textSelectionAnnotationMode' value '${mode}'`);
 		}
 		this._updateState({ textSelectionAnnotationMode: mode });
@@ -1139,6 +1165,10 @@ class Reader {
 			this._updateState({ outline });
 		};
 
+		let onSetReferences = (references) => {
+			this._updateState({ references });
+		};
+
 		let onSetPageLabels = (pageLabels) => {
 			this._updateState({ pageLabels });
 		};
@@ -1361,6 +1391,7 @@ class Reader {
 					pageLabels: this._state.pageLabels,
 					onRequestPassword,
 					onSetThumbnails,
+					onSetReferences,
 					onSetPageLabels,
 					onDeleteAnnotations // For complete ink erase
 				});
@@ -1425,7 +1456,23 @@ class Reader {
 			try {
 				view = new NotebookView({
 					...common,
-					onSetZoom
+					kernel: this._notebookKernel,
+					onSetZoom,
+					onChangeSlide: primary
+						? (slideIndex) => {
+							this._notebookSlideIndex = slideIndex;
+							this._secondaryView?.showSpeakerNotes(slideIndex);
+						}
+						: undefined,
+					onDiffScroll: (row, offset) => {
+						let otherView = primary ? this._secondaryView : this._primaryView;
+						otherView?.scrollDiffTo(row, offset);
+					},
+					onCloseDiff: () => this.compareNotebook(null),
+					// The secondary view can show another version of the notebook
+					onSetOrphanedAnnotations: primary
+						? ids => this._onSetOrphanedAnnotations?.(ids)
+						: undefined
 				});
 				console.log('[Reader._createView] NotebookView created successfully:', view);
 			} catch (e) {
@@ -1521,6 +1568,65 @@ class Reader {
 		this._primaryView.importAnnotationsFromCalibreMetadata(metadata);
 	}
 
+	/**
+	 * @returns {{ count: number, lastModified?: Date }}
+	 */
+	getDOCXCommentStats() {
+		this._ensureType('docx');
+		return this._primaryView.getDOCXCommentStats();
+	}
+
+	importAnnotationsFromDOCXComments() {
+		this._ensureType('docx');
+		this._primaryView.importAnnotationsFromDOCXComments();
+	}
+
+	/**
+	 * @returns {Promise<{ count: number, lastModified?: Date }>}
+	 */
+	async getPDFAnnotationStats() {
+		this._ensureType('pdf');
+		return this._primaryView.getPDFAnnotationStats();
+	}
+
+	async importAnnotationsFromPDF() {
+		this._ensureType('pdf');
+		await this._primaryView.importAnnotationsFromPDF();
+	}
+
+	/**
+	 * The open .docx file with annotations added as Word comments
+	 *
+	 * @param {Object[]} [annotations] Defaults to all annotations
+	 * @returns {Promise<Uint8Array>}
+	 */
+	async exportAnnotationsToDOCX(annotations) {
+		this._ensureType('docx');
+		return this._primaryView.exportAnnotationsToDOCX(annotations || this._state.annotations);
+	}
+
+	/**
+	 * The open PDF file with annotations added as PDF annotations
+	 *
+	 * @param {Object[]} [annotations] Defaults to all annotations
+	 * @returns {Promise<Uint8Array>}
+	 */
+	async exportAnnotationsToPDF(annotations) {
+		this._ensureType('pdf');
+		try {
+			return await this._primaryView.exportAnnotationsToPDF(annotations || this._state.annotations);
+		}
+		catch (e) {
+			if (e instanceof EncryptedPDFError) {
+				this.setErrorMessage(this._getString('reader-pdf-export-encrypted'));
+				setTimeout(() => {
+					this.setErrorMessage(null);
+				}, 5000);
+			}
+			throw e;
+		}
+	}
+
 	/**
 	 * Trigger copying inside the currently focused iframe or the main window
 	 */
@@ -1602,33 +1708,51 @@ class Reader {
 	}
 
 	navigateToFirstPage() {
-		this._ensureType('pdf', 'epub');
+		this._ensureType('pdf', 'epub', 'docx');
 		const view = this._getLastViewSafe();
 		if (!view) return;
 		view.navigateToFirstPage();
 	}
 
 	navigateToLastPage() {
-		this._ensureType('pdf', 'epub');
+		this._ensureType('pdf', 'epub', 'docx');
 		const view = this._getLastViewSafe();
 		if (!view) return;
 		view.navigateToLastPage();
 	}
 
 	navigateToPreviousPage() {
-		this._ensureType('pdf', 'epub');
+		this._ensureType('pdf', 'epub', 'ipynb', 'docx');
 		const view = this._getLastViewSafe();
 		if (!view) return;
 		view.navigateToPreviousPage();
 	}
 
 	navigateToNextPage() {
-		this._ensureType('pdf', 'epub');
+		this._ensureType('pdf', 'epub', 'ipynb', 'docx');
 		const view = this._getLastViewSafe();
 		if (!view) return;
 		view.navigateToNextPage();
 	}
 
+	/**
+	 * Compare the open notebook with another version of it ({ buf } or { content }, plus optional
+	 * format and fileName), showing the open notebook on the left and the other one on the right
+	 * of a vertical split. Both sides show the same diff from the open notebook to the other one.
+	 * Pass null to close the comparison.
+	 */
+	compareNotebook(data) {
+		this._ensureType('ipynb');
+		this._notebookCompareData = data;
+		this._primaryView?.setDiff(data, 'base');
+		if (this._secondaryView) {
+			this._secondaryView.setDiff(data, 'changed');
+		}
+		else if (data) {
+			this.toggleVerticalSplit(true);
+		}
+	}
+
 	navigateToPreviousSection() {
 		this._ensureType('epub');
 		const view = this._getLastViewSafe();
@@ -1736,7 +1860,7 @@ class Reader {
 					// unless it is a note (so that one can type after creating it via shortcut, same as with text annotation)
 					if (!triggeringEvent || triggeringEvent.button !== 2) {
 						if (triggeredFromView) {
-							if (['note', 'highlight', 'underline', 'image'].includes(annotation.type)
+							if (['note', 'image', ...MARKUP_ANNOTATION_TYPES].includes(annotation.type)
 								&& !annotation.comment
 								&& (!triggeringEvent || !('key' in triggeringEvent) || annotation.type === 'note')
 							) {
@@ -1768,7 +1892,7 @@ class Reader {
 							a11yAnnouncement += ' ' + getLocalizedString('reader-a11y-annotation-popup-appeared');
 						}
 						// Announce available keyboard interface options for this annotation type
-						if (['highlight', 'underline'].includes(annotation.type)) {
+						if (MARKUP_ANNOTATION_TYPES.includes(annotation.type)) {
 							a11yAnnouncement += ' ' + getLocalizedString('reader-a11y-edit-text-annotation');
 						}
 						else if (['note', 'text', 'image'].includes(annotation.type)) {
@@ -1952,6 +2076,8 @@ class Reader {
 	reload(data) {
 		this._data = data;
 		this._primaryViewContainer.replaceChildren();
+		this._notebookSlideIndex = null;
+		this._notebookCompareData = null;
 		try {
 			this._primaryView = this._createView(true);
 		} catch (e) {
@@ -2163,28 +2289,28 @@ class Reader {
 	}
 
 	get canNavigateToFirstPage() {
-		if (!['pdf', 'epub'].includes(this._type)) {
+		if (!['pdf', 'epub', 'docx'].includes(this._type)) {
 			return false;
 		}
 		return (this._state.primary ? this._state.primaryViewStats : this._state.secondaryViewStats).canNavigateToFirstPage;
 	}
 
 	get canNavigateToLastPage() {
-		if (!['pdf', 'epub'].includes(this._type)) {
+		if (!['pdf', 'epub', 'docx'].includes(this._type)) {
 			return false;
 		}
 		return (this._state.primary ? this._state.primaryViewStats : this._state.secondaryViewStats).canNavigateToLastPage;
 	}
 
 	get canNavigateToPreviousPage() {
-		if (!['pdf', 'epub'].includes(this._type)) {
+		if (!['pdf', 'epub', 'ipynb', 'docx'].includes(this._type)) {
 			return false;
 		}
 		return (this._state.primary ? this._state.primaryViewStats : this._state.secondaryViewStats).canNavigateToPreviousPage;
 	}
 
 	get canNavigateToNextPage() {
-		if (!['pdf', 'epub'].includes(this._type)) {
+		if (!['pdf', 'epub', 'ipynb', 'docx'].includes(this._type)) {
 			return false;
 		}
 		return (this._state.primary ? this._state.primaryViewStats : this._state.secondaryViewStats).canNavigateToNextPage;
@@ -2217,6 +2343,34 @@ class Reader {
 		if (!view) return;
 		view.setFlowMode(value);
 	}
+
+	get revisionMode() {
+		if (this._type !== 'docx') {
+			return undefined;
+		}
+		return (this._state.primary ? this._state.primaryViewStats : this._state.secondaryViewStats).revisionMode;
+	}
+
+	set revisionMode(value) {
+		this._ensureType('docx');
+		// Both views of a split show the same version of the document
+		this._primaryView?.setRevisionMode(value);
+		this._secondaryView?.setRevisionMode(value);
+	}
+
+	get layoutMode() {
+		if (this._type !== 'docx') {
+			return undefined;
+		}
+		return (this._state.primary ? this._state.primaryViewStats : this._state.secondaryViewStats).layoutMode;
+	}
+
+	set layoutMode(value) {
+		this._ensureType('docx');
+		const view = this._getLastViewSafe();
+		if (!view) return;
+		view.setLayoutMode(value);
+	}
 }
 
 export default Reader;
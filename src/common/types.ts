@@ -4,6 +4,8 @@ import { ReflowableAppearance } from "../dom/common/dom-view";
 export type ToolType =
 	| 'highlight'
 	| 'underline'
+	| 'strikeout'
+	| 'squiggly'
 	| 'note'
 	| 'image'
 	| 'text'
@@ -21,6 +23,8 @@ export type Platform = 'web' | 'zotero' | 'ios' | 'android';
 export type AnnotationType =
 	| 'highlight'
 	| 'underline'
+	| 'strikeout'
+	| 'squiggly'
 	| 'note'
 	| 'image'
 	| 'text'
@@ -50,6 +54,8 @@ export interface PDFAnnotation extends Annotation {
 
 export interface WADMAnnotation extends Annotation {
 	position: Selector;
+	// ID of the Word comment the annotation was imported from
+	docxCommentID?: string;
 }
 
 export type NavLocation = {
@@ -87,6 +93,14 @@ export type OutlineItem = {
 	expanded?: boolean;
 };
 
+export type Reference = {
+	text: string;
+	chars: { c: string; bold?: boolean; italic?: boolean; url?: string }[];
+	position: PDFPosition;
+	// Positions of the citations referring to the entry
+	citations?: PDFPosition[];
+};
+
 export type ViewStats = {
 	pageIndex?: number;
 	pageLabel?: string;
@@ -110,6 +124,8 @@ export type ViewStats = {
 	scrollMode?: number;
 	spreadMode?: number;
 	flowMode?: string;
+	revisionMode?: 'markup' | 'final' | 'original';
+	layoutMode?: 'continuous' | 'paged';
 	appearance?: Partial<ReflowableAppearance>;
 	fontFamily?: string;
 	outlinePath?: number[];
@@ -195,4 +211,8 @@ export type ViewContextMenuOverlay =
 	| {
 		type: 'math';
 		tex: string;
+	}
+	| {
+		type: 'citation' | 'reference';
+		references: Reference[];
 	};
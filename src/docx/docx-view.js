@@ -28,7 +28,7 @@ import DOMView, {
 	ReflowableAppearance
 } from "../dom/common/dom-view";
 import { closestElement, getContainingBlock, iterateWalker } from "../dom/common/lib/nodes";
-import { A11Y_VIRT_CURSOR_DEBOUNCE_LENGTH } from "../common/defines";
+import { A11Y_VIRT_CURSOR_DEBOUNCE_LENGTH, ANNOTATION_COLORS, MARKUP_ANNOTATION_TYPES } from "../common/defines";
 import { debounce } from '../common/lib/debounce';
 import { placeA11yVirtualCursor } from '../common/lib/utilities';
 import { DEFAULT_REFLOWABLE_APPEARANCE } from "../dom/common/defines";
@@ -38,6 +38,32 @@ import { scrollIntoView } from "../dom/common/lib/scroll-into-view";
 import { isPageRectVisible } from "../dom/common/lib/rect";
 import { debounceUntilScrollFinishes } from "../common/lib/utilities";
 import { AnnotationOverlay } from "../dom/common/components/overlay/annotation-overlay";
+import { convertDOCXToHTML, formatNumber } from "./lib/docx-to-html";
+import { exportCommentsToDOCX } from "./lib/docx-comments-export";
+import { renderMathInElements } from "../dom/common/lib/math";
+
+const REVISION_MODES = ['markup', 'final', 'original'];
+
+// Annotation types that can be written into the .docx file as comments
+const COMMENT_ANNOTATION_TYPES = [...MARKUP_ANNOTATION_TYPES, 'note'];
+
+const LAYOUT_MODES = ['continuous', 'paged'];
+
+// Letter size with 1" margins, in CSS pixels, for sections that don't specify their page
+const DEFAULT_PAGE_SIZE = {
+	pageWidth: 816,
+	pageHeight: 1056,
+	marginTop: 96,
+	marginRight: 96,
+	marginBottom: 96,
+	marginLeft: 96
+};
+
+// Space between pages in the paged layout
+const PAGE_GAP = 16;
+
+// Most times pagination measures the document and pushes blocks onto the next page
+const MAX_PAGINATION_ROUNDS = 4;
 
 class DOCXView extends DOMView {
 	// Required abstract property
@@ -54,6 +80,21 @@ class DOCXView extends DOMView {
 		this._htmlContent = '';
 		this._styles = '';
 		this._outline = [];
+		this._conversionPromise = null;
+		// The original file, when the view was opened from one
+		this._buf = null;
+		// Word comments and whether there are tracked changes, from the converted file
+		this._comments = [];
+		this._hasRevisions = false;
+		// Which tracked changes to show: 'markup' (insertions and deletions), 'final' or 'original'
+		this._revisionMode = 'markup';
+		// 'continuous' or 'paged', which lays the document out on pages like Word's Print Layout
+		this._layoutMode = 'continuous';
+		// Pages of the paged layout: { top, height, label }, in CSS pixels from the top of the content
+		this._pages = [];
+		this._pageIndex = 0;
+		// Original values of the inline style properties that pagination changed
+		this._paginationStyles = new Map();
 		
 		if (!options.data) {
 			throw new Error('DOCXView: options.data is required');
@@ -64,8 +105,9 @@ class DOCXView extends DOMView {
 			this._styles = options.data.styles || '';
 		}
 		else if (options.data.buf) {
-			// Convert DOCX buffer to HTML
-			this._convertDOCXToHTML(options.data.buf);
+			// Convert DOCX buffer to HTML; rendering waits for it
+			this._buf = options.data.buf;
+			this._conversionPromise = this._convertDOCXToHTML(options.data.buf);
 		}
 		else if (options.data.url) {
 			// URL-based loading - will be handled in _handleViewCreated
@@ -117,8 +159,18 @@ class DOCXView extends DOMView {
 		this._contentContainer.className = 'docx-content';
 		this._iframeDocument.body.appendChild(this._contentContainer);
 		
+		let style = this._iframeDocument.createElement('style');
+		style.innerHTML = injectCSS;
+		this._iframeDocument.head.append(style);
+		
 		// Initialize scale from viewState (or default to 1)
 		this._setScale(viewState.scale || 1);
+		if (REVISION_MODES.includes(viewState.revisionMode)) {
+			this._revisionMode = viewState.revisionMode;
+		}
+		if (LAYOUT_MODES.includes(viewState.layoutMode)) {
+			this._layoutMode = viewState.layoutMode;
+		}
 		
 		// Load and render HTML content
 		// This now waits for content to be fully rendered and ready
@@ -143,11 +195,12 @@ class DOCXView extends DOMView {
 	}
 
 	async _convertDOCXToHTML(buf) {
-		// This will be called from the main thread via DOCXWorker
-		// For now, we'll handle it in the initialization
 		try {
-			// In a real implementation, this would call Zotero.DOCXWorker.convertToHTML()
-			// For now, we'll assume the HTML is provided in options.data
+			let { html, styles, comments, hasRevisions } = await convertDOCXToHTML(buf);
+			this._htmlContent = html;
+			this._styles = styles;
+			this._comments = comments;
+			this._hasRevisions = hasRevisions;
 		}
 		catch (e) {
 			console.error('Failed to convert DOCX to HTML:', e);
@@ -156,6 +209,9 @@ class DOCXView extends DOMView {
 	}
 
 	async _renderContent() {
+		if (this._conversionPromise) {
+			await this._conversionPromise;
+		}
 		if (!this._htmlContent) {
 			return;
 		}
@@ -207,16 +263,32 @@ class DOCXView extends DOMView {
 		
 		// Render HTML content
 		this._contentContainer.innerHTML = this._htmlContent;
+		this._contentContainer.dataset.revisionMode = this._revisionMode;
+		await this._renderMath();
 		
 		// Wait for DOM to be fully parsed and rendered before proceeding
 		// This ensures the content is ready for interaction, similar to how PDF waits for document initialization
 		await this._waitForContentReady();
+		this._paginate();
 		
 		// Annotation handling is done automatically by the base DOMView class
 		// through pointer events (pointerdown, pointerup) and selectionchange events
 		// No additional setup needed here
 	}
 
+	/**
+	 * Typeset equations, which the converter outputs as delimited TeX
+	 */
+	async _renderMath() {
+		let elements = Array.from(this._contentContainer.querySelectorAll('.docx-math'));
+		try {
+			await renderMathInElements(this._iframeDocument, elements);
+		}
+		catch (e) {
+			console.error('[DOCXView] Failed to render math', e);
+		}
+	}
+
 	/**
 	 * Wait for content to be fully rendered and ready for interaction.
 	 * This matches the PDF viewer's pattern of waiting for document initialization.
@@ -545,7 +617,7 @@ class DOCXView extends DOMView {
 		}
 		
 		let text;
-		if (type == 'highlight' || type == 'underline') {
+		if (MARKUP_ANNOTATION_TYPES.includes(type)) {
 			// Use splitRangeToTextNodes for better handling of multi-block selections (like EPUB)
 			text = '';
 			let lastSplitRange;
@@ -605,6 +677,7 @@ class DOCXView extends DOMView {
 			color,
 			sortIndex,
 			position: selector,
+			pageLabel: this._getPageLabel(range),
 			text
 		};
 	}
@@ -622,11 +695,14 @@ class DOCXView extends DOMView {
 			scale,
 			scrollYPercent: scrollYPercentRounded,
 			appearance: this.appearance,
+			revisionMode: this._revisionMode,
+			layoutMode: this._layoutMode,
 		};
 		this._options.onChangeViewState(viewState);
 	}
 
 	_updateViewStats() {
+		this._updatePageIndex();
 		const viewStats = {
 			canCopy: !!this._selectedAnnotationIDs.length || !(this._iframeWindow.getSelection()?.isCollapsed ?? true),
 			canZoomIn: this.scale === undefined || this.scale < this.MAX_SCALE,
@@ -635,16 +711,599 @@ class DOCXView extends DOMView {
 			canNavigateBack: this._history.canNavigateBack,
 			canNavigateForward: this._history.canNavigateForward,
 			appearance: this.appearance,
+			revisionMode: this._hasRevisions ? this._revisionMode : undefined,
+			layoutMode: this._canPaginate() ? this._layoutMode : undefined,
 		};
+		if (this._pages.length) {
+			let pageIndex = this._pageIndex;
+			let lastPageIndex = this._pages.length - 1;
+			Object.assign(viewStats, {
+				pageIndex,
+				pageLabel: this._pages[pageIndex].label,
+				pagesCount: this._pages.length,
+				usePhysicalPageNumbers: true,
+				canNavigateToFirstPage: pageIndex > 0,
+				canNavigateToPreviousPage: pageIndex > 0,
+				canNavigateToNextPage: pageIndex < lastPageIndex,
+				canNavigateToLastPage: pageIndex < lastPageIndex,
+			});
+		}
 		this._options.onChangeViewStats(viewStats);
 	}
 
+	/**
+	 * @param {'markup' | 'final' | 'original'} mode
+	 */
+	setRevisionMode(mode) {
+		if (!REVISION_MODES.includes(mode)) {
+			throw new Error(`Invalid revision mode: ${mode}`);
+		}
+		this._revisionMode = mode;
+		if (this._contentContainer) {
+			this._contentContainer.dataset.revisionMode = mode;
+		}
+		this._repaginate();
+		this._handleViewUpdate();
+		this._updateViewState();
+		this._updateViewStats();
+	}
+
+	/**
+	 * @param {'continuous' | 'paged'} mode
+	 */
+	setLayoutMode(mode) {
+		if (!LAYOUT_MODES.includes(mode)) {
+			throw new Error(`Invalid layout mode: ${mode}`);
+		}
+		this._layoutMode = mode;
+		this._keepPosition(() => this._paginate());
+		this._handleViewUpdate();
+	}
+
+	/**
+	 * Lay the pages out again after something changed the size of the content
+	 */
+	_repaginate() {
+		if (this._layoutMode !== 'paged') {
+			return;
+		}
+		this._keepPosition(() => this._paginate());
+		this._handleViewUpdate();
+	}
+
+	_canPaginate() {
+		return !!this._contentContainer?.querySelector(':scope > .docx-document > .docx-section');
+	}
+
+	/**
+	 * Lay the document out on pages sized by its sections' page properties when in paged layout,
+	 * pushing blocks that don't fit on a page to the next one. Only inline styles change, so
+	 * annotation selectors work the same in both layouts.
+	 */
+	_paginate() {
+		if (!this._contentContainer) {
+			return;
+		}
+		let container = this._contentContainer;
+		for (let [element, style] of this._paginationStyles) {
+			Object.assign(element.style, style);
+		}
+		this._paginationStyles.clear();
+		container.querySelector(':scope > .docx-pages')?.remove();
+		this._pages = [];
+
+		let paged = this._layoutMode === 'paged' && this._canPaginate();
+		container.dataset.layoutMode = paged ? 'paged' : 'continuous';
+		this._iframeDocument.body.classList.toggle('docx-paged', paged);
+		if (!paged) {
+			this._pageIndex = 0;
+			return;
+		}
+
+		let setStyle = (element, style) => {
+			let originalStyle = this._paginationStyles.get(element) || {};
+			for (let property of Object.keys(style)) {
+				if (!(property in originalStyle)) {
+					originalStyle[property] = element.style[property];
+				}
+			}
+			this._paginationStyles.set(element, originalStyle);
+			Object.assign(element.style, style);
+		};
+
+		// Sections without page properties (endnotes) continue on the previous section's pages
+		let sections = [];
+		let size = DEFAULT_PAGE_SIZE;
+		for (let element of container.querySelectorAll(':scope > .docx-document > section')) {
+			let newPage = element.classList.contains('docx-section') && !element.classList.contains('docx-section-continuous');
+			if (element.dataset.pageWidth || element.dataset.pageHeight) {
+				size = getPageSize(element);
+			}
+			sections.push({ element, size, newPage: newPage || !sections.length });
+		}
+		let width = Math.max(...sections.map(section => section.size.pageWidth));
+		setStyle(container, { width: `${width}px` });
+		for (let { element, size } of sections) {
+			setStyle(element, {
+				width: `${size.pageWidth - size.marginLeft - size.marginRight}px`,
+				marginLeft: `${(width - size.pageWidth) / 2 + size.marginLeft}px`
+			});
+		}
+
+		// Blocks are pushed onto the next page by growing their top margins. Every block is
+		// measured before any push is written, so the document is only laid out again once per
+		// round rather than once per push. Margins can collapse with their neighbours' and absorb
+		// part of a push, so rounds repeat until nothing needs to move.
+		for (let section of sections) {
+			section.units = getLayoutUnits(section.element, this._iframeWindow);
+			section.pageBreaks = new Map(section.units.map(unit => [
+				unit,
+				unit === section.element ? [] : [...unit.querySelectorAll('.docx-page-break')]
+			]));
+		}
+		let scale = container.getBoundingClientRect().width / container.offsetWidth || 1;
+		let measure = () => {
+			let containerTop = container.getBoundingClientRect().top;
+			let positions = new Map();
+			let add = (element) => {
+				let rect = element.getBoundingClientRect();
+				positions.set(element, {
+					top: (rect.top - containerTop) / scale,
+					bottom: (rect.bottom - containerTop) / scale
+				});
+			};
+			for (let section of sections) {
+				for (let unit of section.units) {
+					add(unit);
+					for (let pageBreak of section.pageBreaks.get(unit)) {
+						if (pageBreak.getClientRects().length) {
+							add(pageBreak);
+						}
+					}
+				}
+			}
+			return positions;
+		};
+
+		// Pages for measured positions, and the pushes and page break heights that lay them out
+		let layOut = (positions) => {
+			let pages = [];
+			let pushes = new Map();
+			let breakHeights = new Map();
+			let page = null;
+			// How far the pushes so far move everything below them
+			let shift = 0;
+			let addPage = (size, sectionStart) => {
+				let top = page ? page.top + page.height + PAGE_GAP : PAGE_GAP;
+				page = {
+					top,
+					height: size.pageHeight,
+					contentTop: top + size.marginTop,
+					contentBottom: top + size.pageHeight - size.marginBottom,
+					size,
+					sectionStart
+				};
+				pages.push(page);
+			};
+
+			for (let section of sections) {
+				if (section.newPage) {
+					addPage(section.size, true);
+				}
+				for (let unit of section.units) {
+					let { top, bottom } = positions.get(unit);
+					top += shift;
+					bottom += shift;
+					let pageBreaks = section.pageBreaks.get(unit).filter(pageBreak => positions.has(pageBreak));
+					let startsPage = top <= page.contentTop + 1;
+					let fits = bottom <= page.contentBottom + 1;
+					let fitsOnPage = bottom - top <= section.size.pageHeight - section.size.marginTop - section.size.marginBottom;
+					if (!startsPage && (unit.classList.contains('docx-page-break-before') || !fits && fitsOnPage && !pageBreaks.length)) {
+						addPage(section.size, false);
+					}
+					if (page.contentTop - top > 0.5) {
+						pushes.set(unit, page.contentTop - top);
+						shift += page.contentTop - top;
+						bottom += page.contentTop - top;
+					}
+					for (let pageBreak of pageBreaks) {
+						let { top: breakTop, bottom: breakBottom } = positions.get(pageBreak);
+						let height = breakBottom - breakTop;
+						addPage(section.size, false);
+						let newHeight = page.contentTop - (breakTop + shift);
+						if (Math.abs(newHeight - height) > 0.5) {
+							breakHeights.set(pageBreak, newHeight);
+							shift += newHeight - height;
+							bottom += newHeight - height;
+						}
+					}
+					// Blocks taller than a page run over onto the following pages
+					while (bottom > page.contentBottom + 1) {
+						addPage(section.size, false);
+					}
+				}
+			}
+			return { pages, pushes, breakHeights };
+		};
+
+		let pages;
+		for (let round = 0; round < MAX_PAGINATION_ROUNDS; round++) {
+			let { pushes, breakHeights, ...layout } = layOut(measure());
+			pages = layout.pages;
+			if (!pushes.size && !breakHeights.size) {
+				break;
+			}
+			let margins = [...pushes.keys()].map(unit => parseFloat(this._iframeWindow.getComputedStyle(unit).marginTop) || 0);
+			[...pushes].forEach(([unit, push], i) => setStyle(unit, { marginTop: `${margins[i] + push}px` }));
+			for (let [pageBreak, height] of breakHeights) {
+				setStyle(pageBreak, { height: `${height}px` });
+			}
+		}
+
+		let number = 0;
+		for (let page of pages) {
+			let { pageNumberStart, pageNumberFormat } = page.size;
+			number = page.sectionStart && pageNumberStart !== undefined ? pageNumberStart : number + 1;
+			page.label = formatNumber(number, pageNumberFormat);
+		}
+		let lastPage = pages[pages.length - 1];
+		setStyle(container, { minHeight: `${lastPage.top + lastPage.height + PAGE_GAP}px` });
+
+		let pagesElement = this._iframeDocument.createElement('aside');
+		pagesElement.className = 'docx-pages';
+		pagesElement.setAttribute('aria-hidden', 'true');
+		for (let { top, height, size, label } of pages) {
+			let pageElement = this._iframeDocument.createElement('div');
+			pageElement.className = 'docx-page';
+			pageElement.dataset.pageLabel = label;
+			Object.assign(pageElement.style, {
+				top: `${top}px`,
+				left: `${(width - size.pageWidth) / 2}px`,
+				width: `${size.pageWidth}px`,
+				height: `${height}px`
+			});
+			pageElement.style.setProperty('--page-margin-bottom', `${size.marginBottom}px`);
+			pagesElement.append(pageElement);
+		}
+		container.prepend(pagesElement);
+
+		this._pages = pages.map(({ top, height, label }) => ({ top, height, label }));
+		this._pageIndex = Math.min(this._pageIndex, pages.length - 1);
+		this._updatePageIndex();
+	}
+
+	/**
+	 * Get the page that a point in the content, in CSS pixels from its top, falls on
+	 */
+	_getPageIndexAt(y) {
+		let index = 0;
+		for (let [i, page] of this._pages.entries()) {
+			if (page.top - PAGE_GAP <= y) {
+				index = i;
+			}
+		}
+		return index;
+	}
+
+	_getContentOffset(clientY) {
+		let rect = this._contentContainer.getBoundingClientRect();
+		let scale = rect.width / this._contentContainer.offsetWidth || 1;
+		return (clientY - rect.top) / scale;
+	}
+
+	/**
+	 * Track the page at the top third of the viewport
+	 */
+	_updatePageIndex() {
+		if (!this._pages.length) {
+			return false;
+		}
+		let pageIndex = this._getPageIndexAt(this._getContentOffset(this._iframeWindow.innerHeight / 3));
+		if (pageIndex === this._pageIndex) {
+			return false;
+		}
+		this._pageIndex = pageIndex;
+		return true;
+	}
+
+	_getPageLabel(range) {
+		if (!this._pages.length) {
+			return undefined;
+		}
+		let rect = range.getBoundingClientRect();
+		return this._pages[this._getPageIndexAt(this._getContentOffset(rect.top))].label;
+	}
+
+	/**
+	 * Keep the content at the top of the viewport in place while the layout changes
+	 */
+	_keepPosition(callback) {
+		let rect = this._contentContainer?.getBoundingClientRect();
+		let element = rect && this._iframeDocument.elementFromPoint(rect.left + rect.width / 2, Math.max(rect.top, 0) + 1);
+		let anchor = element && element !== this._contentContainer && this._contentContainer.contains(element) ? element : null;
+		let top = anchor?.getBoundingClientRect().top;
+		callback();
+		if (anchor && anchor.isConnected) {
+			this._iframeWindow.scrollBy(0, anchor.getBoundingClientRect().top - top);
+		}
+	}
+
+	navigateToPage(pageIndex, options = {}) {
+		let page = this._pages[pageIndex];
+		if (!page) {
+			return;
+		}
+		let rect = this._contentContainer.getBoundingClientRect();
+		let scale = rect.width / this._contentContainer.offsetWidth || 1;
+		this._iframeWindow.scrollTo({
+			top: this._iframeWindow.scrollY + rect.top + (page.top - PAGE_GAP) * scale,
+			behavior: options.behavior || 'auto'
+		});
+	}
+
+	navigateToFirstPage() {
+		this.navigateToPage(0);
+	}
+
+	navigateToLastPage() {
+		this.navigateToPage(this._pages.length - 1);
+	}
+
+	navigateToPreviousPage() {
+		this.navigateToPage(this._pageIndex - 1);
+	}
+
+	navigateToNextPage() {
+		this.navigateToPage(this._pageIndex + 1);
+	}
+
+	navigate(location, options = {}) {
+		if (location.pageNumber && this._pages.length) {
+			// A page label, or the page's number if no page has that label
+			let pageIndex = this._pages.findIndex(page => page.label === location.pageNumber);
+			if (pageIndex === -1) {
+				pageIndex = parseInt(location.pageNumber) - 1;
+			}
+			this.navigateToPage(pageIndex, options);
+			return;
+		}
+		super.navigate(location, options);
+	}
+
+	_handleScroll(event) {
+		super._handleScroll(event);
+		if (this._updatePageIndex()) {
+			this._updateViewStats();
+		}
+	}
+
+	getDOCXCommentStats() {
+		let dates = this._comments.map(comment => comment.date && new Date(comment.date))
+			.filter(date => date && !isNaN(date.getTime()));
+		return {
+			count: this._comments.length,
+			lastModified: dates.length ? dates.reduce((max, cur) => (cur > max ? cur : max)) : undefined,
+		};
+	}
+
+	/**
+	 * Import Word comments as highlight annotations of the text they're on,
+	 * with the comment's author as the annotation's (non-authoritative) author.
+	 * Comments imported before update their annotations' comments.
+	 */
+	importAnnotationsFromDOCXComments() {
+		let color = ANNOTATION_COLORS[0][1];
+		for (let comment of this._comments) {
+			let range = this._getCommentRange(comment.id);
+			let annotation = range && this._getAnnotationFromRange(range, 'highlight', color);
+			if (!annotation) {
+				console.warn('Unable to resolve comment range', comment);
+				continue;
+			}
+			annotation.comment = comment.text;
+			annotation.authorName = comment.author;
+			annotation.isAuthorNameAuthoritative = false;
+			annotation.docxCommentID = comment.id;
+			this._upsertAnnotation(annotation);
+		}
+	}
+
+	_getCommentRange(id) {
+		let escapedID = CSS.escape(id);
+		let start = this._contentContainer.querySelector(`.docx-comment-start[data-comment-id="${escapedID}"]`);
+		let end = this._contentContainer.querySelector(`.docx-comment-end[data-comment-id="${escapedID}"]`);
+		if (!start || !end) {
+			return null;
+		}
+		let range = this._iframeDocument.createRange();
+		range.setStartAfter(start);
+		range.setEndBefore(end);
+		return range.collapsed ? null : range;
+	}
+
+	/**
+	 * The original .docx file with annotations added as Word comments.
+	 * Annotations imported from the file's own comments update those comments instead.
+	 *
+	 * @param {WADMAnnotation[]} annotations
+	 * @returns {Promise<Uint8Array>}
+	 */
+	async exportAnnotationsToDOCX(annotations) {
+		if (!this._buf) {
+			throw new Error('DOCXView: exporting requires the original .docx file');
+		}
+		await this.initializedPromise;
+		let comments = [];
+		let commentIDs = new Set(this._comments.map(comment => comment.id));
+		for (let annotation of annotations) {
+			if (!COMMENT_ANNOTATION_TYPES.includes(annotation.type)) {
+				continue;
+			}
+			if (commentIDs.has(annotation.docxCommentID)) {
+				comments.push({ id: annotation.docxCommentID, text: annotation.comment || '' });
+				continue;
+			}
+			let range = this.toDisplayedRange(annotation.position);
+			range = range && moveRangeEndsIntoTextNodes(range);
+			let start = range && this._getDOCXTextPoint(range.startContainer, range.startOffset, false);
+			let end = range && this._getDOCXTextPoint(range.endContainer, range.endOffset, true);
+			if (!start || !end) {
+				console.warn('Unable to map annotation to the document', annotation);
+				continue;
+			}
+			comments.push({
+				start,
+				end,
+				author: annotation.authorName || '',
+				date: annotation.dateModified || annotation.dateCreated,
+				text: annotation.comment || '',
+			});
+		}
+		return exportCommentsToDOCX(this._buf, comments);
+	}
+
+	/**
+	 * Position in the main document's text elements for a position in the rendered document.
+	 * Positions outside them (in list numbers, tabs, notes, ...) move to the nearest text after
+	 * a start or before an end.
+	 */
+	_getDOCXTextPoint(node, offset, isEnd) {
+		let getTextElement = node => node.nodeType === Node.TEXT_NODE && node.parentElement.closest('[data-docx-t]');
+		let element = getTextElement(node);
+		if (element) {
+			return { index: Number(element.dataset.docxT), offset };
+		}
+		let walker = this._iframeDocument.createTreeWalker(this._contentContainer, NodeFilter.SHOW_TEXT);
+		walker.currentNode = node;
+		let next;
+		while ((next = isEnd ? walker.previousNode() : walker.nextNode())) {
+			element = getTextElement(next);
+			if (element) {
+				return { index: Number(element.dataset.docxT), offset: isEnd ? next.length : 0 };
+			}
+		}
+		return null;
+	}
+
+	_upsertAnnotation(annotation) {
+		let existingAnnotation = this._annotations.find(
+			existingAnnotation => existingAnnotation.docxCommentID === annotation.docxCommentID
+		);
+		if (existingAnnotation) {
+			this._options.onUpdateAnnotations([{
+				...existingAnnotation,
+				comment: annotation.comment,
+			}]);
+		}
+		else {
+			this._options.onAddAnnotation(annotation);
+		}
+	}
+
+	_handlePointerOverInternalLink(link) {
+		let element = this._getNoteElement(link);
+		if (element) {
+			this._overlayPopupDelayer.open(link, () => {
+				this._openFootnoteOverlayPopup(link, element);
+			});
+		}
+		else {
+			this._overlayPopupDelayer.close(() => {
+				this._options.onSetOverlayPopup();
+			});
+		}
+	}
+
+	_handlePointerLeftInternalLink() {
+		this._overlayPopupDelayer.close(() => {
+			this._options.onSetOverlayPopup();
+		});
+	}
+
+	/**
+	 * Footnote or endnote that a note reference link points to
+	 */
+	_getNoteElement(link) {
+		if (!link.classList.contains('docx-note-ref')) {
+			return null;
+		}
+		let href = link.getAttribute('href');
+		if (!href || !href.startsWith('#')) {
+			return null;
+		}
+		return this._iframeDocument.getElementById(href.slice(1));
+	}
+
+	/**
+	 * Show a note in the same popup EPUBView uses for footnotes. The note stays in the document,
+	 * so it can still be found and annotated where it is.
+	 */
+	_openFootnoteOverlayPopup(link, element) {
+		let doc = document.implementation.createHTMLDocument();
+		doc.documentElement.dataset.colorScheme = this._iframeDocument.documentElement.dataset.colorScheme;
+
+		let css = '';
+		for (let sheet of [...this._iframeDocument.styleSheets, ...this._iframeDocument.adoptedStyleSheets]) {
+			for (let rule of sheet.cssRules) {
+				css += rule.cssText + '\n\n';
+			}
+		}
+		let rootStyle = this._iframeDocument.documentElement.style;
+		css += `
+			:root {
+				--selection-color: ${rootStyle.getPropertyValue('--selection-color')};
+				--background-color: ${rootStyle.getPropertyValue('--background-color')};
+				--text-color: ${rootStyle.getPropertyValue('--text-color')};
+				--border-color: ${rootStyle.getPropertyValue('--border-color')};
+			}
+		`;
+
+		let cspMeta = doc.createElement('meta');
+		cspMeta.setAttribute('http-equiv', 'Content-Security-Policy');
+		cspMeta.setAttribute('content', this._getCSP());
+		doc.head.prepend(cspMeta);
+
+		// Keep the note's ancestors up to the content container so document styles still apply
+		let clone = element.cloneNode(true);
+		Object.assign(clone.style, this._paginationStyles.get(element));
+		for (let parent = element.parentElement; parent && parent !== this._iframeDocument.body; parent = parent.parentElement) {
+			let parentClone = parent.cloneNode(false);
+			parentClone.removeAttribute('style');
+			parentClone.append(clone);
+			clone = parentClone;
+		}
+		for (let noteLink of clone.querySelectorAll('a')) {
+			if (!this._isExternalLink(noteLink)) {
+				noteLink.removeAttribute('href');
+			}
+		}
+		doc.body.append(clone);
+		let content = new XMLSerializer().serializeToString(doc);
+
+		let domRect = link.getBoundingClientRect();
+		let rect = [domRect.left, domRect.top, domRect.right, domRect.bottom];
+
+		this._options.onSetOverlayPopup({
+			type: 'footnote',
+			content,
+			css,
+			rect,
+			ref: link
+		});
+	}
+
 	_handleInternalLinkClick(link) {
 		const href = link.getAttribute('href');
 		if (!href) {
 			return;
 		}
 		
+		let noteElement = this._getNoteElement(link);
+		if (noteElement) {
+			this._openFootnoteOverlayPopup(link, noteElement);
+			return;
+		}
+		
 		// Handle internal links (anchors)
 		if (href.startsWith('#')) {
 			const element = this._contentContainer.querySelector(href);
@@ -680,6 +1339,7 @@ class DOCXView extends DOMView {
 			this._contentContainer.style.fontFamily = fontFamily || '';
 		}
 		super.setFontFamily(fontFamily);
+		this._repaginate();
 	}
 
 	setHyphenate(hyphenate) {
@@ -687,6 +1347,12 @@ class DOCXView extends DOMView {
 			this._contentContainer.style.hyphens = hyphenate ? 'auto' : 'none';
 		}
 		super.setHyphenate(hyphenate);
+		this._repaginate();
+	}
+
+	setAppearance(partialAppearance) {
+		super.setAppearance(partialAppearance);
+		this._repaginate();
 	}
 
 	/**
@@ -1570,5 +2236,58 @@ class DOCXView extends DOMView {
 	}
 }
 
-export default DOCXView;
+/**
+ * Page size and margins of a converted section, in CSS pixels, and how its pages are numbered
+ */
+function getPageSize(section) {
+	let size = { ...DEFAULT_PAGE_SIZE };
+	for (let key of Object.keys(size)) {
+		let value = Number(section.dataset[key]);
+		if (section.dataset[key] && Number.isFinite(value)) {
+			size[key] = value;
+		}
+	}
+	// Ignore margins that leave no room for the content
+	if (size.pageWidth - size.marginLeft - size.marginRight < size.pageWidth / 4
+			|| size.pageHeight - size.marginTop - size.marginBottom < size.pageHeight / 4) {
+		Object.assign(size, {
+			marginTop: DEFAULT_PAGE_SIZE.marginTop,
+			marginRight: DEFAULT_PAGE_SIZE.marginRight,
+			marginBottom: DEFAULT_PAGE_SIZE.marginBottom,
+			marginLeft: DEFAULT_PAGE_SIZE.marginLeft
+		});
+	}
+	if (section.dataset.pageNumberStart) {
+		size.pageNumberStart = Number(section.dataset.pageNumberStart);
+	}
+	size.pageNumberFormat = section.dataset.pageNumberFormat;
+	return size;
+}
+
+/**
+ * Blocks of a section that pagination can move to the next page: paragraphs, tables,
+ * list items and notes. Multi-column sections are kept together.
+ */
+function getLayoutUnits(section, win) {
+	if (parseInt(section.style.columnCount) > 1) {
+		return [section];
+	}
+	let units = [];
+	let addUnits = (parent) => {
+		for (let element of parent.children) {
+			if (!element.getClientRects().length || win.getComputedStyle(element).display.startsWith('inline')) {
+				continue;
+			}
+			if (['UL', 'OL'].includes(element.tagName) || element.classList.contains('docx-notes')) {
+				addUnits(element);
+			}
+			else {
+				units.push(element);
+			}
+		}
+	};
+	addUnits(section);
+	return units;
+}
 
+export default DOCXView;
@@ -0,0 +1,298 @@
+/**
+ * Writing annotations into a .docx file as Word comments
+ * Comments are anchored to the main document's text elements (see getTextElements()), splitting
+ * runs where a comment starts or ends inside them.
+ */
+
+import JSZip from 'jszip';
+import { NS, getTextElements, getDirectory, localName, elementChildren, getAttr } from './docx-to-html';
+
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const COMMENTS_REL_TYPE = `${REL_TYPE}/comments`;
+const COMMENTS_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml';
+const CONTENT_TYPES_NS = 'http://schemas.openxmlformats.org/package/2006/content-types';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\r\n';
+
+/**
+ * @typedef {Object} DOCXTextPoint
+ * @property {number} index Index of the text element in the main document
+ * @property {number} offset Offset into the element's text
+ */
+
+/**
+ * @typedef {Object} DOCXComment
+ * @property {string} [id] ID of a comment already in the file to update instead of adding one,
+ *   in which case only text is used
+ * @property {DOCXTextPoint} [start]
+ * @property {DOCXTextPoint} [end] Exclusive
+ * @property {string} [author]
+ * @property {string} [date] ISO 8601
+ * @property {string} text Plain text, one paragraph per line
+ */
+
+/**
+ * Add comments to a .docx file, or update the text of comments it already has
+ *
+ * @param {ArrayBuffer|Uint8Array} buf
+ * @param {DOCXComment[]} comments
+ * @returns {Promise<Uint8Array>}
+ */
+export async function exportCommentsToDOCX(buf, comments) {
+	let zip = await JSZip.loadAsync(buf);
+	let packageRels = await readXML(zip, '_rels/.rels');
+	let documentPath = 'word/document.xml';
+	for (let rel of elementChildren(packageRels?.documentElement)) {
+		if (rel.getAttribute('Type') === `${REL_TYPE}/officeDocument`) {
+			documentPath = rel.getAttribute('Target').replace(/^\//, '');
+		}
+	}
+	let doc = await readXML(zip, documentPath);
+	if (!doc) {
+		throw new Error('DOCX: main document part not found');
+	}
+
+	let commentsPath = await getCommentsPath(zip, documentPath);
+	let commentsDoc = await readXML(zip, commentsPath);
+	if (!commentsDoc) {
+		commentsDoc = new DOMParser().parseFromString(`<w:comments xmlns:w="${NS.w}"/>`, 'application/xml');
+	}
+
+	// New comments get IDs above all that the document's markup (bookmarks, revisions, comments) uses
+	let nextID = 0;
+	for (let element of [doc, commentsDoc].flatMap(d => Array.from(d.getElementsByTagNameNS(NS.w, '*')))) {
+		let id = parseInt(getAttr(element, 'id'));
+		if (id >= nextID) {
+			nextID = id + 1;
+		}
+	}
+
+	let existingComments = new Map(
+		elementChildren(commentsDoc.documentElement)
+			.filter(element => localName(element) === 'comment')
+			.map(element => [getAttr(element, 'id'), element])
+	);
+	let textElements = getTextElements(doc);
+	let points = [];
+	let updated = false;
+	for (let comment of comments) {
+		let existingComment = comment.id !== undefined && existingComments.get(comment.id);
+		if (existingComment) {
+			updated = updateComment(commentsDoc, existingComment, comment.text) || updated;
+			continue;
+		}
+		let { start, end } = comment;
+		if (!start || !end || !textElements[start.index] || !textElements[end.index]
+				|| start.index > end.index || start.index === end.index && start.offset >= end.offset) {
+			continue;
+		}
+		let id = String(nextID++);
+		points.push({ ...start, id, type: 'start' }, { ...end, id, type: 'end' });
+		commentsDoc.documentElement.appendChild(createComment(commentsDoc, id, comment));
+	}
+	if (!points.length) {
+		if (updated) {
+			zip.file(commentsPath, serializeXML(commentsDoc));
+		}
+		return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+	}
+
+	// Last point first, so splitting a run never moves text a point that's still to come refers to.
+	// At the same point, the marker inserted last ends up first, so ends are inserted after starts.
+	points.sort((a, b) => b.index - a.index || b.offset - a.offset || (a.type === 'start' ? -1 : 1) - (b.type === 'start' ? -1 : 1));
+	for (let point of points) {
+		let marker = doc.createElementNS(NS.w, point.type === 'start' ? 'w:commentRangeStart' : 'w:commentRangeEnd');
+		marker.setAttributeNS(NS.w, 'w:id', point.id);
+		let nodes = [marker];
+		if (point.type === 'end') {
+			let referenceRun = doc.createElementNS(NS.w, 'w:r');
+			let reference = doc.createElementNS(NS.w, 'w:commentReference');
+			reference.setAttributeNS(NS.w, 'w:id', point.id);
+			referenceRun.appendChild(reference);
+			nodes.push(referenceRun);
+		}
+		insertAtTextPoint(textElements[point.index], point.offset, nodes);
+	}
+
+	zip.file(documentPath, serializeXML(doc));
+	zip.file(commentsPath, serializeXML(commentsDoc));
+	await addCommentsPart(zip, documentPath, commentsPath);
+	return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+/**
+ * Insert nodes next to the run containing a text element, at an offset into the text,
+ * splitting the run if the offset is inside it
+ */
+function insertAtTextPoint(textElement, offset, nodes) {
+	let run = textElement.parentNode;
+	let parent = run.parentNode;
+	let children = elementChildren(run);
+	let position = children.indexOf(textElement);
+	let isFirst = children.slice(0, position).every(element => localName(element) === 'rPr');
+	let isLast = position === children.length - 1;
+	let text = textElement.textContent;
+	let insert = (before) => {
+		for (let node of nodes) {
+			parent.insertBefore(node, before);
+		}
+	};
+
+	if (offset <= 0 && isFirst) {
+		insert(run);
+		return;
+	}
+	if (offset >= text.length && isLast) {
+		insert(run.nextSibling);
+		return;
+	}
+
+	let newRun = run.cloneNode(false);
+	let rPr = children.find(element => localName(element) === 'rPr');
+	if (rPr) {
+		newRun.appendChild(rPr.cloneNode(true));
+	}
+	let moved = children.slice(position + 1);
+	if (offset <= 0) {
+		moved.unshift(textElement);
+	}
+	else if (offset < text.length) {
+		let newTextElement = textElement.cloneNode(false);
+		textElement.textContent = text.slice(0, offset);
+		newTextElement.textContent = text.slice(offset);
+		for (let element of [textElement, newTextElement]) {
+			element.setAttributeNS(NS.xml, 'xml:space', 'preserve');
+		}
+		moved.unshift(newTextElement);
+	}
+	for (let element of moved) {
+		newRun.appendChild(element);
+	}
+	parent.insertBefore(newRun, run.nextSibling);
+	insert(newRun);
+}
+
+/**
+ * Replace a comment's paragraphs with plain text, unless it already has that text
+ *
+ * @returns {boolean} Whether the comment changed
+ */
+function updateComment(doc, comment, text) {
+	let paragraphs = Array.from(comment.getElementsByTagNameNS(NS.w, 'p'))
+		.map(p => Array.from(p.getElementsByTagNameNS(NS.w, 't')).map(t => t.textContent).join(''));
+	if (paragraphs.join('\n').trim() === (text || '').trim()) {
+		return false;
+	}
+	let newComment = createComment(doc, getAttr(comment, 'id'), { text });
+	for (let element of elementChildren(comment)) {
+		element.remove();
+	}
+	for (let element of elementChildren(newComment)) {
+		comment.appendChild(element);
+	}
+	return true;
+}
+
+function createComment(doc, id, { author, date, text }) {
+	let comment = doc.createElementNS(NS.w, 'w:comment');
+	comment.setAttributeNS(NS.w, 'w:id', id);
+	comment.setAttributeNS(NS.w, 'w:author', author || '');
+	let initials = (author || '').split(/\s+/)
+		.filter(Boolean)
+		.map(part => part[0].toUpperCase())
+		.join('');
+	if (initials) {
+		comment.setAttributeNS(NS.w, 'w:initials', initials);
+	}
+	if (date && !isNaN(new Date(date).getTime())) {
+		// Word doesn't accept fractional seconds
+		comment.setAttributeNS(NS.w, 'w:date', new Date(date).toISOString().replace(/\.\d+Z$/, 'Z'));
+	}
+
+	let lines = (text || '').split('\n');
+	lines.forEach((line, i) => {
+		let p = doc.createElementNS(NS.w, 'w:p');
+		if (i === 0) {
+			let refRun = doc.createElementNS(NS.w, 'w:r');
+			refRun.appendChild(doc.createElementNS(NS.w, 'w:annotationRef'));
+			p.appendChild(refRun);
+		}
+		if (line) {
+			let run = doc.createElementNS(NS.w, 'w:r');
+			let t = doc.createElementNS(NS.w, 'w:t');
+			t.setAttributeNS(NS.xml, 'xml:space', 'preserve');
+			t.textContent = line;
+			run.appendChild(t);
+			p.appendChild(run);
+		}
+		comment.appendChild(p);
+	});
+	return comment;
+}
+
+async function getCommentsPath(zip, documentPath) {
+	let rels = await readXML(zip, getRelsPath(documentPath));
+	let rel = elementChildren(rels?.documentElement).find(rel => rel.getAttribute('Type') === COMMENTS_REL_TYPE);
+	if (!rel) {
+		return `${getDirectory(documentPath)}comments.xml`;
+	}
+	let target = rel.getAttribute('Target');
+	return target.startsWith('/') ? target.slice(1) : getDirectory(documentPath) + target;
+}
+
+/**
+ * Make sure the comments part is related to the main document and has a content type
+ */
+async function addCommentsPart(zip, documentPath, commentsPath) {
+	let relsPath = getRelsPath(documentPath);
+	let rels = await readXML(zip, relsPath)
+		|| new DOMParser().parseFromString(`<Relationships xmlns="${NS.rel}"/>`, 'application/xml');
+	let relationships = elementChildren(rels.documentElement);
+	if (!relationships.some(rel => rel.getAttribute('Type') === COMMENTS_REL_TYPE)) {
+		let ids = new Set(relationships.map(rel => rel.getAttribute('Id')));
+		let n = relationships.length + 1;
+		while (ids.has(`rId${n}`)) {
+			n++;
+		}
+		let rel = rels.createElementNS(NS.rel, 'Relationship');
+		rel.setAttribute('Id', `rId${n}`);
+		rel.setAttribute('Type', COMMENTS_REL_TYPE);
+		rel.setAttribute('Target', commentsPath.slice(getDirectory(documentPath).length));
+		rels.documentElement.appendChild(rel);
+		zip.file(relsPath, serializeXML(rels));
+	}
+
+	let contentTypes = await readXML(zip, '[Content_Types].xml');
+	if (!contentTypes) {
+		throw new Error('DOCX: [Content_Types].xml not found');
+	}
+	let partName = `/${commentsPath}`;
+	if (!elementChildren(contentTypes.documentElement).some(element => element.getAttribute('PartName') === partName)) {
+		let override = contentTypes.createElementNS(CONTENT_TYPES_NS, 'Override');
+		override.setAttribute('PartName', partName);
+		override.setAttribute('ContentType', COMMENTS_CONTENT_TYPE);
+		contentTypes.documentElement.appendChild(override);
+		zip.file('[Content_Types].xml', serializeXML(contentTypes));
+	}
+}
+
+function getRelsPath(partPath) {
+	let dir = getDirectory(partPath);
+	return `${dir}_rels/${partPath.slice(dir.length)}.rels`;
+}
+
+async function readXML(zip, path) {
+	let file = zip.file(path);
+	if (!file) {
+		return null;
+	}
+	let doc = new DOMParser().parseFromString(await file.async('string'), 'application/xml');
+	if (doc.getElementsByTagName('parsererror').length) {
+		throw new Error(`DOCX: invalid XML in ${path}`);
+	}
+	return doc;
+}
+
+function serializeXML(doc) {
+	let xml = new XMLSerializer().serializeToString(doc);
+	return xml.startsWith('<?xml') ? xml : XML_DECLARATION + xml;
+}
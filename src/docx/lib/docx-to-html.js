@@ -0,0 +1,1411 @@
+/**
+ * DOCX to HTML conversion
+ * Reads the WordprocessingML parts of a .docx package and renders the main document
+ * as HTML, along with CSS for the paragraph and character styles it uses.
+ */
+
+import JSZip from 'jszip';
+import { convertOMMLToTeX } from './omml-to-tex';
+
+export const NS = {
+	w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+	r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+	wp: 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing',
+	a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+	v: 'urn:schemas-microsoft-com:vml',
+	m: 'http://schemas.openxmlformats.org/officeDocument/2006/math',
+	mc: 'http://schemas.openxmlformats.org/markup-compatibility/2006',
+	rel: 'http://schemas.openxmlformats.org/package/2006/relationships',
+	xml: 'http://www.w3.org/XML/1998/namespace',
+};
+
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const OFFICE_DOCUMENT_REL = `${REL_TYPE}/officeDocument`;
+
+const IMAGE_MIME_TYPES = {
+	png: 'image/png',
+	jpg: 'image/jpeg',
+	jpeg: 'image/jpeg',
+	gif: 'image/gif',
+	bmp: 'image/bmp',
+	tif: 'image/tiff',
+	tiff: 'image/tiff',
+	svg: 'image/svg+xml',
+	webp: 'image/webp',
+	emf: 'image/emf',
+	wmf: 'image/wmf',
+};
+
+const HIGHLIGHT_COLORS = {
+	black: '#000000',
+	blue: '#0000ff',
+	cyan: '#00ffff',
+	green: '#00ff00',
+	magenta: '#ff00ff',
+	red: '#ff0000',
+	yellow: '#ffff00',
+	white: '#ffffff',
+	darkBlue: '#000080',
+	darkCyan: '#008080',
+	darkGreen: '#008000',
+	darkMagenta: '#800080',
+	darkRed: '#800000',
+	darkYellow: '#808000',
+	darkGray: '#808080',
+	lightGray: '#c0c0c0',
+};
+
+const LIST_TYPES = {
+	decimal: '1',
+	decimalZero: '1',
+	lowerLetter: 'a',
+	upperLetter: 'A',
+	lowerRoman: 'i',
+	upperRoman: 'I',
+};
+
+// 1/20 pt
+const TWIPS_PER_POINT = 20;
+// English Metric Units per CSS pixel
+const EMU_PER_PIXEL = 9525;
+
+/**
+ * Convert a .docx file
+ *
+ * @param {ArrayBuffer|Uint8Array} buf
+ * @returns {Promise<{ html: string, styles: string }>}
+ */
+export async function convertDOCXToHTML(buf) {
+	let converter = new DOCXConverter();
+	await converter.load(buf);
+	return converter.convert();
+}
+
+export class DOCXConverter {
+	constructor() {
+		this._zip = null;
+		this._documentPath = 'word/document.xml';
+		this._document = null;
+		this._styles = new Map();
+		this._defaultParagraphStyleID = null;
+		this._docDefaults = { pPr: null, rPr: null };
+		this._numbering = { nums: new Map(), abstractNums: new Map() };
+		// Relationships of the part being converted, by ID
+		this._rels = new Map();
+		// data: URIs of images, by part path
+		this._images = new Map();
+		this._listCounters = new Map();
+		// Complex fields (w:fldChar) that are open, innermost last
+		this._fields = [];
+		// Footnote and endnote parts, with their notes by ID
+		this._notes = {
+			footnote: { notes: new Map(), rels: new Map(), format: 'decimal' },
+			endnote: { notes: new Map(), rels: new Map(), format: 'lowerRoman' },
+		};
+		// Numbers of the notes referenced so far, by ID
+		this._noteNumbers = { footnote: new Map(), endnote: new Map() };
+		// Referenced notes still to be rendered: footnotes at the end of their section,
+		// endnotes at the end of the document
+		this._pendingNotes = { footnote: [], endnote: [] };
+		this._currentNote = null;
+		// Note reference whose mark is the text of the next run (w:customMarkFollows)
+		this._customMarkReference = null;
+		// Comments by ID
+		this._comments = new Map();
+		this._hasRevisions = false;
+		// Positions of the main document's text elements, which rendered text is tagged with
+		// so that ranges in the rendered document can be mapped back to it
+		this._textIndexes = new Map();
+	}
+
+	async load(buf) {
+		this._zip = await JSZip.loadAsync(buf);
+
+		let packageRels = await this._readRelationships('');
+		for (let rel of packageRels.values()) {
+			if (rel.type === OFFICE_DOCUMENT_REL) {
+				this._documentPath = rel.target;
+			}
+		}
+		this._document = await this._readXML(this._documentPath);
+		if (!this._document) {
+			throw new Error('DOCX: main document part not found');
+		}
+		getTextElements(this._document).forEach((element, index) => this._textIndexes.set(element, index));
+
+		let partDir = getDirectory(this._documentPath);
+		this._rels = await this._readRelationships(this._documentPath);
+		for (let rel of this._rels.values()) {
+			if (rel.type === `${REL_TYPE}/styles`) {
+				this._loadStyles(await this._readXML(rel.target));
+			}
+			else if (rel.type === `${REL_TYPE}/numbering`) {
+				this._loadNumbering(await this._readXML(rel.target));
+			}
+			else if (rel.type === `${REL_TYPE}/footnotes` || rel.type === `${REL_TYPE}/endnotes`) {
+				await this._loadNotes(rel.type === `${REL_TYPE}/footnotes` ? 'footnote' : 'endnote', rel.target);
+			}
+			else if (rel.type === `${REL_TYPE}/comments`) {
+				this._loadComments(await this._readXML(rel.target));
+			}
+		}
+		if (!this._styles.size) {
+			this._loadStyles(await this._readXML(`${partDir}styles.xml`));
+		}
+		await this._loadImages(this._rels);
+	}
+
+	convert() {
+		let body = child(this._document.documentElement, 'body');
+		if (!body) {
+			return { html: '', styles: '', comments: [], hasRevisions: false };
+		}
+
+		// A section ends with the paragraph holding its properties;
+		// the last section's properties are the body's final child
+		let sections = [];
+		let blocks = [];
+		for (let block of this._getBlocks(body)) {
+			if (localName(block) === 'sectPr') {
+				sections.push({ blocks, sectPr: block });
+				blocks = [];
+				continue;
+			}
+			blocks.push(block);
+			let sectPr = localName(block) === 'p' && child(child(block, 'pPr'), 'sectPr');
+			if (sectPr) {
+				sections.push({ blocks, sectPr });
+				blocks = [];
+			}
+		}
+		if (blocks.length) {
+			sections.push({ blocks, sectPr: null });
+		}
+
+		let bodySectPr = sections.length && sections[sections.length - 1].sectPr;
+		for (let [type, { format }] of Object.entries(this._notes)) {
+			let numFmt = getVal(child(child(bodySectPr, `${type}Pr`), 'numFmt'));
+			this._notes[type].format = numFmt || format;
+		}
+
+		let html = sections.map(({ blocks, sectPr }) => {
+			let { attributes, style, continuous } = getSectionProperties(sectPr);
+			let className = 'docx-section' + (continuous ? ' docx-section-continuous' : '');
+			let content = this._convertBlocks(blocks);
+			let footnotes = this._convertPendingNotes('footnote');
+			if (footnotes) {
+				content += `\n<aside class="docx-notes docx-footnotes">\n${footnotes}\n</aside>`;
+			}
+			return `<section class="${className}"${attributes}${style ? ` style="${style}"` : ''}>\n${content}\n</section>`;
+		}).join('\n');
+		let endnotes = this._convertPendingNotes('endnote');
+		if (endnotes) {
+			html += `\n<section class="docx-notes docx-endnotes">\n${endnotes}\n</section>`;
+		}
+
+		return {
+			html: `<div class="docx-document">\n${html}\n</div>`,
+			styles: this._getStylesCSS(),
+			comments: [...this._comments.values()],
+			hasRevisions: this._hasRevisions,
+		};
+	}
+
+	async _readXML(path) {
+		let file = this._zip.file(path);
+		if (!file) {
+			return null;
+		}
+		let text = await file.async('string');
+		let doc = new DOMParser().parseFromString(text, 'application/xml');
+		if (doc.getElementsByTagName('parsererror').length) {
+			throw new Error(`DOCX: invalid XML in ${path}`);
+		}
+		return doc;
+	}
+
+	/**
+	 * Relationships of a part (or of the package, for ''), with targets resolved to part paths
+	 */
+	async _readRelationships(partPath) {
+		let dir = getDirectory(partPath);
+		let name = partPath.slice(dir.length);
+		let doc = await this._readXML(`${dir}_rels/${name}.rels`);
+		let rels = new Map();
+		if (!doc) {
+			return rels;
+		}
+		for (let rel of children(doc.documentElement, 'Relationship')) {
+			let target = rel.getAttribute('Target') || '';
+			let external = rel.getAttribute('TargetMode') === 'External';
+			rels.set(rel.getAttribute('Id'), {
+				type: rel.getAttribute('Type'),
+				target: external ? target : resolvePath(dir, target),
+				external,
+			});
+		}
+		return rels;
+	}
+
+	async _loadImages(rels) {
+		for (let rel of rels.values()) {
+			if (rel.external || rel.type !== `${REL_TYPE}/image` || this._images.has(rel.target)) {
+				continue;
+			}
+			let file = this._zip.file(rel.target);
+			if (!file) {
+				continue;
+			}
+			let extension = rel.target.split('.').pop().toLowerCase();
+			let mimeType = IMAGE_MIME_TYPES[extension] || 'application/octet-stream';
+			this._images.set(rel.target, `data:${mimeType};base64,${await file.async('base64')}`);
+		}
+	}
+
+	_loadStyles(doc) {
+		if (!doc) {
+			return;
+		}
+		let root = doc.documentElement;
+		let docDefaults = child(root, 'docDefaults');
+		this._docDefaults = {
+			pPr: child(child(docDefaults, 'pPrDefault'), 'pPr'),
+			rPr: child(child(docDefaults, 'rPrDefault'), 'rPr'),
+		};
+		for (let style of children(root, 'style')) {
+			let id = getAttr(style, 'styleId');
+			if (!id) {
+				continue;
+			}
+			let type = getAttr(style, 'type');
+			this._styles.set(id, {
+				id,
+				type,
+				name: getVal(child(style, 'name')) || id,
+				basedOn: getVal(child(style, 'basedOn')),
+				pPr: child(style, 'pPr'),
+				rPr: child(style, 'rPr'),
+				tblPr: child(style, 'tblPr'),
+			});
+			if (type === 'paragraph' && isOn(getAttr(style, 'default'))) {
+				this._defaultParagraphStyleID = id;
+			}
+		}
+	}
+
+	_loadNumbering(doc) {
+		if (!doc) {
+			return;
+		}
+		for (let abstractNum of children(doc.documentElement, 'abstractNum')) {
+			let levels = new Map();
+			for (let lvl of children(abstractNum, 'lvl')) {
+				levels.set(Number(getAttr(lvl, 'ilvl')) || 0, {
+					format: getVal(child(lvl, 'numFmt')) || 'decimal',
+					start: Number(getVal(child(lvl, 'start')) ?? 1),
+				});
+			}
+			this._numbering.abstractNums.set(getAttr(abstractNum, 'abstractNumId'), levels);
+		}
+		for (let num of children(doc.documentElement, 'num')) {
+			let startOverrides = new Map();
+			for (let override of children(num, 'lvlOverride')) {
+				let start = getVal(child(override, 'startOverride'));
+				if (start !== null) {
+					startOverrides.set(Number(getAttr(override, 'ilvl')) || 0, Number(start));
+				}
+			}
+			this._numbering.nums.set(getAttr(num, 'numId'), {
+				abstractNumID: getVal(child(num, 'abstractNumId')),
+				startOverrides,
+			});
+		}
+	}
+
+	async _loadNotes(type, path) {
+		let doc = await this._readXML(path);
+		if (!doc) {
+			return;
+		}
+		let rels = await this._readRelationships(path);
+		await this._loadImages(rels);
+		let notes = new Map();
+		for (let note of children(doc.documentElement, type)) {
+			// Separators and continuation notices aren't notes
+			let noteType = getAttr(note, 'type');
+			if (!noteType || noteType === 'normal') {
+				notes.set(getAttr(note, 'id'), note);
+			}
+		}
+		this._notes[type] = { ...this._notes[type], notes, rels };
+	}
+
+	/**
+	 * Comments as plain text, one line per paragraph
+	 */
+	_loadComments(doc) {
+		if (!doc) {
+			return;
+		}
+		for (let comment of children(doc.documentElement, 'comment')) {
+			let paragraphs = this._getBlocks(comment)
+				.filter(block => localName(block) === 'p')
+				.map(p => Array.from(p.getElementsByTagNameNS(NS.w, 't')).map(t => t.textContent).join(''));
+			let id = getAttr(comment, 'id');
+			this._comments.set(id, {
+				id,
+				author: getAttr(comment, 'author') || '',
+				initials: getAttr(comment, 'initials') || '',
+				date: getAttr(comment, 'date') || null,
+				text: paragraphs.join('\n').trim(),
+			});
+		}
+	}
+
+	/**
+	 * Block-level content of a container (body, table cell, text box, ...), with structured
+	 * document tags and other wrappers flattened
+	 */
+	_getBlocks(container) {
+		let blocks = [];
+		for (let node of elementChildren(container)) {
+			switch (localName(node)) {
+				case 'p':
+				case 'tbl':
+				case 'sectPr':
+					blocks.push(node);
+					break;
+				case 'sdt':
+					blocks.push(...this._getBlocks(child(node, 'sdtContent')));
+					break;
+				case 'customXml':
+				case 'ins':
+				case 'moveTo':
+					blocks.push(...this._getBlocks(node));
+					break;
+				case 'AlternateContent':
+					blocks.push(...this._getBlocks(chooseAlternateContent(node)));
+					break;
+			}
+		}
+		return blocks;
+	}
+
+	/**
+	 * Convert paragraphs and tables, grouping list paragraphs into lists
+	 */
+	_convertBlocks(blocks) {
+		let html = [];
+		let lists = [];
+		let closeLists = (depth) => {
+			while (lists.length > depth) {
+				html.push(`</li></${lists.pop().tag}>`);
+			}
+		};
+
+		for (let block of blocks) {
+			let numbering = localName(block) === 'p' && this._getParagraphNumbering(block);
+			if (!numbering) {
+				closeLists(0);
+				html.push(this._convertBlock(block));
+				continue;
+			}
+
+			let { numID, level, format, start } = numbering;
+			let tag = format === 'bullet' || format === 'none' ? 'ul' : 'ol';
+			closeLists(level + 1);
+			let current = lists[level];
+			if (current && (current.numID !== numID || current.tag !== tag)) {
+				closeLists(level);
+				current = null;
+			}
+			if (current) {
+				html.push('</li>');
+			}
+			while (lists.length <= level) {
+				let listLevel = lists.length;
+				let isItemLevel = listLevel === level;
+				let listTag = isItemLevel ? tag : 'ul';
+				let attributes = '';
+				if (isItemLevel && listTag === 'ol') {
+					attributes = ` start="${start}" type="${LIST_TYPES[format] || '1'}"`;
+				}
+				else if (isItemLevel && format === 'none') {
+					attributes = ' class="docx-list-plain"';
+				}
+				html.push(`<${listTag}${attributes}>`);
+				lists.push({ tag: listTag, numID: isItemLevel ? numID : null });
+				if (!isItemLevel) {
+					// Levels skipped in the document still need an item to nest in
+					html.push('<li class="docx-list-spacer">');
+				}
+			}
+			html.push(`<li>${this._convertBlock(block)}`);
+		}
+		closeLists(0);
+		return html.join('\n');
+	}
+
+	_convertBlock(block) {
+		switch (localName(block)) {
+			case 'p':
+				return this._convertParagraph(block);
+			case 'tbl':
+				return this._convertTable(block);
+			default:
+				return '';
+		}
+	}
+
+	/**
+	 * List numbering of a paragraph, advancing the list's counters; null if it's not in a list
+	 */
+	_getParagraphNumbering(p) {
+		let pPr = child(p, 'pPr');
+		let numPr = child(pPr, 'numPr');
+		let numID = getVal(child(numPr, 'numId'));
+		let level = Number(getVal(child(numPr, 'ilvl')));
+		if (numID === null || numID === undefined) {
+			// Numbering can come from the paragraph style
+			let style = this._getStyleChain(getVal(child(pPr, 'pStyle')) || this._defaultParagraphStyleID)
+				.find(style => child(style.pPr, 'numPr'));
+			let styleNumPr = child(style?.pPr, 'numPr');
+			numID = getVal(child(styleNumPr, 'numId'));
+			if (!Number.isFinite(level)) {
+				level = Number(getVal(child(styleNumPr, 'ilvl')));
+			}
+		}
+		if (numID === null || numID === undefined || numID === '0') {
+			return null;
+		}
+		level = Number.isFinite(level) ? Math.min(Math.max(level, 0), 8) : 0;
+
+		let num = this._numbering.nums.get(numID);
+		let levels = num && this._numbering.abstractNums.get(num.abstractNumID);
+		let definition = levels?.get(level) || { format: 'bullet', start: 1 };
+		let counters = this._listCounters.get(numID);
+		if (!counters) {
+			counters = [];
+			this._listCounters.set(numID, counters);
+		}
+		let start = num?.startOverrides.get(level) ?? definition.start;
+		counters[level] = counters[level] === undefined ? start : counters[level] + 1;
+		// Starting an item restarts the levels below it
+		counters.length = level + 1;
+		return { numID, level, format: definition.format, start: counters[level] };
+	}
+
+	_convertParagraph(p) {
+		let pPr = child(p, 'pPr');
+		let styleID = getVal(child(pPr, 'pStyle')) || this._defaultParagraphStyleID;
+		let headingLevel = this._getHeadingLevel(pPr, styleID);
+		let tag = headingLevel ? `h${headingLevel}` : 'p';
+
+		let classes = [];
+		if (styleID && this._styles.has(styleID)) {
+			classes.push(`docx-p-${getClassName(styleID)}`);
+		}
+		if (isOn(getVal(child(pPr, 'pageBreakBefore')), child(pPr, 'pageBreakBefore'))) {
+			classes.push('docx-page-break-before');
+		}
+		let style = pPr ? paragraphPropertiesToCSS(pPr) : '';
+		let dir = child(pPr, 'bidi') && isOn(getVal(child(pPr, 'bidi')), true) ? ' dir="rtl"' : '';
+
+		// A hyperlink field can continue from the previous paragraph
+		let content = this._fields.filter(field => field.link).map(field => this._openLink(field.link)).join('');
+		content += this._convertInline(p);
+		content += '</a>'.repeat(this._fields.filter(field => field.link).length);
+		if (!content.replace(/<(?!img|br)[^>]*>/g, '')) {
+			// Keep empty paragraphs from collapsing
+			content += '<br>';
+		}
+
+		// A paragraph that was inserted or deleted as a whole is hidden along with its text
+		let markRevision = elementChildren(child(pPr, 'rPr')).map(localName).find(name => name === 'ins' || name === 'del');
+		if (markRevision) {
+			let otherContent = content.replace(new RegExp(`<${markRevision} class="docx-[a-z]+"[^>]*>.*?</${markRevision}>`, 'gs'), '');
+			if (!otherContent.replace(/<(?!img)[^>]*>/g, '')) {
+				classes.push(markRevision === 'ins' ? 'docx-inserted-paragraph' : 'docx-deleted-paragraph');
+				this._hasRevisions = true;
+			}
+		}
+
+		let className = classes.length ? ` class="${classes.join(' ')}"` : '';
+		return `<${tag}${className}${style ? ` style="${style}"` : ''}${dir}>${content}</${tag}>`;
+	}
+
+	_getHeadingLevel(pPr, styleID) {
+		let outlineLevel = getVal(child(pPr, 'outlineLvl'));
+		for (let style of this._getStyleChain(styleID)) {
+			if (outlineLevel !== null && outlineLevel !== undefined) {
+				break;
+			}
+			outlineLevel = getVal(child(style.pPr, 'outlineLvl'));
+			let match = style.name.match(/^heading\s*(\d)$/i);
+			if (outlineLevel === null && match) {
+				outlineLevel = String(Number(match[1]) - 1);
+			}
+		}
+		let level = Number(outlineLevel);
+		// Level 9 is body text
+		if (outlineLevel === null || outlineLevel === undefined || !Number.isFinite(level) || level > 8) {
+			return 0;
+		}
+		return Math.min(level + 1, 6);
+	}
+
+	/**
+	 * Inline content of a paragraph or other run container
+	 */
+	_convertInline(container) {
+		let html = '';
+		for (let node of elementChildren(container)) {
+			html += this._convertInlineNode(node);
+		}
+		return html;
+	}
+
+	_convertInlineNode(node) {
+		switch (localName(node)) {
+			case 'r':
+				return this._convertRun(node);
+			case 'hyperlink': {
+				let href = null;
+				let id = getAttr(node, 'id', NS.r);
+				let anchor = getAttr(node, 'anchor');
+				if (id && this._rels.get(id)?.external) {
+					href = this._rels.get(id).target;
+				}
+				else if (anchor) {
+					href = `#${getBookmarkID(anchor)}`;
+				}
+				let content = this._convertInline(node);
+				return href ? `${this._openLink(href)}${content}</a>` : content;
+			}
+			case 'fldSimple': {
+				let link = getFieldLink(getAttr(node, 'instr') || '');
+				let content = this._convertInline(node);
+				return link ? `${this._openLink(link)}${content}</a>` : content;
+			}
+			case 'bookmarkStart': {
+				let name = getAttr(node, 'name');
+				return name && name !== '_GoBack' ? `<a id="${getBookmarkID(name)}"></a>` : '';
+			}
+			case 'smartTag':
+			case 'customXml':
+			case 'dir':
+			case 'bdo':
+				return this._convertInline(node);
+			case 'ins':
+			case 'moveTo':
+				return this._convertRevision(node, 'ins');
+			case 'del':
+			case 'moveFrom':
+				return this._convertRevision(node, 'del');
+			case 'commentRangeStart':
+			case 'commentRangeEnd': {
+				let id = getAttr(node, 'id');
+				if (!this._comments.has(id)) {
+					return '';
+				}
+				let marker = localName(node) === 'commentRangeStart' ? 'start' : 'end';
+				return `<span class="docx-comment-${marker}" data-comment-id="${escapeHTML(id)}"></span>`;
+			}
+			case 'sdt':
+				return this._convertInline(child(node, 'sdtContent'));
+			case 'oMath':
+			case 'oMathPara':
+				return this._convertMath(node);
+			case 'AlternateContent':
+				return this._convertInline(chooseAlternateContent(node));
+			default:
+				// Proofing marks, permissions, ...
+				return '';
+		}
+	}
+
+	_convertRun(r) {
+		let rPr = child(r, 'rPr');
+		if (rPr && isOn(getVal(child(rPr, 'vanish')), child(rPr, 'vanish')) && !child(rPr, 'specVanish')) {
+			return '';
+		}
+
+		let content = '';
+		for (let node of elementChildren(r)) {
+			switch (localName(node)) {
+				case 't':
+				case 'delText':
+					if (!this._isInFieldInstruction()) {
+						// Keep the text the same length, so offsets into it are offsets into the original
+						let text = escapeHTML(node.textContent).replace(/ {2}/g, ' \u00a0');
+						let index = this._textIndexes.get(node);
+						content += index === undefined ? text : `<span data-docx-t="${index}">${text}</span>`;
+					}
+					break;
+				case 'tab':
+					content += '<span class="docx-tab">\t</span>';
+					break;
+				case 'br':
+					content += getAttr(node, 'type') === 'page' ? '<span class="docx-page-break"></span>' : '<br>';
+					break;
+				case 'cr':
+					content += '<br>';
+					break;
+				case 'noBreakHyphen':
+					content += '\u2011';
+					break;
+				case 'softHyphen':
+					content += '\u00ad';
+					break;
+				case 'sym':
+					content += this._convertSymbol(node);
+					break;
+				case 'drawing':
+				case 'pict':
+				case 'object':
+					content += this._convertDrawing(node);
+					break;
+				case 'AlternateContent':
+					content += this._convertRun(chooseAlternateContent(node));
+					break;
+				case 'fldChar':
+					content += this._handleFieldChar(node);
+					break;
+				case 'instrText':
+				case 'delInstrText':
+					if (this._fields.length) {
+						this._fields[this._fields.length - 1].instruction += node.textContent;
+					}
+					break;
+				case 'footnoteReference':
+				case 'endnoteReference':
+					content += this._convertNoteReference(node, localName(node) === 'footnoteReference' ? 'footnote' : 'endnote');
+					break;
+				case 'footnoteRef':
+				case 'endnoteRef':
+					if (this._currentNote) {
+						let { type, id, number } = this._currentNote;
+						content += `<a class="docx-note-mark" href="#${getNoteID(type, id)}-ref">${escapeHTML(number)}</a>`;
+					}
+					break;
+			}
+		}
+		if (!content) {
+			return '';
+		}
+		let customMarkReference = this._customMarkReference;
+		if (customMarkReference && !content.includes('docx-note-ref')) {
+			this._customMarkReference = null;
+			content = this._getNoteReferenceLink(customMarkReference.type, customMarkReference.id, content);
+		}
+		return this._wrapRun(rPr, content);
+	}
+
+	_convertNoteReference(node, type) {
+		let id = getAttr(node, 'id');
+		if (!this._notes[type].notes.has(id)) {
+			return '';
+		}
+		let numbers = this._noteNumbers[type];
+		if (!numbers.has(id)) {
+			numbers.set(id, formatNumber(numbers.size + 1, this._notes[type].format));
+			this._pendingNotes[type].push(id);
+		}
+		if (isOn(getAttr(node, 'customMarkFollows'))) {
+			this._customMarkReference = { type, id };
+			return '';
+		}
+		return this._getNoteReferenceLink(type, id, escapeHTML(numbers.get(id)));
+	}
+
+	_getNoteReferenceLink(type, id, content) {
+		let noteID = getNoteID(type, id);
+		return `<a class="docx-note-ref" id="${noteID}-ref" href="#${noteID}" data-note-type="${type}">${content}</a>`;
+	}
+
+	/**
+	 * Notes referenced since the last call, converted with the relationships of their part
+	 */
+	_convertPendingNotes(type) {
+		let ids = this._pendingNotes[type];
+		this._pendingNotes[type] = [];
+		if (!ids.length) {
+			return '';
+		}
+		let { notes, rels } = this._notes[type];
+		let documentRels = this._rels;
+		let fields = this._fields;
+		this._rels = rels;
+		this._fields = [];
+		let html = [];
+		for (let id of ids) {
+			this._currentNote = { type, id, number: this._noteNumbers[type].get(id) };
+			let content = this._convertBlocks(this._getBlocks(notes.get(id)));
+			html.push(`<div class="docx-note" id="${getNoteID(type, id)}" data-note-type="${type}">\n${content}\n</div>`);
+		}
+		this._currentNote = null;
+		this._rels = documentRels;
+		this._fields = fields;
+		return html.join('\n');
+	}
+
+	/**
+	 * Tracked insertion or deletion; which of them show depends on the view's revision mode
+	 */
+	_convertRevision(node, tag) {
+		let content = this._convertInline(node);
+		if (!content) {
+			return '';
+		}
+		this._hasRevisions = true;
+		let author = getAttr(node, 'author');
+		let date = getAttr(node, 'date');
+		let attributes = (author ? ` data-author="${escapeHTML(author)}"` : '') + (date ? ` data-date="${escapeHTML(date)}"` : '');
+		return `<${tag} class="docx-${tag === 'ins' ? 'insertion' : 'deletion'}"${attributes}>${content}</${tag}>`;
+	}
+
+	_wrapRun(rPr, content) {
+		if (!rPr) {
+			return content;
+		}
+		let classes = [];
+		let styleID = getVal(child(rPr, 'rStyle'));
+		if (styleID && this._styles.has(styleID)) {
+			classes.push(`docx-r-${getClassName(styleID)}`);
+		}
+		let style = runPropertiesToCSS(rPr, false);
+		if (classes.length || style) {
+			content = `<span${classes.length ? ` class="${classes.join(' ')}"` : ''}${style ? ` style="${escapeHTML(style)}"` : ''}>${content}</span>`;
+		}
+		let vertAlign = getVal(child(rPr, 'vertAlign'));
+		if (vertAlign === 'superscript') {
+			content = `<sup>${content}</sup>`;
+		}
+		else if (vertAlign === 'subscript') {
+			content = `<sub>${content}</sub>`;
+		}
+		return content;
+	}
+
+	_handleFieldChar(node) {
+		switch (getAttr(node, 'fldCharType')) {
+			case 'begin':
+				this._fields.push({ instruction: '', separated: false, link: null });
+				return '';
+			case 'separate': {
+				let field = this._fields[this._fields.length - 1];
+				if (!field) {
+					return '';
+				}
+				field.separated = true;
+				field.link = getFieldLink(field.instruction);
+				return field.link ? this._openLink(field.link) : '';
+			}
+			case 'end': {
+				let field = this._fields.pop();
+				return field?.link ? '</a>' : '';
+			}
+			default:
+				return '';
+		}
+	}
+
+	_isInFieldInstruction() {
+		return this._fields.some(field => !field.separated);
+	}
+
+	_openLink(href) {
+		if (!/^(https?:|mailto:|ftp:|#)/i.test(href)) {
+			return '<a>';
+		}
+		return `<a href="${escapeHTML(href)}">`;
+	}
+
+	_convertSymbol(node) {
+		let code = parseInt(getAttr(node, 'char') || '', 16);
+		if (!Number.isFinite(code)) {
+			return '';
+		}
+		// Symbol fonts map their characters into the private use area at F000
+		if (code >= 0xf000) {
+			code -= 0xf000;
+		}
+		let font = getAttr(node, 'font');
+		let char = escapeHTML(String.fromCodePoint(code));
+		return font ? `<span style="font-family: ${escapeHTML(cssString(font))}">${char}</span>` : char;
+	}
+
+	/**
+	 * Pictures (DrawingML or VML) and text boxes
+	 */
+	_convertDrawing(node) {
+		let textBox = descendant(node, 'txbxContent');
+		if (textBox) {
+			return `<span class="docx-text-box">${this._getBlocks(textBox).map(block => this._convertBlock(block)).join('')}</span>`;
+		}
+
+		let src = null;
+		let blip = descendant(node, 'blip');
+		let imageData = descendant(node, 'imagedata');
+		let relID = blip ? getAttr(blip, 'embed', NS.r) : imageData && getAttr(imageData, 'id', NS.r);
+		let rel = relID && this._rels.get(relID);
+		if (rel && !rel.external) {
+			src = this._images.get(rel.target);
+		}
+		if (!src) {
+			return '';
+		}
+
+		let attributes = '';
+		let extent = descendant(node, 'extent');
+		let width = Number(getAttr(extent, 'cx', null)) / EMU_PER_PIXEL;
+		let height = Number(getAttr(extent, 'cy', null)) / EMU_PER_PIXEL;
+		if (width && height) {
+			attributes += ` width="${Math.round(width)}" height="${Math.round(height)}"`;
+		}
+		else {
+			// VML sizes are in the shape's CSS
+			let shapeStyle = imageData?.parentNode?.getAttribute?.('style') || '';
+			let widthMatch = shapeStyle.match(/width:\s*([\d.]+)pt/);
+			let heightMatch = shapeStyle.match(/height:\s*([\d.]+)pt/);
+			if (widthMatch && heightMatch) {
+				attributes += ` width="${Math.round(widthMatch[1] * 4 / 3)}" height="${Math.round(heightMatch[1] * 4 / 3)}"`;
+			}
+		}
+		let docPr = descendant(node, 'docPr');
+		let alt = getAttr(docPr, 'descr', null) || getAttr(docPr, 'title', null) || '';
+		let floating = child(node, 'anchor') ? ' docx-image-floating' : '';
+		return `<img class="docx-image${floating}" src="${src}" alt="${escapeHTML(alt)}"${attributes}>`;
+	}
+
+	/**
+	 * An equation as delimited TeX, for the view to typeset
+	 */
+	_convertMath(node) {
+		let tex = convertOMMLToTeX(node);
+		if (!tex) {
+			return '';
+		}
+		let display = localName(node) === 'oMathPara';
+		let delimited = display ? `\\[${tex}\\]` : `\\(${tex}\\)`;
+		return `<span class="docx-math${display ? ' docx-math-display' : ''}">${escapeHTML(delimited)}</span>`;
+	}
+
+	_convertTable(tbl) {
+		let tblPr = child(tbl, 'tblPr');
+		let styleID = getVal(child(tblPr, 'tblStyle'));
+		let borders = child(tblPr, 'tblBorders');
+		if (!borders) {
+			borders = this._getStyleChain(styleID).map(style => child(style.tblPr, 'tblBorders')).find(Boolean);
+		}
+		let classes = ['docx-table'];
+		if (!borders || elementChildren(borders).every(border => ['none', 'nil'].includes(getVal(border)))) {
+			classes.push('docx-table-borderless');
+		}
+
+		let styles = [];
+		let width = child(tblPr, 'tblW');
+		if (getAttr(width, 'type') === 'pct') {
+			// Fiftieths of a percent, or a percentage string
+			let value = getAttr(width, 'w') || '';
+			styles.push(`width: ${value.endsWith('%') ? parseFloat(value) : Number(value) / 50}%`);
+		}
+		else if (getAttr(width, 'type') === 'dxa' && Number(getAttr(width, 'w'))) {
+			styles.push(`width: ${Number(getAttr(width, 'w')) / TWIPS_PER_POINT}pt`);
+		}
+		let jc = getVal(child(tblPr, 'jc'));
+		if (jc === 'center') {
+			styles.push('margin-left: auto', 'margin-right: auto');
+		}
+		else if (jc === 'right' || jc === 'end') {
+			styles.push('margin-left: auto');
+		}
+
+		// Vertically merged cells are continued by empty cells in the rows below;
+		// find the cell each merge starts at by grid column
+		let rows = [];
+		let mergeOrigins = new Map();
+		for (let tr of this._getRows(tbl)) {
+			let trPr = child(tr, 'trPr');
+			let column = Number(getVal(child(trPr, 'gridBefore'))) || 0;
+			let cells = [];
+			for (let tc of this._getCells(tr)) {
+				let tcPr = child(tc, 'tcPr');
+				let colspan = Number(getVal(child(tcPr, 'gridSpan'))) || 1;
+				let vMerge = child(tcPr, 'vMerge');
+				let vMergeValue = vMerge && getVal(vMerge);
+				if (vMerge && vMergeValue !== 'restart' && mergeOrigins.has(column)) {
+					mergeOrigins.get(column).rowspan++;
+					column += colspan;
+					continue;
+				}
+				let cell = {
+					colspan,
+					rowspan: 1,
+					style: cellPropertiesToCSS(tcPr),
+					html: this._convertBlocks(this._getBlocks(tc)),
+				};
+				for (let spanned = column; spanned < column + colspan; spanned++) {
+					mergeOrigins.delete(spanned);
+				}
+				if (vMergeValue === 'restart') {
+					mergeOrigins.set(column, cell);
+				}
+				cells.push(cell);
+				column += colspan;
+			}
+			rows.push({ cells, header: !!child(trPr, 'tblHeader') });
+		}
+
+		let html = rows.map(({ cells, header }) => {
+			let tag = header ? 'th' : 'td';
+			return '<tr>' + cells.map(cell => (
+				`<${tag}${cell.colspan > 1 ? ` colspan="${cell.colspan}"` : ''}${cell.rowspan > 1 ? ` rowspan="${cell.rowspan}"` : ''}`
+				+ `${cell.style ? ` style="${cell.style}"` : ''}>${cell.html}</${tag}>`
+			)).join('') + '</tr>';
+		}).join('\n');
+		let style = styles.length ? ` style="${styles.join('; ')}"` : '';
+		return `<table class="${classes.join(' ')}"${style}>\n<tbody>\n${html}\n</tbody>\n</table>`;
+	}
+
+	_getRows(tbl) {
+		let rows = [];
+		for (let node of elementChildren(tbl)) {
+			if (localName(node) === 'tr') {
+				rows.push(node);
+			}
+			else if (['sdt', 'customXml'].includes(localName(node))) {
+				rows.push(...this._getRows(localName(node) === 'sdt' ? child(node, 'sdtContent') : node));
+			}
+		}
+		return rows;
+	}
+
+	_getCells(tr) {
+		let cells = [];
+		for (let node of elementChildren(tr)) {
+			if (localName(node) === 'tc') {
+				cells.push(node);
+			}
+			else if (['sdt', 'customXml'].includes(localName(node))) {
+				cells.push(...this._getCells(localName(node) === 'sdt' ? child(node, 'sdtContent') : node));
+			}
+		}
+		return cells;
+	}
+
+	/**
+	 * A style followed by the styles it's based on
+	 */
+	_getStyleChain(styleID) {
+		let chain = [];
+		let style = styleID && this._styles.get(styleID);
+		while (style && !chain.includes(style)) {
+			chain.push(style);
+			style = style.basedOn && this._styles.get(style.basedOn);
+		}
+		return chain;
+	}
+
+	/**
+	 * CSS for the document defaults and for every paragraph and character style,
+	 * with the styles they're based on folded in
+	 */
+	_getStylesCSS() {
+		let rules = [];
+		let defaults = [
+			this._docDefaults.rPr && runPropertiesToCSS(this._docDefaults.rPr, true),
+			this._docDefaults.pPr && paragraphPropertiesToCSS(this._docDefaults.pPr),
+		].filter(Boolean).join('; ');
+		if (defaults) {
+			rules.push(`.docx-content .docx-document p, .docx-content .docx-document li { ${defaults} }`);
+		}
+		for (let style of this._styles.values()) {
+			if (style.type !== 'paragraph' && style.type !== 'character') {
+				continue;
+			}
+			// Base styles first, so the style's own properties come last and win
+			let chain = this._getStyleChain(style.id).reverse();
+			let declarations = [];
+			for (let { pPr, rPr } of chain) {
+				if (style.type === 'paragraph' && pPr) {
+					declarations.push(paragraphPropertiesToCSS(pPr));
+				}
+				if (rPr) {
+					declarations.push(runPropertiesToCSS(rPr, true));
+				}
+			}
+			let css = declarations.filter(Boolean).join('; ');
+			if (css) {
+				let prefix = style.type === 'paragraph' ? 'p' : 'r';
+				rules.push(`.docx-content .docx-${prefix}-${getClassName(style.id)} { ${css} }`);
+			}
+		}
+		return rules.join('\n');
+	}
+}
+
+function paragraphPropertiesToCSS(pPr) {
+	let css = [];
+	let jc = getVal(child(pPr, 'jc'));
+	let align = {
+		left: 'left',
+		start: 'left',
+		center: 'center',
+		right: 'right',
+		end: 'right',
+		both: 'justify',
+		distribute: 'justify',
+	}[jc];
+	if (align) {
+		css.push(`text-align: ${align}`);
+	}
+
+	let ind = child(pPr, 'ind');
+	if (ind) {
+		let left = getAttr(ind, 'left') ?? getAttr(ind, 'start');
+		let right = getAttr(ind, 'right') ?? getAttr(ind, 'end');
+		let firstLine = getAttr(ind, 'firstLine');
+		let hanging = getAttr(ind, 'hanging');
+		if (left) {
+			css.push(`margin-left: ${twipsToPoints(left)}pt`);
+		}
+		if (right) {
+			css.push(`margin-right: ${twipsToPoints(right)}pt`);
+		}
+		if (hanging) {
+			css.push(`text-indent: -${twipsToPoints(hanging)}pt`);
+		}
+		else if (firstLine) {
+			css.push(`text-indent: ${twipsToPoints(firstLine)}pt`);
+		}
+	}
+
+	let spacing = child(pPr, 'spacing');
+	if (spacing) {
+		let before = getAttr(spacing, 'before');
+		let after = getAttr(spacing, 'after');
+		let line = getAttr(spacing, 'line');
+		if (before && !isOn(getAttr(spacing, 'beforeAutospacing'))) {
+			css.push(`margin-top: ${twipsToPoints(before)}pt`);
+		}
+		if (after && !isOn(getAttr(spacing, 'afterAutospacing'))) {
+			css.push(`margin-bottom: ${twipsToPoints(after)}pt`);
+		}
+		if (line) {
+			let lineRule = getAttr(spacing, 'lineRule') || 'auto';
+			// 'auto' is in 240ths of a line
+			css.push(lineRule === 'auto'
+				? `line-height: ${Math.round(Number(line) / 240 * 100) / 100}`
+				: `line-height: ${twipsToPoints(line)}pt`);
+		}
+	}
+
+	let fill = getShadingColor(child(pPr, 'shd'));
+	if (fill) {
+		css.push(`background-color: ${fill}`);
+	}
+	return css.join('; ');
+}
+
+/**
+ * @param {Element} rPr
+ * @param {boolean} isStyle Whether the properties are from a style, which can also turn formatting off
+ */
+function runPropertiesToCSS(rPr, isStyle) {
+	let css = [];
+	let toggle = (name, on, off) => {
+		let element = child(rPr, name);
+		if (!element) {
+			return;
+		}
+		if (isOn(getVal(element), true)) {
+			css.push(on);
+		}
+		else if (isStyle) {
+			css.push(off);
+		}
+	};
+	toggle('b', 'font-weight: bold', 'font-weight: normal');
+	toggle('i', 'font-style: italic', 'font-style: normal');
+	toggle('caps', 'text-transform: uppercase', 'text-transform: none');
+	toggle('smallCaps', 'font-variant: small-caps', 'font-variant: normal');
+	if (isStyle) {
+		toggle('vanish', 'display: none', '');
+	}
+
+	let decorations = [];
+	let u = child(rPr, 'u');
+	if (u && getVal(u) !== 'none') {
+		decorations.push('underline');
+	}
+	if (isOn(getVal(child(rPr, 'strike')), child(rPr, 'strike')) || isOn(getVal(child(rPr, 'dstrike')), child(rPr, 'dstrike'))) {
+		decorations.push('line-through');
+	}
+	if (decorations.length) {
+		css.push(`text-decoration: ${decorations.join(' ')}`);
+	}
+
+	let color = getVal(child(rPr, 'color'));
+	if (color && /^[0-9a-f]{6}$/i.test(color)) {
+		css.push(`color: #${color}`);
+	}
+	let size = Number(getVal(child(rPr, 'sz')));
+	if (size) {
+		css.push(`font-size: ${size / 2}pt`);
+	}
+	let fonts = child(rPr, 'rFonts');
+	let font = getAttr(fonts, 'ascii') || getAttr(fonts, 'hAnsi');
+	if (font) {
+		css.push(`font-family: ${cssString(font)}`);
+	}
+	let highlight = HIGHLIGHT_COLORS[getVal(child(rPr, 'highlight'))];
+	let fill = highlight || getShadingColor(child(rPr, 'shd'));
+	if (fill) {
+		css.push(`background-color: ${fill}`);
+	}
+	let characterSpacing = Number(getVal(child(rPr, 'spacing')));
+	if (characterSpacing) {
+		css.push(`letter-spacing: ${twipsToPoints(characterSpacing)}pt`);
+	}
+	if (isStyle) {
+		let vertAlign = getVal(child(rPr, 'vertAlign'));
+		if (vertAlign === 'superscript' || vertAlign === 'subscript') {
+			css.push(`vertical-align: ${vertAlign === 'superscript' ? 'super' : 'sub'}`, 'font-size: smaller');
+		}
+	}
+	return css.join('; ');
+}
+
+function cellPropertiesToCSS(tcPr) {
+	if (!tcPr) {
+		return '';
+	}
+	let css = [];
+	let fill = getShadingColor(child(tcPr, 'shd'));
+	if (fill) {
+		css.push(`background-color: ${fill}`);
+	}
+	let vAlign = getVal(child(tcPr, 'vAlign'));
+	if (vAlign) {
+		css.push(`vertical-align: ${vAlign === 'center' ? 'middle' : vAlign === 'bottom' ? 'bottom' : 'top'}`);
+	}
+	let width = child(tcPr, 'tcW');
+	if (getAttr(width, 'type') === 'dxa' && Number(getAttr(width, 'w'))) {
+		css.push(`width: ${twipsToPoints(getAttr(width, 'w'))}pt`);
+	}
+	return css.join('; ');
+}
+
+/**
+ * Page size, margins and columns of a section, as data attributes (in CSS pixels)
+ * and CSS for the section's columns
+ */
+function getSectionProperties(sectPr) {
+	let attributes = '';
+	let style = '';
+	let pgSz = child(sectPr, 'pgSz');
+	let pgMar = child(sectPr, 'pgMar');
+	let values = {
+		'page-width': getAttr(pgSz, 'w'),
+		'page-height': getAttr(pgSz, 'h'),
+		'margin-top': getAttr(pgMar, 'top'),
+		'margin-right': getAttr(pgMar, 'right'),
+		'margin-bottom': getAttr(pgMar, 'bottom'),
+		'margin-left': getAttr(pgMar, 'left'),
+	};
+	for (let [name, value] of Object.entries(values)) {
+		if (value !== null && value !== undefined && Number.isFinite(Number(value))) {
+			// 15 twips per pixel
+			attributes += ` data-${name}="${Math.round(Math.abs(Number(value)) / 15)}"`;
+		}
+	}
+	let pgNumType = child(sectPr, 'pgNumType');
+	let start = getAttr(pgNumType, 'start');
+	if (start && Number.isInteger(Number(start))) {
+		attributes += ` data-page-number-start="${start}"`;
+	}
+	let format = getAttr(pgNumType, 'fmt');
+	if (format) {
+		attributes += ` data-page-number-format="${escapeHTML(format)}"`;
+	}
+	let columns = Number(getAttr(child(sectPr, 'cols'), 'num'));
+	if (columns > 1) {
+		style = `column-count: ${Math.min(columns, 10)}`;
+	}
+	let type = getVal(child(sectPr, 'type'));
+	return { attributes, style, continuous: type === 'continuous' };
+}
+
+function getFieldLink(instruction) {
+	let match = instruction.match(/^\s*HYPERLINK\s+(.*)$/);
+	if (!match) {
+		return null;
+	}
+	let args = match[1];
+	let anchor = args.match(/\\l\s+"([^"]*)"/);
+	if (anchor) {
+		return `#${getBookmarkID(anchor[1])}`;
+	}
+	let url = args.match(/^"([^"]*)"/) || args.match(/^(\S+)/);
+	return url ? url[1] : null;
+}
+
+function getShadingColor(shd) {
+	let fill = getAttr(shd, 'fill');
+	return fill && /^[0-9a-f]{6}$/i.test(fill) ? `#${fill}` : null;
+}
+
+/**
+ * Pick the branch of mc:AlternateContent to render: the first choice, which is what current
+ * versions of Word write, or the fallback if there's no choice
+ */
+function chooseAlternateContent(node) {
+	return child(node, 'Choice') || child(node, 'Fallback');
+}
+
+/**
+ * Text elements (w:t and w:delText) of a part, in document order
+ */
+export function getTextElements(doc) {
+	return Array.from(doc.getElementsByTagNameNS(NS.w, '*'))
+		.filter(element => element.localName === 't' || element.localName === 'delText');
+}
+
+export function getNoteID(type, id) {
+	return `docx-${type}-${String(id).replace(/[^\w-]/g, '_')}`;
+}
+
+/**
+ * Format a note or page number in one of the w:numFmt formats
+ */
+export function formatNumber(number, format) {
+	switch (format) {
+		case 'lowerRoman':
+			return toRoman(number).toLowerCase();
+		case 'upperRoman':
+			return toRoman(number);
+		case 'lowerLetter':
+		case 'upperLetter': {
+			// a, b, ..., z, aa, bb, ...
+			let letter = String.fromCharCode(97 + (number - 1) % 26).repeat(Math.ceil(number / 26));
+			return format === 'upperLetter' ? letter.toUpperCase() : letter;
+		}
+		case 'chicago':
+			return ['*', '\u2020', '\u2021', '\u00a7'][(number - 1) % 4].repeat(Math.ceil(number / 4));
+		default:
+			return String(number);
+	}
+}
+
+function toRoman(number) {
+	let numerals = [[1000, 'M'], [900, 'CM'], [500, 'D'], [400, 'CD'], [100, 'C'], [90, 'XC'], [50, 'L'], [40, 'XL'], [10, 'X'], [9, 'IX'], [5, 'V'], [4, 'IV'], [1, 'I']];
+	let result = '';
+	for (let [value, numeral] of numerals) {
+		while (number >= value) {
+			result += numeral;
+			number -= value;
+		}
+	}
+	return result;
+}
+
+export function getBookmarkID(name) {
+	return `docx-bookmark-${name.replace(/[^\w-]/g, '_')}`;
+}
+
+function getClassName(styleID) {
+	return styleID.replace(/[^\w-]/g, '_');
+}
+
+function twipsToPoints(value) {
+	return Math.round(Number(value) / TWIPS_PER_POINT * 100) / 100;
+}
+
+function cssString(value) {
+	return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * Whether an on/off property (w:b, w:i, ...) is on; present without a value means on
+ */
+function isOn(value, present = false) {
+	if (value === null || value === undefined || value === '') {
+		return !!present;
+	}
+	return !['0', 'false', 'off', 'none'].includes(value);
+}
+
+export function getDirectory(path) {
+	return path.slice(0, path.lastIndexOf('/') + 1);
+}
+
+function resolvePath(dir, target) {
+	let parts = (target.startsWith('/') ? target.slice(1) : dir + target).split('/');
+	let resolved = [];
+	for (let part of parts) {
+		if (part === '..') {
+			resolved.pop();
+		}
+		else if (part !== '.' && part !== '') {
+			resolved.push(part);
+		}
+	}
+	return resolved.join('/');
+}
+
+export function localName(node) {
+	return node.localName || node.nodeName.split(':').pop();
+}
+
+export function elementChildren(node) {
+	if (!node) {
+		return [];
+	}
+	return Array.from(node.childNodes).filter(child => child.nodeType === 1);
+}
+
+export function children(node, name) {
+	return elementChildren(node).filter(child => localName(child) === name);
+}
+
+export function child(node, name) {
+	return elementChildren(node).find(child => localName(child) === name) || null;
+}
+
+export function descendant(node, name) {
+	for (let element of elementChildren(node)) {
+		if (localName(element) === name) {
+			return element;
+		}
+		let found = descendant(element, name);
+		if (found) {
+			return found;
+		}
+	}
+	return null;
+}
+
+/**
+ * Attribute in the WordprocessingML namespace by default; pass null for unqualified attributes
+ */
+export function getAttr(node, name, ns = NS.w) {
+	if (!node) {
+		return null;
+	}
+	let value = ns ? node.getAttributeNS(ns, name) : node.getAttribute(name);
+	return value === '' && !(ns ? node.hasAttributeNS(ns, name) : node.hasAttribute(name)) ? null : value;
+}
+
+export function getVal(node) {
+	return getAttr(node, 'val');
+}
+
+export function escapeHTML(text) {
+	return String(text)
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#039;');
+}
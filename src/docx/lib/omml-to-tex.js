@@ -0,0 +1,490 @@
+/**
+ * Office Math (OMML) to TeX conversion
+ * Produces TeX that MathJax's TeX input understands, so equations can be typeset and copied.
+ */
+
+import { NS, localName, elementChildren, child, children, getAttr } from './docx-to-html';
+
+// Characters that have to be escaped in math mode
+const TEX_ESCAPES = {
+	'\\': '\\backslash ',
+	'{': '\\{',
+	'}': '\\}',
+	'#': '\\#',
+	$: '\\$',
+	'%': '\\%',
+	'&': '\\&',
+	_: '\\_',
+	'^': '\\wedge ',
+	'~': '\\sim ',
+};
+
+// Symbols with a TeX command, so copied TeX reads naturally
+const TEX_SYMBOLS = {
+	α: 'alpha',
+	β: 'beta',
+	γ: 'gamma',
+	δ: 'delta',
+	ε: 'varepsilon',
+	ϵ: 'epsilon',
+	ζ: 'zeta',
+	η: 'eta',
+	θ: 'theta',
+	ϑ: 'vartheta',
+	ι: 'iota',
+	κ: 'kappa',
+	λ: 'lambda',
+	μ: 'mu',
+	ν: 'nu',
+	ξ: 'xi',
+	π: 'pi',
+	ϖ: 'varpi',
+	ρ: 'rho',
+	ϱ: 'varrho',
+	σ: 'sigma',
+	ς: 'varsigma',
+	τ: 'tau',
+	υ: 'upsilon',
+	φ: 'varphi',
+	ϕ: 'phi',
+	χ: 'chi',
+	ψ: 'psi',
+	ω: 'omega',
+	Γ: 'Gamma',
+	Δ: 'Delta',
+	Θ: 'Theta',
+	Λ: 'Lambda',
+	Ξ: 'Xi',
+	Π: 'Pi',
+	Σ: 'Sigma',
+	Υ: 'Upsilon',
+	Φ: 'Phi',
+	Ψ: 'Psi',
+	Ω: 'Omega',
+	'∞': 'infty',
+	'∂': 'partial',
+	'∇': 'nabla',
+	'±': 'pm',
+	'∓': 'mp',
+	'×': 'times',
+	'÷': 'div',
+	'·': 'cdot',
+	'⋅': 'cdot',
+	'∘': 'circ',
+	'≤': 'leq',
+	'≥': 'geq',
+	'≠': 'neq',
+	'≈': 'approx',
+	'≡': 'equiv',
+	'∼': 'sim',
+	'≃': 'simeq',
+	'≅': 'cong',
+	'∝': 'propto',
+	'≪': 'll',
+	'≫': 'gg',
+	'∈': 'in',
+	'∉': 'notin',
+	'∋': 'ni',
+	'⊂': 'subset',
+	'⊃': 'supset',
+	'⊆': 'subseteq',
+	'⊇': 'supseteq',
+	'∪': 'cup',
+	'∩': 'cap',
+	'∅': 'emptyset',
+	'∀': 'forall',
+	'∃': 'exists',
+	'¬': 'neg',
+	'∧': 'wedge',
+	'∨': 'vee',
+	'⊕': 'oplus',
+	'⊗': 'otimes',
+	'→': 'rightarrow',
+	'←': 'leftarrow',
+	'↔': 'leftrightarrow',
+	'⇒': 'Rightarrow',
+	'⇐': 'Leftarrow',
+	'⇔': 'Leftrightarrow',
+	'↦': 'mapsto',
+	'…': 'ldots',
+	'⋯': 'cdots',
+	'⋮': 'vdots',
+	'⋱': 'ddots',
+	'′': 'prime',
+	ℏ: 'hbar',
+	ℓ: 'ell',
+	ℜ: 'Re',
+	ℑ: 'Im',
+	ℵ: 'aleph',
+};
+
+const NARY_OPERATORS = {
+	'∑': 'sum',
+	'∏': 'prod',
+	'∐': 'coprod',
+	'∫': 'int',
+	'∬': 'iint',
+	'∭': 'iiint',
+	'∮': 'oint',
+	'⋃': 'bigcup',
+	'⋂': 'bigcap',
+	'⋁': 'bigvee',
+	'⋀': 'bigwedge',
+	'⨁': 'bigoplus',
+	'⨂': 'bigotimes',
+};
+
+const ACCENTS = {
+	'\u0302': 'hat',
+	'\u0303': 'tilde',
+	'\u0304': 'bar',
+	'\u0305': 'overline',
+	'\u0306': 'breve',
+	'\u0307': 'dot',
+	'\u0308': 'ddot',
+	'\u030c': 'check',
+	'\u0301': 'acute',
+	'\u0300': 'grave',
+	'\u20d7': 'vec',
+	'\u20d6': 'overleftarrow',
+	'\u20e1': 'overleftrightarrow',
+};
+
+const DELIMITERS = {
+	'': '.',
+	'{': '\\{',
+	'}': '\\}',
+	'⟨': '\\langle',
+	'〈': '\\langle',
+	'⟩': '\\rangle',
+	'〉': '\\rangle',
+	'‖': '\\|',
+	'⌈': '\\lceil',
+	'⌉': '\\rceil',
+	'⌊': '\\lfloor',
+	'⌋': '\\rfloor',
+	'⟦': '[\\![',
+	'⟧': ']\\!]',
+};
+
+// Function names that TeX has an operator command for
+const FUNCTION_NAMES = new Set([
+	'arccos',
+	'arcsin',
+	'arctan',
+	'arg',
+	'cos',
+	'cosh',
+	'cot',
+	'coth',
+	'csc',
+	'deg',
+	'det',
+	'dim',
+	'exp',
+	'gcd',
+	'hom',
+	'inf',
+	'ker',
+	'lg',
+	'lim',
+	'liminf',
+	'limsup',
+	'ln',
+	'log',
+	'max',
+	'min',
+	'Pr',
+	'sec',
+	'sin',
+	'sinh',
+	'sup',
+	'tan',
+	'tanh'
+]);
+
+const MATH_FONTS = {
+	'double-struck': 'mathbb',
+	fraktur: 'mathfrak',
+	script: 'mathcal',
+	'sans-serif': 'mathsf',
+	monospace: 'mathtt',
+};
+
+/**
+ * Convert an m:oMathPara or m:oMath element to TeX
+ *
+ * @returns {string}
+ */
+export function convertOMMLToTeX(node) {
+	if (localName(node) === 'oMathPara') {
+		let lines = children(node, 'oMath').map(convertOMMLToTeX);
+		return lines.length > 1 ? `\\begin{gathered}${lines.join(' \\\\ ')}\\end{gathered}` : lines.join('');
+	}
+	return convertChildren(node).trim();
+}
+
+function convertChildren(node) {
+	return elementChildren(node).map(convertElement).join('');
+}
+
+function convertElement(node) {
+	switch (localName(node)) {
+		case 'r':
+			return convertRun(node);
+		case 'oMath':
+		case 'e':
+		case 'num':
+		case 'den':
+		case 'sub':
+		case 'sup':
+		case 'deg':
+		case 'lim':
+		case 'fName':
+			return convertChildren(node);
+		case 'f':
+			return convertFraction(node);
+		case 'sSup':
+			return `${group(child(node, 'e'))}^${group(child(node, 'sup'))}`;
+		case 'sSub':
+			return `${group(child(node, 'e'))}_${group(child(node, 'sub'))}`;
+		case 'sSubSup':
+			return `${group(child(node, 'e'))}_${group(child(node, 'sub'))}^${group(child(node, 'sup'))}`;
+		case 'sPre':
+			return `{}_${group(child(node, 'sub'))}^${group(child(node, 'sup'))}${group(child(node, 'e'))}`;
+		case 'rad':
+			return convertRadical(node);
+		case 'nary':
+			return convertNary(node);
+		case 'd':
+			return convertDelimiter(node);
+		case 'func':
+			return convertFunction(node);
+		case 'limLow':
+		case 'limUpp':
+			return convertLimit(node);
+		case 'acc':
+			return convertAccent(node);
+		case 'bar': {
+			let position = getProperty(node, 'pos') || 'bot';
+			return `\\${position === 'top' ? 'overline' : 'underline'}${group(child(node, 'e'))}`;
+		}
+		case 'groupChr':
+			return convertGroupCharacter(node);
+		case 'borderBox':
+			return `\\boxed${group(child(node, 'e'))}`;
+		case 'box':
+			return convertChildren(child(node, 'e'));
+		case 'phant':
+			return isPropertyOn(node, 'show', true)
+				? convertChildren(child(node, 'e'))
+				: `\\phantom${group(child(node, 'e'))}`;
+		case 'eqArr':
+			return convertEquationArray(node);
+		case 'm':
+			return convertMatrix(node);
+		default:
+			// Properties (*Pr) and anything unknown
+			return '';
+	}
+}
+
+function convertRun(r) {
+	let text = children(r, 't').map(t => t.textContent).join('');
+	if (!text) {
+		return '';
+	}
+	let rPr = child(r, 'rPr');
+	if (rPr && isFlagOn(child(rPr, 'nor')) && !/[\\{}$]/.test(text)) {
+		return `\\text{${text}}`;
+	}
+
+	let tex = '';
+	for (let char of text) {
+		if (TEX_ESCAPES[char]) {
+			tex += TEX_ESCAPES[char];
+		}
+		else if (TEX_SYMBOLS[char]) {
+			tex += `\\${TEX_SYMBOLS[char]} `;
+		}
+		else if (char === ' ') {
+			tex += '\\ ';
+		}
+		else {
+			tex += char;
+		}
+	}
+
+	// Function names are upright unless styled otherwise
+	let style = getAttr(child(rPr, 'sty'), 'val', NS.m) ?? (isInFunctionName(r) ? 'p' : null);
+	let font = MATH_FONTS[getAttr(child(rPr, 'scr'), 'val', NS.m)];
+	if (font) {
+		tex = `\\${font}{${tex}}`;
+	}
+	else if (style === 'p') {
+		tex = FUNCTION_NAMES.has(text) ? `\\${text} ` : `\\mathrm{${tex}}`;
+	}
+	else if (style === 'b') {
+		tex = `\\mathbf{${tex}}`;
+	}
+	else if (style === 'bi') {
+		tex = `\\boldsymbol{${tex}}`;
+	}
+	return tex;
+}
+
+/**
+ * Whether a run is (part of) the name in an m:fName, rather than in one of its scripts or limits
+ */
+function isInFunctionName(r) {
+	for (let node = r.parentNode; node && node.nodeType === Node.ELEMENT_NODE; node = node.parentNode) {
+		let name = localName(node);
+		if (name === 'fName') {
+			return true;
+		}
+		if (['sub', 'sup', 'lim', 'oMath'].includes(name)) {
+			return false;
+		}
+	}
+	return false;
+}
+
+function convertFraction(node) {
+	let num = group(child(node, 'num'));
+	let den = group(child(node, 'den'));
+	switch (getProperty(node, 'type')) {
+		case 'skw':
+		case 'lin':
+			return `${num}/${den}`;
+		case 'noBar':
+			return `\\genfrac{}{}{0pt}{}${num}${den}`;
+		default:
+			return `\\frac${num}${den}`;
+	}
+}
+
+function convertRadical(node) {
+	let deg = convertChildren(child(node, 'deg'));
+	let e = group(child(node, 'e'));
+	return !deg || isPropertyOn(node, 'degHide') ? `\\sqrt${e}` : `\\sqrt[${deg}]${e}`;
+}
+
+function convertNary(node) {
+	// The default operator is the integral
+	let char = getProperty(node, 'chr') ?? '∫';
+	let operator = NARY_OPERATORS[char] ? `\\${NARY_OPERATORS[char]}` : char;
+	if (getProperty(node, 'limLoc') === 'undOvr' && char === '∫') {
+		operator += '\\limits';
+	}
+	let tex = operator;
+	if (!isPropertyOn(node, 'subHide')) {
+		let sub = convertChildren(child(node, 'sub'));
+		if (sub) {
+			tex += `_{${sub}}`;
+		}
+	}
+	if (!isPropertyOn(node, 'supHide')) {
+		let sup = convertChildren(child(node, 'sup'));
+		if (sup) {
+			tex += `^{${sup}}`;
+		}
+	}
+	return `${tex}${group(child(node, 'e'))}`;
+}
+
+function convertDelimiter(node) {
+	let begin = getProperty(node, 'begChr') ?? '(';
+	let end = getProperty(node, 'endChr') ?? ')';
+	let separator = getProperty(node, 'sepChr') ?? '|';
+	let content = children(node, 'e').map(convertChildren)
+		.join(` \\middle${getDelimiter(separator)} `);
+	return `\\left${getDelimiter(begin)}${content}\\right${getDelimiter(end)}`;
+}
+
+function getDelimiter(char) {
+	return DELIMITERS[char] ?? char;
+}
+
+function convertFunction(node) {
+	let fName = child(node, 'fName');
+	let name = convertChildren(fName);
+	// Functions TeX doesn't know become operators, so they're upright and spaced
+	let text = fName?.textContent.trim();
+	if (text && /^[A-Za-z]+$/.test(text) && !FUNCTION_NAMES.has(text) && name.startsWith('\\mathrm{')) {
+		name = `\\operatorname{${text}}`;
+	}
+	return `${name}${group(child(node, 'e'))}`;
+}
+
+function convertLimit(node) {
+	let e = convertChildren(child(node, 'e'));
+	let lim = group(child(node, 'lim'));
+	let upper = localName(node) === 'limUpp';
+	// Operators like \lim and \max take limits themselves
+	if (/^\\[a-z]+ ?$/.test(e) && FUNCTION_NAMES.has(e.trim().slice(1))) {
+		return `${e.trim()}${upper ? '^' : '_'}${lim}`;
+	}
+	return `\\${upper ? 'overset' : 'underset'}${lim}{${e}}`;
+}
+
+function convertAccent(node) {
+	let char = getProperty(node, 'chr') ?? '\u0302';
+	let e = group(child(node, 'e'));
+	return ACCENTS[char] ? `\\${ACCENTS[char]}${e}` : `\\overset{${char}}${e}`;
+}
+
+function convertGroupCharacter(node) {
+	let char = getProperty(node, 'chr') ?? '⏟';
+	let top = getProperty(node, 'pos') === 'top';
+	let e = group(child(node, 'e'));
+	if (char === '⏟') {
+		return `\\underbrace${e}`;
+	}
+	if (char === '⏞') {
+		return `\\overbrace${e}`;
+	}
+	return `\\${top ? 'overset' : 'underset'}{${getDelimiter(char)}}${e}`;
+}
+
+function convertEquationArray(node) {
+	// "&" in the text marks alignment points, as in TeX
+	let rows = children(node, 'e').map(e => convertChildren(e).replace(/\\&/g, '&'));
+	let environment = rows.some(row => row.includes('&')) ? 'aligned' : 'gathered';
+	return `\\begin{${environment}}${rows.join(' \\\\ ')}\\end{${environment}}`;
+}
+
+function convertMatrix(node) {
+	let rows = children(node, 'mr').map(mr => children(mr, 'e').map(convertChildren)
+		.join(' & '));
+	return `\\begin{matrix}${rows.join(' \\\\ ')}\\end{matrix}`;
+}
+
+function group(node) {
+	return `{${convertChildren(node)}}`;
+}
+
+/**
+ * Value of a property in the element's properties (e.g. m:fPr for m:f), or undefined if it isn't set
+ */
+function getProperty(node, name) {
+	let pr = child(node, `${localName(node)}Pr`);
+	let property = child(pr, name);
+	if (!property) {
+		return undefined;
+	}
+	return getAttr(property, 'val', NS.m) ?? '';
+}
+
+function isPropertyOn(node, name, defaultValue = false) {
+	let pr = child(node, `${localName(node)}Pr`);
+	let property = child(pr, name);
+	return property ? isFlagOn(property) : defaultValue;
+}
+
+function isFlagOn(node) {
+	if (!node) {
+		return false;
+	}
+	let value = getAttr(node, 'val', NS.m);
+	return value === null || ['1', 'on', 'true'].includes(value);
+}
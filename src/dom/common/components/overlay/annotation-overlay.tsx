@@ -21,6 +21,7 @@ import * as ReactDOM from "react-dom";
 import { IconNoteLarge } from "../../../../common/components/common/icons";
 import { closestElement, isRTL, isVertical } from "../../lib/nodes";
 import { isSafari } from "../../../../common/lib/utilities";
+import { MARKUP_ANNOTATION_TYPES } from "../../../../common/defines";
 import { expandRect, getBoundingRect, rectsEqual } from "../../lib/rect";
 // @ts-ignore - classnames doesn't have type definitions but is used throughout the codebase
 import cx from "classnames";
@@ -177,8 +178,8 @@ export const AnnotationOverlay: React.FC<AnnotationOverlayProps> = (props) => {
 	let imageAnnotations: DisplayedAnnotation[] = [];
 	let inkAnnotations: DisplayedAnnotation[] = [];
 	for (let annotation of annotations) {
-		if (annotation.type === 'highlight' || annotation.type === 'underline') {
-			// Put selected highlights/underlines at the end of the array,
+		if (MARKUP_ANNOTATION_TYPES.includes(annotation.type)) {
+			// Put selected text markup annotations at the end of the array,
 			// so they render on top
 			if (annotation.id && selectedAnnotationIDs.includes(annotation.id)) {
 				highlightUnderlines.push(annotation);
@@ -995,6 +996,26 @@ type AnnotationOverlayProps = {
 	onTextChange?: (id: string, text: string) => void;
 };
 
+const SQUIGGLY_AMPLITUDE = 1;
+const SQUIGGLY_PERIOD = 6;
+
+/**
+ * Wavy line along the edge of a text rect where an underline would go
+ */
+function getSquigglyPath(rect: DOMRect, vert: boolean, rtl: boolean) {
+	let [start, length, center] = vert
+		? [rect.y, rect.height, rtl ? rect.x - 1.5 : rect.x + rect.width + 1.5]
+		: [rect.x, rect.width, rect.y + rect.height + 1.5];
+	let point = (along: number, across: number) => (vert ? `${across},${along}` : `${along},${across}`);
+	let d = `M${point(start, center)}`;
+	for (let offset = 0, i = 0; offset < length; offset += SQUIGGLY_PERIOD / 2, i++) {
+		let control = center + (i % 2 ? 2 : -2) * SQUIGGLY_AMPLITUDE;
+		let end = Math.min(offset + SQUIGGLY_PERIOD / 2, length);
+		d += ` Q${point(start + offset + SQUIGGLY_PERIOD / 4, control)} ${point(start + end, center)}`;
+	}
+	return d;
+}
+
 let HighlightOrUnderline: React.FC<HighlightOrUnderlineProps> = (props) => {
 	let { annotation, selected, singleSelection, onPointerDown, onPointerUp, onContextMenu, onDragStart, onResizeStart, onResizeEnd, widgetContainer } = props;
 	let [isResizing, setResizing] = useState(false);
@@ -1088,21 +1109,49 @@ let HighlightOrUnderline: React.FC<HighlightOrUnderlineProps> = (props) => {
 
 	let vert = isVertical(annotation.range.commonAncestorContainer);
 	let rtl = isRTL(annotation.range.commonAncestorContainer);
-	let underline = annotation.type === 'underline';
+	let type = annotation.type;
+	let color = annotation.color;
 	let rectGroup = useMemo(() => {
 		return <g ref={rectGroupRef}>
-			{rects.map((rect, i) => (
-				<rect
-					x={vert && underline ? rect.x + (rtl ? -3 : rect.width) : rect.x}
-					y={!vert && underline ? rect.y + rect.height : rect.y}
-					width={vert && underline ? 3 : rect.width}
-					height={!vert && underline ? 3 : rect.height}
-					opacity="50%"
-					key={i}
-				/>
-			))}
+			{rects.map((rect, i) => {
+				if (type === 'squiggly') {
+					return (
+						<path
+							d={getSquigglyPath(rect, vert, rtl)}
+							fill="none"
+							stroke={color}
+							strokeWidth={1.5}
+							opacity="50%"
+							key={i}
+						/>
+					);
+				}
+				if (type === 'strikeout') {
+					return (
+						<rect
+							x={vert ? rect.x + rect.width / 2 - 1 : rect.x}
+							y={vert ? rect.y : rect.y + rect.height / 2 - 1}
+							width={vert ? 2 : rect.width}
+							height={vert ? rect.height : 2}
+							opacity="50%"
+							key={i}
+						/>
+					);
+				}
+				let underline = type === 'underline';
+				return (
+					<rect
+						x={vert && underline ? rect.x + (rtl ? -3 : rect.width) : rect.x}
+						y={!vert && underline ? rect.y + rect.height : rect.y}
+						width={vert && underline ? 3 : rect.width}
+						height={!vert && underline ? 3 : rect.height}
+						opacity="50%"
+						key={i}
+					/>
+				);
+			})}
 		</g>;
-	}, [rects, rtl, underline, vert]);
+	}, [color, rects, rtl, type, vert]);
 
 	let foreignObjects = useMemo(() => {
 		if (isResizing) {
@@ -1183,7 +1232,7 @@ let HighlightOrUnderline: React.FC<HighlightOrUnderlineProps> = (props) => {
 	}
 
 	// When the user drags the annotation, we *want* to set the drag image to the rendered annotation -- a highlight
-	// rectangle for a highlight annotation, an underline for an underline annotation. We don't want to include
+	// rectangle for a highlight annotation, a line for an underline/strikeout/squiggly annotation. We don't want to include
 	// resizers. But in Safari, passing an SVG sub-element to setDragImage() doesn't actually set the drag image to the
 	// rendered content of that element, but rather to all the text contained within its bounding box (but not
 	// necessarily within the element itself in the DOM tree). This is very weird and means that underline annotations
@@ -41,7 +41,7 @@ import {
 } from "./lib/range";
 import { getSelectionRanges } from "./lib/selection";
 import { FindProcessor } from "./lib/find";
-import { SELECTION_COLOR } from "../../common/defines";
+import { MARKUP_ANNOTATION_TYPES, SELECTION_COLOR } from "../../common/defines";
 import {
 	debounceUntilScrollFinishes,
 	getCodeCombination, getCurrentColorScheme,
@@ -424,7 +424,7 @@ abstract class DOMView<State extends DOMViewState, Data> {
 			return null;
 		}
 		let range: Range;
-		if (type === 'highlight' || type === 'underline') {
+		if (MARKUP_ANNOTATION_TYPES.includes(type)) {
 			range = makeRangeSpanning(...getSelectionRanges(selection));
 		}
 		else if (type === 'note') {
@@ -458,7 +458,7 @@ abstract class DOMView<State extends DOMViewState, Data> {
 			return;
 		}
 
-		if (this._tool.type == 'highlight' || this._tool.type == 'underline') {
+		if (MARKUP_ANNOTATION_TYPES.includes(this._tool.type)) {
 			if (this._gotPointerUp) {
 				let annotation = this._touchAnnotationStartPosition
 					? this._previewAnnotation
@@ -1627,7 +1627,7 @@ abstract class DOMView<State extends DOMViewState, Data> {
 			this._pointerMovedWhileDown = false;
 
 			if ((event.pointerType === 'touch' || event.pointerType === 'pen')
-					&& (this._tool.type === 'highlight' || this._tool.type === 'underline')
+					&& MARKUP_ANNOTATION_TYPES.includes(this._tool.type)
 					&& event.target !== this._annotationShadowRoot.host) {
 				this._touchAnnotationStartPosition = caretPositionFromPoint(this._iframeDocument, event.clientX, event.clientY);
 				this._iframeDocument.body.classList.add('creating-touch-annotation');
@@ -1683,7 +1683,7 @@ abstract class DOMView<State extends DOMViewState, Data> {
 		// If we're using a tool that immediately creates an annotation based on the current selection, we want to use
 		// debounced _tryUseTool() in order to wait for double- and triple-clicks to complete. A multi-click is only
 		// possible if the pointer hasn't moved while down.
-		else if (!this._pointerMovedWhileDown && (this._tool.type == 'highlight' || this._tool.type == 'underline')) {
+		else if (!this._pointerMovedWhileDown && MARKUP_ANNOTATION_TYPES.includes(this._tool.type)) {
 			this._tryUseToolDebounced();
 		}
 		else {
@@ -1700,7 +1700,7 @@ abstract class DOMView<State extends DOMViewState, Data> {
 		this._pointerMovedWhileDown = true;
 		if (this._touchAnnotationStartPosition
 				&& (event.pointerType === 'touch' || event.pointerType === 'pen')
-				&& (this._tool.type === 'highlight' || this._tool.type === 'underline')) {
+				&& MARKUP_ANNOTATION_TYPES.includes(this._tool.type)) {
 			let endPos = caretPositionFromPoint(this._iframeDocument, event.clientX, event.clientY);
 			if (endPos) {
 				let range = this._iframeDocument.createRange();
@@ -1710,7 +1710,7 @@ abstract class DOMView<State extends DOMViewState, Data> {
 					range.setStart(endPos.offsetNode, endPos.offset);
 					range.setEnd(this._touchAnnotationStartPosition.offsetNode, this._touchAnnotationStartPosition.offset);
 				}
-				let annotation = this._getAnnotationFromRange(range, this._tool.type, this._tool.color);
+				let annotation = this._getAnnotationFromRange(range, this._tool.type as AnnotationType, this._tool.color);
 				if (annotation) {
 					this._previewAnnotation = annotation;
 					this._renderAnnotations();
@@ -1738,7 +1738,7 @@ abstract class DOMView<State extends DOMViewState, Data> {
 		//    pointermove events non-cancellable, even when the listener is
 		//    initialized with { passive: false }.
 		// So we do it with a separate touchmove listener.
-		if (this._touchAnnotationStartPosition && (this._tool.type === 'highlight' || this._tool.type === 'underline')
+		if (this._touchAnnotationStartPosition && MARKUP_ANNOTATION_TYPES.includes(this._tool.type)
 				|| this._resizingAnnotationID) {
 			event.preventDefault();
 		}
@@ -1875,9 +1875,9 @@ abstract class DOMView<State extends DOMViewState, Data> {
 		console.log('[DOMView.setTool] Setting dataset.tool');
 		this._iframeDocument.body.dataset.tool = tool.type;
 
-		// When highlighting or underlining, we draw a preview annotation during selection, so set the browser's
+		// When marking up text, we draw a preview annotation during selection, so set the browser's
 		// selection highlight color to transparent. Otherwise, use the default selection color.
-		let selectionColor = tool.type == 'highlight' || tool.type == 'underline' ? 'transparent' : SELECTION_COLOR;
+		let selectionColor = MARKUP_ANNOTATION_TYPES.includes(tool.type) ? 'transparent' : SELECTION_COLOR;
 		if (selectionColor.startsWith('#')) {
 			// 50% opacity, like annotations -- not needed if we're using a system color
 			selectionColor += '80';
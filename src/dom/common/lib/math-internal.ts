@@ -8,17 +8,28 @@ import { HTMLAdaptor } from "mathjax-full/js/adaptors/HTMLAdaptor";
 
 let registered = false;
 
-export function renderMathInternal(doc: Document) {
+// One MathJax document per DOM document, so CHTML's font styles accumulate across renders
+// instead of being replaced by those of the latest batch
+let mathDocuments = new WeakMap<Document, HTMLDocument<Node, Text, Document>>();
+
+export function renderMathInternal(doc: Document, elements?: Element[]) {
 	if (!registered) {
 		// MathJax wants nodeValue not to be nullable, so we have to cast to any. It'll be fine.
 		RegisterHTMLHandler(new HTMLAdaptor((doc.defaultView ?? window) as any));
 		registered = true;
 	}
 
-	let mjDoc = mathjax.document(doc, {
-		InputJax: new TeX({ packages: AllPackages }),
-		OutputJax: new CHTML({ fontURL: new URL('mathjax-fonts', document.location.href).toString() })
-	}) as HTMLDocument<Node, Text, Document>;
+	let mjDoc = mathDocuments.get(doc);
+	if (!mjDoc) {
+		mjDoc = mathjax.document(doc, {
+			InputJax: new TeX({ packages: AllPackages }),
+			OutputJax: new CHTML({ fontURL: new URL('mathjax-fonts', document.location.href).toString() })
+		}) as HTMLDocument<Node, Text, Document>;
+		mathDocuments.set(doc, mjDoc);
+	}
+	// Only search the given elements (the whole body by default)
+	mjDoc.options.elements = elements ?? null;
+	mjDoc.clear();
 	mjDoc.render();
 	for (let item of mjDoc.math) {
 		if (item.typesetRoot.nodeType === Node.ELEMENT_NODE) {
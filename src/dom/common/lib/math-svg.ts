@@ -0,0 +1,29 @@
+import { HTMLHandler } from "mathjax-full/js/handlers/html/HTMLHandler";
+import { HTMLDocument } from "mathjax-full/js/handlers/html/HTMLDocument";
+import { liteAdaptor } from "mathjax-full/js/adaptors/liteAdaptor";
+import { LiteDocument } from "mathjax-full/js/adaptors/lite/Document";
+import { LiteElement } from "mathjax-full/js/adaptors/lite/Element";
+import { LiteText } from "mathjax-full/js/adaptors/lite/Text";
+import { TeX } from "mathjax-full/js/input/tex";
+import { AllPackages } from "mathjax-full/js/input/tex/AllPackages";
+import { SVG } from "mathjax-full/js/output/svg";
+
+/**
+ * Typeset TeX in the given elements (".class", "#id" or tag names) of an HTML document.
+ * Each formula becomes an SVG with its own glyphs, so the result shows math without MathJax.
+ */
+export function renderMathToSVGInternal(html: string, elements: string[]): string {
+	// A handler of our own rather than a registered one, which could be the browser's
+	let adaptor = liteAdaptor();
+	let handler = new HTMLHandler<LiteElement, LiteText, LiteDocument>(adaptor);
+	let mjDoc = handler.create(adaptor.parse(html, 'text/html'), {
+		InputJax: new TeX({ packages: AllPackages }),
+		OutputJax: new SVG({ fontCache: 'local' }),
+	}) as HTMLDocument<LiteElement, LiteText, LiteDocument>;
+	mjDoc.options.elements = elements;
+	mjDoc.render();
+	if (!Array.from(mjDoc.math).length) {
+		return html;
+	}
+	return adaptor.doctype(mjDoc.document) + '\n' + adaptor.outerHTML(adaptor.root(mjDoc.document)) + '\n';
+}
@@ -14,6 +14,24 @@ export async function renderMath(doc: Document) {
 	(await import('./math-internal')).renderMathInternal(doc);
 }
 
+/**
+ * Typeset TeX delimited by \(...\), \[...\], $$...$$ or \begin{...} in the given elements
+ */
+export async function renderMathInElements(doc: Document, elements: Element[]) {
+	if (!elements.length) {
+		return;
+	}
+	(await import('./math-internal')).renderMathInternal(doc, elements);
+}
+
+/**
+ * Typeset TeX in the given elements of an HTML document string as SVG, for documents
+ * that have to show math on their own, like exported files
+ */
+export async function renderMathToSVG(html: string, elements: string[]): Promise<string> {
+	return (await import('./math-svg')).renderMathToSVGInternal(html, elements);
+}
+
 export function closestMathTeX(el: Element): string | null {
 	return (el.closest('mjx-container') as HTMLElement | null)
 		?.dataset.tex ?? null;
@@ -39,7 +39,7 @@ import {
 } from "./flow";
 import { RTL_SCRIPTS, A11Y_VIRT_CURSOR_DEBOUNCE_LENGTH } from "./defines";
 import { parseAnnotationsFromKOReaderMetadata, koReaderAnnotationToRange } from "./lib/koreader";
-import { ANNOTATION_COLORS } from "../../common/defines";
+import { ANNOTATION_COLORS, MARKUP_ANNOTATION_TYPES } from "../../common/defines";
 import { calibreAnnotationToRange, parseAnnotationsFromCalibreMetadata } from "./lib/calibre";
 import LRUCacheMap from "../common/lib/lru-cache-map";
 import { mode } from "../common/lib/collection";
@@ -483,7 +483,7 @@ class EPUBView extends DOMView<EPUBViewState, EPUBViewData> {
 			return null;
 		}
 		let text;
-		if (type == 'highlight' || type == 'underline') {
+		if (MARKUP_ANNOTATION_TYPES.includes(type)) {
 			text = '';
 			let lastSplitRange;
 			for (let splitRange of splitRangeToTextNodes(range)) {
@@ -661,7 +661,7 @@ class EPUBView extends DOMView<EPUBViewState, EPUBViewData> {
 				continue;
 			}
 
-			let type: 'highlight' | 'underline' = 'highlight';
+			let type: AnnotationType = 'highlight';
 			let color = ANNOTATION_COLORS[0][1]; // Default to yellow
 			switch (calibreAnnotation.style?.kind) {
 				case 'color':
@@ -686,10 +686,11 @@ class EPUBView extends DOMView<EPUBViewState, EPUBViewData> {
 				case 'decoration':
 					switch (calibreAnnotation.style.which) {
 						case 'strikeout':
-							color = ANNOTATION_COLORS[1][1]; // Red highlight as a stand-in
+							type = 'strikeout';
+							color = ANNOTATION_COLORS[1][1]; // Red, same as the strikeout tool
 							break;
 						case 'wavy':
-							type = 'underline';
+							type = 'squiggly';
 							break;
 					}
 					break;
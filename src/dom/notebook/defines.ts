@@ -10,15 +10,35 @@ export const SORT_INDEX_LENGTH_OLD = 7;
 export const DEFAULT_CODE_CELL_MIN_HEIGHT = 60;
 export const DEFAULT_MARKDOWN_CELL_MIN_HEIGHT = 40;
 
+// Notebooks with more cells than this only mount the cells near the viewport
+export const VIRTUALIZATION_MIN_CELLS = 100;
+// Cells mounted before the first scroll
+export const VIRTUALIZATION_INITIAL_CELLS = 20;
+// How far above and below the viewport cells stay mounted (px)
+export const VIRTUALIZATION_MARGIN = 1500;
+
+// How long after the last edit annotations are re-anchored (ms)
+export const REANCHOR_DELAY = 150;
+
+// Outputs larger than this are cut off until expanded
+export const OUTPUT_TRUNCATE_LINES = 1000;
+export const OUTPUT_TRUNCATE_LENGTH = 200000;
+
 // Cell execution states
 export type CellExecutionState = 'idle' | 'pending' | 'running' | 'success' | 'error';
 
 // Supported output MIME types in order of preference
+// Other application/*+json types are rendered as JSON after these, before falling back to text/plain
 export const OUTPUT_MIME_PRIORITY = [
 	'text/html',
+	'text/markdown',
+	'text/latex',
+	'image/svg+xml',
 	'image/png',
 	'image/jpeg',
-	'image/svg+xml',
-	'text/plain',
+	'image/gif',
+	'image/webp',
+	'image/bmp',
 	'application/json',
+	'text/plain',
 ];
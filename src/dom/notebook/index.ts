@@ -4,7 +4,45 @@
  */
 
 export { default as NotebookView } from './notebook-view';
-export type { NotebookViewState, NotebookViewData } from './notebook-view';
+export type { NotebookViewState, NotebookViewData, NotebookViewOptions } from './notebook-view';
 export { parseNotebook, serializeNotebook, renderOutputToHtml } from './notebook-parser';
-export type { ParsedNotebook, NotebookCell, NotebookMetadata, CellOutput } from './notebook-parser';
+export type {
+	ParsedNotebook,
+	ParseNotebookOptions,
+	NotebookCell,
+	NotebookMetadata,
+	CellOutput,
+	MimeBundle
+} from './notebook-parser';
+export {
+	exportNotebook,
+	exportNotebookToHTML,
+	exportNotebookToMarkdown,
+	exportNotebookToScript
+} from './notebook-export';
+export type {
+	NotebookExportFormat,
+	NotebookExportAnnotation,
+	NotebookExportOptions,
+	NotebookExportResult
+} from './notebook-export';
+export { diffNotebooks } from './lib/notebook-diff';
+export type { CellDiff, CellDiffStatus, SourceDiffRow } from './lib/notebook-diff';
+export { getWidgetState, renderWidgetView } from './lib/widgets';
+export type { WidgetModel, WidgetState } from './lib/widgets';
+export { detectNotebookFormat } from './lib/text-notebook';
+export type { NotebookSourceFormat, TextNotebookFormat } from './lib/text-notebook';
+export { NotebookFormatError, upgradeNotebook, validateNotebook } from './lib/nbformat';
+export type { NotebookValidationIssue } from './lib/nbformat';
+export { InProcessKernel, createJavaScriptHandler, kernelMessageToOutput, appendKernelMessage } from './kernel';
+export type {
+	NotebookKernel,
+	KernelMessage,
+	KernelStatus,
+	ExecuteReply,
+	ExecuteOptions,
+	InProcessKernelIO,
+	InProcessKernelHandler,
+	InProcessKernelOptions
+} from './kernel';
 export * from './defines';
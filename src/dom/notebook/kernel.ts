@@ -0,0 +1,315 @@
+/**
+ * Notebook Kernel
+ * Typed protocol between NotebookView and whatever actually executes code
+ * (a Jupyter server connection provided by the host, or the in-process stand-in below).
+ */
+
+import { applyOutputUpdate, CellOutput, MimeBundle, OutputUpdate } from "./notebook-parser";
+
+/* eslint-disable camelcase -- nbformat JSON keys */
+export type KernelStatus = 'starting' | 'idle' | 'busy' | 'restarting' | 'dead';
+
+// Subset of Jupyter IOPub messages that produce cell outputs
+// https://jupyter-client.readthedocs.io/en/stable/messaging.html#messages-on-the-iopub-pub-sub-channel
+export type KernelMessage =
+	| {
+		msg_type: 'stream';
+		content: { name: 'stdout' | 'stderr'; text: string };
+	}
+	| {
+		msg_type: 'display_data';
+		content: { data: MimeBundle; metadata?: CellOutput['metadata']; transient?: { display_id?: string } };
+	}
+	| {
+		msg_type: 'update_display_data';
+		content: { data: MimeBundle; metadata?: CellOutput['metadata']; transient: { display_id: string } };
+	}
+	| {
+		msg_type: 'clear_output';
+		content: { wait: boolean };
+	}
+	| {
+		msg_type: 'execute_result';
+		content: { data: MimeBundle; metadata?: CellOutput['metadata']; execution_count: number };
+	}
+	| {
+		msg_type: 'error';
+		content: { ename: string; evalue: string; traceback: string[] };
+	};
+
+export interface ExecuteReply {
+	status: 'ok' | 'error' | 'aborted';
+	execution_count: number | null;
+}
+
+export interface ExecuteOptions {
+	// Called for every output message, in order, before execute() resolves
+	onMessage: (message: KernelMessage) => void;
+}
+
+export interface NotebookKernel {
+	readonly language: string;
+
+	readonly status: KernelStatus;
+
+	/**
+	 * Run code and stream its outputs through options.onMessage.
+	 * Resolves once the kernel is idle again; rejects only if the kernel
+	 * can't accept the request at all (e.g. it has been shut down).
+	 */
+	execute(code: string, options: ExecuteOptions): Promise<ExecuteReply>;
+
+	interrupt(): Promise<void>;
+
+	restart(): Promise<void>;
+
+	shutdown(): Promise<void>;
+}
+
+/**
+ * Convert a kernel message into an nbformat output, or an update to existing outputs
+ */
+export function kernelMessageToOutput(message: KernelMessage): OutputUpdate {
+	switch (message.msg_type) {
+		case 'stream':
+			return {
+				output_type: 'stream',
+				name: message.content.name,
+				text: message.content.text,
+			};
+		case 'display_data':
+			return {
+				output_type: 'display_data',
+				data: message.content.data,
+				metadata: message.content.metadata || {},
+				...(message.content.transient?.display_id && { transient: message.content.transient }),
+			};
+		case 'update_display_data':
+			return {
+				output_type: 'update_display_data',
+				data: message.content.data,
+				metadata: message.content.metadata || {},
+				transient: message.content.transient,
+			};
+		case 'clear_output':
+			return {
+				output_type: 'clear_output',
+				wait: message.content.wait,
+			};
+		case 'execute_result':
+			return {
+				output_type: 'execute_result',
+				data: message.content.data,
+				metadata: message.content.metadata || {},
+				execution_count: message.content.execution_count,
+			};
+		default:
+			return {
+				output_type: 'error',
+				ename: message.content.ename,
+				evalue: message.content.evalue,
+				traceback: message.content.traceback,
+			};
+	}
+}
+
+/**
+ * Apply a kernel message to an output list (see applyOutputUpdate).
+ * Returns whether the list changed.
+ */
+export function appendKernelMessage(outputs: CellOutput[], message: KernelMessage): boolean {
+	return applyOutputUpdate(outputs, kernelMessageToOutput(message));
+}
+
+export interface InProcessKernelIO {
+	stdout: (text: string) => void;
+	stderr: (text: string) => void;
+	display: (data: MimeBundle, metadata?: CellOutput['metadata']) => void;
+	clearOutput: (wait?: boolean) => void;
+	// Aborted when the kernel is interrupted, restarted or shut down
+	signal: AbortSignal;
+}
+
+/**
+ * Runs a single cell. A resolved value other than undefined becomes the execute_result;
+ * a thrown error becomes an error output.
+ */
+export type InProcessKernelHandler = (code: string, io: InProcessKernelIO) => unknown;
+
+export interface InProcessKernelOptions {
+	language?: string;
+	// Called on start and on every restart, so each kernel session gets fresh state
+	createHandler?: () => InProcessKernelHandler;
+}
+
+class KernelInterruptedError extends Error {
+	constructor() {
+		super('Execution interrupted');
+		this.name = 'KeyboardInterrupt';
+	}
+}
+
+/**
+ * Stand-in kernel that runs entirely inside the reader, so the execution flow can be
+ * exercised without a Jupyter server. Requests are executed one at a time, like a real kernel.
+ * By default it evaluates JavaScript (see createJavaScriptHandler), but any handler can be supplied.
+ */
+export class InProcessKernel implements NotebookKernel {
+	readonly language: string;
+
+	private readonly _createHandler: () => InProcessKernelHandler;
+
+	private _handler: InProcessKernelHandler;
+
+	private _status: KernelStatus = 'idle';
+
+	private _executionCount = 0;
+
+	private _abortController = new AbortController();
+
+	private _queue: Promise<unknown> = Promise.resolve();
+
+	constructor(options: InProcessKernelOptions = {}) {
+		this.language = options.language ?? 'javascript';
+		this._createHandler = options.createHandler ?? createJavaScriptHandler;
+		this._handler = this._createHandler();
+	}
+
+	get status() {
+		return this._status;
+	}
+
+	execute(code: string, options: ExecuteOptions): Promise<ExecuteReply> {
+		if (this._status === 'dead') {
+			return Promise.reject(new Error('Kernel has been shut down'));
+		}
+		// Requests submitted before an interrupt/restart are aborted along with the running one
+		let signal = this._abortController.signal;
+		let reply = this._queue.then(() => this._run(code, options, signal));
+		this._queue = reply.catch(() => undefined);
+		return reply;
+	}
+
+	private async _run(code: string, options: ExecuteOptions, signal: AbortSignal): Promise<ExecuteReply> {
+		if (signal.aborted || this._status === 'dead') {
+			return { status: 'aborted', execution_count: null };
+		}
+		this._status = 'busy';
+		let executionCount = ++this._executionCount;
+		let io: InProcessKernelIO = {
+			stdout: text => !signal.aborted && options.onMessage({ msg_type: 'stream', content: { name: 'stdout', text } }),
+			stderr: text => !signal.aborted && options.onMessage({ msg_type: 'stream', content: { name: 'stderr', text } }),
+			display: (data, metadata) => !signal.aborted && options.onMessage({ msg_type: 'display_data', content: { data, metadata } }),
+			clearOutput: (wait = false) => !signal.aborted && options.onMessage({ msg_type: 'clear_output', content: { wait } }),
+			signal,
+		};
+		let interrupted = new Promise<never>((_resolve, reject) => {
+			signal.addEventListener('abort', () => reject(new KernelInterruptedError()), { once: true });
+		});
+		try {
+			let result = await Promise.race([this._handler(code, io), interrupted]);
+			if (result !== undefined) {
+				options.onMessage({
+					msg_type: 'execute_result',
+					content: {
+						data: toMimeBundle(result),
+						metadata: {},
+						execution_count: executionCount,
+					}
+				});
+			}
+			return { status: 'ok', execution_count: executionCount };
+		}
+		catch (e) {
+			let error = e instanceof Error ? e : new Error(String(e));
+			options.onMessage({
+				msg_type: 'error',
+				content: {
+					ename: error.name,
+					evalue: error.message,
+					traceback: (error.stack || `${error.name}: ${error.message}`).split('\n'),
+				}
+			});
+			return { status: 'error', execution_count: executionCount };
+		}
+		finally {
+			if (this._status === 'busy') {
+				this._status = 'idle';
+			}
+		}
+	}
+
+	async interrupt() {
+		this._abortController.abort();
+		this._abortController = new AbortController();
+	}
+
+	async restart() {
+		if (this._status === 'dead') {
+			throw new Error('Kernel has been shut down');
+		}
+		this._status = 'restarting';
+		await this.interrupt();
+		await this._queue;
+		this._executionCount = 0;
+		this._handler = this._createHandler();
+		this._status = 'idle';
+	}
+
+	async shutdown() {
+		await this.interrupt();
+		this._status = 'dead';
+	}
+}
+
+function toMimeBundle(value: unknown): MimeBundle {
+	if (value && typeof value === 'object' && !Array.isArray(value)) {
+		let keys = Object.keys(value);
+		// Handlers can return a MIME bundle directly
+		if (keys.length && keys.every(key => key.includes('/'))) {
+			return value as MimeBundle;
+		}
+	}
+	let text;
+	try {
+		text = JSON.stringify(value, null, 2) ?? String(value);
+	}
+	catch (e) {
+		text = String(value);
+	}
+	return { 'text/plain': text };
+}
+
+/**
+ * Create a handler that evaluates JavaScript. Undeclared assignments (`x = 1`) persist between cells
+ * in a per-handler scope; the value of a single-expression cell is returned as its result.
+ */
+export function createJavaScriptHandler(): InProcessKernelHandler {
+	let scope: Record<string, unknown> = Object.create(null);
+	let AsyncFunction = Object.getPrototypeOf(async () => undefined).constructor;
+	return async (code, io) => {
+		let format = (args: unknown[]) => args.map(arg => (typeof arg === 'string' ? arg : toMimeBundle(arg)['text/plain'])).join(' ') + '\n';
+		let console = {
+			log: (...args: unknown[]) => io.stdout(format(args)),
+			info: (...args: unknown[]) => io.stdout(format(args)),
+			warn: (...args: unknown[]) => io.stderr(format(args)),
+			error: (...args: unknown[]) => io.stderr(format(args)),
+		};
+		let fn;
+		try {
+			// Try as an expression first so its value can become the result
+			fn = new AsyncFunction('scope', 'console', 'display', `with (scope) { return (${code}\n); }`);
+		}
+		catch (e) {
+			fn = new AsyncFunction('scope', 'console', 'display', `with (scope) { ${code}\n }`);
+		}
+		let proxy = new Proxy(scope, {
+			// Claim every name except globals and our own parameters, so undeclared assignments
+			// land in the scope instead of on window
+			has: (_target, key) => typeof key === 'string'
+				&& !['console', 'display'].includes(key)
+				&& (key in scope || !(key in globalThis)),
+		});
+		return fn(proxy, console, io.display);
+	};
+}
@@ -0,0 +1,81 @@
+/**
+ * Text anchoring for notebook annotations.
+ * Positions are counted over all text nodes under a cell part (its input or its output),
+ * and the quoted text lets us find the annotation again after the cell has been edited.
+ */
+
+import { iterateWalker } from "../../common/lib/nodes";
+import { TextPositionSelector, TextQuoteSelector } from "../../common/lib/selector";
+
+// Characters of context stored before and after the quoted text
+const QUOTE_CONTEXT_LENGTH = 32;
+
+/**
+ * Text of root as counted by textPositionFromRange()/textPositionToRange()
+ */
+export function getTextContent(root: Node): string {
+	let iter = root.ownerDocument!.createNodeIterator(root, NodeFilter.SHOW_TEXT);
+	let text = '';
+	for (let node of iterateWalker(iter)) {
+		text += node.nodeValue || '';
+	}
+	return text;
+}
+
+export function textQuoteFromPosition(text: string, position: TextPositionSelector): TextQuoteSelector {
+	return {
+		type: 'TextQuoteSelector',
+		exact: text.slice(position.start, position.end),
+		prefix: text.slice(Math.max(0, position.start - QUOTE_CONTEXT_LENGTH), position.start),
+		suffix: text.slice(position.end, position.end + QUOTE_CONTEXT_LENGTH),
+	};
+}
+
+/**
+ * Find where a quote is in text now. The stored position wins if the quote is still there;
+ * otherwise take the occurrence whose surroundings match best, preferring the one nearest
+ * the old position. Returns null if the quoted text is gone.
+ */
+export function anchorTextQuote(
+	text: string,
+	quote: TextQuoteSelector,
+	position?: TextPositionSelector
+): TextPositionSelector | null {
+	let { exact } = quote;
+	if (!exact) {
+		return null;
+	}
+	if (position && text.slice(position.start, position.end) === exact) {
+		return position;
+	}
+
+	let best: { start: number, score: number, distance: number } | null = null;
+	for (let start = text.indexOf(exact); start !== -1; start = text.indexOf(exact, start + 1)) {
+		let score = commonSuffixLength(text.slice(0, start), quote.prefix || '')
+			+ commonPrefixLength(text.slice(start + exact.length), quote.suffix || '');
+		let distance = position ? Math.abs(start - position.start) : 0;
+		if (!best || score > best.score || score === best.score && distance < best.distance) {
+			best = { start, score, distance };
+		}
+	}
+	if (!best) {
+		return null;
+	}
+	return { type: 'TextPositionSelector', start: best.start, end: best.start + exact.length };
+}
+
+function commonPrefixLength(a: string, b: string): number {
+	let length = 0;
+	while (length < a.length && length < b.length && a[length] === b[length]) {
+		length++;
+	}
+	return length;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+	let length = 0;
+	while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+		length++;
+	}
+	return length;
+}
@@ -0,0 +1,305 @@
+/**
+ * ANSI escape rendering for terminal-style notebook output (streams, tracebacks, text/plain).
+ * Handles SGR styling and the cursor movements progress bars rely on (\r, \b, erase in line).
+ */
+
+import { escapeHtml } from "./html";
+
+const ANSI_COLOR_NAMES = ['black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white'];
+
+// A color is either one of the 16 theme colors (index 0-15) or a fixed RGB value
+type AnsiColor = number | [number, number, number];
+
+interface AnsiStyle {
+	bold: boolean;
+	italic: boolean;
+	underline: boolean;
+	inverse: boolean;
+	fg: AnsiColor | null;
+	bg: AnsiColor | null;
+}
+
+interface StyledChar {
+	char: string;
+	style: AnsiStyle;
+}
+
+const DEFAULT_STYLE: AnsiStyle = {
+	bold: false,
+	italic: false,
+	underline: false,
+	inverse: false,
+	fg: null,
+	bg: null,
+};
+
+// CSI sequences (ESC [ params final) and the other escapes we recognize just to drop them
+// eslint-disable-next-line no-control-regex
+const TOKEN_REGEX = /\x1b\[([0-9;:?]*)([@-~])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]|[\r\b\n]|[^\x1b\r\b\n]+/g;
+
+/**
+ * Quick check to skip the parser for plain text
+ */
+export function hasAnsiControls(text: string): boolean {
+	// eslint-disable-next-line no-control-regex
+	return /[\x1b\r\b]/.test(text);
+}
+
+/**
+ * Convert text containing ANSI escapes into escaped HTML with styled spans.
+ * Colors 0-15 use ansi-* classes so they follow the theme; 256-color and truecolor values are inline.
+ */
+export function ansiToHtml(text: string): string {
+	if (!hasAnsiControls(text)) {
+		return escapeHtml(text);
+	}
+	return renderLines(interpret(text));
+}
+
+/**
+ * Plain text as a terminal would show it, for exports to formats without styling
+ */
+export function ansiToText(text: string): string {
+	if (!hasAnsiControls(text)) {
+		return text;
+	}
+	return interpret(text).map(line => line.map(({ char }) => char).join('')).join('\n');
+}
+
+/**
+ * Replay the text like a terminal would, one line buffer per output line.
+ * As in Jupyter, text written after \r replaces the whole line rather than just the start of it.
+ */
+function interpret(text: string): StyledChar[][] {
+	let lines: StyledChar[][] = [];
+	let line: StyledChar[] = [];
+	let column = 0;
+	let style = DEFAULT_STYLE;
+	// After \r, the line is dropped once new text is written to it
+	let returned = false;
+
+	for (let match of text.matchAll(TOKEN_REGEX)) {
+		let [token, params, command] = match;
+		if (command !== undefined) {
+			if (command === 'm') {
+				style = applySGR(style, params);
+			}
+			else if (command === 'K') {
+				// Erase in line: 0 = to end, 1 = to start, 2 = whole line
+				let mode = parseInt(params) || 0;
+				if (mode === 0) {
+					line.length = Math.min(line.length, column);
+				}
+				else if (mode === 1) {
+					for (let i = 0; i < Math.min(column + 1, line.length); i++) {
+						line[i] = { char: ' ', style: DEFAULT_STYLE };
+					}
+				}
+				else {
+					line = [];
+				}
+			}
+			else if (command === 'G') {
+				column = Math.max(0, (parseInt(params) || 1) - 1);
+				returned = false;
+			}
+			else if (command === 'D') {
+				column = Math.max(0, column - (parseInt(params) || 1));
+				returned = false;
+			}
+			else if (command === 'C') {
+				column += parseInt(params) || 1;
+				returned = false;
+			}
+			// Other cursor movements can't be represented in flowing text and are dropped
+		}
+		else if (token === '\n') {
+			lines.push(line);
+			line = [];
+			column = 0;
+			returned = false;
+		}
+		else if (token === '\r') {
+			column = 0;
+			returned = true;
+		}
+		else if (token === '\b') {
+			column = Math.max(0, column - 1);
+			returned = false;
+		}
+		else if (token[0] !== '\x1b') {
+			if (returned) {
+				line = [];
+				returned = false;
+			}
+			for (let char of token) {
+				while (line.length < column) {
+					line.push({ char: ' ', style: DEFAULT_STYLE });
+				}
+				line[column++] = { char, style };
+			}
+		}
+	}
+	lines.push(line);
+	return lines;
+}
+
+function applySGR(style: AnsiStyle, params: string): AnsiStyle {
+	let codes = params.split(/[;:]/).map(code => (code === '' ? 0 : parseInt(code)));
+	let next = { ...style };
+	for (let i = 0; i < codes.length; i++) {
+		let code = codes[i];
+		if (code === 0) {
+			next = { ...DEFAULT_STYLE };
+		}
+		else if (code === 1) {
+			next.bold = true;
+		}
+		else if (code === 3) {
+			next.italic = true;
+		}
+		else if (code === 4) {
+			next.underline = true;
+		}
+		else if (code === 7) {
+			next.inverse = true;
+		}
+		else if (code === 22) {
+			next.bold = false;
+		}
+		else if (code === 23) {
+			next.italic = false;
+		}
+		else if (code === 24) {
+			next.underline = false;
+		}
+		else if (code === 27) {
+			next.inverse = false;
+		}
+		else if (code >= 30 && code <= 37) {
+			next.fg = code - 30;
+		}
+		else if (code >= 90 && code <= 97) {
+			next.fg = code - 90 + 8;
+		}
+		else if (code === 39) {
+			next.fg = null;
+		}
+		else if (code >= 40 && code <= 47) {
+			next.bg = code - 40;
+		}
+		else if (code >= 100 && code <= 107) {
+			next.bg = code - 100 + 8;
+		}
+		else if (code === 49) {
+			next.bg = null;
+		}
+		else if (code === 38 || code === 48) {
+			let color: AnsiColor | null = null;
+			if (codes[i + 1] === 5) {
+				color = get256Color(codes[i + 2]);
+				i += 2;
+			}
+			else if (codes[i + 1] === 2) {
+				color = [codes[i + 2], codes[i + 3], codes[i + 4]].map(value => clamp(value || 0)) as [number, number, number];
+				i += 4;
+			}
+			if (code === 38) {
+				next.fg = color;
+			}
+			else {
+				next.bg = color;
+			}
+		}
+	}
+	return next;
+}
+
+/**
+ * xterm 256-color palette: 0-15 are the theme colors, then a 6x6x6 cube and a grayscale ramp
+ */
+function get256Color(index: number): AnsiColor | null {
+	if (!Number.isInteger(index) || index < 0 || index > 255) {
+		return null;
+	}
+	if (index < 16) {
+		return index;
+	}
+	if (index < 232) {
+		let levels = [0, 95, 135, 175, 215, 255];
+		let cube = index - 16;
+		return [levels[Math.floor(cube / 36)], levels[Math.floor(cube / 6) % 6], levels[cube % 6]];
+	}
+	let gray = 8 + (index - 232) * 10;
+	return [gray, gray, gray];
+}
+
+function clamp(value: number): number {
+	return Math.max(0, Math.min(255, value));
+}
+
+function renderLines(lines: StyledChar[][]): string {
+	let html = '';
+	let openStyle: AnsiStyle | null = null;
+	let text = '';
+	let flush = () => {
+		if (!text) return;
+		html += wrapStyled(escapeHtml(text), openStyle!);
+		text = '';
+	};
+	lines.forEach((line, index) => {
+		for (let { char, style } of line) {
+			if (style !== openStyle && !isSameStyle(style, openStyle)) {
+				flush();
+				openStyle = style;
+			}
+			text += char;
+		}
+		if (index < lines.length - 1) {
+			text += '\n';
+		}
+	});
+	flush();
+	return html;
+}
+
+function isSameStyle(a: AnsiStyle, b: AnsiStyle | null): boolean {
+	return !!b
+		&& a.bold === b.bold
+		&& a.italic === b.italic
+		&& a.underline === b.underline
+		&& a.inverse === b.inverse
+		&& String(a.fg) === String(b.fg)
+		&& String(a.bg) === String(b.bg);
+}
+
+function wrapStyled(html: string, style: AnsiStyle): string {
+	let classes: string[] = [];
+	let css: string[] = [];
+	let fg = style.inverse ? style.bg : style.fg;
+	let bg = style.inverse ? style.fg : style.bg;
+	if (style.inverse) {
+		// Swapping the defaults needs the theme's own colors
+		if (fg === null) classes.push('ansi-default-inverse-fg');
+		if (bg === null) classes.push('ansi-default-inverse-bg');
+	}
+	for (let [color, layer] of [[fg, 'fg'], [bg, 'bg']] as [AnsiColor | null, string][]) {
+		if (typeof color === 'number') {
+			classes.push(`ansi-${color >= 8 ? 'bright-' : ''}${ANSI_COLOR_NAMES[color % 8]}-${layer}`);
+		}
+		else if (color) {
+			css.push(`${layer === 'fg' ? 'color' : 'background-color'}: rgb(${color.join(', ')})`);
+		}
+	}
+	if (style.bold) classes.push('ansi-bold');
+	if (style.italic) classes.push('ansi-italic');
+	if (style.underline) classes.push('ansi-underline');
+	if (!classes.length && !css.length) {
+		return html;
+	}
+	let attributes = classes.length ? ` class="${classes.join(' ')}"` : '';
+	if (css.length) {
+		attributes += ` style="${css.join('; ')}"`;
+	}
+	return `<span${attributes}>${html}</span>`;
+}
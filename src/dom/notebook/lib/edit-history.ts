@@ -0,0 +1,113 @@
+/**
+ * Undo/redo history for notebook cell operations and source edits.
+ * Each entry is a snapshot of the cell list. Cells are kept by identity, so restoring
+ * a snapshot doesn't lose what the parser remembers about them for serialization.
+ */
+
+import { CellOutput, NotebookCell } from "../notebook-parser";
+
+/* eslint-disable camelcase -- nbformat JSON keys */
+
+interface CellSnapshot {
+	cell: NotebookCell;
+	cellType: NotebookCell['cell_type'];
+	source: string;
+	outputs: CellOutput[];
+	executionCount: number | null;
+}
+
+export interface NotebookSnapshot {
+	cells: CellSnapshot[];
+	activeCellId: string | null;
+	time: number;
+}
+
+const MAX_HISTORY_SIZE = 100;
+
+export function takeSnapshot(cells: NotebookCell[], activeCellId: string | null): NotebookSnapshot {
+	return {
+		cells: cells.map(cell => ({
+			cell,
+			cellType: cell.cell_type,
+			source: cell.source,
+			outputs: cell.outputs.slice(),
+			executionCount: cell.execution_count,
+		})),
+		activeCellId,
+		time: Date.now(),
+	};
+}
+
+/**
+ * Put every cell back the way it was when the snapshot was taken and return the cell list
+ */
+export function restoreSnapshot(snapshot: NotebookSnapshot): NotebookCell[] {
+	return snapshot.cells.map(({ cell, cellType, source, outputs, executionCount }) => {
+		cell.cell_type = cellType;
+		cell.source = source;
+		cell.outputs = outputs.slice();
+		cell.execution_count = executionCount;
+		return cell;
+	});
+}
+
+export class NotebookEditHistory {
+	private _undoStack: NotebookSnapshot[] = [];
+
+	private _redoStack: NotebookSnapshot[] = [];
+
+	get canUndo() {
+		return this._undoStack.length > 0;
+	}
+
+	get canRedo() {
+		return this._redoStack.length > 0;
+	}
+
+	/**
+	 * When the most recent undoable change was made, or 0 if there is none
+	 */
+	get lastChangeTime() {
+		return this._undoStack.at(-1)?.time ?? 0;
+	}
+
+	/**
+	 * When the most recent redoable undo was made, or 0 if there is none
+	 */
+	get lastUndoTime() {
+		return this._redoStack.at(-1)?.time ?? 0;
+	}
+
+	/**
+	 * Record the state from before a change
+	 */
+	push(snapshot: NotebookSnapshot) {
+		this._undoStack.push(snapshot);
+		if (this._undoStack.length > MAX_HISTORY_SIZE) {
+			this._undoStack.shift();
+		}
+		this._redoStack = [];
+	}
+
+	/**
+	 * Step back. Takes the current state so it can be redone; returns the state to restore.
+	 */
+	undo(current: NotebookSnapshot): NotebookSnapshot | null {
+		let snapshot = this._undoStack.pop();
+		if (!snapshot) {
+			return null;
+		}
+		this._redoStack.push(current);
+		return snapshot;
+	}
+
+	redo(current: NotebookSnapshot): NotebookSnapshot | null {
+		let snapshot = this._redoStack.pop();
+		if (!snapshot) {
+			return null;
+		}
+		// Keep the time of the change being redone so lastChangeTime stays meaningful
+		this._undoStack.push({ ...current, time: snapshot.time });
+		return snapshot;
+	}
+}
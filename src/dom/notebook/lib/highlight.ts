@@ -0,0 +1,105 @@
+/// <reference types="highlight.js" />
+// highlight.js core with the languages notebooks commonly use, to keep the bundle small
+import hljs from 'highlight.js/lib/core';
+import bash from 'highlight.js/lib/languages/bash';
+import c from 'highlight.js/lib/languages/c';
+import cpp from 'highlight.js/lib/languages/cpp';
+import csharp from 'highlight.js/lib/languages/csharp';
+import go from 'highlight.js/lib/languages/go';
+import haskell from 'highlight.js/lib/languages/haskell';
+import java from 'highlight.js/lib/languages/java';
+import javascript from 'highlight.js/lib/languages/javascript';
+import json from 'highlight.js/lib/languages/json';
+import julia from 'highlight.js/lib/languages/julia';
+import kotlin from 'highlight.js/lib/languages/kotlin';
+import lua from 'highlight.js/lib/languages/lua';
+import markdown from 'highlight.js/lib/languages/markdown';
+import matlab from 'highlight.js/lib/languages/matlab';
+import perl from 'highlight.js/lib/languages/perl';
+import php from 'highlight.js/lib/languages/php';
+import python from 'highlight.js/lib/languages/python';
+import r from 'highlight.js/lib/languages/r';
+import ruby from 'highlight.js/lib/languages/ruby';
+import rust from 'highlight.js/lib/languages/rust';
+import scala from 'highlight.js/lib/languages/scala';
+import shell from 'highlight.js/lib/languages/shell';
+import sql from 'highlight.js/lib/languages/sql';
+import typescript from 'highlight.js/lib/languages/typescript';
+import xml from 'highlight.js/lib/languages/xml';
+import yaml from 'highlight.js/lib/languages/yaml';
+import { escapeHtml } from "./html";
+
+hljs.registerLanguage('bash', bash);
+hljs.registerLanguage('c', c);
+hljs.registerLanguage('cpp', cpp);
+hljs.registerLanguage('csharp', csharp);
+hljs.registerLanguage('go', go);
+hljs.registerLanguage('haskell', haskell);
+hljs.registerLanguage('java', java);
+hljs.registerLanguage('javascript', javascript);
+hljs.registerLanguage('json', json);
+hljs.registerLanguage('julia', julia);
+hljs.registerLanguage('kotlin', kotlin);
+hljs.registerLanguage('lua', lua);
+hljs.registerLanguage('markdown', markdown);
+hljs.registerLanguage('matlab', matlab);
+hljs.registerLanguage('perl', perl);
+hljs.registerLanguage('php', php);
+hljs.registerLanguage('python', python);
+hljs.registerLanguage('r', r);
+hljs.registerLanguage('ruby', ruby);
+hljs.registerLanguage('rust', rust);
+hljs.registerLanguage('scala', scala);
+hljs.registerLanguage('shell', shell);
+hljs.registerLanguage('sql', sql);
+hljs.registerLanguage('typescript', typescript);
+hljs.registerLanguage('xml', xml);
+hljs.registerLanguage('yaml', yaml);
+
+// Kernel and language_info names that aren't highlight.js names or aliases
+const KERNEL_LANGUAGES: Record<string, string> = {
+	ipython: 'python',
+	ir: 'r',
+	'c++': 'cpp',
+	'c#': 'csharp',
+	node: 'javascript',
+	nodejs: 'javascript',
+	octave: 'matlab',
+	sparksql: 'sql',
+};
+
+/**
+ * Map a notebook or fence language name (e.g. "python3", "R", "c++") to a registered
+ * highlight.js language, or null if we can't highlight it
+ */
+export function resolveHighlightLanguage(language: string | undefined): string | null {
+	if (!language) {
+		return null;
+	}
+	let name = language.trim().toLowerCase();
+	name = KERNEL_LANGUAGES[name] || name;
+	if (hljs.getLanguage(name)) {
+		return name;
+	}
+	// Versioned kernel names like python3 or julia-1.9
+	name = name.replace(/[-\d.]+$/, '');
+	name = KERNEL_LANGUAGES[name] || name;
+	return hljs.getLanguage(name) ? name : null;
+}
+
+/**
+ * Highlight code as HTML with hljs-* classes. Unknown languages are just escaped.
+ * The text content of the result is always exactly the input.
+ */
+export function highlightCode(code: string, language: string | undefined): string {
+	const resolved = resolveHighlightLanguage(language);
+	if (!resolved) {
+		return escapeHtml(code);
+	}
+	try {
+		return hljs.highlight(code, { language: resolved, ignoreIllegals: true }).value;
+	}
+	catch (e) {
+		return escapeHtml(code);
+	}
+}
@@ -0,0 +1,99 @@
+// Markdown-it for rendering markdown cells and text/markdown outputs
+import MarkdownIt from 'markdown-it';
+import { highlightCode, resolveHighlightLanguage } from "./highlight";
+
+const md = new MarkdownIt({
+	html: true,
+	linkify: true,
+	typographer: true,
+	breaks: true,
+	// Fenced code blocks with a known language; returning '' falls back to plain escaping
+	highlight: (code: string, language: string) => (resolveHighlightLanguage(language) ? highlightCode(code, language) : '')
+});
+
+// Math delimiters Jupyter accepts in markdown, longest first so $$ wins over $
+const MATH_DELIMITERS: [open: string, close: string, display: boolean][] = [
+	['$$', '$$', true],
+	['\\[', '\\]', true],
+	['\\(', '\\)', false],
+	['$', '$', false],
+];
+
+/**
+ * Inline rule that keeps TeX away from the other markdown rules (emphasis, escapes, typographer)
+ * and re-emits it with \(...\) / \[...\] delimiters for MathJax
+ */
+function math(state: any, silent: boolean): boolean {
+	const src: string = state.src;
+	const pos: number = state.pos;
+	if (src[pos] !== '$' && src[pos] !== '\\') {
+		return false;
+	}
+
+	const environment = /^\\begin\{([a-zA-Z]+\*?)\}[\s\S]*?\\end\{\1\}/.exec(src.slice(pos, state.posMax));
+	if (environment) {
+		if (!silent) {
+			const token = state.push('math', '', 0);
+			token.content = environment[0];
+			token.meta = { environment: true };
+		}
+		state.pos += environment[0].length;
+		return true;
+	}
+
+	for (const [open, close, display] of MATH_DELIMITERS) {
+		if (!src.startsWith(open, pos)) {
+			continue;
+		}
+		const start = pos + open.length;
+		let end = src.indexOf(close, start);
+		if (open === '$') {
+			// An escaped \$ inside doesn't close single-dollar math
+			const closing = /(?<!\\)\$/.exec(src.slice(start));
+			end = closing ? start + closing.index : -1;
+		}
+		if (end === -1 || end === start || end + close.length > state.posMax) {
+			continue;
+		}
+		const content = src.slice(start, end);
+		// Like Pandoc: no space just inside single dollars and no digit right after,
+		// so "$5 and $10" stays text
+		if (open === '$' && (/^\s|\s$/.test(content) || /\d/.test(src[end + 1] ?? ''))) {
+			return false;
+		}
+		if (!silent) {
+			const token = state.push('math', '', 0);
+			token.content = content;
+			token.meta = { display };
+		}
+		state.pos = end + close.length;
+		return true;
+	}
+	return false;
+}
+
+md.inline.ruler.before('escape', 'math', math);
+
+md.renderer.rules.math = (tokens: any[], index: number) => {
+	const { content, meta } = tokens[index];
+	const tex = md.utils.escapeHtml(content);
+	if (meta.environment) {
+		return `<span class="math-display">${tex}</span>`;
+	}
+	return meta.display
+		? `<span class="math-display">\\[${tex}\\]</span>`
+		: `<span class="math-inline">\\(${tex}\\)</span>`;
+};
+
+export function renderMarkdown(source: string): string {
+	return md.render(source);
+}
+
+/**
+ * Convert the $ / $$ delimiters used in text/latex outputs to the ones MathJax looks for
+ */
+export function normalizeLatexDelimiters(latex: string): string {
+	return latex
+		.replace(/\$\$([\s\S]+?)\$\$/g, '\\[$1\\]')
+		.replace(/(^|[^\\])\$([^$]+?)\$/g, '$1\\($2\\)');
+}
@@ -0,0 +1,415 @@
+/**
+ * nbformat helpers: upgrading old notebook versions and validating against the v4 schema
+ * https://github.com/jupyter/nbformat/blob/main/nbformat/v4/nbformat.v4.schema.json
+ */
+
+/* eslint-disable camelcase -- nbformat JSON keys */
+export type MultilineString = string | string[];
+
+// nbformat 4 JSON as stored in the file. Only checked by validateNotebook(), so readers
+// still have to cope with values of the wrong type.
+export interface RawOutput {
+	output_type: string;
+	// stream
+	name?: string;
+	text?: MultilineString;
+	// execute_result, display_data
+	data?: Record<string, unknown>;
+	metadata?: Record<string, unknown>;
+	execution_count?: number | null;
+	// error
+	ename?: string;
+	evalue?: string;
+	traceback?: string[];
+	[key: string]: unknown;
+}
+
+export interface RawCell {
+	id?: string;
+	cell_type: string;
+	source: MultilineString;
+	metadata: Record<string, unknown>;
+	// Code cells
+	execution_count?: number | null;
+	outputs?: RawOutput[];
+	// Markdown and raw cells
+	attachments?: Record<string, Record<string, unknown>>;
+	[key: string]: unknown;
+}
+
+export interface RawNotebook {
+	cells: RawCell[];
+	metadata: Record<string, unknown>;
+	nbformat?: number;
+	nbformat_minor?: number;
+	[key: string]: unknown;
+}
+
+export interface NotebookValidationIssue {
+	// Location of the problem, e.g. "cells[3].outputs[0].output_type"
+	path: string;
+	message: string;
+}
+
+export class NotebookFormatError extends Error {
+	readonly issues: NotebookValidationIssue[];
+
+	constructor(message: string, issues: NotebookValidationIssue[] = []) {
+		super(issues.length
+			? `${message}:\n${issues.map(issue => `  ${issue.path || '(notebook)'}: ${issue.message}`).join('\n')}`
+			: message);
+		this.name = 'NotebookFormatError';
+		this.issues = issues;
+	}
+}
+
+const CELL_ID_PATTERN = /^[a-zA-Z0-9-_]+$/;
+
+const MIME_TYPE_PATTERN = /^[a-zA-Z0-9\-+.]+\/[a-zA-Z0-9\-+.]+$/;
+
+/**
+ * Generate a nbformat-valid ID for cells that don't have one. It depends only on the cell's
+ * position, so annotations in the cell find it again when the file is reopened.
+ */
+export function generateCellId(index: number): string {
+	return `cell-${index}`;
+}
+
+/**
+ * Whether an ID came from generateCellId() rather than the file
+ */
+export function isGeneratedCellId(id: string): boolean {
+	return /^cell-\d+$/.test(id);
+}
+
+// Output data keys used by nbformat v3
+const V3_MIME_TYPES: Record<string, string> = {
+	text: 'text/plain',
+	html: 'text/html',
+	markdown: 'text/markdown',
+	latex: 'text/latex',
+	svg: 'image/svg+xml',
+	png: 'image/png',
+	jpeg: 'image/jpeg',
+	pdf: 'application/pdf',
+	json: 'application/json',
+	javascript: 'application/javascript',
+};
+
+const V3_OUTPUT_TYPES: Record<string, string> = {
+	pyout: 'execute_result',
+	pyerr: 'error',
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Bring a parsed notebook JSON up to nbformat 4.
+ * Throws NotebookFormatError if the JSON isn't a notebook we can read at all.
+ */
+export function upgradeNotebook(notebook: unknown): RawNotebook {
+	if (!isObject(notebook)) {
+		throw new NotebookFormatError('Notebook must be a JSON object');
+	}
+	// Notebooks that don't state a version are read as nbformat 4
+	if (notebook.nbformat === 4 || notebook.nbformat === undefined) {
+		if (!Array.isArray(notebook.cells)) {
+			throw new NotebookFormatError('Invalid notebook', [{ path: 'cells', message: 'must be an array' }]);
+		}
+		return notebook as RawNotebook;
+	}
+	if (notebook.nbformat !== 3) {
+		throw new NotebookFormatError(`Unsupported nbformat version: ${JSON.stringify(notebook.nbformat)}`);
+	}
+	if (!Array.isArray(notebook.worksheets)) {
+		throw new NotebookFormatError('Invalid notebook', [{ path: 'worksheets', message: 'must be an array' }]);
+	}
+
+	// Like nbformat.v4.convert.upgrade(): flatten worksheets and drop v3-only metadata
+	let metadata = isObject(notebook.metadata) ? { ...notebook.metadata } : {};
+	delete metadata.name;
+	delete metadata.signature;
+
+	let cells: RawCell[] = [];
+	for (let worksheet of notebook.worksheets) {
+		for (let cell of worksheet?.cells || []) {
+			cells.push(upgradeCellV3(isObject(cell) ? cell : {}, cells.length));
+		}
+	}
+
+	return {
+		cells,
+		metadata,
+		nbformat: 4,
+		nbformat_minor: 5,
+	};
+}
+
+function upgradeCellV3(cell: Record<string, unknown>, index: number): RawCell {
+	let metadata = isObject(cell.metadata) ? { ...cell.metadata } : {};
+	let id = generateCellId(index);
+
+	if (cell.cell_type === 'code') {
+		if (cell.collapsed !== undefined) {
+			metadata.collapsed = cell.collapsed;
+		}
+		return {
+			cell_type: 'code',
+			execution_count: (cell.prompt_number ?? null) as number | null,
+			id,
+			metadata,
+			outputs: (Array.isArray(cell.outputs) ? cell.outputs : []).map(output => upgradeOutputV3(isObject(output) ? output : {})),
+			source: (cell.input ?? '') as MultilineString,
+		};
+	}
+
+	if (cell.cell_type === 'heading') {
+		let source = Array.isArray(cell.source) ? cell.source.join('') : String(cell.source || '');
+		return {
+			cell_type: 'markdown',
+			id,
+			metadata,
+			source: '#'.repeat(Number(cell.level) || 1) + ' ' + source.split('\n').join(' '),
+		};
+	}
+
+	return {
+		cell_type: cell.cell_type === 'raw' ? 'raw' : 'markdown',
+		id,
+		metadata,
+		source: (cell.source ?? '') as MultilineString,
+	};
+}
+
+function upgradeOutputV3(output: Record<string, unknown>): RawOutput {
+	let outputType = String(output.output_type);
+	outputType = V3_OUTPUT_TYPES[outputType] || outputType;
+
+	if (outputType === 'stream') {
+		return {
+			name: String(output.stream || output.name || 'stdout'),
+			output_type: 'stream',
+			text: (output.text ?? '') as MultilineString,
+		};
+	}
+
+	if (outputType === 'error') {
+		return {
+			ename: String(output.ename ?? ''),
+			evalue: String(output.evalue ?? ''),
+			output_type: 'error',
+			traceback: (output.traceback || []) as string[],
+		};
+	}
+
+	// In v3, MIME data lives directly on the output under short keys
+	let data: Record<string, unknown> = {};
+	let metadata: Record<string, unknown> = {};
+	for (let [key, value] of Object.entries(output)) {
+		let mimeType = V3_MIME_TYPES[key] || (key.includes('/') ? key : null);
+		if (!mimeType) {
+			continue;
+		}
+		if (mimeType === 'application/json' && typeof value === 'string') {
+			try {
+				value = JSON.parse(value);
+			}
+			catch (e) {
+				// Keep the string; the validator will report it
+			}
+		}
+		data[mimeType] = value;
+	}
+	for (let [key, value] of Object.entries(isObject(output.metadata) ? output.metadata : {})) {
+		metadata[V3_MIME_TYPES[key] || key] = value;
+	}
+
+	let upgraded: RawOutput = {
+		data,
+		metadata,
+		output_type: outputType,
+	};
+	if (outputType === 'execute_result') {
+		upgraded.execution_count = (output.prompt_number ?? null) as number | null;
+	}
+	return upgraded;
+}
+
+/**
+ * Check an nbformat 4 notebook against the schema. Returns every problem found, not just the first.
+ */
+export function validateNotebook(notebook: Record<string, unknown>): NotebookValidationIssue[] {
+	let issues: NotebookValidationIssue[] = [];
+	let report = (path: string, message: string) => issues.push({ path, message });
+
+	if (notebook.nbformat !== undefined && notebook.nbformat !== 4) {
+		report('nbformat', `must be 4 (got ${JSON.stringify(notebook.nbformat)})`);
+	}
+	if (notebook.nbformat_minor !== undefined
+			&& (typeof notebook.nbformat_minor !== 'number' || !Number.isInteger(notebook.nbformat_minor) || notebook.nbformat_minor < 0)) {
+		report('nbformat_minor', 'must be a non-negative integer');
+	}
+	if (!isObject(notebook.metadata)) {
+		report('metadata', 'must be an object');
+	}
+	else {
+		validateNotebookMetadata(notebook.metadata, report);
+	}
+	if (!Array.isArray(notebook.cells)) {
+		report('cells', 'must be an array');
+		return issues;
+	}
+
+	let requireIDs = Number(notebook.nbformat_minor) >= 5;
+	let seenIDs = new Set<string>();
+	notebook.cells.forEach((cell: unknown, index: number) => {
+		let path = `cells[${index}]`;
+		if (!isObject(cell)) {
+			report(path, 'must be an object');
+			return;
+		}
+		if (!['code', 'markdown', 'raw'].includes(cell.cell_type as string)) {
+			report(`${path}.cell_type`, `must be one of code, markdown, raw (got ${JSON.stringify(cell.cell_type)})`);
+		}
+		if (cell.id === undefined) {
+			if (requireIDs) {
+				report(`${path}.id`, 'is required since nbformat 4.5');
+			}
+		}
+		else if (typeof cell.id !== 'string' || !CELL_ID_PATTERN.test(cell.id) || cell.id.length > 64) {
+			report(`${path}.id`, 'must be 1-64 letters, digits, "-" or "_"');
+		}
+		else if (seenIDs.has(cell.id)) {
+			report(`${path}.id`, `duplicates the ID of an earlier cell ("${cell.id}")`);
+		}
+		else {
+			seenIDs.add(cell.id);
+		}
+		if (!isObject(cell.metadata)) {
+			report(`${path}.metadata`, 'must be an object');
+		}
+		if (!isMultilineString(cell.source)) {
+			report(`${path}.source`, 'must be a string or an array of strings');
+		}
+
+		if (cell.cell_type === 'code') {
+			if (cell.execution_count !== null && !Number.isInteger(cell.execution_count)) {
+				report(`${path}.execution_count`, 'must be an integer or null');
+			}
+			if (!Array.isArray(cell.outputs)) {
+				report(`${path}.outputs`, 'must be an array');
+			}
+			else {
+				cell.outputs.forEach((output: unknown, outputIndex: number) => {
+					validateOutput(output, `${path}.outputs[${outputIndex}]`, report);
+				});
+			}
+			if (cell.attachments !== undefined) {
+				report(`${path}.attachments`, 'is only allowed on markdown and raw cells');
+			}
+		}
+		else if (cell.attachments !== undefined) {
+			if (!isObject(cell.attachments)) {
+				report(`${path}.attachments`, 'must be an object');
+			}
+			else {
+				for (let [name, bundle] of Object.entries(cell.attachments)) {
+					validateMimeBundle(bundle, `${path}.attachments[${JSON.stringify(name)}]`, report);
+				}
+			}
+		}
+	});
+
+	return issues;
+}
+
+function validateNotebookMetadata(metadata: Record<string, unknown>, report: (path: string, message: string) => void) {
+	if (metadata.kernelspec !== undefined) {
+		if (!isObject(metadata.kernelspec)) {
+			report('metadata.kernelspec', 'must be an object');
+		}
+		else {
+			for (let key of ['name', 'display_name']) {
+				if (typeof metadata.kernelspec[key] !== 'string') {
+					report(`metadata.kernelspec.${key}`, 'must be a string');
+				}
+			}
+		}
+	}
+	if (metadata.language_info !== undefined
+			&& (!isObject(metadata.language_info) || typeof metadata.language_info.name !== 'string')) {
+		report('metadata.language_info.name', 'must be a string');
+	}
+}
+
+function validateOutput(output: unknown, path: string, report: (path: string, message: string) => void) {
+	if (!isObject(output)) {
+		report(path, 'must be an object');
+		return;
+	}
+	switch (output.output_type) {
+		case 'execute_result':
+			if (output.execution_count !== null && !Number.isInteger(output.execution_count)) {
+				report(`${path}.execution_count`, 'must be an integer or null');
+			}
+		// Falls through
+		case 'display_data':
+			validateMimeBundle(output.data, `${path}.data`, report);
+			if (!isObject(output.metadata)) {
+				report(`${path}.metadata`, 'must be an object');
+			}
+			break;
+		case 'stream':
+			if (typeof output.name !== 'string') {
+				report(`${path}.name`, 'must be a string');
+			}
+			if (!isMultilineString(output.text)) {
+				report(`${path}.text`, 'must be a string or an array of strings');
+			}
+			break;
+		case 'error':
+			if (typeof output.ename !== 'string') {
+				report(`${path}.ename`, 'must be a string');
+			}
+			if (typeof output.evalue !== 'string') {
+				report(`${path}.evalue`, 'must be a string');
+			}
+			if (!Array.isArray(output.traceback) || !output.traceback.every((line: unknown) => typeof line === 'string')) {
+				report(`${path}.traceback`, 'must be an array of strings');
+			}
+			break;
+		default:
+			report(`${path}.output_type`, 'must be one of execute_result, display_data, stream, error '
+				+ `(got ${JSON.stringify(output.output_type)})`);
+	}
+}
+
+function validateMimeBundle(bundle: unknown, path: string, report: (path: string, message: string) => void) {
+	if (!isObject(bundle)) {
+		report(path, 'must be an object');
+		return;
+	}
+	for (let [mimeType, value] of Object.entries(bundle)) {
+		if (!MIME_TYPE_PATTERN.test(mimeType)) {
+			report(`${path}[${JSON.stringify(mimeType)}]`, 'is not a valid MIME type');
+		}
+		else if (!isJSONMimeType(mimeType) && !isMultilineString(value)) {
+			report(`${path}[${JSON.stringify(mimeType)}]`, 'must be a string or an array of strings');
+		}
+	}
+}
+
+function isMultilineString(value: unknown): value is MultilineString {
+	return typeof value === 'string'
+		|| Array.isArray(value) && value.every(line => typeof line === 'string');
+}
+
+/**
+ * JSON MIME types are stored as objects; everything else is a multiline string
+ * https://nbformat.readthedocs.io/en/latest/format_description.html#display-data
+ */
+export function isJSONMimeType(mimeType: string): boolean {
+	return mimeType === 'application/json' || /^application\/.+\+json$/.test(mimeType);
+}
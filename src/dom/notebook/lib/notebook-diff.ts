@@ -0,0 +1,239 @@
+/**
+ * Cell-by-cell comparison of two versions of a notebook.
+ * Cells are matched by ID where both versions have it; cells whose ID is new on one side
+ * (or was generated while parsing, for nbformat < 4.5) are matched by how similar their sources are.
+ */
+
+import { CellOutput, NotebookCell, ParsedNotebook } from "../notebook-parser";
+import { isGeneratedCellId } from "./nbformat";
+
+export type CellDiffStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+
+export interface SourceDiffRow {
+	// 'modified' pairs a removed line with the line that replaced it
+	type: 'unchanged' | 'removed' | 'added' | 'modified';
+	// null where the line only exists on the other side
+	base: string | null;
+	changed: string | null;
+}
+
+export interface CellDiff {
+	status: CellDiffStatus;
+	base: NotebookCell | null;
+	changed: NotebookCell | null;
+	// Empty for added and removed cells
+	source: SourceDiffRow[];
+	outputsChanged: boolean;
+}
+
+// Minimum share of lines two cells without a common ID must have to count as the same cell
+const MIN_CELL_SIMILARITY = 0.5;
+
+// Above this many comparisons, lines left after trimming the common start and end
+// are shown as replaced instead of being diffed
+const MAX_LINE_DIFF_SIZE = 4000000;
+
+export function diffNotebooks(base: ParsedNotebook, changed: ParsedNotebook): CellDiff[] {
+	const baseCells = base.cells;
+	const changedCells = changed.cells;
+	const baseIds = new Set(baseCells.map(cell => cell.id).filter(id => !isGeneratedCellId(id)));
+	const changedIds = new Set(changedCells.map(cell => cell.id).filter(id => !isGeneratedCellId(id)));
+	const baseLines = baseCells.map(cell => splitLines(cell.source));
+	const changedLines = changedCells.map(cell => splitLines(cell.source));
+
+	const score = (i: number, j: number): number => {
+		const a = baseCells[i];
+		const b = changedCells[j];
+		if (a.id === b.id && baseIds.has(a.id)) {
+			return 2;
+		}
+		if (changedIds.has(a.id) || baseIds.has(b.id)) {
+			// A cell whose ID is in both versions can only be matched with itself
+			return 0;
+		}
+		if (a.cell_type !== b.cell_type) {
+			return 0;
+		}
+		const similarity = getSimilarity(baseLines[i], changedLines[j]);
+		return similarity >= MIN_CELL_SIMILARITY ? similarity : 0;
+	};
+
+	// Best total score of aligning baseCells[i:] with changedCells[j:]
+	const n = baseCells.length;
+	const m = changedCells.length;
+	const totals: Float64Array[] = [];
+	for (let i = 0; i <= n; i++) {
+		totals.push(new Float64Array(m + 1));
+	}
+	const scores = new Map<number, number>();
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			const value = score(i, j);
+			let total = Math.max(totals[i + 1][j], totals[i][j + 1]);
+			if (value > 0) {
+				scores.set(i * (m + 1) + j, value);
+				total = Math.max(total, totals[i + 1][j + 1] + value);
+			}
+			totals[i][j] = total;
+		}
+	}
+
+	const diffs: CellDiff[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < n || j < m) {
+		const value = i < n && j < m ? scores.get(i * (m + 1) + j) : undefined;
+		if (value !== undefined && totals[i][j] === totals[i + 1][j + 1] + value) {
+			diffs.push(diffCells(baseCells[i], changedCells[j], baseLines[i], changedLines[j]));
+			i++;
+			j++;
+		}
+		else if (j >= m || i < n && totals[i][j] === totals[i + 1][j]) {
+			diffs.push({ status: 'removed', base: baseCells[i], changed: null, source: [], outputsChanged: false });
+			i++;
+		}
+		else {
+			diffs.push({ status: 'added', base: null, changed: changedCells[j], source: [], outputsChanged: false });
+			j++;
+		}
+	}
+	return diffs;
+}
+
+function diffCells(base: NotebookCell, changed: NotebookCell, baseLines: string[], changedLines: string[]): CellDiff {
+	const source = diffLines(baseLines, changedLines);
+	const outputsChanged = getOutputsKey(base.outputs) !== getOutputsKey(changed.outputs);
+	const modified = base.cell_type !== changed.cell_type
+		|| outputsChanged
+		|| source.some(row => row.type !== 'unchanged');
+	return { status: modified ? 'modified' : 'unchanged', base, changed, source, outputsChanged };
+}
+
+/**
+ * Line diff of two sources, with runs of removed lines followed by added lines
+ * paired up as modified lines
+ */
+export function diffLines(baseLines: string[], changedLines: string[]): SourceDiffRow[] {
+	let start = 0;
+	while (start < baseLines.length && start < changedLines.length && baseLines[start] === changedLines[start]) {
+		start++;
+	}
+	let baseEnd = baseLines.length;
+	let changedEnd = changedLines.length;
+	while (baseEnd > start && changedEnd > start && baseLines[baseEnd - 1] === changedLines[changedEnd - 1]) {
+		baseEnd--;
+		changedEnd--;
+	}
+
+	const rows: SourceDiffRow[] = baseLines.slice(0, start).map(line => ({ type: 'unchanged', base: line, changed: line }));
+	const a = baseLines.slice(start, baseEnd);
+	const b = changedLines.slice(start, changedEnd);
+	const removed: string[] = [];
+	const added: string[] = [];
+	const flush = () => {
+		const paired = Math.min(removed.length, added.length);
+		for (let k = 0; k < paired; k++) {
+			rows.push({ type: 'modified', base: removed[k], changed: added[k] });
+		}
+		for (const line of removed.slice(paired)) {
+			rows.push({ type: 'removed', base: line, changed: null });
+		}
+		for (const line of added.slice(paired)) {
+			rows.push({ type: 'added', base: null, changed: line });
+		}
+		removed.length = 0;
+		added.length = 0;
+	};
+
+	if ((a.length + 1) * (b.length + 1) > MAX_LINE_DIFF_SIZE) {
+		removed.push(...a);
+		added.push(...b);
+	}
+	else {
+		// lengths[i][j]: longest common subsequence of a[i:] and b[j:]
+		const lengths: Uint32Array[] = [];
+		for (let i = 0; i <= a.length; i++) {
+			lengths.push(new Uint32Array(b.length + 1));
+		}
+		for (let i = a.length - 1; i >= 0; i--) {
+			for (let j = b.length - 1; j >= 0; j--) {
+				lengths[i][j] = a[i] === b[j]
+					? lengths[i + 1][j + 1] + 1
+					: Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+			}
+		}
+		let i = 0;
+		let j = 0;
+		while (i < a.length || j < b.length) {
+			if (i < a.length && j < b.length && a[i] === b[j]) {
+				flush();
+				rows.push({ type: 'unchanged', base: a[i], changed: b[j] });
+				i++;
+				j++;
+			}
+			else if (j >= b.length || i < a.length && lengths[i + 1][j] >= lengths[i][j + 1]) {
+				removed.push(a[i++]);
+			}
+			else {
+				added.push(b[j++]);
+			}
+		}
+	}
+	flush();
+
+	for (const line of baseLines.slice(baseEnd)) {
+		rows.push({ type: 'unchanged', base: line, changed: line });
+	}
+	return rows;
+}
+
+/**
+ * Split a modified line into the text both versions share at the start and end,
+ * and the part in between that differs
+ */
+export function getChangedRange(base: string, changed: string): { start: number, baseEnd: number, changedEnd: number } {
+	let start = 0;
+	while (start < base.length && start < changed.length && base[start] === changed[start]) {
+		start++;
+	}
+	let baseEnd = base.length;
+	let changedEnd = changed.length;
+	while (baseEnd > start && changedEnd > start && base[baseEnd - 1] === changed[changedEnd - 1]) {
+		baseEnd--;
+		changedEnd--;
+	}
+	return { start, baseEnd, changedEnd };
+}
+
+function splitLines(source: string): string[] {
+	return source ? source.replace(/\n$/, '').split('\n') : [];
+}
+
+/**
+ * Share of lines the two sources have in common (Dice coefficient)
+ */
+function getSimilarity(a: string[], b: string[]): number {
+	if (!a.length && !b.length) {
+		return 1;
+	}
+	const counts = new Map<string, number>();
+	for (const line of a) {
+		counts.set(line, (counts.get(line) || 0) + 1);
+	}
+	let common = 0;
+	for (const line of b) {
+		const count = counts.get(line);
+		if (count) {
+			counts.set(line, count - 1);
+			common++;
+		}
+	}
+	return 2 * common / (a.length + b.length);
+}
+
+/**
+ * Outputs to compare, ignoring execution counts, which change on every run
+ */
+function getOutputsKey(outputs: CellOutput[]): string {
+	return JSON.stringify(outputs, (key, value) => (key === 'execution_count' || key === 'transient' ? undefined : value));
+}
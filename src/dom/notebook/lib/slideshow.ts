@@ -0,0 +1,68 @@
+/**
+ * Slides from RISE/nbconvert slideshow metadata (cell.metadata.slideshow.slide_type).
+ * Subslides are treated as slides of their own, since the reader only pages forward and back.
+ */
+
+import { NotebookCell } from "../notebook-parser";
+
+export type SlideType = 'slide' | 'subslide' | 'fragment' | 'skip' | 'notes' | '-';
+
+export interface Slide {
+	// IDs of the cells each step reveals: the first step is what the slide opens with,
+	// each fragment adds another
+	steps: string[][];
+	// IDs of speaker notes cells
+	notes: string[];
+}
+
+export function getSlideType(cell: NotebookCell): SlideType {
+	return cell.metadata?.slideshow?.slide_type || '-';
+}
+
+export function hasSlideshowMetadata(cells: NotebookCell[]): boolean {
+	return cells.some(cell => getSlideType(cell) !== '-');
+}
+
+export function buildSlides(cells: NotebookCell[]): Slide[] {
+	const slides: Slide[] = [];
+	let slide: Slide | null = null;
+
+	for (const cell of cells) {
+		const type = getSlideType(cell);
+		if (type === 'skip') {
+			continue;
+		}
+		if (!slide || type === 'slide' || type === 'subslide') {
+			slide = { steps: [[]], notes: [] };
+			slides.push(slide);
+		}
+		if (type === 'notes') {
+			slide.notes.push(cell.id);
+			continue;
+		}
+		if (type === 'fragment' && slide.steps[0].length) {
+			slide.steps.push([]);
+		}
+		slide.steps[slide.steps.length - 1].push(cell.id);
+	}
+
+	// A slide with only notes (e.g. notes before the first slide) gives them to the one before
+	// it, or to the one after if it's the first
+	const result: Slide[] = [];
+	let orphanedNotes: string[] = [];
+	for (const { steps, notes } of slides) {
+		if (!steps[0].length) {
+			const previous = result[result.length - 1];
+			if (previous) {
+				previous.notes.push(...notes);
+			}
+			else {
+				orphanedNotes.push(...notes);
+			}
+			continue;
+		}
+		result.push({ steps, notes: [...orphanedNotes, ...notes] });
+		orphanedNotes = [];
+	}
+	return result;
+}
@@ -0,0 +1,549 @@
+/**
+ * Text notebook formats: jupytext percent scripts (# %% cells), Quarto (.qmd) and R Markdown (.Rmd).
+ * They're parsed into the same structure as ipynb files and written back in their own format,
+ * with untouched cells reproduced exactly as they were read.
+ * https://jupytext.readthedocs.io/en/latest/formats-scripts.html#the-percent-format
+ */
+
+// js-yaml for percent script headers and Quarto/R Markdown front matter
+import yaml from 'js-yaml';
+import type { NotebookCell, NotebookMetadata, ParsedNotebook } from "../notebook-parser";
+import { generateCellId } from "./nbformat";
+
+/* eslint-disable camelcase -- nbformat JSON keys */
+
+export type TextNotebookFormat = 'percent' | 'quarto' | 'rmarkdown';
+
+export type NotebookSourceFormat = 'ipynb' | TextNotebookFormat;
+
+// Script extensions opened as percent scripts, and the language they imply
+const SCRIPT_LANGUAGES: Record<string, string> = {
+	py: 'python',
+	r: 'R',
+	jl: 'julia',
+	js: 'javascript',
+	ts: 'typescript',
+	rb: 'ruby',
+	sh: 'bash',
+	scala: 'scala',
+	m: 'matlab',
+	lua: 'lua',
+	rs: 'rust',
+	cpp: 'c++',
+	c: 'c',
+	java: 'java',
+	go: 'go',
+	kt: 'kotlin',
+	cs: 'c#',
+	sql: 'sql',
+};
+
+// Line comment syntax in languages that don't use #
+const LINE_COMMENTS: Record<string, string> = {
+	c: '//',
+	cpp: '//',
+	'c++': '//',
+	csharp: '//',
+	'c#': '//',
+	go: '//',
+	java: '//',
+	javascript: '//',
+	kotlin: '//',
+	rust: '//',
+	scala: '//',
+	typescript: '//',
+	haskell: '--',
+	lua: '--',
+	sql: '--',
+	matlab: '%',
+	octave: '%',
+};
+
+// Notebook metadata written to percent script headers, besides keys the header already had
+const HEADER_METADATA_KEYS = ['jupytext', 'kernelspec'];
+
+const PERCENT_MARKER = /^(#|\/\/|--|%) %%(?:\s+(.*))?$/;
+
+// ```{python} or ```{r setup, include=FALSE}
+const CHUNK_START = /^(\s*)(`{3,})\s*\{\s*([\w.+#-]+)[\s,]*(.*?)\s*\}\s*$/;
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+
+// Notebook metadata read from a percent script header or front matter, which may have keys of its own
+type TextNotebookMetadata = NotebookMetadata & Record<string, unknown>;
+
+// Commented YAML header of a percent script
+interface PercentHeader {
+	jupyter?: TextNotebookMetadata;
+	[key: string]: unknown;
+}
+
+// YAML front matter of Quarto and R Markdown documents
+interface FrontMatter {
+	// A kernel name or notebook metadata
+	jupyter?: unknown;
+	title?: unknown;
+	[key: string]: unknown;
+}
+
+type CellMetadata = Record<string, unknown>;
+
+interface OriginalCellText {
+	// The cell as it was read, from its marker or opening fence to its last non-blank line
+	text: string;
+	// Blank lines between this cell and the next one
+	gap: number;
+	// cell_type, source and metadata right after parsing, to detect edits
+	snapshot: string;
+}
+
+interface OriginalNotebookText {
+	format: TextNotebookFormat;
+	// Everything before the first cell (percent script header, leading blank lines)
+	preamble: string;
+	// Whitespace after the last cell
+	ending: string;
+	lineEnding: string;
+	// Line comment of percent scripts
+	comment: string;
+	// Parsed percent script header and the notebook metadata it produced
+	header: PercentHeader | null;
+	metadataSnapshot: string;
+	// Language of code chunks in Quarto and R Markdown
+	chunkLanguage: string;
+}
+
+interface TextCell {
+	cell: NotebookCell;
+	text: string;
+	gap: number;
+}
+
+const cellOriginals = new WeakMap<NotebookCell, OriginalCellText>();
+
+const notebookOriginals = new WeakMap<ParsedNotebook, OriginalNotebookText>();
+
+/**
+ * Guess the format of a notebook file from its name or, failing that, its content
+ */
+export function detectNotebookFormat(text: string, fileName?: string): NotebookSourceFormat {
+	const extension = fileName && /\.([^./\\]+)$/.exec(fileName)?.[1].toLowerCase();
+	if (extension === 'ipynb') return 'ipynb';
+	if (extension === 'qmd') return 'quarto';
+	if (extension === 'rmd') return 'rmarkdown';
+	if (extension && SCRIPT_LANGUAGES[extension]) return 'percent';
+
+	if (/^\s*\{/.test(text)) return 'ipynb';
+	if (text.split('\n').some(line => PERCENT_MARKER.test(line.trimEnd()))) return 'percent';
+	const chunkHeaders = text.split('\n').filter(line => CHUNK_START.test(line));
+	if (chunkHeaders.length) {
+		// knitr chunk options (```{r name, echo=FALSE}) rather than Quarto's #| comments
+		return chunkHeaders.some(line => /[,=]/.test(line)) ? 'rmarkdown' : 'quarto';
+	}
+	return 'ipynb';
+}
+
+export function getTextNotebookFormat(notebook: ParsedNotebook): TextNotebookFormat | null {
+	return notebookOriginals.get(notebook)?.format ?? null;
+}
+
+export function getLineComment(language: string): string {
+	return LINE_COMMENTS[language.toLowerCase()] || '#';
+}
+
+export function commentLines(text: string, comment: string): string {
+	return text.split('\n').map(line => (line ? `${comment} ${line}` : comment)).join('\n');
+}
+
+function uncommentLines(lines: string[], comment: string): string[] {
+	return lines.map((line) => {
+		if (line === comment) return '';
+		return line.startsWith(comment + ' ') ? line.slice(comment.length + 1) : line;
+	});
+}
+
+/**
+ * The commented YAML header of a percent script, e.g. "# ---\n# jupyter:\n#   kernelspec: ...\n# ---"
+ */
+export function formatPercentHeader(
+	metadata: NotebookMetadata,
+	comment: string,
+	header: PercentHeader | null = null
+): string {
+	const values: Record<string, unknown> = { ...metadata };
+	const jupyter: Record<string, unknown> = {};
+	const keys = new Set([...HEADER_METADATA_KEYS, ...Object.keys(header?.jupyter ?? {})]);
+	for (const key of keys) {
+		if (values[key] !== undefined) {
+			jupyter[key] = values[key];
+		}
+	}
+	if (!Object.keys(jupyter).length && !header) {
+		return '';
+	}
+	const data = { ...header, jupyter };
+	return commentLines(`---\n${yaml.dump(data, { lineWidth: -1 }).trimEnd()}\n---`, comment);
+}
+
+// IPython magics and shell commands, which percent scripts keep commented out so the file stays valid Python
+const MAGIC = /^(%{1,2}[A-Za-z]|!\S)/;
+const COMMENTED_MAGIC = /^# (%{1,2}[A-Za-z]|!\S)/;
+
+function isPython(language: string) {
+	return /^i?python/i.test(language);
+}
+
+/**
+ * Parse a text notebook. Lines are split on \n and \r\n; the original line ending is kept for writing.
+ */
+export function parseTextNotebook(content: string, format: TextNotebookFormat, fileName?: string): ParsedNotebook {
+	const lineEnding = content.includes('\r\n') ? '\r\n' : '\n';
+	const text = content.replace(/\r\n/g, '\n');
+	const extension = fileName && /\.([^./\\]+)$/.exec(fileName)?.[1].toLowerCase();
+	const { cells, metadata, language, preamble, comment, header, chunkLanguage } = format === 'percent'
+		? parsePercent(text, extension ? SCRIPT_LANGUAGES[extension] : undefined)
+		: parseChunks(text, format);
+
+	// Whitespace after the last cell belongs to the file, not the cell
+	const last = cells.at(-1);
+	const ending = last ? '\n'.repeat(last.gap + (text.endsWith('\n') ? 1 : 0)) : '';
+
+	const notebook: ParsedNotebook = {
+		cells: cells.map(({ cell }) => cell),
+		metadata,
+		nbformat: 4,
+		nbformat_minor: 5,
+		language,
+	};
+	for (const { cell, text: cellText, gap } of cells) {
+		cellOriginals.set(cell, { text: cellText, gap, snapshot: snapshotCell(cell) });
+	}
+	notebookOriginals.set(notebook, {
+		format,
+		preamble,
+		ending,
+		lineEnding,
+		comment,
+		header,
+		metadataSnapshot: JSON.stringify(metadata),
+		chunkLanguage,
+	});
+	return notebook;
+}
+
+interface ParseResult {
+	cells: TextCell[];
+	metadata: NotebookMetadata;
+	language: string;
+	preamble: string;
+	comment: string;
+	header: PercentHeader | null;
+	chunkLanguage: string;
+}
+
+function parsePercent(text: string, fileLanguage?: string): ParseResult {
+	const lines = text.replace(/\n$/, '').split('\n');
+	const firstMarker = lines.map(line => PERCENT_MARKER.exec(line)).find(Boolean);
+	const headerStart = /^(#|\/\/|--|%) ---$/.exec(lines[0] ?? '');
+	const comment = firstMarker?.[1] ?? headerStart?.[1] ?? getLineComment(fileLanguage || 'python');
+
+	// Commented YAML header between two "# ---" lines
+	let index = 0;
+	let header: PercentHeader | null = null;
+	if (lines[0] === `${comment} ---`) {
+		const end = lines.indexOf(`${comment} ---`, 1);
+		if (end !== -1) {
+			try {
+				header = (yaml.load(uncommentLines(lines.slice(1, end), comment).join('\n')) as typeof header) || {};
+				index = end + 1;
+			}
+			catch (e) {
+				// Not a header after all
+				header = null;
+			}
+		}
+	}
+	while (index < lines.length && !lines[index].trim()) {
+		index++;
+	}
+	const preamble = lines.slice(0, index).map(line => line + '\n').join('');
+
+	const metadata: TextNotebookMetadata = { ...(header?.jupyter ?? {}) };
+	const language = metadata.kernelspec?.language
+		|| metadata.language_info?.name
+		|| fileLanguage
+		|| 'python';
+
+	// Group the remaining lines by cell marker; text before the first marker is a code cell without one
+	const groups: { marker: RegExpExecArray | null, lines: string[] }[] = [];
+	for (; index < lines.length; index++) {
+		const marker = PERCENT_MARKER.exec(lines[index]);
+		if (marker && marker[1] === comment) {
+			groups.push({ marker, lines: [lines[index]] });
+		}
+		else if (!groups.length) {
+			groups.push({ marker: null, lines: [lines[index]] });
+		}
+		else {
+			groups[groups.length - 1].lines.push(lines[index]);
+		}
+	}
+
+	const cells = groups.map(({ marker, lines: cellLines }, cellIndex) => {
+		const gap = countTrailingBlankLines(cellLines);
+		const body = cellLines.slice(marker ? 1 : 0, cellLines.length - gap);
+		const { cellType, metadata: cellMetadata } = parseMarkerOptions(marker?.[2] ?? '');
+		let source: string[];
+		if (cellType === 'code') {
+			source = isPython(language)
+				? body.map(line => (COMMENTED_MAGIC.test(line) ? line.slice(2) : line))
+				: body;
+		}
+		else {
+			source = uncommentLines(body, comment);
+		}
+		const cell: NotebookCell = {
+			id: generateCellId(cellIndex),
+			cell_type: cellType,
+			source: source.join('\n'),
+			outputs: [],
+			execution_count: null,
+			metadata: cellMetadata,
+		};
+		return { cell, text: cellLines.slice(0, cellLines.length - gap).join('\n'), gap };
+	});
+
+	return { cells, metadata, language, preamble, comment, header, chunkLanguage: language.toLowerCase() };
+}
+
+/**
+ * Parse what follows "# %%": an optional title, [markdown] or [raw], and key=value metadata
+ */
+function parseMarkerOptions(options: string): { cellType: NotebookCell['cell_type'], metadata: CellMetadata } {
+	const metadata: CellMetadata = {};
+	let cellType: NotebookCell['cell_type'] = 'code';
+	let rest = options.replace(/\[(\w+)\]/, (match, type) => {
+		const lowerType = type.toLowerCase();
+		cellType = lowerType === 'markdown' || lowerType === 'md' ? 'markdown' : lowerType === 'raw' ? 'raw' : 'code';
+		return '';
+	});
+	rest = rest.replace(/([A-Za-z_][\w.-]*)=("(?:[^"\\]|\\.)*"|\[[^\]]*\]|\{[^}]*\}|\S+)/g, (match, key, value) => {
+		try {
+			metadata[key] = JSON.parse(value);
+		}
+		catch (e) {
+			metadata[key] = value;
+		}
+		return '';
+	});
+	const title = rest.trim();
+	if (title) {
+		metadata.title = title;
+	}
+	return { cellType, metadata };
+}
+
+function parseChunks(text: string, format: TextNotebookFormat): ParseResult {
+	const lines = text.replace(/\n$/, '').split('\n');
+	const cells: TextCell[] = [];
+	const addCell = (cellType: NotebookCell['cell_type'], cellLines: string[], source: string, metadata: CellMetadata = {}) => {
+		cells.push({
+			cell: {
+				id: generateCellId(cells.length),
+				cell_type: cellType,
+				source,
+				outputs: [],
+				execution_count: null,
+				metadata,
+			},
+			text: cellLines.join('\n'),
+			gap: 0,
+		});
+	};
+
+	let index = 0;
+	while (index < lines.length && !lines[index].trim()) {
+		index++;
+	}
+	const preamble = lines.slice(0, index).map(line => line + '\n').join('');
+
+	// YAML front matter stays a raw cell, like jupytext does
+	let frontMatter: FrontMatter = {};
+	if (lines[index] === '---') {
+		const end = lines.findIndex((line, i) => i > index && (line === '---' || line === '...'));
+		if (end !== -1) {
+			try {
+				frontMatter = (yaml.load(lines.slice(index + 1, end).join('\n')) as typeof frontMatter) || {};
+			}
+			catch (e) {
+				console.warn('Could not parse front matter:', e);
+			}
+			const cellLines = lines.slice(index, end + 1);
+			addCell('raw', cellLines, cellLines.join('\n'));
+			index = end + 1;
+		}
+	}
+
+	const chunkLanguages: string[] = [];
+	let markdown: string[] = [];
+	let markdownFence: string | null = null;
+	const flushMarkdown = () => {
+		const leading = markdown.findIndex(line => line.trim());
+		if (leading !== -1) {
+			if (cells.length) {
+				cells[cells.length - 1].gap += leading;
+			}
+			const trailing = countTrailingBlankLines(markdown);
+			const cellLines = markdown.slice(leading, markdown.length - trailing);
+			addCell('markdown', cellLines, cellLines.join('\n'));
+			cells[cells.length - 1].gap = trailing;
+		}
+		else if (cells.length) {
+			cells[cells.length - 1].gap += markdown.length;
+		}
+		markdown = [];
+	};
+
+	for (; index < lines.length; index++) {
+		const line = lines[index];
+		// Fenced code in markdown isn't a chunk, and may contain lines that look like one
+		if (markdownFence) {
+			const closing = FENCE.exec(line);
+			if (closing && closing[1][0] === markdownFence[0] && closing[1].length >= markdownFence.length
+					&& !line.trim().slice(closing[1].length).trim()) {
+				markdownFence = null;
+			}
+			markdown.push(line);
+			continue;
+		}
+		const chunk = CHUNK_START.exec(line);
+		if (!chunk) {
+			const fence = FENCE.exec(line);
+			if (fence) {
+				markdownFence = fence[1];
+			}
+			markdown.push(line);
+			continue;
+		}
+
+		const [, , fence, chunkLanguage, options] = chunk;
+		const closingFence = new RegExp(`^\\s*${fence}\`*\\s*$`);
+		const start = index;
+		const end = lines.findIndex((candidate, i) => i > start && closingFence.test(candidate));
+		const endIndex = end === -1 ? lines.length - 1 : end;
+		flushMarkdown();
+		const metadata: CellMetadata = {};
+		chunkLanguages.push(chunkLanguage.toLowerCase());
+		if (chunkLanguage.toLowerCase() !== chunkLanguages[0]) {
+			metadata.chunk_language = chunkLanguage;
+		}
+		if (options) {
+			metadata.chunk_options = options;
+		}
+		addCell('code', lines.slice(index, endIndex + 1), lines.slice(index + 1, end === -1 ? undefined : end).join('\n'), metadata);
+		index = endIndex;
+	}
+	flushMarkdown();
+
+	// Quarto takes the kernel from "jupyter: python3" or a full kernelspec
+	const metadata: TextNotebookMetadata = {};
+	const jupyter = frontMatter.jupyter;
+	if (typeof jupyter === 'string') {
+		metadata.kernelspec = { name: jupyter, display_name: jupyter };
+	}
+	else if (jupyter && typeof jupyter === 'object') {
+		Object.assign(metadata, jupyter);
+	}
+	if (frontMatter.title && typeof frontMatter.title === 'string') {
+		metadata.title = frontMatter.title;
+	}
+	const chunkLanguage = chunkLanguages[0] || (format === 'rmarkdown' ? 'r' : 'python');
+	const language = metadata.kernelspec?.language
+		|| (chunkLanguage === 'r' ? 'R' : chunkLanguage);
+
+	return { cells, metadata, language, preamble, comment: '#', header: null, chunkLanguage };
+}
+
+function countTrailingBlankLines(lines: string[]): number {
+	let count = 0;
+	while (count < lines.length && !lines[lines.length - 1 - count].trim()) {
+		count++;
+	}
+	return count;
+}
+
+function snapshotCell(cell: NotebookCell): string {
+	return JSON.stringify([cell.cell_type, cell.source, cell.metadata]);
+}
+
+/**
+ * Write a notebook as a text notebook. Notebooks read from the same format keep unchanged
+ * cells, the header and blank lines exactly as they were. Outputs can't be stored and are dropped.
+ */
+export function serializeTextNotebook(notebook: ParsedNotebook, format: TextNotebookFormat): string {
+	const original = notebookOriginals.get(notebook);
+	const sameFormat = original?.format === format;
+	const comment = sameFormat ? original!.comment : getLineComment(notebook.language);
+	const chunkLanguage = sameFormat ? original!.chunkLanguage : notebook.language.toLowerCase();
+
+	let output = '';
+	if (sameFormat && (format !== 'percent' || JSON.stringify(notebook.metadata) === original!.metadataSnapshot)) {
+		output = original!.preamble;
+	}
+	else if (format === 'percent') {
+		const header = formatPercentHeader(notebook.metadata, comment, sameFormat ? original!.header : null);
+		output = header ? header + '\n\n' : '';
+	}
+
+	notebook.cells.forEach((cell, index) => {
+		const cellOriginal = sameFormat ? cellOriginals.get(cell) : undefined;
+		const unchanged = cellOriginal && cellOriginal.snapshot === snapshotCell(cell);
+		output += unchanged
+			? cellOriginal!.text
+			: format === 'percent' ? formatPercentCell(cell, comment, notebook.language) : formatChunkCell(cell, chunkLanguage);
+		if (index < notebook.cells.length - 1) {
+			output += '\n' + '\n'.repeat(cellOriginal ? cellOriginal.gap : 1);
+		}
+	});
+	output += sameFormat ? original!.ending : '\n';
+	return original && sameFormat ? output.replace(/\n/g, original.lineEnding) : output;
+}
+
+export function formatPercentCell(cell: NotebookCell, comment: string, language: string): string {
+	const { title, ...metadata } = cell.metadata;
+	let marker = `${comment} %%`;
+	if (typeof title === 'string' && title) {
+		marker += ` ${title}`;
+	}
+	if (cell.cell_type !== 'code') {
+		marker += ` [${cell.cell_type}]`;
+	}
+	for (const [key, value] of Object.entries(metadata)) {
+		if (/^[A-Za-z_][\w.-]*$/.test(key) && value !== undefined) {
+			marker += ` ${key}=${JSON.stringify(value)}`;
+		}
+	}
+	const source = cell.source.replace(/\n+$/, '');
+	if (!source) {
+		return marker;
+	}
+	if (cell.cell_type !== 'code') {
+		return `${marker}\n${commentLines(source, comment)}`;
+	}
+	const code = isPython(language)
+		? source.split('\n').map(line => (MAGIC.test(line) ? `# ${line}` : line)).join('\n')
+		: source;
+	return `${marker}\n${code}`;
+}
+
+function formatChunkCell(cell: NotebookCell, chunkLanguage: string): string {
+	const source = cell.source.replace(/\n+$/, '');
+	if (cell.cell_type !== 'code') {
+		return source;
+	}
+	const longestRun = Math.max(0, ...(source.match(/^\s*`{3,}/gm) || []).map(run => run.trim().length));
+	const fence = '`'.repeat(Math.max(3, longestRun + 1));
+	const { chunk_language: language, chunk_options: options } = cell.metadata;
+	const header = `{${language || chunkLanguage}${options ? ' ' + options : ''}}`;
+	return source ? `${fence}${header}\n${source}\n${fence}` : `${fence}${header}\n${fence}`;
+}
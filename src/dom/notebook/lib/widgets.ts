@@ -0,0 +1,392 @@
+/**
+ * Static rendering of Jupyter widgets (ipywidgets) from the widget state saved in notebook metadata.
+ * Widgets are shown as they were when the notebook was saved; nothing can be changed,
+ * since there is no kernel-side model to talk to.
+ */
+
+import type { CellOutput, NotebookMetadata } from "../notebook-parser";
+import { escapeHtml } from "./html";
+
+/* eslint-disable camelcase -- ipywidgets state keys */
+
+export const WIDGET_VIEW_MIME_TYPE = 'application/vnd.jupyter.widget-view+json';
+export const WIDGET_STATE_MIME_TYPE = 'application/vnd.jupyter.widget-state+json';
+
+// Model state as saved by ipywidgets. Only keys used for rendering are listed, and values
+// come straight from the file, so they're still checked where they're used
+export interface WidgetModelState {
+	description?: string;
+	value?: unknown;
+	min?: number;
+	max?: number;
+	step?: number;
+	base?: number;
+	// Whether sliders show their value, or the message of Valid widgets
+	readout?: boolean | string;
+	readout_format?: string;
+	orientation?: 'horizontal' | 'vertical';
+	index?: number | number[] | null;
+	_options_labels?: string[];
+	placeholder?: string;
+	rows?: number;
+	concise?: boolean;
+	format?: string;
+	width?: string;
+	height?: string;
+	bar_style?: string;
+	button_style?: string;
+	box_style?: string;
+	children?: string[];
+	titles?: string[] | Record<number, string>;
+	_titles?: Record<number, string>;
+	selected_index?: number | null;
+	outputs?: CellOutput[];
+	// Reference to the model's LayoutModel
+	layout?: string;
+	// LayoutModel
+	display?: string;
+	visibility?: string;
+	[key: string]: unknown;
+}
+
+export interface WidgetModel {
+	model_name: string;
+	model_module: string;
+	model_module_version?: string;
+	state: WidgetModelState;
+	// Binary state (e.g. image data), base64-encoded at the given state path
+	buffers?: { path: (string | number)[], data: string, encoding: 'base64' | 'hex' }[];
+}
+
+// Widget models by model ID
+export type WidgetState = Record<string, WidgetModel>;
+
+// The widgets entry of notebook metadata
+export interface SavedWidgets {
+	[WIDGET_STATE_MIME_TYPE]?: {
+		version_major?: number;
+		version_minor?: number;
+		state?: WidgetState;
+	};
+	[mimeType: string]: unknown;
+}
+
+// Prefix of references to other models in widget state, e.g. Box children
+const MODEL_REFERENCE_PREFIX = 'IPY_MODEL_';
+
+// Layout properties copied to the widget's element
+const LAYOUT_PROPERTIES: Record<string, string> = {
+	width: 'width',
+	height: 'height',
+	min_width: 'min-width',
+	max_width: 'max-width',
+	min_height: 'min-height',
+	max_height: 'max-height',
+	flex: 'flex',
+	margin: 'margin',
+	padding: 'padding',
+	justify_content: 'justify-content',
+	align_items: 'align-items',
+	grid_template_columns: 'grid-template-columns',
+	grid_template_rows: 'grid-template-rows',
+	grid_gap: 'gap',
+};
+
+const BOX_CLASSES: Record<string, string> = {
+	HBoxModel: 'widget-hbox',
+	VBoxModel: 'widget-vbox',
+	BoxModel: 'widget-vbox',
+	GridBoxModel: 'widget-gridbox',
+};
+
+// Models being rendered, to stop at models that contain themselves
+const rendering = new Set<string>();
+
+/**
+ * Widget models saved in notebook metadata, or null if there are none
+ */
+export function getWidgetState(metadata: NotebookMetadata | undefined): WidgetState | null {
+	const state = metadata?.widgets?.[WIDGET_STATE_MIME_TYPE]?.state;
+	return state && typeof state === 'object' ? state : null;
+}
+
+/**
+ * Render a widget-view output. Returns null if its model isn't in the saved state or can't be shown,
+ * so the output's other representations can be used instead.
+ * renderOutput renders the outputs captured by Output widgets.
+ */
+export function renderWidgetView(
+	view: { model_id?: string } | undefined,
+	state: WidgetState,
+	renderOutput: (output: CellOutput) => string
+): string | null {
+	if (!view?.model_id) {
+		return null;
+	}
+	const html = renderModel(view.model_id, state, renderOutput);
+	return html === null ? null : `<div class="output-widget">${html}</div>`;
+}
+
+function renderModel(modelId: string, state: WidgetState, renderOutput: (output: CellOutput) => string): string | null {
+	const model = state[modelId];
+	if (!model?.state || rendering.has(modelId)) {
+		return null;
+	}
+	rendering.add(modelId);
+	try {
+		const html = renderModelContent(model, state, renderOutput);
+		if (html === null) {
+			return null;
+		}
+		const layout = getReferencedModel(model.state.layout, state)?.state;
+		if (layout?.display === 'none' || layout?.visibility === 'hidden') {
+			return '';
+		}
+		const style = getLayoutStyle(layout);
+		return style ? `<div class="widget-layout" style="${escapeHtml(style)}">${html}</div>` : html;
+	}
+	finally {
+		rendering.delete(modelId);
+	}
+}
+
+function renderModelContent(model: WidgetModel, state: WidgetState, renderOutput: (output: CellOutput) => string): string | null {
+	const s = model.state;
+	switch (model.model_name) {
+		case 'IntSliderModel':
+		case 'FloatSliderModel':
+		case 'FloatLogSliderModel': {
+			const log = model.model_name === 'FloatLogSliderModel';
+			const value = log ? Math.log(Number(s.value)) / Math.log(s.base ?? 10) : Number(s.value);
+			const readout = formatNumber(s.value, s.readout_format, model.model_name === 'IntSliderModel');
+			return renderSlider(s, [value], s.min, s.max, s.step, s.readout === false ? '' : readout);
+		}
+		case 'IntRangeSliderModel':
+		case 'FloatRangeSliderModel': {
+			const values: number[] = Array.isArray(s.value) ? s.value : [];
+			const isInteger = model.model_name === 'IntRangeSliderModel';
+			const readout = values.map(value => formatNumber(value, s.readout_format, isInteger)).join(' – ');
+			return renderSlider(s, values, s.min, s.max, s.step, s.readout === false ? '' : readout);
+		}
+		case 'SelectionSliderModel':
+		case 'SelectionRangeSliderModel': {
+			const labels: string[] = s._options_labels || [];
+			const indexes: number[] = Array.isArray(s.index) ? s.index : [s.index ?? 0];
+			const readout = indexes.map(index => labels[index] ?? '').join(' – ');
+			return renderSlider(s, indexes, 0, Math.max(labels.length - 1, 0), 1, s.readout === false ? '' : readout);
+		}
+		case 'IntProgressModel':
+		case 'FloatProgressModel': {
+			const min = Number(s.min ?? 0);
+			const max = Number(s.max ?? 100);
+			const fraction = max > min ? Math.min(Math.max((Number(s.value) - min) / (max - min), 0), 1) : 0;
+			const vertical = s.orientation === 'vertical';
+			const size = `${vertical ? 'height' : 'width'}: ${(fraction * 100).toFixed(2)}%`;
+			return renderControl(s, `widget-progress${vertical ? ' widget-vertical' : ''}`,
+				`<div class="widget-progress-track" role="progressbar" aria-valuemin="${min}" aria-valuemax="${max}" aria-valuenow="${Number(s.value) || 0}">
+	<div class="widget-progress-bar${getStyleClass(s.bar_style)}" style="${size}"></div>
+</div>`);
+		}
+		case 'DropdownModel': {
+			const labels: string[] = s._options_labels || [];
+			const options = labels.map((label, index) => `<option${index === s.index ? ' selected' : ''}>${escapeHtml(label)}</option>`);
+			// A dropdown with nothing selected shows an empty value
+			if (s.index === null || s.index === undefined) {
+				options.unshift('<option selected></option>');
+			}
+			return renderControl(s, 'widget-dropdown', `<select disabled>${options.join('')}</select>`);
+		}
+		case 'SelectModel':
+		case 'SelectMultipleModel': {
+			const labels: string[] = s._options_labels || [];
+			const selected = Array.isArray(s.index) ? s.index : [s.index];
+			const options = labels.map((label, index) => `<option${selected.includes(index) ? ' selected' : ''}>${escapeHtml(label)}</option>`);
+			const multiple = model.model_name === 'SelectMultipleModel' ? ' multiple' : '';
+			return renderControl(s, 'widget-select', `<select disabled${multiple} size="${Number(s.rows) || 5}">${options.join('')}</select>`);
+		}
+		case 'RadioButtonsModel': {
+			const labels: string[] = s._options_labels || [];
+			const items = labels.map((label, index) => `<label class="widget-radio"><input type="radio" disabled${index === s.index ? ' checked' : ''}> ${escapeHtml(label)}</label>`);
+			return renderControl(s, 'widget-radio-buttons', `<div class="widget-options">${items.join('')}</div>`);
+		}
+		case 'ToggleButtonsModel': {
+			const labels: string[] = s._options_labels || [];
+			const buttons = labels.map((label, index) => (
+				`<span class="widget-button${index === s.index ? ' widget-pressed' : ''}${getStyleClass(s.button_style)}">${escapeHtml(label)}</span>`
+			));
+			return renderControl(s, 'widget-toggle-buttons', `<div class="widget-options">${buttons.join('')}</div>`);
+		}
+		case 'CheckboxModel':
+			return `<div class="widget widget-checkbox"><label><input type="checkbox" disabled${s.value ? ' checked' : ''}> ${escapeHtml(s.description || '')}</label></div>`;
+		case 'ToggleButtonModel':
+			return `<div class="widget"><span class="widget-button${s.value ? ' widget-pressed' : ''}${getStyleClass(s.button_style)}">${escapeHtml(s.description || '')}</span></div>`;
+		case 'ButtonModel':
+			return `<div class="widget"><span class="widget-button${getStyleClass(s.button_style)}">${escapeHtml(s.description || '')}</span></div>`;
+		case 'TextModel':
+		case 'PasswordModel':
+		case 'IntTextModel':
+		case 'FloatTextModel':
+		case 'BoundedIntTextModel':
+		case 'BoundedFloatTextModel': {
+			const value = model.model_name === 'PasswordModel' ? '•'.repeat(String(s.value ?? '').length) : String(s.value ?? '');
+			return renderControl(s, 'widget-text', `<input type="text" disabled value="${escapeHtml(value)}" placeholder="${escapeHtml(s.placeholder || '')}">`);
+		}
+		case 'TextareaModel':
+			return renderControl(s, 'widget-textarea', `<textarea disabled rows="${Number(s.rows) || 3}" placeholder="${escapeHtml(s.placeholder || '')}">${escapeHtml(String(s.value ?? ''))}</textarea>`);
+		case 'LabelModel':
+			return `<div class="widget widget-label-widget">${escapeHtml(String(s.value ?? ''))}</div>`;
+		case 'HTMLModel':
+		case 'HTMLMathModel':
+			return renderControl(s, 'widget-html', `<div class="widget-html-content">${s.value ?? ''}</div>`);
+		case 'ValidModel':
+			return renderControl(s, 'widget-valid', `<span class="widget-valid-${s.value ? 'yes' : 'no'}">${s.value ? '✔' : '✘'} ${escapeHtml(typeof s.readout === 'string' ? s.readout : '')}</span>`);
+		case 'ColorPickerModel': {
+			const color = typeof s.value === 'string' && /^(#[0-9a-f]{3,8}|[a-z]+)$/i.test(s.value) ? s.value : '';
+			return renderControl(s, 'widget-color', `<span class="widget-color-swatch" style="background-color: ${color}"></span>${s.concise ? '' : escapeHtml(color)}`);
+		}
+		case 'ImageModel': {
+			const data = model.buffers?.find(buffer => buffer.path.length === 1 && buffer.path[0] === 'value');
+			if (!data || data.encoding !== 'base64' || !/^[A-Za-z0-9+/=\s]*$/.test(data.data)) {
+				return null;
+			}
+			const format = s.format && /^[\w+.-]+$/.test(s.format) ? s.format : 'png';
+			const mimeType = format === 'svg' ? 'image/svg+xml' : `image/${format}`;
+			const size = ['width', 'height']
+				.filter(name => s[name])
+				.map(name => ` ${name}="${escapeHtml(String(s[name]))}"`)
+				.join('');
+			return `<div class="widget"><img class="output-image" src="data:${mimeType};base64,${data.data}"${size}></div>`;
+		}
+		case 'HBoxModel':
+		case 'VBoxModel':
+		case 'BoxModel':
+		case 'GridBoxModel': {
+			const children = renderChildren(s.children, state, renderOutput);
+			return `<div class="widget-box ${BOX_CLASSES[model.model_name]}${getStyleClass(s.box_style)}">${children.join('')}</div>`;
+		}
+		case 'TabModel':
+		case 'AccordionModel': {
+			// ipywidgets 8 stores titles as a list, 7 as an object keyed by index
+			const titles = s.titles || s._titles || {};
+			const children = renderChildren(s.children, state, renderOutput);
+			const selected = s.selected_index ?? (model.model_name === 'TabModel' ? 0 : null);
+			if (model.model_name === 'TabModel') {
+				const tabs = children.map((_, index) => (
+					`<span class="widget-tab${index === selected ? ' widget-selected' : ''}">${escapeHtml(titles[index] || '')}</span>`
+				));
+				return `<div class="widget-tabs">
+	<div class="widget-tab-bar">${tabs.join('')}</div>
+	<div class="widget-tab-content">${children[selected ?? 0] ?? ''}</div>
+</div>`;
+			}
+			const sections = children.map((child, index) => (
+				`<details class="widget-accordion-section"${index === selected ? ' open' : ''}>
+	<summary>${escapeHtml(titles[index] || '')}</summary>
+	${child}
+</details>`
+			));
+			return `<div class="widget-accordion">${sections.join('')}</div>`;
+		}
+		case 'OutputModel': {
+			const outputs: CellOutput[] = Array.isArray(s.outputs) ? s.outputs : [];
+			return `<div class="widget-output">${outputs.map(output => renderOutput(output)).join('')}</div>`;
+		}
+		default:
+			return null;
+	}
+}
+
+function renderChildren(children: unknown, state: WidgetState, renderOutput: (output: CellOutput) => string): string[] {
+	if (!Array.isArray(children)) {
+		return [];
+	}
+	return children.map((child) => {
+		const modelId = getReferencedModelId(child);
+		return modelId ? renderModel(modelId, state, renderOutput) ?? '' : '';
+	});
+}
+
+function renderSlider(
+	s: WidgetModelState,
+	values: number[],
+	min: number | undefined,
+	max: number | undefined,
+	step: number | undefined,
+	readout: string
+): string {
+	const vertical = s.orientation === 'vertical';
+	const inputs = values.map(value => (
+		`<input type="range" disabled min="${Number(min) || 0}" max="${Number(max) || 0}" step="${Number(step) || 'any'}" value="${Number(value) || 0}">`
+	));
+	return renderControl(s, `widget-slider${vertical ? ' widget-vertical' : ''}`,
+		`<span class="widget-slider-track">${inputs.join('')}</span>${readout ? `<span class="widget-readout">${escapeHtml(readout)}</span>` : ''}`);
+}
+
+/**
+ * A control with its description label in front
+ */
+function renderControl(s: WidgetModelState, className: string, control: string): string {
+	const description = s.description ? `<span class="widget-description">${escapeHtml(s.description)}</span>` : '';
+	return `<div class="widget ${className}">${description}${control}</div>`;
+}
+
+function getReferencedModelId(reference: unknown): string | null {
+	return typeof reference === 'string' && reference.startsWith(MODEL_REFERENCE_PREFIX)
+		? reference.slice(MODEL_REFERENCE_PREFIX.length)
+		: null;
+}
+
+function getReferencedModel(reference: unknown, state: WidgetState): WidgetModel | null {
+	const modelId = getReferencedModelId(reference);
+	return modelId ? state[modelId] ?? null : null;
+}
+
+function getLayoutStyle(layout: WidgetModelState | undefined): string {
+	if (!layout) {
+		return '';
+	}
+	const declarations: string[] = [];
+	for (const [name, property] of Object.entries(LAYOUT_PROPERTIES)) {
+		const value = layout[name];
+		// Plain lengths and keywords only, nothing that could load a URL
+		if (typeof value === 'string' && /^[\w\s.%#,()/-]+$/.test(value) && !/url\s*\(/i.test(value)) {
+			declarations.push(`${property}: ${value}`);
+		}
+	}
+	return declarations.join('; ');
+}
+
+/**
+ * Classes for button_style/bar_style/box_style values (success, info, warning, danger, primary)
+ */
+function getStyleClass(style: unknown): string {
+	return typeof style === 'string' && /^[a-z]+$/.test(style) ? ` widget-style-${style}` : '';
+}
+
+/**
+ * Format a number the way the common d3-format readout formats do (d, .Nf, .N%, .Ne)
+ */
+function formatNumber(value: unknown, format: unknown, isInteger: boolean): string {
+	const number = Number(value);
+	if (!Number.isFinite(number)) {
+		return String(value ?? '');
+	}
+	const match = typeof format === 'string' && format.match(/\.(\d+)([efg%])$/);
+	if (match) {
+		const digits = Math.min(Number(match[1]), 20);
+		switch (match[2]) {
+			case 'f':
+				return number.toFixed(digits);
+			case 'e':
+				return number.toExponential(digits);
+			case 'g':
+				return number.toPrecision(Math.max(digits, 1));
+			case '%':
+				return `${(number * 100).toFixed(digits)}%`;
+		}
+	}
+	if (format === 'd' || isInteger) {
+		return String(Math.round(number));
+	}
+	return number.toFixed(2);
+}
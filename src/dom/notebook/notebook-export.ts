@@ -0,0 +1,338 @@
+/**
+ * Notebook Exporters
+ * Convert a parsed notebook to standalone HTML, Markdown with embedded images,
+ * or a jupytext-style percent script (# %% cells).
+ */
+
+import { AnnotationType } from "../../common/types";
+import { renderMathToSVG } from "../common/lib/math";
+import { ansiToText } from "./lib/ansi";
+import { highlightCode } from "./lib/highlight";
+import { escapeHtml } from "./lib/html";
+import { renderMarkdown } from "./lib/markdown";
+import { MultilineString } from "./lib/nbformat";
+import { commentLines, formatPercentCell, formatPercentHeader, getLineComment } from "./lib/text-notebook";
+import { getWidgetState } from "./lib/widgets";
+import exportCSS from './stylesheets/export.scss';
+import {
+	CellOutput,
+	getAttachmentDataURI,
+	normalizeOutputText,
+	NotebookCell,
+	ParsedNotebook,
+	renderOutputToHtml,
+	resolveAttachments,
+	serializeNotebook
+} from "./notebook-parser";
+
+export type NotebookExportFormat = 'ipynb' | 'html' | 'markdown' | 'script';
+
+export interface NotebookExportAnnotation {
+	cellId: string;
+	// Whether the annotated text is in the cell's source or in its output
+	target: 'input' | 'output';
+	type: AnnotationType;
+	text?: string;
+	comment?: string;
+	color?: string;
+}
+
+export interface NotebookExportOptions {
+	// Included as highlighted quotes (HTML, Markdown) or comments (scripts) after the cell they belong to.
+	// Annotations are skipped for ipynb.
+	annotations?: NotebookExportAnnotation[];
+	// Include code cell outputs in HTML and Markdown (default true)
+	includeOutputs?: boolean;
+	// MathJax script for HTML exports to load and typeset math with. Not set by default,
+	// so exported files don't fetch anything; see exportNotebookWithMath()
+	mathJaxURL?: string | null;
+}
+
+export interface NotebookExportResult {
+	content: string;
+	mimeType: string;
+	// Including the dot, e.g. ".html"
+	extension: string;
+}
+
+// Elements of HTML exports that can contain TeX, as in the view
+const MATH_ELEMENTS = ['.cell-markdown-content', '.output-latex', '.output-markdown-content'];
+
+// Output MIME types Markdown can show, in order of preference
+const MARKDOWN_MIME_PRIORITY = [
+	'image/png',
+	'image/jpeg',
+	'image/gif',
+	'image/svg+xml',
+	'text/markdown',
+	'text/latex',
+	'text/html',
+	'text/plain',
+];
+
+const SCRIPT_EXTENSIONS: Record<string, string> = {
+	python: '.py',
+	r: '.R',
+	julia: '.jl',
+	javascript: '.js',
+	typescript: '.ts',
+	ruby: '.rb',
+	bash: '.sh',
+	scala: '.scala',
+	matlab: '.m',
+	octave: '.m',
+};
+
+export function exportNotebook(
+	notebook: ParsedNotebook,
+	format: NotebookExportFormat,
+	options: NotebookExportOptions = {}
+): NotebookExportResult {
+	switch (format) {
+		case 'ipynb':
+			return { content: serializeNotebook(notebook, 'ipynb'), mimeType: 'application/x-ipynb+json', extension: '.ipynb' };
+		case 'html':
+			return { content: exportNotebookToHTML(notebook, options), mimeType: 'text/html', extension: '.html' };
+		case 'markdown':
+			return { content: exportNotebookToMarkdown(notebook, options), mimeType: 'text/markdown', extension: '.md' };
+		case 'script':
+			return {
+				content: exportNotebookToScript(notebook, options),
+				mimeType: 'text/plain',
+				extension: getScriptExtension(notebook),
+			};
+		default:
+			throw new Error(`Unsupported export format: ${format}`);
+	}
+}
+
+/**
+ * Like exportNotebook(), but with math in HTML exports typeset as SVG unless options.mathJaxURL is set,
+ * so the file shows it without loading anything
+ */
+export async function exportNotebookWithMath(
+	notebook: ParsedNotebook,
+	format: NotebookExportFormat,
+	options: NotebookExportOptions = {}
+): Promise<NotebookExportResult> {
+	const result = exportNotebook(notebook, format, options);
+	if (format === 'html' && !options.mathJaxURL) {
+		result.content = await renderMathToSVG(result.content, MATH_ELEMENTS);
+	}
+	return result;
+}
+
+/**
+ * A single HTML file with the rendered notebook. Images are embedded, so it works offline.
+ * Math is left as TeX unless options.mathJaxURL is set.
+ */
+export function exportNotebookToHTML(notebook: ParsedNotebook, options: NotebookExportOptions = {}): string {
+	const title = notebook.metadata.title || 'Untitled Notebook';
+	const annotations = groupAnnotationsByCell(options.annotations);
+	const includeOutputs = options.includeOutputs ?? true;
+	const mathJaxURL = options.mathJaxURL;
+	const widgets = getWidgetState(notebook.metadata);
+
+	const cells = notebook.cells.map((cell) => {
+		const cellAnnotations = renderAnnotationsToHTML(annotations.get(cell.id));
+		if (cell.cell_type === 'markdown') {
+			return `<div class="notebook-cell cell-markdown">
+	<div class="cell-prompt"></div>
+	<div class="cell-body">
+		<div class="cell-markdown-content">${resolveAttachments(renderMarkdown(cell.source), cell)}</div>
+		${cellAnnotations}
+	</div>
+</div>`;
+		}
+		if (cell.cell_type === 'raw') {
+			return `<div class="notebook-cell cell-raw">
+	<div class="cell-prompt"></div>
+	<div class="cell-body">
+		<pre class="cell-raw-content">${escapeHtml(cell.source)}</pre>
+		${cellAnnotations}
+	</div>
+</div>`;
+		}
+		const outputs = includeOutputs && cell.outputs.length
+			? `<div class="cell-output">${cell.outputs.map(output => renderOutputToHtml(output, widgets)).join('\n')}</div>`
+			: '';
+		return `<div class="notebook-cell cell-code">
+	<div class="cell-prompt">In [${cell.execution_count ?? ' '}]:</div>
+	<div class="cell-body">
+		<div class="cell-input"><pre><code>${highlightCode(cell.source, notebook.language)}</code></pre></div>
+		${outputs}
+		${cellAnnotations}
+	</div>
+</div>`;
+	}).join('\n');
+
+	return `<!DOCTYPE html>
+<html>
+<head>
+	<meta charset="utf-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1">
+	<title>${escapeHtml(title)}</title>
+	<style>
+${exportCSS}
+	</style>
+	${mathJaxURL ? `<script async src="${escapeHtml(mathJaxURL)}"></script>` : ''}
+</head>
+<body>
+	<h1 class="notebook-title">${escapeHtml(title)}</h1>
+	${cells}
+</body>
+</html>
+`;
+}
+
+function renderAnnotationsToHTML(annotations: NotebookExportAnnotation[] | undefined): string {
+	if (!annotations?.length) return '';
+	const items = annotations.map((annotation) => {
+		const style = annotation.color ? ` style="--annotation-color: ${escapeHtml(annotation.color)}"` : '';
+		const text = annotation.text ? `<mark>${escapeHtml(annotation.text)}</mark>` : '';
+		const comment = annotation.comment
+			? `<div class="annotation-comment">${escapeHtml(annotation.comment)}</div>`
+			: '';
+		return `<li data-annotation-type="${annotation.type}"${style}>${text}${comment}</li>`;
+	});
+	return `<ul class="cell-annotations">${items.join('')}</ul>`;
+}
+
+/**
+ * Markdown with code cells as fenced blocks and outputs after them.
+ * Output images and markdown attachments are embedded as data: URIs.
+ */
+export function exportNotebookToMarkdown(notebook: ParsedNotebook, options: NotebookExportOptions = {}): string {
+	const annotations = groupAnnotationsByCell(options.annotations);
+	const includeOutputs = options.includeOutputs ?? true;
+	const blocks: string[] = [];
+
+	for (const cell of notebook.cells) {
+		if (cell.cell_type === 'markdown') {
+			blocks.push(embedAttachments(cell.source, cell));
+		}
+		else if (cell.cell_type === 'raw') {
+			blocks.push(fence(cell.source, ''));
+		}
+		else {
+			blocks.push(fence(cell.source, notebook.language));
+			if (includeOutputs) {
+				blocks.push(...cell.outputs.map(outputToMarkdown).filter(Boolean));
+			}
+		}
+		const cellAnnotations = annotations.get(cell.id);
+		if (cellAnnotations) {
+			blocks.push(...cellAnnotations.map(annotationToMarkdown));
+		}
+	}
+
+	return blocks.map(block => block.trim()).filter(Boolean).join('\n\n') + '\n';
+}
+
+function embedAttachments(source: string, cell: NotebookCell): string {
+	if (!cell.attachments) return source;
+	return source.replace(/\(attachment:([^)\s]+)/g, (match, name) => {
+		const uri = getAttachmentDataURI(cell, decodeURIComponent(name));
+		return uri ? `(${uri}` : match;
+	});
+}
+
+function outputToMarkdown(output: CellOutput): string {
+	if (output.output_type === 'stream') {
+		return fence(ansiToText(normalizeOutputText(output.text)), '');
+	}
+	if (output.output_type === 'error') {
+		return fence(ansiToText(output.traceback?.join('\n') || `${output.ename}: ${output.evalue}`), '');
+	}
+	const data = output.data;
+	const mimeType = data && MARKDOWN_MIME_PRIORITY.find(type => data[type] !== undefined && data[type] !== null);
+	if (!data || !mimeType) {
+		return '';
+	}
+	const value = normalizeOutputText(data[mimeType] as MultilineString);
+	if (mimeType === 'image/svg+xml') {
+		// Parentheses would end the link destination
+		const uri = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(value)}`.replace(/\(/g, '%28').replace(/\)/g, '%29');
+		return `![output](${uri})`;
+	}
+	if (mimeType.startsWith('image/')) {
+		return `![output](data:${mimeType};base64,${value.replace(/\s/g, '')})`;
+	}
+	if (mimeType === 'text/plain') {
+		return fence(ansiToText(value), '');
+	}
+	// Markdown, LaTeX and HTML can be written as they are
+	return value;
+}
+
+function annotationToMarkdown(annotation: NotebookExportAnnotation): string {
+	const lines: string[] = [];
+	const label = annotation.type[0].toUpperCase() + annotation.type.slice(1);
+	if (annotation.text) {
+		lines.push(`**${label}:** <mark>${escapeHtml(annotation.text).replace(/\n/g, '<br>')}</mark>`);
+	}
+	else {
+		lines.push(`**${label}**`);
+	}
+	if (annotation.comment) {
+		lines.push('', ...annotation.comment.split('\n'));
+	}
+	return lines.map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
+/**
+ * Use a backtick fence longer than any backtick run in the content
+ */
+function fence(content: string, language: string): string {
+	const longestRun = Math.max(0, ...(content.match(/`+/g) || []).map(run => run.length));
+	const marker = '`'.repeat(Math.max(3, longestRun + 1));
+	return `${marker}${language}\n${content.replace(/\n$/, '')}\n${marker}`;
+}
+
+/**
+ * A jupytext percent-format script (see lib/text-notebook.ts), with annotations
+ * as comments under the marker of the cell they belong to
+ */
+export function exportNotebookToScript(notebook: ParsedNotebook, options: NotebookExportOptions = {}): string {
+	if (!options.annotations?.length) {
+		return serializeNotebook(notebook, 'percent');
+	}
+
+	const comment = getLineComment(notebook.language);
+	const annotations = groupAnnotationsByCell(options.annotations);
+	const header = formatPercentHeader(notebook.metadata, comment);
+	const blocks = header ? [header] : [];
+
+	for (const cell of notebook.cells) {
+		const [marker, ...body] = formatPercentCell(cell, comment, notebook.language).split('\n');
+		const lines = [marker];
+		for (const annotation of annotations.get(cell.id) || []) {
+			const quote = annotation.text ? ` "${annotation.text.replace(/\s*\n\s*/g, ' ')}"` : '';
+			lines.push(commentLines(`${annotation.type}${annotation.target === 'output' ? ' (output)' : ''}:${quote}`, comment));
+			if (annotation.comment) {
+				lines.push(...annotation.comment.split('\n').map(line => `${comment}   ${line}`.trimEnd()));
+			}
+		}
+		blocks.push([...lines, ...body].join('\n'));
+	}
+
+	return blocks.join('\n\n') + '\n';
+}
+
+function getScriptExtension(notebook: ParsedNotebook): string {
+	const extension = notebook.metadata.language_info?.file_extension;
+	return extension || SCRIPT_EXTENSIONS[notebook.language.toLowerCase()] || '.txt';
+}
+
+function groupAnnotationsByCell(annotations: NotebookExportAnnotation[] = []): Map<string, NotebookExportAnnotation[]> {
+	const byCell = new Map<string, NotebookExportAnnotation[]>();
+	for (const annotation of annotations) {
+		let cellAnnotations = byCell.get(annotation.cellId);
+		if (!cellAnnotations) {
+			cellAnnotations = [];
+			byCell.set(annotation.cellId, cellAnnotations);
+		}
+		cellAnnotations.push(annotation);
+	}
+	return byCell;
+}
@@ -3,6 +3,31 @@
  * Parses Jupyter Notebook (.ipynb) JSON format into a structured cell array.
  */
 
+import { OUTPUT_MIME_PRIORITY } from "./defines";
+import { normalizeLatexDelimiters, renderMarkdown } from "./lib/markdown";
+import { ansiToHtml } from "./lib/ansi";
+import { escapeHtml } from "./lib/html";
+import { renderWidgetView, SavedWidgets, WIDGET_VIEW_MIME_TYPE, WidgetState } from "./lib/widgets";
+import {
+	generateCellId,
+	isJSONMimeType,
+	MultilineString,
+	NotebookFormatError,
+	RawCell,
+	RawNotebook,
+	RawOutput,
+	upgradeNotebook,
+	validateNotebook
+} from "./lib/nbformat";
+import {
+	detectNotebookFormat,
+	getTextNotebookFormat,
+	NotebookSourceFormat,
+	parseTextNotebook,
+	serializeTextNotebook
+} from "./lib/text-notebook";
+
+/* eslint-disable camelcase -- nbformat JSON keys */
 export interface NotebookMetadata {
 	kernelspec?: {
 		display_name?: string;
@@ -12,28 +37,54 @@ export interface NotebookMetadata {
 	language_info?: {
 		name?: string;
 		version?: string;
+		file_extension?: string;
 	};
 	title?: string;
+	// Saved ipywidgets state (see lib/widgets.ts)
+	widgets?: SavedWidgets;
+}
+
+export interface MimeBundle {
+	'text/plain'?: string | string[];
+	'text/html'?: string | string[];
+	'image/png'?: string;
+	'image/jpeg'?: string;
+	'application/json'?: any;
+	[mimeType: string]: unknown;
 }
 
 export interface CellOutput {
 	output_type: 'stream' | 'execute_result' | 'display_data' | 'error';
 	name?: string; // for stream: 'stdout' | 'stderr'
 	text?: string | string[];
-	data?: {
-		'text/plain'?: string | string[];
-		'text/html'?: string | string[];
-		'image/png'?: string;
-		'image/jpeg'?: string;
-		'application/json'?: any;
-	};
+	data?: MimeBundle;
+	metadata?: Record<string, unknown>;
+	// Set on display_data outputs that can be replaced by update_display_data
+	transient?: { display_id?: string };
 	// For error output
 	ename?: string;
 	evalue?: string;
 	traceback?: string[];
-	execution_count?: number;
+	execution_count?: number | null;
 }
 
+/**
+ * Messages that modify existing outputs instead of adding one.
+ * They only come from kernels and are never stored in the notebook file.
+ */
+export type OutputUpdate =
+	| CellOutput
+	| {
+		output_type: 'update_display_data';
+		data: MimeBundle;
+		metadata?: Record<string, unknown>;
+		transient: { display_id: string };
+	}
+	| {
+		output_type: 'clear_output';
+		wait?: boolean;
+	};
+
 export interface NotebookCell {
 	id: string;
 	cell_type: 'code' | 'markdown' | 'raw';
@@ -41,6 +92,8 @@ export interface NotebookCell {
 	outputs: CellOutput[];
 	execution_count: number | null;
 	metadata: Record<string, any>;
+	// Files referenced from markdown as attachment:<name>
+	attachments?: Record<string, MimeBundle>;
 }
 
 export interface ParsedNotebook {
@@ -65,7 +118,7 @@ function normalizeSource(source: string | string[] | undefined): string {
 /**
  * Normalize output text which can be string or array of strings
  */
-function normalizeOutputText(text: string | string[] | undefined): string {
+export function normalizeOutputText(text: string | string[] | undefined): string {
 	if (!text) return '';
 	if (Array.isArray(text)) {
 		return text.join('');
@@ -74,192 +127,505 @@ function normalizeOutputText(text: string | string[] | undefined): string {
 }
 
 /**
- * Generate a unique ID for cells that don't have one
+ * Join multiline strings in a MIME bundle for the types we know how to render.
+ * Unknown types are kept exactly as they were so they can be written back unchanged.
  */
-function generateCellId(index: number): string {
-	return `cell-${index}-${Date.now().toString(36)}`;
+function normalizeMimeBundle(data: Record<string, unknown> | undefined): MimeBundle {
+	const bundle: MimeBundle = {};
+	if (!data) return bundle;
+
+	for (const [mimeType, value] of Object.entries(data)) {
+		if (OUTPUT_MIME_PRIORITY.includes(mimeType) && !isJSONMimeType(mimeType)) {
+			bundle[mimeType] = normalizeOutputText(value as MultilineString);
+		}
+		else {
+			bundle[mimeType] = value;
+		}
+	}
+	return bundle;
 }
 
 /**
- * Parse a Jupyter Notebook JSON into structured format
+ * Apply an output or output update to a cell's output list with Jupyter front-end semantics:
+ * consecutive streams of the same name merge, update_display_data replaces outputs sharing its
+ * display_id, and clear_output empties the list (with wait, once the next output arrives).
+ * Returns whether the list changed.
  */
-export function parseNotebook(content: string | ArrayBuffer): ParsedNotebook {
-	let jsonString: string;
-	
-	if (content instanceof ArrayBuffer) {
-		jsonString = new TextDecoder('utf-8').decode(content);
-	} else {
-		jsonString = content;
+export function applyOutputUpdate(outputs: CellOutput[], update: OutputUpdate): boolean {
+	if (update.output_type === 'clear_output') {
+		if (update.wait) {
+			pendingClears.add(outputs);
+			return false;
+		}
+		pendingClears.delete(outputs);
+		return !!outputs.splice(0).length;
+	}
+
+	if (update.output_type === 'update_display_data') {
+		let changed = false;
+		for (const output of outputs) {
+			if (output.transient?.display_id === update.transient.display_id) {
+				output.data = update.data;
+				output.metadata = update.metadata || {};
+				changed = true;
+			}
+		}
+		return changed;
+	}
+
+	if (pendingClears.has(outputs)) {
+		pendingClears.delete(outputs);
+		outputs.splice(0);
+	}
+
+	const last = outputs[outputs.length - 1];
+	if (update.output_type === 'stream' && last?.output_type === 'stream' && last.name === update.name) {
+		last.text = normalizeOutputText(last.text) + normalizeOutputText(update.text);
+		return true;
+	}
+	outputs.push(update);
+	return true;
+}
+
+// Output lists that received clear_output(wait=True) and are cleared on the next output
+const pendingClears = new WeakSet<CellOutput[]>();
+
+export interface ParseNotebookOptions {
+	// Throw on any schema violation instead of logging it and rendering what we can
+	strict?: boolean;
+	// Format of the content; detected from fileName or the content itself if not given
+	format?: NotebookSourceFormat;
+	fileName?: string;
+}
+
+interface OriginalJSON<T> {
+	raw: T;
+	// JSON.stringify() of the parsed object right after parsing, to detect edits
+	snapshot: string;
+}
+
+interface OriginalNotebookJSON {
+	raw: RawNotebook;
+	indent: string | number;
+	trailingNewline: boolean;
+}
+
+// The JSON each parsed cell and output came from, so serializeNotebook() can write back
+// untouched parts byte-for-byte and keep fields we don't model on edited ones
+const originalCells = new WeakMap<NotebookCell, OriginalJSON<RawCell>>();
+
+const originalOutputs = new WeakMap<CellOutput, OriginalJSON<RawOutput>>();
+
+const originalNotebooks = new WeakMap<ParsedNotebook, OriginalNotebookJSON>();
+
+function parseOutput(output: RawOutput): OutputUpdate {
+	if (output.output_type === 'stream') {
+		return {
+			output_type: 'stream',
+			name: output.name,
+			text: normalizeOutputText(output.text),
+		};
+	}
+	if (output.output_type === 'execute_result' || output.output_type === 'display_data') {
+		const parsedOutput: CellOutput = {
+			output_type: output.output_type as 'execute_result' | 'display_data',
+			data: normalizeMimeBundle(output.data),
+			metadata: output.metadata || {},
+		};
+		if (output.output_type === 'execute_result') {
+			parsedOutput.execution_count = output.execution_count;
+		}
+		return parsedOutput;
+	}
+	if (output.output_type === 'error') {
+		return {
+			output_type: 'error',
+			ename: output.ename,
+			evalue: output.evalue,
+			traceback: output.traceback,
+		};
 	}
+	return { ...output } as OutputUpdate;
+}
 
-	const notebook = JSON.parse(jsonString);
+/**
+ * Parse a Jupyter Notebook JSON into structured format.
+ * nbformat 3 notebooks are upgraded to 4. Throws NotebookFormatError if the content isn't
+ * a readable notebook; other schema violations are logged unless options.strict is set.
+ * Percent scripts, Quarto and R Markdown files are parsed into the same structure.
+ */
+export function parseNotebook(content: string | ArrayBuffer | Uint8Array, options: ParseNotebookOptions = {}): ParsedNotebook {
+	const jsonString = (typeof content === 'string' ? content : new TextDecoder('utf-8').decode(content))
+		.replace(/^\uFEFF/, '');
+
+	const format = options.format ?? detectNotebookFormat(jsonString, options.fileName);
+	if (format !== 'ipynb') {
+		return parseTextNotebook(jsonString, format, options.fileName);
+	}
+
+	let json;
+	try {
+		json = JSON.parse(jsonString);
+	}
+	catch (e) {
+		throw new NotebookFormatError(`Notebook is not valid JSON: ${(e as Error).message}`);
+	}
+
+	const notebook = upgradeNotebook(json);
+	const issues = validateNotebook(notebook);
+	if (issues.length) {
+		const error = new NotebookFormatError('Notebook does not match the nbformat schema', issues);
+		if (options.strict) {
+			throw error;
+		}
+		console.warn(error.message);
+	}
 
 	// Determine language from metadata
-	const language = notebook.metadata?.kernelspec?.language
-		|| notebook.metadata?.language_info?.name
+	const metadata: NotebookMetadata = notebook.metadata || {};
+	const language = metadata.kernelspec?.language
+		|| metadata.language_info?.name
 		|| 'python';
 
 	// Parse cells
-	const cells: NotebookCell[] = (notebook.cells || []).map((cell: any, index: number) => {
+	const cells: NotebookCell[] = notebook.cells.map((rawCell: RawCell, index: number) => {
+		if (!rawCell || typeof rawCell !== 'object') {
+			rawCell = {} as RawCell;
+		}
 		const outputs: CellOutput[] = [];
 
 		// Parse outputs for code cells
-		if (cell.cell_type === 'code' && Array.isArray(cell.outputs)) {
-			for (const output of cell.outputs) {
-				const parsedOutput: CellOutput = {
-					output_type: output.output_type,
-				};
-
-				if (output.output_type === 'stream') {
-					parsedOutput.name = output.name;
-					parsedOutput.text = normalizeOutputText(output.text);
-				}
-				else if (output.output_type === 'execute_result' || output.output_type === 'display_data') {
-					parsedOutput.data = {};
-					if (output.data) {
-						if (output.data['text/plain']) {
-							parsedOutput.data['text/plain'] = normalizeOutputText(output.data['text/plain']);
-						}
-						if (output.data['text/html']) {
-							parsedOutput.data['text/html'] = normalizeOutputText(output.data['text/html']);
-						}
-						if (output.data['image/png']) {
-							parsedOutput.data['image/png'] = output.data['image/png'];
-						}
-						if (output.data['image/jpeg']) {
-							parsedOutput.data['image/jpeg'] = output.data['image/jpeg'];
-						}
-						if (output.data['application/json']) {
-							parsedOutput.data['application/json'] = output.data['application/json'];
-						}
-					}
-					parsedOutput.execution_count = output.execution_count;
-				}
-				else if (output.output_type === 'error') {
-					parsedOutput.ename = output.ename;
-					parsedOutput.evalue = output.evalue;
-					parsedOutput.traceback = output.traceback;
+		if (rawCell.cell_type === 'code' && Array.isArray(rawCell.outputs)) {
+			for (const rawOutput of rawCell.outputs) {
+				const output = parseOutput(rawOutput || {} as RawOutput);
+				// Stored outputs are kept one-to-one with the file; only updates are applied
+				if (output.output_type === 'clear_output' || output.output_type === 'update_display_data') {
+					applyOutputUpdate(outputs, output);
+					continue;
 				}
-
-				outputs.push(parsedOutput);
+				originalOutputs.set(output, { raw: rawOutput, snapshot: JSON.stringify(output) });
+				outputs.push(output);
 			}
 		}
 
-		return {
-			id: cell.id || generateCellId(index),
-			cell_type: cell.cell_type || 'code',
-			source: normalizeSource(cell.source),
+		const cell: NotebookCell = {
+			id: rawCell.id || generateCellId(index),
+			cell_type: (rawCell.cell_type || 'code') as NotebookCell['cell_type'],
+			source: normalizeSource(rawCell.source),
 			outputs,
-			execution_count: cell.execution_count ?? null,
-			metadata: cell.metadata || {},
+			execution_count: rawCell.execution_count ?? null,
+			metadata: rawCell.metadata || {},
 		};
+		if (rawCell.attachments) {
+			cell.attachments = rawCell.attachments as Record<string, MimeBundle>;
+		}
+		originalCells.set(cell, { raw: rawCell, snapshot: JSON.stringify(cell) });
+		return cell;
 	});
 
-	return {
+	const parsed: ParsedNotebook = {
 		cells,
-		metadata: notebook.metadata || {},
+		metadata,
 		nbformat: notebook.nbformat || 4,
 		nbformat_minor: notebook.nbformat_minor || 0,
 		language,
 	};
+	originalNotebooks.set(parsed, {
+		// Notebooks upgraded from v3 are written in the current format
+		raw: notebook,
+		indent: json === notebook ? detectIndent(jsonString) : 1,
+		trailingNewline: json === notebook ? jsonString.endsWith('\n') : true,
+	});
+	return parsed;
+}
+
+function detectIndent(jsonString: string): string | number {
+	const match = /^\{\r?\n([ \t]*)"/.exec(jsonString);
+	return match ? match[1] : 0;
 }
 
 /**
- * Serialize a parsed notebook back to ipynb JSON format
+ * Split text into lines, keeping line endings, like Python's str.splitlines(True)
+ * that nbformat uses when writing
  */
-export function serializeNotebook(notebook: ParsedNotebook): string {
-	const cells = notebook.cells.map(cell => {
-		const serialized: any = {
-			cell_type: cell.cell_type,
-			source: cell.source.split('\n').map((line, i, arr) => 
-				i < arr.length - 1 ? line + '\n' : line
-			),
-			metadata: cell.metadata,
-		};
+function splitLines(text: string): string[] {
+	return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+// Non-text types that nbformat still writes as line arrays
+const SPLIT_MIME_TYPES = ['application/javascript', 'image/svg+xml'];
+
+function serializeMimeBundle(data: MimeBundle = {}): MimeBundle {
+	const bundle: MimeBundle = {};
+	for (const [mimeType, value] of Object.entries(data)) {
+		bundle[mimeType] = typeof value === 'string' && (mimeType.startsWith('text/') || SPLIT_MIME_TYPES.includes(mimeType))
+			? splitLines(value)
+			: value;
+	}
+	return bundle;
+}
+
+/**
+ * nbformat writes keys in sorted order; used for objects that didn't come from the file
+ */
+function sortKeys<T extends object>(object: T): T {
+	return Object.fromEntries(Object.entries(object).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))) as T;
+}
+
+function serializeOutput(output: CellOutput): RawOutput {
+	const original = originalOutputs.get(output);
+	if (original && JSON.stringify(output) === original.snapshot) {
+		return original.raw;
+	}
 
-		if (cell.id) {
-			serialized.id = cell.id;
+	const serialized: RawOutput = { ...original?.raw, output_type: output.output_type };
+	if (output.output_type === 'stream') {
+		serialized.name = output.name;
+		serialized.text = splitLines(normalizeOutputText(output.text));
+	}
+	else if (output.output_type === 'execute_result' || output.output_type === 'display_data') {
+		serialized.data = serializeMimeBundle(output.data);
+		serialized.metadata = output.metadata || {};
+		if (output.output_type === 'execute_result') {
+			serialized.execution_count = output.execution_count ?? null;
 		}
+	}
+	else if (output.output_type === 'error') {
+		serialized.ename = output.ename;
+		serialized.evalue = output.evalue;
+		serialized.traceback = output.traceback;
+	}
+	// transient is never persisted, per the messaging spec
+	return original ? serialized : sortKeys(serialized);
+}
 
-		if (cell.cell_type === 'code') {
-			serialized.execution_count = cell.execution_count;
-			serialized.outputs = cell.outputs.map(output => {
-				const serializedOutput: any = {
-					output_type: output.output_type,
-				};
+function serializeCell(cell: NotebookCell, nbformatMinor: number): RawCell {
+	const original = originalCells.get(cell);
+	if (original && JSON.stringify(cell) === original.snapshot) {
+		return original.raw;
+	}
 
-				if (output.output_type === 'stream') {
-					serializedOutput.name = output.name;
-					serializedOutput.text = output.text;
-				}
-				else if (output.output_type === 'execute_result' || output.output_type === 'display_data') {
-					serializedOutput.data = output.data;
-					if (output.execution_count !== undefined) {
-						serializedOutput.execution_count = output.execution_count;
-					}
-				}
-				else if (output.output_type === 'error') {
-					serializedOutput.ename = output.ename;
-					serializedOutput.evalue = output.evalue;
-					serializedOutput.traceback = output.traceback;
-				}
+	const raw = original?.raw;
+	// Keys already in the file keep their position
+	const serialized: RawCell = {
+		...raw,
+		cell_type: cell.cell_type,
+		metadata: cell.metadata,
+		source: raw && cell.source === normalizeSource(raw.source)
+			? raw.source
+			: splitLines(cell.source),
+	};
+	// Cell IDs were introduced in nbformat 4.5
+	if (raw ? 'id' in raw : nbformatMinor >= 5) {
+		serialized.id = cell.id;
+	}
 
-				return serializedOutput;
-			});
+	if (cell.cell_type === 'code') {
+		serialized.execution_count = cell.execution_count;
+		serialized.outputs = cell.outputs.map(serializeOutput);
+		delete serialized.attachments;
+	}
+	else {
+		delete serialized.execution_count;
+		delete serialized.outputs;
+		if (cell.attachments) {
+			serialized.attachments = cell.attachments;
 		}
+	}
+	return raw ? serialized : sortKeys(serialized);
+}
 
-		return serialized;
-	});
+/**
+ * Serialize a parsed notebook back to ipynb JSON format, or to the text format it was read from.
+ * Parts that weren't modified are written exactly as they were read, including
+ * fields this module doesn't know about, key order and indentation.
+ */
+export function serializeNotebook(notebook: ParsedNotebook, format?: NotebookSourceFormat): string {
+	const targetFormat = format ?? getTextNotebookFormat(notebook) ?? 'ipynb';
+	if (targetFormat !== 'ipynb') {
+		return serializeTextNotebook(notebook, targetFormat);
+	}
 
-	return JSON.stringify({
-		cells,
+	const original = originalNotebooks.get(notebook);
+	const json = {
+		...(original?.raw ?? {}),
+		cells: notebook.cells.map(cell => serializeCell(cell, notebook.nbformat_minor)),
 		metadata: notebook.metadata,
 		nbformat: notebook.nbformat,
 		nbformat_minor: notebook.nbformat_minor,
-	}, null, 1);
+	};
+	const trailingNewline = original?.trailingNewline ?? true;
+	return JSON.stringify(json, null, original?.indent ?? 1) + (trailingNewline ? '\n' : '');
+}
+
+/**
+ * Pick the MIME type to display from a bundle: the first renderable type in priority order,
+ * then any other JSON type, then text/plain
+ */
+export function getPreferredMimeType(data: MimeBundle): string | null {
+	const mimeTypes = Object.keys(data).filter(mimeType => data[mimeType] !== undefined && data[mimeType] !== null);
+	for (const mimeType of OUTPUT_MIME_PRIORITY) {
+		if (mimeTypes.includes(mimeType)) {
+			return mimeType;
+		}
+	}
+	return mimeTypes.find(mimeType => isJSONMimeType(mimeType))
+		?? mimeTypes.find(mimeType => mimeType.startsWith('text/'))
+		?? null;
+}
+
+/**
+ * Render a single entry of a MIME bundle to HTML
+ */
+export function renderMimeTypeToHtml(mimeType: string, value: unknown, metadata: Record<string, unknown> = {}): string {
+	if (isJSONMimeType(mimeType)) {
+		const json = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+		return `<pre class="output-json" data-mime-type="${escapeHtml(mimeType)}">${escapeHtml(json ?? '')}</pre>`;
+	}
+	// Everything else is a multiline string
+	const text = normalizeOutputText(value as MultilineString);
+	if (mimeType === 'text/html') {
+		return `<div class="output-html">${text}</div>`;
+	}
+	if (mimeType === 'text/markdown') {
+		return `<div class="output-markdown-content">${renderMarkdown(text)}</div>`;
+	}
+	if (mimeType === 'text/latex') {
+		return `<div class="output-latex">${escapeHtml(normalizeLatexDelimiters(text))}</div>`;
+	}
+	if (mimeType === 'image/svg+xml') {
+		// Load as an image rather than inlining so any scripts in the SVG can't run
+		const src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(text)}`;
+		return `<img class="output-image output-svg" src="${src}"${getImageSizeAttributes(metadata[mimeType])} />`;
+	}
+	if (mimeType.startsWith('image/')) {
+		const base64 = text.replace(/\s/g, '');
+		return `<img class="output-image" src="data:${mimeType};base64,${base64}"${getImageSizeAttributes(metadata[mimeType])} />`;
+	}
+	return `<pre class="output-text">${ansiToHtml(text)}</pre>`;
+}
+
+function getImageSizeAttributes(sizeMetadata: unknown): string {
+	const metadata = sizeMetadata as { width?: unknown, height?: unknown } | undefined;
+	let attributes = '';
+	if (typeof metadata?.width === 'number') {
+		attributes += ` width="${metadata.width}"`;
+	}
+	if (typeof metadata?.height === 'number') {
+		attributes += ` height="${metadata.height}"`;
+	}
+	return attributes;
 }
 
 /**
- * Render cell output to HTML
+ * Get a data: URI for an image attached to a markdown cell, or null if there is no such image
  */
-export function renderOutputToHtml(output: CellOutput): string {
+export function getAttachmentDataURI(cell: NotebookCell, name: string): string | null {
+	const bundle = cell.attachments?.[name];
+	const mimeType = bundle && Object.keys(bundle).find(type => type.startsWith('image/'));
+	if (!mimeType) return null;
+	const base64 = normalizeOutputText(bundle[mimeType] as MultilineString).replace(/\s/g, '');
+	return `data:${mimeType};base64,${base64}`;
+}
+
+/**
+ * Point attachment:<name> images in rendered markdown at the data stored in the cell's attachments
+ */
+export function resolveAttachments(html: string, cell: NotebookCell): string {
+	if (!cell.attachments) return html;
+	return html.replace(/src="attachment:([^"]+)"/g, (match, name) => {
+		const uri = getAttachmentDataURI(cell, decodeURIComponent(name));
+		return uri ? `src="${uri}"` : match;
+	});
+}
+
+/**
+ * Render cell output to HTML. Widget outputs are rendered from widgets, the notebook's saved
+ * widget state (see getWidgetState()), if their model is in it.
+ */
+export function renderOutputToHtml(output: CellOutput, widgets: WidgetState | null = null): string {
 	if (output.output_type === 'stream') {
 		const className = output.name === 'stderr' ? 'output-stderr' : 'output-stdout';
-		return `<pre class="${className}">${escapeHtml(output.text as string)}</pre>`;
+		return `<pre class="${className}">${ansiToHtml(normalizeOutputText(output.text))}</pre>`;
 	}
 	
 	if (output.output_type === 'execute_result' || output.output_type === 'display_data') {
-		// Prefer HTML output, then plain text
-		if (output.data?.['text/html']) {
-			return `<div class="output-html">${output.data['text/html']}</div>`;
-		}
-		if (output.data?.['image/png']) {
-			return `<img class="output-image" src="data:image/png;base64,${output.data['image/png']}" />`;
-		}
-		if (output.data?.['image/jpeg']) {
-			return `<img class="output-image" src="data:image/jpeg;base64,${output.data['image/jpeg']}" />`;
-		}
-		if (output.data?.['text/plain']) {
-			return `<pre class="output-text">${escapeHtml(output.data['text/plain'] as string)}</pre>`;
+		if (!output.data) return '';
+		if (widgets && output.data[WIDGET_VIEW_MIME_TYPE]) {
+			const html = renderWidgetView(output.data[WIDGET_VIEW_MIME_TYPE], widgets, child => renderOutputToHtml(child, widgets));
+			if (html !== null) return html;
 		}
+		const mimeType = getPreferredMimeType(output.data);
+		if (!mimeType) return '';
+		return renderMimeTypeToHtml(mimeType, output.data[mimeType], output.metadata);
 	}
 	
 	if (output.output_type === 'error') {
 		const traceback = output.traceback?.join('\n') || `${output.ename}: ${output.evalue}`;
-		return `<pre class="output-error">${escapeHtml(traceback)}</pre>`;
+		return `<pre class="output-error">${ansiToHtml(traceback)}</pre>`;
 	}
 
 	return '';
 }
 
+export interface TruncatedOutput {
+	// The beginning of the output, or null if it can't be shown in part
+	output: CellOutput | null;
+	mimeType: string;
+	lines: number;
+	length: number;
+}
+
 /**
- * Escape HTML special characters
+ * Cut down an output that is too large to render at once. Plain text keeps its first
+ * maxLines lines (and at most maxLength characters); other large data is left out entirely,
+ * except images, which the browser handles fine. Returns null if the output can be rendered as is.
  */
-function escapeHtml(text: string): string {
-	return text
-		.replace(/&/g, '&amp;')
-		.replace(/</g, '&lt;')
-		.replace(/>/g, '&gt;')
-		.replace(/"/g, '&quot;')
-		.replace(/'/g, '&#039;');
+export function truncateOutput(output: CellOutput, maxLines: number, maxLength: number): TruncatedOutput | null {
+	let text: string;
+	let mimeType = 'text/plain';
+	if (output.output_type === 'stream') {
+		text = normalizeOutputText(output.text);
+	}
+	else if (output.output_type === 'error') {
+		text = output.traceback?.join('\n') || '';
+	}
+	else {
+		if (!output.data) return null;
+		mimeType = getPreferredMimeType(output.data) || '';
+		if (!mimeType || mimeType.startsWith('image/')) return null;
+		const value = output.data[mimeType];
+		text = typeof value === 'string' || Array.isArray(value) ? normalizeOutputText(value) : JSON.stringify(value);
+	}
+
+	let lines = 1;
+	let cutAt = -1;
+	for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+		if (lines === maxLines) {
+			cutAt = index + 1;
+		}
+		lines++;
+	}
+	if (text.endsWith('\n')) {
+		lines--;
+	}
+	if ((cutAt === -1 || cutAt === text.length) && text.length <= maxLength) {
+		return null;
+	}
+	if (mimeType !== 'text/plain') {
+		return { output: null, mimeType, lines, length: text.length };
+	}
+
+	const head = text.slice(0, Math.min(cutAt === -1 ? text.length : cutAt, maxLength));
+	let truncated: CellOutput;
+	if (output.output_type === 'stream') {
+		truncated = { ...output, text: head };
+	}
+	else if (output.output_type === 'error') {
+		truncated = { ...output, traceback: [head] };
+	}
+	else {
+		truncated = { ...output, data: { 'text/plain': head } };
+	}
+	return { output: truncated, mimeType, lines, length: text.length };
 }
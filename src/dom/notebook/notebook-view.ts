@@ -18,37 +18,68 @@ import {
 } from "../common/lib/range";
 import {
 	CssSelector,
+	isCss,
+	isTextPosition,
+	isTextQuote,
 	textPositionFromRange,
 	Selector,
-	textPositionToRange,
-	TextPositionSelector
+	textPositionToRange
 } from "../common/lib/selector";
 import DOMView, {
+	DOMViewOptions,
 	DOMViewState,
 	NavigateOptions
 } from "../common/dom-view";
 import { getUniqueSelectorContaining } from "../common/lib/unique-selector";
 import {
+	closestElement,
 	getVisibleTextNodes,
 } from "../common/lib/nodes";
 import DefaultFindProcessor, { createSearchContext } from "../common/lib/find";
 import injectCSS from './stylesheets/inject.scss';
 import { scrollIntoView } from "../common/lib/scroll-into-view";
-import { SORT_INDEX_LENGTH } from "./defines";
-import { parseNotebook, ParsedNotebook, NotebookCell, CellOutput, renderOutputToHtml } from "./notebook-parser";
-
-// Markdown-it for rendering markdown cells
-const MarkdownIt = require('markdown-it');
-const md = new MarkdownIt({
-	html: true,
-	linkify: true,
-	typographer: true,
-	breaks: true
-});
-
+import { isMac } from "../../common/lib/utilities";
+import {
+	CellExecutionState,
+	DEFAULT_CODE_CELL_MIN_HEIGHT,
+	DEFAULT_MARKDOWN_CELL_MIN_HEIGHT,
+	OUTPUT_TRUNCATE_LENGTH,
+	OUTPUT_TRUNCATE_LINES,
+	SORT_INDEX_LENGTH,
+	VIRTUALIZATION_INITIAL_CELLS,
+	VIRTUALIZATION_MARGIN,
+	REANCHOR_DELAY,
+	VIRTUALIZATION_MIN_CELLS
+} from "./defines";
+import { MARKUP_ANNOTATION_TYPES } from "../../common/defines";
+import {
+	parseNotebook,
+	serializeNotebook,
+	ParsedNotebook,
+	NotebookCell,
+	CellOutput,
+	normalizeOutputText,
+	renderOutputToHtml,
+	resolveAttachments,
+	truncateOutput
+} from "./notebook-parser";
+import { appendKernelMessage, ExecuteReply, NotebookKernel } from "./kernel";
+import { renderMarkdown } from "./lib/markdown";
+import { highlightCode } from "./lib/highlight";
+import { anchorTextQuote, getTextContent, textQuoteFromPosition } from "./lib/anchoring";
+import { NotebookEditHistory, NotebookSnapshot, restoreSnapshot, takeSnapshot } from "./lib/edit-history";
+import { renderMathInElements } from "../common/lib/math";
+import { exportNotebookWithMath, NotebookExportAnnotation, NotebookExportFormat } from "./notebook-export";
+import { NotebookSourceFormat } from "./lib/text-notebook";
+import { buildSlides, hasSlideshowMetadata, Slide } from "./lib/slideshow";
+import { CellDiff, diffNotebooks, getChangedRange } from "./lib/notebook-diff";
+import { getWidgetState, WidgetState } from "./lib/widgets";
+import { debounce } from "../../common/lib/debounce";
+
+/* eslint-disable camelcase -- nbformat JSON keys */
 interface CellState {
 	id: string;
-	executionState: 'idle' | 'pending' | 'running' | 'success' | 'error';
+	executionState: CellExecutionState;
 	output: string;
 	isEditing: boolean;
 	source: string;
@@ -64,12 +95,57 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 	private _activeCellId!: string | null;
 	private _cellMode!: 'command' | 'edit' | null; // Current mode for selected cell
 	private _isModified!: boolean; // Track if notebook has unsaved changes
-	private _deleteKeyCount!: number; // Track consecutive 'd' presses for dd delete
+
+	private _lastCommandKey!: string | null; // Track the previous command-mode key for dd/ii/00
+
+	private _lastCommandKeyTime!: number;
+
+	private _kernel!: NotebookKernel | null;
+
+	private _executionQueue!: string[]; // IDs of cells waiting to be executed, in order
+
+	private _queueProcessing!: Promise<void> | null;
+
+	private _cachedSearchContext!: ReturnType<typeof createSearchContext> | null;
+
+	private _changedCellIds!: Set<string> | null; // Cells to re-anchor annotations in, or null for all of them
+
+	private _reanchorAnnotations!: ReturnType<typeof debounce<() => void>>;
+
+	private _editHistory!: NotebookEditHistory;
+
+	private _sourceEditCellId!: string | null; // Cell whose current source edit is already in the history
+
+	private _cellClipboard!: NotebookCell[]; // Cells copied or cut in command mode (c/x/v)
+
+	private _orphanedAnnotationIDs!: Set<string>; // Annotations whose text is no longer in the notebook
+
+	private _virtualized!: boolean; // Whether only cells near the viewport are mounted
+
+	private _cellObserver!: IntersectionObserver | null; // Mounts and unmounts cells as they scroll in and out of range
+
+	private _cellHeights!: Map<string, number>; // Measured heights of unmounted cells, for their placeholders
+
+	private _cellTextLengths!: Map<string, number>; // Text lengths of unmounted cells, for sort indexes
+
+	private _pinnedCellIds!: Set<string>; // Cells kept mounted away from the viewport (find results, printing)
+
+	private _expandedOutputs!: WeakSet<CellOutput>; // Truncated outputs the user expanded, forgotten once replaced
+
+	private _slideshow!: { slides: Slide[], index: number, step: number } | null; // Set while presenting
+
+	private _diff!: { rows: CellDiff[], side: 'base' | 'changed' } | null; // Set while comparing with another version
+
+	private _diffScrollTarget!: number | null; // Scroll position set by scrollDiffTo(), not to be passed on
+
+	private _widgetState!: WidgetState | null; // ipywidgets models saved with the notebook, for widget outputs
 
 	private get _searchContext() {
-		let searchContext = createSearchContext(getVisibleTextNodes(this._iframeDocument.body));
-		Object.defineProperty(this, '_searchContext', { value: searchContext });
-		return searchContext;
+		// Rebuilt after edits, since re-highlighting replaces the code's text nodes
+		if (!this._cachedSearchContext) {
+			this._cachedSearchContext = createSearchContext(getVisibleTextNodes(this._iframeDocument.body));
+		}
+		return this._cachedSearchContext;
 	}
 
 	protected async _getSrcDoc(): Promise<string> {
@@ -82,7 +158,27 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 		this._activeCellId = null;
 		this._cellMode = null;
 		this._isModified = false;
-		this._deleteKeyCount = 0;
+		this._lastCommandKey = null;
+		this._lastCommandKeyTime = 0;
+		this._kernel = (this._options as NotebookViewOptions).kernel ?? null;
+		this._executionQueue = [];
+		this._queueProcessing = null;
+		this._cachedSearchContext = null;
+		this._changedCellIds = new Set();
+		this._reanchorAnnotations = debounce(() => this._reanchorChangedCells(), REANCHOR_DELAY);
+		this._editHistory = new NotebookEditHistory();
+		this._sourceEditCellId = null;
+		this._cellClipboard = [];
+		this._orphanedAnnotationIDs = new Set();
+		this._virtualized = false;
+		this._cellObserver = null;
+		this._cellHeights = new Map();
+		this._cellTextLengths = new Map();
+		this._pinnedCellIds = new Set();
+		this._expandedOutputs = new WeakSet();
+		this._slideshow = null;
+		this._diff = null;
+		this._diffScrollTarget = null;
 		
 		console.log('[NotebookView._getSrcDoc] data available:', {
 			hasBuf: !!this._options.data.buf,
@@ -90,16 +186,18 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 		});
 		
 		// Parse the notebook data
+		const { format, fileName } = this._options.data;
 		if (this._options.data.buf) {
 			console.log('[NotebookView._getSrcDoc] Parsing from buffer');
-			this._notebook = parseNotebook(this._options.data.buf);
+			this._notebook = parseNotebook(this._options.data.buf, { format, fileName });
 		} else if (this._options.data.content) {
 			console.log('[NotebookView._getSrcDoc] Parsing from content');
-			this._notebook = parseNotebook(this._options.data.content);
+			this._notebook = parseNotebook(this._options.data.content, { format, fileName });
 		} else {
 			console.error('[NotebookView._getSrcDoc] No data available!');
 			throw new Error('Notebook data (buf or content) is required');
 		}
+		this._widgetState = getWidgetState(this._notebook.metadata);
 		console.log('[NotebookView._getSrcDoc] Notebook parsed:', {
 			cellCount: this._notebook?.cells?.length,
 			metadata: this._notebook?.metadata
@@ -107,12 +205,14 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 
 		// Initialize cell states
 		console.log('[NotebookView._getSrcDoc] Initializing cell states for', this._notebook.cells.length, 'cells');
+		this._virtualized = this._notebook.cells.length > VIRTUALIZATION_MIN_CELLS;
 		for (const cell of this._notebook.cells) {
 			console.log('[NotebookView._getSrcDoc] Adding cell state for ID:', cell.id, 'type:', cell.cell_type);
 			this._cellStates.set(cell.id, {
 				id: cell.id,
 				executionState: 'idle',
-				output: this._renderCellOutputs(cell.outputs),
+				// Rendered along with the cell
+				output: '',
 				isEditing: false,
 				source: cell.source,
 			});
@@ -127,7 +227,11 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 	private _generateNotebookHtml(): string {
 		if (!this._notebook) return '';
 
-		const cells = this._notebook.cells.map(cell => this._renderCell(cell)).join('\n');
+		const cells = this._notebook.cells.map((cell, index) => (
+			this._virtualized && index >= VIRTUALIZATION_INITIAL_CELLS
+				? this._renderCellPlaceholder(cell)
+				: this._renderCell(cell)
+		)).join('\n');
 		const title = (this._notebook.metadata as any)?.title || 'Untitled Notebook';
 		const language = this._notebook.language;
 
@@ -148,22 +252,61 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 					<div class="notebook-metadata">
 						<span>Language: ${language}</span>
 						<span class="unsaved-indicator" style="display: none;">Unsaved changes</span>
+						<span class="orphaned-annotations-indicator" style="display: none;"></span>
 					</div>
 				</div>
-				<button class="export-button" data-action="export">Export Notebook</button>
+				<div class="notebook-actions">
+					<button class="toolbar-button" data-action="run-all" title="Run all cells (${this._getModKeyLabel()}Shift+Enter)">Run All</button>
+					<button class="toolbar-button" data-action="run-above" title="Run all cells above the selected cell (${this._getModKeyLabel()}Shift+Up)">Run Above</button>
+					<button class="toolbar-button" data-action="run-below" title="Run the selected cell and all cells below (${this._getModKeyLabel()}Shift+Down)">Run Below</button>
+					${this._renderKernelControls()}
+					${hasSlideshowMetadata(this._notebook.cells) ? '<button class="toolbar-button" data-action="present" title="Present the notebook as slides">Present</button>' : ''}
+					<select class="export-format" title="Export format">
+						<option value="ipynb">Notebook (.ipynb)</option>
+						<option value="html">HTML</option>
+						<option value="markdown">Markdown</option>
+						<option value="script">Script (# %%)</option>
+					</select>
+					<label class="export-annotations" title="Include annotations in the exported file">
+						<input type="checkbox" data-action="export-annotations"> Annotations
+					</label>
+					<button class="export-button" data-action="export">Export Notebook</button>
+				</div>
 			</div>
 		</div>
 		<div class="notebook-cells" data-notebook-language="${language}">
 			${cells}
 		</div>
 	</div>
+	<div class="slideshow-controls">
+		<button class="slideshow-button" data-action="slide-previous" title="Previous (Left Arrow)">&lsaquo;</button>
+		<span class="slideshow-position"></span>
+		<button class="slideshow-button" data-action="slide-next" title="Next (Right Arrow, Space)">&rsaquo;</button>
+		<button class="slideshow-button" data-action="slide-exit" title="Exit presentation (Esc)">Exit</button>
+	</div>
+	<div class="speaker-notes"></div>
+	<div class="notebook-diff"></div>
 </body>
 </html>`;
 	}
 
+	private _renderKernelControls(): string {
+		if (!this._kernel) return '';
+
+		return `
+<span class="kernel-status" data-kernel-status="${this._kernel.status}">Kernel: ${this._kernel.status}</span>
+<button class="toolbar-button" data-action="interrupt-kernel" title="Interrupt kernel (i, i)">Interrupt</button>
+<button class="toolbar-button" data-action="restart-kernel" title="Restart kernel (0, 0)">Restart</button>
+<button class="toolbar-button" data-action="restart-run-all" title="Restart kernel and run all cells (${this._getModKeyLabel()}Shift+0)">Restart &amp; Run All</button>`;
+	}
+
+	private _getModKeyLabel(): string {
+		return isMac() ? 'Cmd+' : 'Ctrl+';
+	}
+
 	private _renderCell(cell: NotebookCell): string {
 		const state = this._cellStates.get(cell.id);
-		const executionCount = cell.execution_count !== null ? `[${cell.execution_count}]` : '[ ]';
+		const executionCount = this._formatExecutionCount(cell);
 
 		if (cell.cell_type === 'code') {
 			return this._renderCodeCell(cell, executionCount, state);
@@ -175,15 +318,17 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 	}
 
 	private _renderCodeCell(cell: NotebookCell, executionCount: string, state?: CellState): string {
-		const outputHtml = state?.output || this._renderCellOutputs(cell.outputs);
-		const sourceEscaped = this._escapeHtml(cell.source);
+		const outputHtml = state?.output || this._renderCellOutputs(cell.id, cell.outputs);
 
 		return `
-<div class="notebook-cell cell-code" data-cell-id="${cell.id}" data-cell-type="code">
+<div class="notebook-cell cell-code${this._getCollapsedClasses(cell)}" data-cell-id="${cell.id}" data-cell-type="code">
 	<div class="cell-header">
 		<span class="cell-execution-count">${executionCount}</span>
+		<span class="cell-execution-badge"></span>
 		<span class="cell-type-indicator">Code</span>
 		<div class="cell-actions">
+			<button class="cell-collapse-button" data-action="toggle-input" data-cell-id="${cell.id}" title="Show or hide the input (Shift+O)">Input</button>
+			<button class="cell-collapse-button" data-action="toggle-outputs" data-cell-id="${cell.id}" title="Show or hide the output (O)">Output</button>
 			<button class="cell-run-button" data-action="run" data-cell-id="${cell.id}">
 				<svg class="run-icon" viewBox="0 0 24 24" fill="currentColor">
 					<path d="M8 5v14l11-7z"/>
@@ -192,9 +337,12 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 			</button>
 		</div>
 	</div>
+	${this._renderCollapsedBar(cell, 'input')}
 	<div class="cell-code-content">
-		<textarea class="code-input" data-cell-id="${cell.id}" spellcheck="false">${sourceEscaped}</textarea>
+		<pre class="code-highlight cell-input" aria-hidden="true"><code>${highlightCode(cell.source, this._notebook?.language)}</code></pre>
+		<textarea class="code-input" data-cell-id="${cell.id}" spellcheck="false"></textarea>
 	</div>
+	${this._renderCollapsedBar(cell, 'outputs')}
 	<div class="cell-output" data-cell-id="${cell.id}">
 		${outputHtml}
 	</div>
@@ -203,11 +351,12 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 
 	private _renderMarkdownCell(cell: NotebookCell): string {
 		// Render markdown to HTML
-		const renderedContent = md.render(cell.source);
+		const renderedContent = resolveAttachments(renderMarkdown(cell.source), cell);
 
 		return `
-<div class="notebook-cell cell-markdown" data-cell-id="${cell.id}" data-cell-type="markdown">
-	<div class="cell-markdown-content" contenteditable="true" data-cell-id="${cell.id}" data-raw-source="${this._escapeAttr(cell.source)}">
+<div class="notebook-cell cell-markdown${this._getCollapsedClasses(cell)}" data-cell-id="${cell.id}" data-cell-type="markdown">
+	${this._renderCollapsedBar(cell, 'input')}
+	<div class="cell-markdown-content cell-input" contenteditable="true" data-cell-id="${cell.id}" data-raw-source="${this._escapeAttr(cell.source)}">
 		${renderedContent}
 	</div>
 </div>`;
@@ -215,29 +364,126 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 
 	private _renderRawCell(cell: NotebookCell): string {
 		return `
-<div class="notebook-cell cell-raw" data-cell-id="${cell.id}" data-cell-type="raw">
+<div class="notebook-cell cell-raw${this._getCollapsedClasses(cell)}" data-cell-id="${cell.id}" data-cell-type="raw">
 	<div class="cell-header">
 		<span class="cell-type-indicator">Raw</span>
 	</div>
-	<div class="cell-raw-content" contenteditable="true" data-cell-id="${cell.id}">
+	${this._renderCollapsedBar(cell, 'input')}
+	<div class="cell-raw-content cell-input" contenteditable="true" data-cell-id="${cell.id}">
 		${this._escapeHtml(cell.source)}
 	</div>
 </div>`;
 	}
 
-	private _renderCellOutputs(outputs: CellOutput[]): string {
+	/**
+	 * Stand-in for a cell that isn't mounted, with the cell's last measured or estimated height
+	 */
+	private _renderCellPlaceholder(cell: NotebookCell): string {
+		const height = this._cellHeights.get(cell.id) ?? this._estimateCellHeight(cell);
+		return `<div class="notebook-cell cell-placeholder" data-cell-id="${cell.id}" data-cell-type="${cell.cell_type}" style="height: ${Math.round(height)}px"></div>`;
+	}
+
+	private _estimateCellHeight(cell: NotebookCell): number {
+		const collapsedBarHeight = 28;
+		const lineHeight = 20;
+		const inputHidden = !!cell.metadata?.jupyter?.source_hidden;
+		const inputLines = cell.source.split('\n').length;
+		if (cell.cell_type !== 'code') {
+			return inputHidden ? collapsedBarHeight : DEFAULT_MARKDOWN_CELL_MIN_HEIGHT + inputLines * lineHeight;
+		}
+
+		let height = DEFAULT_CODE_CELL_MIN_HEIGHT + (inputHidden ? collapsedBarHeight : inputLines * lineHeight);
+		if (cell.metadata?.jupyter?.outputs_hidden) {
+			return height + collapsedBarHeight;
+		}
+		for (const output of cell.outputs) {
+			if (output.data && Object.keys(output.data).some(mimeType => mimeType.startsWith('image/'))) {
+				height += 300;
+				continue;
+			}
+			const text = normalizeOutputText(output.text ?? output.data?.['text/plain']) || output.traceback?.join('\n') || '';
+			height += Math.min(text.split('\n').length, OUTPUT_TRUNCATE_LINES) * lineHeight;
+		}
+		return height;
+	}
+
+	private _getCollapsedClasses(cell: NotebookCell): string {
+		const jupyter = cell.metadata?.jupyter;
+		return (jupyter?.source_hidden ? ' input-collapsed' : '')
+			+ (jupyter?.outputs_hidden && cell.cell_type === 'code' ? ' outputs-collapsed' : '');
+	}
+
+	/**
+	 * Clickable bar shown in place of a collapsed input or output
+	 */
+	private _renderCollapsedBar(cell: NotebookCell, part: 'input' | 'outputs'): string {
+		let label;
+		if (part === 'input') {
+			const lines = cell.source.split('\n').length;
+			label = `Input hidden (${lines} ${lines === 1 ? 'line' : 'lines'})`;
+		}
+		else {
+			const count = cell.outputs.length;
+			label = `Output hidden (${count} ${count === 1 ? 'item' : 'items'})`;
+		}
+		return `<div class="cell-collapsed-bar cell-${part}-collapsed-bar" data-action="toggle-${part}" data-cell-id="${cell.id}" title="Show">${label}</div>`;
+	}
+
+	private _renderCellOutputs(cellId: string, outputs: CellOutput[], running = false): string {
+		if (running && (!outputs || outputs.length === 0)) {
+			return `
+<div class="output-header">
+	<span>Output (running...)</span>
+</div>
+<div class="output-streaming">
+	<div class="spinner"></div>
+	<span>Executing code...</span>
+</div>`;
+		}
 		if (!outputs || outputs.length === 0) return '';
 
-		const outputsHtml = outputs.map(output => renderOutputToHtml(output)).join('');
+		const outputsHtml = outputs.map((output, index) => this._renderOutput(cellId, output, index)).join('');
 		
 		return `
 <div class="output-header">
-	<span>Output</span>
+	<span>${running ? 'Output (running...)' : 'Output'}</span>
 	<button class="output-close-button" data-action="clear-output">&times;</button>
 </div>
 <div class="output-content">${outputsHtml}</div>`;
 	}
 
+	/**
+	 * Render an output, cut down with an expand control if it's too large and the user hasn't expanded it
+	 */
+	private _renderOutput(cellId: string, output: CellOutput, index: number): string {
+		const truncated = !this._expandedOutputs.has(output)
+			&& truncateOutput(output, OUTPUT_TRUNCATE_LINES, OUTPUT_TRUNCATE_LENGTH);
+		if (!truncated) {
+			return renderOutputToHtml(output, this._widgetState);
+		}
+
+		const size = truncated.length >= 1024 * 1024
+			? `${(truncated.length / 1024 / 1024).toFixed(1)} MB`
+			: `${Math.ceil(truncated.length / 1024)} KB`;
+		const message = truncated.output
+			? `Output truncated. Showing the beginning of ${truncated.lines.toLocaleString()} lines (${size}).`
+			: `Large ${this._escapeHtml(truncated.mimeType)} output (${size}) not shown.`;
+		return `${truncated.output ? renderOutputToHtml(truncated.output, this._widgetState) : ''}
+<div class="output-truncated">
+	<span>${message}</span>
+	<button class="output-expand-button" data-action="expand-output" data-cell-id="${cellId}" data-output-index="${index}">Show all</button>
+</div>`;
+	}
+
+	private _formatExecutionCount(cell: NotebookCell): string {
+		const state = this._cellStates.get(cell.id);
+		// Like Jupyter, queued and running cells both show an asterisk
+		if (state?.executionState === 'pending' || state?.executionState === 'running') {
+			return '[*]';
+		}
+		return cell.execution_count !== null ? `[${cell.execution_count}]` : '[ ]';
+	}
+
 	private _escapeHtml(text: string): string {
 		return text
 			.replace(/&/g, '&amp;')
@@ -253,7 +499,7 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 
 	getData(): NotebookViewData {
 		return {
-			content: this._notebook ? JSON.stringify(this._notebook) : undefined,
+			content: this._notebook ? serializeNotebook(this._notebook) : undefined,
 		};
 	}
 
@@ -275,6 +521,10 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 		this._setupCellInteractions();
 		console.log('[NotebookView._handleViewCreated] Finished _setupCellInteractions');
 
+		this._renderMath(this._iframeDocument.body);
+		this._setupVirtualization();
+		this._iframeWindow.addEventListener('scroll', () => this._handleDiffScroll());
+
 		// Update annotation overlay size
 		this._updateAnnotationOverlaySize();
 
@@ -312,7 +562,76 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 			// Export button
 			const exportButton = target.closest('[data-action="export"]') as HTMLElement;
 			if (exportButton) {
-				this._exportNotebook();
+				const format = this._iframeDocument.querySelector<HTMLSelectElement>('.export-format')?.value as NotebookExportFormat;
+				const includeAnnotations = !!this._iframeDocument.querySelector<HTMLInputElement>('[data-action="export-annotations"]')?.checked;
+				this._exportNotebook(format || 'ipynb', includeAnnotations).catch((e) => {
+					console.error('[NotebookView] Failed to export the notebook', e);
+				});
+				return;
+			}
+
+			// Presentation
+			if (target.closest('[data-action="present"]')) {
+				this._startSlideshow();
+				return;
+			}
+			if (target.closest('[data-action="slide-previous"]')) {
+				this.navigateToPreviousPage();
+				return;
+			}
+			if (target.closest('[data-action="slide-next"]')) {
+				this.navigateToNextPage();
+				return;
+			}
+			if (target.closest('[data-action="slide-exit"]')) {
+				this._stopSlideshow();
+				return;
+			}
+
+			// Comparison
+			if (target.closest('[data-action="close-diff"]')) {
+				const { onCloseDiff } = this._options as NotebookViewOptions;
+				if (onCloseDiff) {
+					onCloseDiff();
+				}
+				else {
+					this.setDiff(null);
+				}
+				return;
+			}
+
+			// Execution queue buttons
+			if (target.closest('[data-action="run-all"]')) {
+				this._runAll();
+				return;
+			}
+			if (target.closest('[data-action="run-above"]')) {
+				if (this._activeCellId) {
+					this._runAbove(this._activeCellId);
+				}
+				return;
+			}
+			if (target.closest('[data-action="run-below"]')) {
+				if (this._activeCellId) {
+					this._runBelow(this._activeCellId);
+				}
+				else {
+					this._runAll();
+				}
+				return;
+			}
+			if (target.closest('[data-action="restart-run-all"]')) {
+				this._restartAndRunAll();
+				return;
+			}
+
+			// Kernel buttons
+			if (target.closest('[data-action="interrupt-kernel"]')) {
+				this._interruptKernel();
+				return;
+			}
+			if (target.closest('[data-action="restart-kernel"]')) {
+				this._restartKernel();
 				return;
 			}
 
@@ -323,7 +642,7 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 				const cellId = runButton.dataset.cellId;
 				console.log('[NotebookView] Run clicked for cell:', cellId);
 				if (cellId) {
-					this._executeCell(cellId);
+					this._queueCells([cellId]);
 				}
 				return;
 			}
@@ -336,11 +655,34 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 					const outputDiv = cell.querySelector('.cell-output') as HTMLElement;
 					if (outputDiv) {
 						outputDiv.innerHTML = '';
+						this._handleCellContentChange(cell.dataset.cellId);
 					}
 				}
 				return;
 			}
 
+			// Collapse and expand buttons, and the bars shown in place of collapsed parts
+			const collapseButton = target.closest('[data-action="toggle-input"], [data-action="toggle-outputs"]') as HTMLElement;
+			if (collapseButton?.dataset.cellId) {
+				this._toggleCellCollapsed(
+					collapseButton.dataset.cellId,
+					collapseButton.dataset.action === 'toggle-input' ? 'input' : 'outputs'
+				);
+				return;
+			}
+
+			// Show all of a truncated output
+			const expandButton = target.closest('[data-action="expand-output"]') as HTMLElement;
+			if (expandButton?.dataset.cellId) {
+				const cell = this._notebook?.cells.find(c => c.id === expandButton.dataset.cellId);
+				const output = cell?.outputs[Number(expandButton.dataset.outputIndex)];
+				if (cell && output) {
+					this._expandedOutputs.add(output);
+					this._updateCellOutputs(cell);
+				}
+				return;
+			}
+
 			// Cell focus handling - click on cell enters command mode
 			const cell = target.closest('.notebook-cell') as HTMLElement;
 			if (cell) {
@@ -378,24 +720,31 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 				if (cellId) {
 					const state = this._cellStates.get(cellId);
 					if (state) {
+						// The first change in an editing session becomes one undo step,
+						// recorded with the source from before it
+						if (this._sourceEditCellId !== cellId) {
+							this._recordEdit({ cellId, source: state.source });
+							this._sourceEditCellId = cellId;
+						}
 						state.source = textarea.value;
 					}
 					// Mark as modified
 					this._isModified = true;
 					this._updateUnsavedIndicator();
 				}
+				this._updateCodeHighlight(textarea);
 				// Auto-resize the textarea
 				this._autoResizeTextarea(textarea);
 			} else if (target.isContentEditable) {
 				// Mark as modified when editing markdown
 				this._isModified = true;
 				this._updateUnsavedIndicator();
+				this._handleCellContentChange((target.closest('.notebook-cell') as HTMLElement | null)?.dataset.cellId);
 			}
 		});
 
-		// Auto-resize all code textareas on initial load
-		const allTextareas = this._iframeDocument.querySelectorAll('.code-input') as NodeListOf<HTMLTextAreaElement>;
-		allTextareas.forEach(textarea => this._autoResizeTextarea(textarea));
+		// Fill in and auto-resize all code textareas on initial load
+		this._initCodeInputs(this._iframeDocument.body);
 
 		// Keyboard shortcuts
 		this._iframeDocument.addEventListener('keydown', (e) => {
@@ -404,6 +753,15 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 				target.isContentEditable ||
 				target.closest('[contenteditable="true"]');
 
+			// Cell shortcuts are off while presenting; _handleKeyDown() pages through the slides
+			if (this._slideshow && !isEditing) {
+				return;
+			}
+			// The cells are hidden while comparing
+			if (this._diff) {
+				return;
+			}
+
 			// ALWAYS handle Tab in code inputs to stop focus from leaving and insert tab character
 			if (e.key === 'Tab' && target.classList.contains('code-input')) {
 				e.preventDefault();
@@ -440,9 +798,9 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 				if (e.shiftKey && e.key === 'Enter') {
 					e.preventDefault();
 					if (this._activeCellId) {
-						this._executeCell(this._activeCellId);
-						// Select next cell after execution
-						setTimeout(() => this._selectAdjacentCell('down'), 100);
+						this._queueCells([this._activeCellId]);
+						// Select next cell while it runs
+						this._selectAdjacentCell('down');
 					}
 					return;
 				}
@@ -451,7 +809,16 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 				if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
 					e.preventDefault();
 					if (this._activeCellId) {
-						this._executeCell(this._activeCellId);
+						this._queueCells([this._activeCellId]);
+					}
+					return;
+				}
+
+				// Ctrl/Cmd+Shift+Minus - split the cell at the cursor
+				if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.code === 'Minus') {
+					e.preventDefault();
+					if (this._activeCellId && target.classList.contains('code-input')) {
+						this._splitCell(this._activeCellId, (target as HTMLTextAreaElement).selectionStart);
 					}
 					return;
 				}
@@ -461,6 +828,51 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 
 			// Command mode keyboard shortcuts
 			if (!isEditing && this._cellMode === 'command' && this._activeCellId) {
+				const mod = e.ctrlKey || e.metaKey;
+
+				// Ctrl/Cmd+Shift+Enter - run all cells
+				if (mod && e.shiftKey && e.key === 'Enter') {
+					e.preventDefault();
+					this._runAll();
+					return;
+				}
+
+				// Ctrl/Cmd+Shift+Arrow Up - run all cells above
+				if (mod && e.shiftKey && e.key === 'ArrowUp') {
+					e.preventDefault();
+					this._runAbove(this._activeCellId);
+					return;
+				}
+
+				// Ctrl/Cmd+Shift+Arrow Down - run the selected cell and all cells below
+				if (mod && e.shiftKey && e.key === 'ArrowDown') {
+					e.preventDefault();
+					this._runBelow(this._activeCellId);
+					return;
+				}
+
+				// Ctrl/Cmd+Shift+0 - restart kernel and run all cells
+				if (mod && e.shiftKey && e.code === 'Digit0') {
+					e.preventDefault();
+					this._restartAndRunAll();
+					return;
+				}
+
+				// Shift+Enter - run cell and select next
+				if (e.shiftKey && e.key === 'Enter') {
+					e.preventDefault();
+					this._queueCells([this._activeCellId]);
+					this._selectAdjacentCell('down');
+					return;
+				}
+
+				// Ctrl/Cmd+Enter - run cell and stay
+				if (mod && e.key === 'Enter') {
+					e.preventDefault();
+					this._queueCells([this._activeCellId]);
+					return;
+				}
+
 				// Enter - enter edit mode
 				if (e.key === 'Enter') {
 					e.preventDefault();
@@ -468,6 +880,13 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 					return;
 				}
 
+				// Alt+Arrow Up/Down - move the cell
+				if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+					e.preventDefault();
+					this._moveCell(this._activeCellId, e.key === 'ArrowUp' ? 'up' : 'down');
+					return;
+				}
+
 				// Arrow Up - select previous cell
 				if (e.key === 'ArrowUp') {
 					e.preventDefault();
@@ -497,7 +916,7 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 				}
 
 				// 'm' - convert to markdown
-				if (e.key === 'm' || e.key === 'M') {
+				if (e.key === 'm') {
 					e.preventDefault();
 					this._convertCellType(this._activeCellId, 'markdown');
 					return;
@@ -510,89 +929,397 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 					return;
 				}
 
+				// Shift+M - merge with the cell below
+				if (!mod && e.shiftKey && e.key === 'M') {
+					e.preventDefault();
+					this._mergeCellBelow(this._activeCellId);
+					return;
+				}
+
+				// 'c' / 'x' / 'v' - copy, cut, paste below (Shift+V pastes above)
+				if (!mod && (e.key === 'c' || e.key === 'C')) {
+					e.preventDefault();
+					this._copyCell(this._activeCellId);
+					return;
+				}
+				if (!mod && (e.key === 'x' || e.key === 'X')) {
+					e.preventDefault();
+					this._copyCell(this._activeCellId);
+					this._deleteCell(this._activeCellId);
+					return;
+				}
+				if (!mod && (e.key === 'v' || e.key === 'V')) {
+					e.preventDefault();
+					this._pasteCells(this._activeCellId, e.shiftKey ? 'above' : 'below');
+					return;
+				}
+
+				// 'z' - undo cell operation (Shift+Z redoes)
+				if (!mod && (e.key === 'z' || e.key === 'Z')) {
+					e.preventDefault();
+					if (e.shiftKey) {
+						this.redoEdit();
+					}
+					else {
+						this.undoEdit();
+					}
+					return;
+				}
+
+				// 'o' - show/hide output (Shift+O shows/hides input)
+				if (!mod && (e.key === 'o' || e.key === 'O')) {
+					e.preventDefault();
+					this._toggleCellCollapsed(this._activeCellId, e.shiftKey ? 'input' : 'outputs');
+					return;
+				}
+
 				// 'd' - delete (needs two presses)
 				if (e.key === 'd' || e.key === 'D') {
 					e.preventDefault();
-					this._deleteKeyCount++;
+					if (this._isDoubleKeyPress('d')) {
+						this._deleteCell(this._activeCellId);
+					}
+					return;
+				}
 
-					// Reset after 1 second
-					setTimeout(() => {
-						this._deleteKeyCount = 0;
-					}, 1000);
+				// 'i' - interrupt kernel (needs two presses)
+				if (e.key === 'i' || e.key === 'I') {
+					e.preventDefault();
+					if (this._isDoubleKeyPress('i')) {
+						this._interruptKernel();
+					}
+					return;
+				}
 
-					// Delete on second press
-					if (this._deleteKeyCount >= 2) {
-						this._deleteCell(this._activeCellId);
-						this._deleteKeyCount = 0;
+				// '0' - restart kernel (needs two presses)
+				if (e.key === '0') {
+					e.preventDefault();
+					if (this._isDoubleKeyPress('0')) {
+						this._restartKernel();
 					}
 					return;
 				}
 
-				// Reset delete key count on other keys
-				this._deleteKeyCount = 0;
+				// Reset double-press tracking on other keys
+				this._lastCommandKey = null;
 			}
 		}, true); // Use capture phase
 	}
 
-	private _autoResizeTextarea(textarea: HTMLTextAreaElement) {
-		// Reset height to auto to get the correct scrollHeight
-		textarea.style.height = 'auto';
-		// Set height to scrollHeight (content height)
-		// Add a small buffer (2px) to prevent scrollbar flickering
-		textarea.style.height = `${textarea.scrollHeight + 2}px`;
+	/**
+	 * Whether this key press completes a double-press command (dd, ii, 00).
+	 * The two presses must be within one second of each other.
+	 */
+	private _isDoubleKeyPress(key: string): boolean {
+		const now = Date.now();
+		const isDouble = this._lastCommandKey === key && now - this._lastCommandKeyTime < 1000;
+		this._lastCommandKey = isDouble ? null : key;
+		this._lastCommandKeyTime = now;
+		return isDouble;
 	}
 
-	private _setActiveCell(cellId: string | null, mode: 'command' | 'edit' | null = 'command') {
-		// Remove all mode classes from all cells
-		const allCells = this._iframeDocument.querySelectorAll('.notebook-cell');
-		allCells.forEach(cell => {
-			cell.classList.remove('cell-focused', 'cell-selected', 'cell-editing');
-		});
+	/**
+	 * Code textareas are rendered empty so the source only appears once in the document's text,
+	 * in the highlighted copy underneath (which find and annotations use). Fill them in here.
+	 */
+	private _initCodeInputs(root: ParentNode) {
+		const textareas = root.querySelectorAll('.code-input') as NodeListOf<HTMLTextAreaElement>;
+		for (const textarea of textareas) {
+			const cell = this._notebook?.cells.find(c => c.id === textarea.dataset.cellId);
+			if (cell) {
+				textarea.value = cell.source;
+			}
+			this._autoResizeTextarea(textarea);
+		}
+	}
 
-		// Set focus on the active cell with appropriate mode
-		if (cellId && mode) {
-			const activeCell = this._iframeDocument.querySelector(`[data-cell-id="${cellId}"]`) as HTMLElement;
-			if (activeCell) {
-				// Add appropriate class based on mode
-				if (mode === 'command') {
-					activeCell.classList.add('cell-selected');
-				} else if (mode === 'edit') {
-					activeCell.classList.add('cell-editing');
+	private _updateCodeHighlight(textarea: HTMLTextAreaElement) {
+		const code = textarea.parentElement?.querySelector('.code-highlight > code');
+		if (code) {
+			code.innerHTML = highlightCode(textarea.value, this._notebook?.language);
+			this._handleCellContentChange(textarea.dataset.cellId);
+		}
+	}
 
-					// Focus the editable element
-					const textarea = activeCell.querySelector('.code-input') as HTMLTextAreaElement;
-					const contentEditable = activeCell.querySelector('[contenteditable="true"]') as HTMLElement;
-					if (textarea) {
-						textarea.focus();
-					} else if (contentEditable) {
-						contentEditable.focus();
-					}
+	/**
+	 * Call after the text of a cell changed in the DOM, or after cells were added, removed
+	 * or moved if no cell is given. Drops the search context and, once edits pause, re-anchors
+	 * the annotations in the changed cells, which may now be somewhere else in the cell or gone.
+	 */
+	private _handleCellContentChange(cellId?: string) {
+		this._cachedSearchContext = null;
+		if (cellId === undefined) {
+			this._changedCellIds = null;
+			this._cellTextLengths.clear();
+		}
+		else {
+			this._changedCellIds?.add(cellId);
+			this._cellTextLengths.delete(cellId);
+		}
+		this._reanchorAnnotations();
+	}
+
+	private _reanchorChangedCells() {
+		if (this._changedCellIds) {
+			for (const annotation of this._annotations) {
+				const cellId = this._getSelectorCellId(annotation.position);
+				if (!cellId || this._changedCellIds.has(cellId)) {
+					this._displayedAnnotationCache.delete(annotation);
 				}
 			}
 		}
-
-		this._activeCellId = cellId;
-		this._cellMode = mode;
+		else {
+			this._displayedAnnotationCache = new WeakMap();
+		}
+		this._changedCellIds = new Set();
+		this._renderAnnotations();
 	}
 
 	/**
-	 * Add a new cell above or below the specified cell
+	 * In large notebooks, mount cells as they come within VIRTUALIZATION_MARGIN of the viewport
+	 * and put placeholders back for cells that scroll out of it
 	 */
-	private _addCell(cellType: 'code' | 'markdown', relativeToCellId: string, position: 'above' | 'below') {
-		if (!this._notebook) return;
+	private _setupVirtualization() {
+		if (!this._virtualized) return;
 
-		// Sync any pending edits before modifying the notebook
-		this._syncCellEditsToState();
+		this._cellObserver = new IntersectionObserver(entries => this._handleCellIntersections(entries), {
+			root: this._iframeDocument,
+			rootMargin: `${VIRTUALIZATION_MARGIN}px 0px`,
+		});
+		this._observeCells(this._iframeDocument);
+	}
 
-		// Find the index of the reference cell
-		const refIndex = this._notebook.cells.findIndex(c => c.id === relativeToCellId);
-		if (refIndex === -1) return;
+	private _observeCells(root: ParentNode) {
+		if (!this._cellObserver) return;
+		for (const cellElement of root.querySelectorAll('.notebook-cell')) {
+			this._cellObserver.observe(cellElement);
+		}
+	}
+
+	private _handleCellIntersections(entries: IntersectionObserverEntry[]) {
+		// Scrolling through a large notebook reports many cells at once
+		const cells = new Map(this._notebook?.cells.map(cell => [cell.id, cell]));
+		for (const entry of entries) {
+			const cellId = (entry.target as HTMLElement).dataset.cellId;
+			const cell = cellId && cells.get(cellId);
+			if (!cellId || !cell || !entry.target.isConnected) continue;
+			const isPlaceholder = entry.target.classList.contains('cell-placeholder');
+			if (entry.isIntersecting && isPlaceholder && this._mountCell(cellId, cell)
+					|| !entry.isIntersecting && !isPlaceholder && this._unmountCell(cellId, cell)) {
+				this._handleCellContentChange(cellId);
+			}
+		}
+	}
+
+	/**
+	 * Render a cell that currently has a placeholder. Returns true if the cell was mounted;
+	 * the caller should then call _handleCellContentChange(cellId).
+	 */
+	private _mountCell(cellId: string, cell = this._notebook?.cells.find(c => c.id === cellId)): boolean {
+		const placeholder = this._iframeDocument.querySelector(`.notebook-cell[data-cell-id="${cellId}"]`);
+		if (!placeholder?.classList.contains('cell-placeholder') || !cell) {
+			return false;
+		}
+
+		const temp = this._iframeDocument.createElement('div');
+		temp.innerHTML = this._renderCell(cell);
+		const cellElement = temp.firstElementChild as HTMLElement | null;
+		if (!cellElement) {
+			return false;
+		}
+		cellElement.classList.toggle('slide-visible', placeholder.classList.contains('slide-visible'));
+		placeholder.replaceWith(cellElement);
+		this._cellObserver?.unobserve(placeholder);
+		this._cellObserver?.observe(cellElement);
+		this._initCodeInputs(cellElement);
+		this._renderMath(cellElement);
+		const state = this._cellStates.get(cellId);
+		if (state && state.executionState !== 'idle') {
+			this._renderExecutionState(cellElement, cell, state.executionState);
+		}
+		return true;
+	}
+
+	/**
+	 * Replace a mounted cell with a placeholder of the same height, unless it's in use:
+	 * selected, executing, focused, containing the text selection or pinned.
+	 * Returns true if the cell was unmounted.
+	 */
+	private _unmountCell(cellId: string, cell = this._notebook?.cells.find(c => c.id === cellId)): boolean {
+		const cellElement = this._iframeDocument.querySelector(`.notebook-cell[data-cell-id="${cellId}"]`);
+		if (!cellElement || !cell || cellElement.classList.contains('cell-placeholder')) {
+			return false;
+		}
+		const executionState = this._cellStates.get(cellId)?.executionState;
+		const selection = this._iframeWindow.getSelection();
+		if (cellId === this._activeCellId
+				|| this._pinnedCellIds.has(cellId)
+				|| executionState === 'pending'
+				|| executionState === 'running'
+				|| cellElement.contains(this._iframeDocument.activeElement)
+				|| selection && !selection.isCollapsed && selection.containsNode(cellElement, true)) {
+			return false;
+		}
+
+		this._syncCellEdits(cell, cellElement);
+		this._cellHeights.set(cellId, cellElement.getBoundingClientRect().height);
+		this._cellTextLengths.set(cellId, cellElement.textContent?.length ?? 0);
+
+		const temp = this._iframeDocument.createElement('div');
+		temp.innerHTML = this._renderCellPlaceholder(cell);
+		const placeholder = temp.firstElementChild!;
+		placeholder.classList.toggle('slide-visible', cellElement.classList.contains('slide-visible'));
+		cellElement.replaceWith(placeholder);
+		this._cellObserver?.unobserve(cellElement);
+		this._cellObserver?.observe(placeholder);
+		return true;
+	}
+
+	/**
+	 * Keep cells mounted wherever they are, e.g. so find can search them.
+	 * Cells that were pinned before and aren't anymore are unmounted if they're out of range.
+	 */
+	private _setPinnedCells(cellIds: Iterable<string>) {
+		if (!this._virtualized) return;
+
+		const previous = this._pinnedCellIds;
+		this._pinnedCellIds = new Set(cellIds);
+		for (const cellId of this._pinnedCellIds) {
+			if (this._mountCell(cellId)) {
+				this._handleCellContentChange(cellId);
+			}
+		}
+
+		const viewportHeight = this._iframeWindow.innerHeight;
+		for (const cellId of previous) {
+			if (this._pinnedCellIds.has(cellId)) continue;
+			const rect = this._iframeDocument.querySelector(`.notebook-cell[data-cell-id="${cellId}"]`)?.getBoundingClientRect();
+			if (rect && (rect.bottom < -VIRTUALIZATION_MARGIN || rect.top > viewportHeight + VIRTUALIZATION_MARGIN)
+					&& this._unmountCell(cellId)) {
+				this._handleCellContentChange(cellId);
+			}
+		}
+	}
+
+	/**
+	 * Cells whose source or text output contains every word of the query. Used to decide
+	 * which unmounted cells to mount for find, so it errs on the side of including a cell.
+	 */
+	private _getCellsMatchingQuery(query: string, caseSensitive: boolean): string[] {
+		const words = (caseSensitive ? query : query.toLowerCase()).split(/\s+/).filter(Boolean);
+		if (!this._notebook || !words.length) return [];
+
+		return this._notebook.cells.filter((cell) => {
+			let text = cell.source;
+			for (const output of cell.outputs) {
+				text += '\n' + normalizeOutputText(output.text);
+				text += '\n' + (output.traceback?.join('\n') ?? '');
+				for (const [mimeType, value] of Object.entries(output.data ?? {})) {
+					if (!mimeType.startsWith('image/') && (typeof value === 'string' || Array.isArray(value))) {
+						text += '\n' + normalizeOutputText(value);
+					}
+				}
+			}
+			if (!caseSensitive) {
+				text = text.toLowerCase();
+			}
+			return words.every(word => text.includes(word));
+		}).map(cell => cell.id);
+	}
+
+	/**
+	 * Show or hide a cell's input or outputs. Stored in the cell metadata like Jupyter does,
+	 * so it's saved with the notebook.
+	 */
+	private _toggleCellCollapsed(cellId: string, part: 'input' | 'outputs') {
+		const cell = this._notebook?.cells.find(c => c.id === cellId);
+		if (!cell || part === 'outputs' && cell.cell_type !== 'code') return;
+
+		const key = part === 'input' ? 'source_hidden' : 'outputs_hidden';
+		const jupyter = { ...cell.metadata?.jupyter };
+		if (jupyter[key]) {
+			delete jupyter[key];
+		}
+		else {
+			jupyter[key] = true;
+		}
+		cell.metadata = { ...cell.metadata, jupyter };
+		if (!Object.keys(jupyter).length) {
+			delete cell.metadata.jupyter;
+		}
+
+		const cellElement = this._iframeDocument.querySelector(`.notebook-cell[data-cell-id="${cellId}"]`);
+		cellElement?.classList.toggle(part === 'input' ? 'input-collapsed' : 'outputs-collapsed', !!jupyter[key]);
+		this._isModified = true;
+		this._updateUnsavedIndicator();
+		this._handleCellContentChange(cellId);
+	}
+
+	private _autoResizeTextarea(textarea: HTMLTextAreaElement) {
+		// Reset height to auto to get the correct scrollHeight
+		textarea.style.height = 'auto';
+		// Set height to scrollHeight (content height)
+		// Add a small buffer (2px) to prevent scrollbar flickering
+		textarea.style.height = `${textarea.scrollHeight + 2}px`;
+	}
+
+	private _setActiveCell(cellId: string | null, mode: 'command' | 'edit' | null = 'command') {
+		// Remove all mode classes from all cells
+		const allCells = this._iframeDocument.querySelectorAll('.notebook-cell');
+		allCells.forEach(cell => {
+			cell.classList.remove('cell-focused', 'cell-selected', 'cell-editing');
+		});
+
+		// Set focus on the active cell with appropriate mode
+		if (cellId && mode) {
+			if (this._mountCell(cellId)) {
+				this._handleCellContentChange(cellId);
+			}
+			const activeCell = this._iframeDocument.querySelector(`[data-cell-id="${cellId}"]`) as HTMLElement;
+			if (activeCell) {
+				// Add appropriate class based on mode
+				if (mode === 'command') {
+					activeCell.classList.add('cell-selected');
+				} else if (mode === 'edit') {
+					activeCell.classList.add('cell-editing');
+
+					// Focus the editable element
+					const textarea = activeCell.querySelector('.code-input') as HTMLTextAreaElement;
+					const contentEditable = activeCell.querySelector('[contenteditable="true"]') as HTMLElement;
+					if (textarea) {
+						textarea.focus();
+					} else if (contentEditable) {
+						contentEditable.focus();
+					}
+				}
+			}
+		}
+
+		// Source edits after a selection change are a new undo step
+		this._sourceEditCellId = null;
+		this._activeCellId = cellId;
+		this._cellMode = mode;
+	}
+
+	/**
+	 * Add a new cell above or below the specified cell
+	 */
+	private _addCell(cellType: 'code' | 'markdown', relativeToCellId: string, position: 'above' | 'below') {
+		if (!this._notebook) return;
+
+		// Sync any pending edits before modifying the notebook
+		this._syncCellEditsToState();
+
+		// Find the index of the reference cell
+		const refIndex = this._notebook.cells.findIndex(c => c.id === relativeToCellId);
+		if (refIndex === -1) return;
+		this._recordEdit();
 
 		// Calculate insert index
 		const insertIndex = position === 'above' ? refIndex : refIndex + 1;
 
 		// Create new cell
-		const newCellId = `cell-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+		const newCellId = this._newCellId();
 		const newCell: NotebookCell = {
 			id: newCellId,
 			cell_type: cellType,
@@ -654,11 +1381,10 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 				cellsContainer.appendChild(newCellElement);
 			}
 
-			// Auto-resize textarea if it's a code cell
-			const textarea = newCellElement.querySelector('.code-input') as HTMLTextAreaElement;
-			if (textarea) {
-				this._autoResizeTextarea(textarea);
-			}
+			this._initCodeInputs(newCellElement);
+			this._renderMath(newCellElement);
+			this._cellObserver?.observe(newCellElement);
+			this._handleCellContentChange();
 
 			// Remove animation class after animation completes
 			setTimeout(() => {
@@ -707,6 +1433,7 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 		// Find the cell
 		const cell = this._notebook.cells.find(c => c.id === cellId);
 		if (!cell || cell.cell_type === newType) return;
+		this._recordEdit();
 
 		// Update the cell type
 		cell.cell_type = newType;
@@ -727,31 +1454,9 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 		this._isModified = true;
 		this._updateUnsavedIndicator();
 
-		// Re-render the cell
-		const cellIndex = this._notebook.cells.findIndex(c => c.id === cellId);
-		const cellElement = this._iframeDocument.querySelector(`[data-cell-id="${cellId}"]`);
-		if (cellElement) {
-			// Render new HTML
-			const newHtml = this._renderCell(cell);
-			const temp = this._iframeDocument.createElement('div');
-			temp.innerHTML = newHtml;
-			const newCellElement = temp.firstElementChild;
-
-			if (newCellElement) {
-				cellElement.replaceWith(newCellElement);
-
-				// Auto-resize textarea if converted to code
-				if (newType === 'code') {
-					const textarea = newCellElement.querySelector('.code-input') as HTMLTextAreaElement;
-					if (textarea) {
-						this._autoResizeTextarea(textarea);
-					}
-				}
-
-				// Restore active state
-				this._setActiveCell(cellId, 'command');
-			}
-		}
+		// Re-render the cell and restore active state
+		this._replaceCellElement(cell);
+		this._setActiveCell(cellId, 'command');
 	}
 
 	/**
@@ -769,6 +1474,7 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 		// Find the cell index
 		const cellIndex = this._notebook.cells.findIndex(c => c.id === cellId);
 		if (cellIndex === -1) return;
+		this._recordEdit();
 
 		// Determine which cell to select after deletion
 		let nextCellId: string | null = null;
@@ -780,14 +1486,17 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 			nextCellId = this._notebook.cells[cellIndex - 1].id;
 		}
 
-		// Remove from notebook and state
+		// Remove from notebook, state and execution queue
 		this._notebook.cells.splice(cellIndex, 1);
 		this._cellStates.delete(cellId);
+		this._executionQueue = this._executionQueue.filter(id => id !== cellId);
 
 		// Remove from DOM
 		const cellElement = this._iframeDocument.querySelector(`[data-cell-id="${cellId}"]`);
 		if (cellElement) {
 			cellElement.remove();
+			this._cellObserver?.unobserve(cellElement);
+			this._handleCellContentChange(cellId);
 		}
 
 		// Mark as modified
@@ -800,6 +1509,299 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 		}
 	}
 
+	private _newCellId(): string {
+		return `cell-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+	}
+
+	/**
+	 * Move a cell one position up or down
+	 */
+	private _moveCell(cellId: string, direction: 'up' | 'down') {
+		if (!this._notebook) return;
+
+		const index = this._notebook.cells.findIndex(c => c.id === cellId);
+		const targetIndex = direction === 'up' ? index - 1 : index + 1;
+		if (index === -1 || targetIndex < 0 || targetIndex >= this._notebook.cells.length) return;
+		this._recordEdit();
+
+		const cells = this._notebook.cells;
+		[cells[index], cells[targetIndex]] = [cells[targetIndex], cells[index]];
+
+		const cellElement = this._iframeDocument.querySelector(`[data-cell-id="${cellId}"]`) as HTMLElement;
+		const otherElement = this._iframeDocument.querySelector(`[data-cell-id="${cells[index].id}"]`);
+		if (cellElement && otherElement) {
+			if (direction === 'up') {
+				otherElement.before(cellElement);
+			}
+			else {
+				otherElement.after(cellElement);
+			}
+			cellElement.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+			this._handleCellContentChange();
+		}
+
+		this._isModified = true;
+		this._updateUnsavedIndicator();
+		this._setActiveCell(cellId, 'command');
+	}
+
+	/**
+	 * Split a cell in two at a position in its source.
+	 * Outputs stay with the lower half, like in JupyterLab.
+	 */
+	private _splitCell(cellId: string, position: number) {
+		if (!this._notebook) return;
+
+		const index = this._notebook.cells.findIndex(c => c.id === cellId);
+		if (index === -1) return;
+		this._recordEdit();
+
+		const cell = this._notebook.cells[index];
+		const newCell: NotebookCell = {
+			id: this._newCellId(),
+			cell_type: cell.cell_type,
+			source: cell.source.slice(position).replace(/^\n+/, ''),
+			outputs: cell.outputs,
+			execution_count: cell.execution_count,
+			metadata: {},
+		};
+		cell.source = cell.source.slice(0, position).replace(/\n+$/, '');
+		cell.outputs = [];
+		cell.execution_count = null;
+
+		this._notebook.cells.splice(index + 1, 0, newCell);
+		this._cellStates.set(newCell.id, {
+			id: newCell.id,
+			executionState: 'idle',
+			output: this._renderCellOutputs(newCell.id, newCell.outputs),
+			isEditing: false,
+			source: newCell.source,
+		});
+		const state = this._cellStates.get(cellId);
+		if (state) {
+			state.source = cell.source;
+			state.output = '';
+		}
+
+		this._replaceCellElement(cell);
+		this._insertCellIntoDOM(newCell, index + 1);
+
+		this._isModified = true;
+		this._updateUnsavedIndicator();
+
+		// Keep editing at the start of the new cell, where the cursor was
+		this._setActiveCell(newCell.id, 'edit');
+		const textarea = this._iframeDocument.querySelector(`[data-cell-id="${newCell.id}"] .code-input`) as HTMLTextAreaElement;
+		textarea?.setSelectionRange(0, 0);
+	}
+
+	/**
+	 * Merge the cell below into this one. The merged cell's outputs are cleared.
+	 */
+	private _mergeCellBelow(cellId: string) {
+		if (!this._notebook) return;
+
+		const index = this._notebook.cells.findIndex(c => c.id === cellId);
+		if (index === -1 || index === this._notebook.cells.length - 1) return;
+		this._recordEdit();
+
+		const cell = this._notebook.cells[index];
+		const below = this._notebook.cells[index + 1];
+		cell.source = [cell.source, below.source].filter(Boolean).join('\n\n');
+		cell.outputs = [];
+		cell.execution_count = null;
+
+		this._notebook.cells.splice(index + 1, 1);
+		this._cellStates.delete(below.id);
+		this._executionQueue = this._executionQueue.filter(id => id !== below.id);
+		const state = this._cellStates.get(cellId);
+		if (state) {
+			state.source = cell.source;
+			state.output = '';
+		}
+
+		this._iframeDocument.querySelector(`[data-cell-id="${below.id}"]`)?.remove();
+		this._replaceCellElement(cell);
+
+		this._isModified = true;
+		this._updateUnsavedIndicator();
+		this._setActiveCell(cellId, 'command');
+	}
+
+	private _copyCell(cellId: string) {
+		this._syncCellEditsToState();
+		const cell = this._notebook?.cells.find(c => c.id === cellId);
+		if (cell) {
+			this._cellClipboard = [JSON.parse(JSON.stringify(cell))];
+		}
+	}
+
+	/**
+	 * Paste copies of the clipboard cells above or below a cell. Pasted cells get new IDs.
+	 */
+	private _pasteCells(relativeToCellId: string, position: 'above' | 'below') {
+		if (!this._notebook || !this._cellClipboard.length) return;
+
+		const refIndex = this._notebook.cells.findIndex(c => c.id === relativeToCellId);
+		if (refIndex === -1) return;
+		this._recordEdit();
+
+		let insertIndex = position === 'above' ? refIndex : refIndex + 1;
+		let lastCellId = relativeToCellId;
+		for (const copied of this._cellClipboard) {
+			const cell: NotebookCell = { ...JSON.parse(JSON.stringify(copied)), id: this._newCellId() };
+			this._notebook.cells.splice(insertIndex, 0, cell);
+			this._cellStates.set(cell.id, {
+				id: cell.id,
+				executionState: 'idle',
+				output: this._renderCellOutputs(cell.id, cell.outputs),
+				isEditing: false,
+				source: cell.source,
+			});
+			this._insertCellIntoDOM(cell, insertIndex);
+			lastCellId = cell.id;
+			insertIndex++;
+		}
+
+		this._isModified = true;
+		this._updateUnsavedIndicator();
+		this._setActiveCell(lastCellId, 'command');
+	}
+
+	/**
+	 * Re-render a cell in place after its type, source or outputs changed
+	 */
+	private _replaceCellElement(cell: NotebookCell) {
+		const cellElement = this._iframeDocument.querySelector(`[data-cell-id="${cell.id}"]`);
+		if (!cellElement) return;
+
+		const temp = this._iframeDocument.createElement('div');
+		temp.innerHTML = this._renderCell(cell);
+		const newCellElement = temp.firstElementChild;
+		if (newCellElement) {
+			newCellElement.classList.toggle('slide-visible', cellElement.classList.contains('slide-visible'));
+			cellElement.replaceWith(newCellElement);
+			this._cellObserver?.unobserve(cellElement);
+			this._cellObserver?.observe(newCellElement);
+			this._renderMath(newCellElement);
+			this._initCodeInputs(newCellElement);
+			this._handleCellContentChange(cell.id);
+		}
+	}
+
+	/**
+	 * Push the current cells onto the undo history before a change.
+	 * sourceBefore replaces a cell's source in the snapshot when the change has already reached the DOM.
+	 */
+	private _recordEdit(sourceBefore?: { cellId: string, source: string }) {
+		if (!this._notebook) return;
+
+		this._syncCellEditsToState();
+		const snapshot = takeSnapshot(this._notebook.cells, this._activeCellId);
+		if (sourceBefore) {
+			const entry = snapshot.cells.find(e => e.cell.id === sourceBefore.cellId);
+			if (entry) {
+				entry.source = sourceBefore.source;
+			}
+		}
+		this._editHistory.push(snapshot);
+		this._sourceEditCellId = null;
+	}
+
+	/**
+	 * Replace all cells with a snapshot from the undo history and re-render them
+	 */
+	private _applySnapshot(snapshot: NotebookSnapshot) {
+		if (!this._notebook) return;
+
+		this._notebook.cells = restoreSnapshot(snapshot);
+		const cellIds = new Set(this._notebook.cells.map(cell => cell.id));
+		for (const id of this._cellStates.keys()) {
+			if (!cellIds.has(id)) {
+				this._cellStates.delete(id);
+			}
+		}
+		this._executionQueue = this._executionQueue.filter(id => cellIds.has(id));
+		for (const cell of this._notebook.cells) {
+			const state = this._cellStates.get(cell.id);
+			this._cellStates.set(cell.id, {
+				id: cell.id,
+				executionState: state?.executionState ?? 'idle',
+				output: this._renderCellOutputs(cell.id, cell.outputs),
+				isEditing: false,
+				source: cell.source,
+			});
+		}
+
+		const activeCellId = snapshot.activeCellId && cellIds.has(snapshot.activeCellId)
+			? snapshot.activeCellId
+			: this._notebook.cells[0]?.id ?? null;
+
+		const cellsContainer = this._iframeDocument.querySelector('.notebook-cells');
+		if (cellsContainer) {
+			// When virtualized, the observer mounts whatever ends up near the viewport
+			this._cellObserver?.disconnect();
+			cellsContainer.innerHTML = this._notebook.cells.map(cell => (
+				this._virtualized && cell.id !== activeCellId
+					? this._renderCellPlaceholder(cell)
+					: this._renderCell(cell)
+			)).join('\n');
+			this._initCodeInputs(cellsContainer);
+			this._renderMath(cellsContainer);
+			this._observeCells(cellsContainer);
+			this._handleCellContentChange();
+		}
+
+		this._isModified = true;
+		this._updateUnsavedIndicator();
+
+		this._setActiveCell(activeCellId, 'command');
+		this._iframeDocument.querySelector(`[data-cell-id="${activeCellId}"]`)
+			?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+	}
+
+	/**
+	 * Undo the last cell operation or source edit. Returns false if there was nothing to undo.
+	 */
+	undoEdit(): boolean {
+		if (!this._notebook || !this._editHistory.canUndo) {
+			return false;
+		}
+		this._syncCellEditsToState();
+		const snapshot = this._editHistory.undo(takeSnapshot(this._notebook.cells, this._activeCellId));
+		if (snapshot) {
+			this._applySnapshot(snapshot);
+		}
+		return true;
+	}
+
+	redoEdit(): boolean {
+		if (!this._notebook || !this._editHistory.canRedo) {
+			return false;
+		}
+		this._syncCellEditsToState();
+		const snapshot = this._editHistory.redo(takeSnapshot(this._notebook.cells, this._activeCellId));
+		if (snapshot) {
+			this._applySnapshot(snapshot);
+		}
+		return true;
+	}
+
+	/**
+	 * When the most recent undoable cell edit was made, for choosing between
+	 * undoing cell edits and annotation changes
+	 */
+	get lastEditTime(): number {
+		return this._editHistory?.lastChangeTime ?? 0;
+	}
+
+	/**
+	 * When the most recent redoable undo of a cell edit was made
+	 */
+	get lastUndoTime(): number {
+		return this._editHistory?.lastUndoTime ?? 0;
+	}
+
 	/**
 	 * Sync cell edits from DOM to state before operations that modify structure
 	 */
@@ -808,165 +1810,429 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 
 		for (const cell of this._notebook.cells) {
 			const cellElement = this._iframeDocument.querySelector(`[data-cell-id="${cell.id}"]`);
-			if (!cellElement) continue;
+			if (cellElement) {
+				this._syncCellEdits(cell, cellElement);
+			}
+		}
+	}
 
-			if (cell.cell_type === 'code') {
-				const textarea = cellElement.querySelector('.code-input') as HTMLTextAreaElement;
-				if (textarea) {
-					cell.source = textarea.value;
-					const state = this._cellStates.get(cell.id);
-					if (state) {
-						state.source = textarea.value;
-					}
+	private _syncCellEdits(cell: NotebookCell, cellElement: Element) {
+		if (cell.cell_type === 'code') {
+			const textarea = cellElement.querySelector('.code-input') as HTMLTextAreaElement;
+			if (textarea) {
+				cell.source = textarea.value;
+				const state = this._cellStates.get(cell.id);
+				if (state) {
+					state.source = textarea.value;
 				}
-			} else if (cell.cell_type === 'markdown') {
-				const contentEditable = cellElement.querySelector('[contenteditable="true"]') as HTMLElement;
-				if (contentEditable) {
-					// Get the raw source from data attribute or innerText
-					// Note: data-raw-source is URL-encoded (via encodeURIComponent in _escapeAttr), so decode it
-					let rawSource = contentEditable.dataset.rawSource;
-					if (rawSource) {
-						rawSource = decodeURIComponent(rawSource);
-					} else {
-						rawSource = contentEditable.innerText;
-					}
-					cell.source = rawSource;
-					const state = this._cellStates.get(cell.id);
-					if (state) {
-						state.source = rawSource;
-					}
+			}
+		} else if (cell.cell_type === 'markdown') {
+			const contentEditable = cellElement.querySelector('[contenteditable="true"]') as HTMLElement;
+			if (contentEditable) {
+				// Get the raw source from data attribute or innerText
+				// Note: data-raw-source is URL-encoded (via encodeURIComponent in _escapeAttr), so decode it
+				let rawSource = contentEditable.dataset.rawSource;
+				if (rawSource) {
+					rawSource = decodeURIComponent(rawSource);
+				} else {
+					rawSource = contentEditable.innerText;
+				}
+				cell.source = rawSource;
+				const state = this._cellStates.get(cell.id);
+				if (state) {
+					state.source = rawSource;
 				}
 			}
 		}
 	}
 
 	/**
-	 * Update the unsaved indicator in the header
+	 * Update the unsaved indicator in the header
+	 */
+	private _updateOrphanedAnnotationsIndicator() {
+		const indicator = this._iframeDocument.querySelector('.orphaned-annotations-indicator') as HTMLElement;
+		if (indicator) {
+			const count = this._orphanedAnnotationIDs.size;
+			indicator.textContent = `${count} ${count === 1 ? 'annotation' : 'annotations'} not found`;
+			indicator.title = 'The annotated text was edited or removed';
+			indicator.style.display = count ? 'inline-flex' : 'none';
+		}
+	}
+
+	private _updateUnsavedIndicator() {
+		const indicator = this._iframeDocument.querySelector('.unsaved-indicator') as HTMLElement;
+		if (indicator) {
+			indicator.style.display = this._isModified ? 'inline-flex' : 'none';
+		}
+	}
+
+	/**
+	 * Export the notebook by dispatching an event to the parent.
+	 * The event carries the notebook and the exported file content in the chosen format.
+	 */
+	private async _exportNotebook(format: NotebookExportFormat = 'ipynb', includeAnnotations = false) {
+		console.log('[NotebookView._exportNotebook] START');
+
+		if (!this._notebook) {
+			console.error('[NotebookView._exportNotebook] No notebook available!');
+			return;
+		}
+
+		console.log('[NotebookView._exportNotebook] Syncing cell edits...');
+		// Sync all edits first
+		this._syncCellEditsToState();
+
+		console.log('[NotebookView._exportNotebook] Creating export event with notebook:', {
+			cellCount: this._notebook.cells.length,
+			hasMetadata: !!this._notebook.metadata
+		});
+
+		const notebook = this._notebook;
+		const { content, mimeType, extension } = await exportNotebookWithMath(notebook, format, {
+			annotations: includeAnnotations ? this._getExportAnnotations() : undefined,
+		});
+
+		// Dispatch custom event to parent (reader.js will handle the file save)
+		const event = new CustomEvent('notebook-export', {
+			detail: { notebook, format, content, mimeType, extension },
+			bubbles: true,
+		});
+
+		console.log('[NotebookView._exportNotebook] Dispatching event to iframe window:', this._iframeWindow);
+		this._iframeWindow.dispatchEvent(event);
+		console.log('[NotebookView._exportNotebook] Event dispatched successfully');
+	}
+
+	/**
+	 * Annotations in document order, with the cell each one starts in
+	 */
+	private _getExportAnnotations(): NotebookExportAnnotation[] {
+		const annotations: NotebookExportAnnotation[] = [];
+		const sorted = [...this._annotations].sort((a, b) => (a.sortIndex > b.sortIndex ? 1 : a.sortIndex < b.sortIndex ? -1 : 0));
+		for (const annotation of sorted) {
+			const range = this.toDisplayedRange(annotation.position);
+			const element = range && closestElement(range.startContainer);
+			const cellElement = element?.closest('.notebook-cell') as HTMLElement | null;
+			// Annotations in unmounted cells can't be resolved, but their selectors name the cell
+			const cellId = cellElement?.dataset.cellId ?? this._getSelectorCellId(annotation.position);
+			if (!cellId) continue;
+			const inOutput = element
+				? !!element.closest('.cell-output')
+				: isCss(annotation.position) && annotation.position.value.endsWith('.cell-output');
+			annotations.push({
+				cellId,
+				target: inOutput ? 'output' : 'input',
+				type: annotation.type,
+				text: annotation.text,
+				comment: annotation.comment,
+				color: annotation.color,
+			});
+		}
+		return annotations;
+	}
+
+	/**
+	 * Override _handleKeyDown to prevent editing keys from being passed to the main window
+	 * when we're in an editable element (contenteditable or textarea)
+	 */
+	protected override _handleKeyDown(event: KeyboardEvent) {
+		const target = event.target as HTMLElement;
+
+		// Check if we're editing in a contenteditable or textarea
+		const isEditing = target.isContentEditable
+			|| target.tagName === 'TEXTAREA'
+			|| target.tagName === 'INPUT'
+			|| target.closest('[contenteditable="true"]');
+
+		if (this._slideshow && !isEditing && this._handleSlideshowKey(event)) {
+			event.preventDefault();
+			event.stopPropagation();
+			return;
+		}
+
+		if (isEditing) {
+			// List of keys that should be handled by the editable element, not passed to main window
+			const editingKeys = ['Backspace', 'Delete', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown',
+				'Home', 'End', 'Enter', 'Tab'];
+
+			// For editing keys or regular typing, don't pass to parent handler
+			if (editingKeys.includes(event.key) || event.key.length === 1) {
+				// Don't call super._handleKeyDown - just handle focus ring logic
+				return;
+			}
+		}
+
+		// For non-editing scenarios, use normal handling
+		super._handleKeyDown(event);
+	}
+
+	/**
+	 * Execute a code cell on the kernel, streaming its outputs into the cell as they arrive
+	 */
+	private async _executeCell(cellId: string): Promise<ExecuteReply | null> {
+		const cell = this._notebook?.cells.find(c => c.id === cellId);
+		const state = this._cellStates.get(cellId);
+		if (!cell || !state || cell.cell_type !== 'code') {
+			return null;
+		}
+
+		const cellElement = this._iframeDocument.querySelector(`.notebook-cell[data-cell-id="${cellId}"]`) as HTMLElement;
+		if (!cellElement) {
+			return null;
+		}
+
+		// Check if already running using CSS class (host execution never resets the state)
+		if (state.executionState === 'running' || cellElement.classList.contains('cell-running')) {
+			return null;
+		}
+
+		// Get the code from the textarea
+		const textarea = cellElement.querySelector('.code-input') as HTMLTextAreaElement;
+		const code = textarea?.value ?? state.source;
+		cell.source = code;
+		state.source = code;
+
+		if (!code.trim()) return null;
+
+		if (!this._kernel) {
+			this._setCellExecutionState(cellId, 'idle');
+			this._dispatchHostExecution(cellId, code);
+			return null;
+		}
+
+		cell.outputs = [];
+		this._setCellExecutionState(cellId, 'running');
+
+		let reply: ExecuteReply;
+		try {
+			reply = await this._kernel.execute(code, {
+				onMessage: (message) => {
+					// update_display_data can target a display created by any cell
+					const targets = message.msg_type === 'update_display_data'
+						? this._notebook?.cells ?? [cell]
+						: [cell];
+					for (const target of targets) {
+						if (appendKernelMessage(target.outputs, message)) {
+							this._updateCellOutputs(target);
+						}
+					}
+				}
+			});
+		}
+		catch (e) {
+			cell.outputs.push({
+				output_type: 'error',
+				ename: 'Error',
+				evalue: (e as Error).message,
+				traceback: [],
+			});
+			reply = { status: 'error', execution_count: null };
+		}
+
+		cell.execution_count = reply.execution_count;
+		this._setCellExecutionState(cellId, reply.status === 'ok' ? 'success' : 'error');
+
+		this._isModified = true;
+		this._updateUnsavedIndicator();
+		return reply;
+	}
+
+	/**
+	 * Update a cell's execution state and everything in the DOM that reflects it
+	 * (state classes, execution count, output area, kernel status)
+	 */
+	private _setCellExecutionState(cellId: string, executionState: CellExecutionState) {
+		const cell = this._notebook?.cells.find(c => c.id === cellId);
+		const state = this._cellStates.get(cellId);
+		if (!cell || !state) return;
+
+		state.executionState = executionState;
+
+		const cellElement = this._iframeDocument.querySelector(`.notebook-cell[data-cell-id="${cellId}"]`) as HTMLElement;
+		if (cellElement) {
+			this._renderExecutionState(cellElement, cell, executionState);
+		}
+
+		this._updateCellOutputs(cell);
+		this._updateKernelStatus();
+	}
+
+	private _renderExecutionState(cellElement: HTMLElement, cell: NotebookCell, executionState: CellExecutionState) {
+		cellElement.classList.remove('cell-pending', 'cell-running', 'cell-success', 'cell-error');
+		if (executionState !== 'idle') {
+			cellElement.classList.add(`cell-${executionState}`);
+		}
+		cellElement.dataset.executionState = executionState;
+
+		const executionCount = cellElement.querySelector('.cell-execution-count');
+		if (executionCount) {
+			executionCount.textContent = this._formatExecutionCount(cell);
+		}
+
+		const badge = cellElement.querySelector('.cell-execution-badge');
+		if (badge) {
+			const labels: Partial<Record<CellExecutionState, string>> = { pending: 'Queued', running: 'Running' };
+			badge.textContent = labels[executionState] ?? '';
+		}
+	}
+
+	private _updateCellOutputs(cell: NotebookCell) {
+		const state = this._cellStates.get(cell.id);
+		if (!state) return;
+
+		state.output = this._renderCellOutputs(cell.id, cell.outputs, state.executionState === 'running');
+
+		const outputDiv = this._iframeDocument.querySelector(`.cell-output[data-cell-id="${cell.id}"]`);
+		if (outputDiv) {
+			outputDiv.innerHTML = state.output;
+			this._renderMath(outputDiv);
+			this._handleCellContentChange(cell.id);
+		}
+	}
+
+	/**
+	 * Typeset TeX in markdown cells and in LaTeX/markdown outputs under root
 	 */
-	private _updateUnsavedIndicator() {
-		const indicator = this._iframeDocument.querySelector('.unsaved-indicator') as HTMLElement;
-		if (indicator) {
-			indicator.style.display = this._isModified ? 'inline-flex' : 'none';
+	private _renderMath(root: ParentNode) {
+		const elements = Array.from(root.querySelectorAll('.cell-markdown-content, .output-latex, .output-markdown-content'));
+		renderMathInElements(this._iframeDocument, elements).catch((e) => {
+			console.error('[NotebookView] Failed to render math', e);
+		});
+	}
+
+	private _updateKernelStatus() {
+		const indicator = this._iframeDocument.querySelector('.kernel-status') as HTMLElement;
+		if (indicator && this._kernel) {
+			indicator.dataset.kernelStatus = this._kernel.status;
+			indicator.textContent = `Kernel: ${this._kernel.status}`;
 		}
 	}
 
 	/**
-	 * Export the notebook by dispatching an event to the parent
+	 * Queue code cells for execution. Cells run one at a time in the order they were queued,
+	 * showing as pending until the kernel gets to them.
 	 */
-	private _exportNotebook() {
-		console.log('[NotebookView._exportNotebook] START');
-
-		if (!this._notebook) {
-			console.error('[NotebookView._exportNotebook] No notebook available!');
-			return;
-		}
+	private _queueCells(cellIds: string[]) {
+		if (!this._notebook) return;
 
-		console.log('[NotebookView._exportNotebook] Syncing cell edits...');
-		// Sync all edits first
 		this._syncCellEditsToState();
 
-		console.log('[NotebookView._exportNotebook] Creating export event with notebook:', {
-			cellCount: this._notebook.cells.length,
-			hasMetadata: !!this._notebook.metadata
-		});
-
-		// Dispatch custom event to parent (reader.js will handle the file save)
-		const event = new CustomEvent('notebook-export', {
-			detail: { notebook: this._notebook },
-			bubbles: true,
-		});
+		for (const cellId of cellIds) {
+			const cell = this._notebook.cells.find(c => c.id === cellId);
+			const state = this._cellStates.get(cellId);
+			if (!cell || !state || cell.cell_type !== 'code' || !cell.source.trim()) {
+				continue;
+			}
+			if (this._executionQueue.includes(cellId) || state.executionState === 'running') {
+				continue;
+			}
+			this._executionQueue.push(cellId);
+			this._setCellExecutionState(cellId, 'pending');
+		}
 
-		console.log('[NotebookView._exportNotebook] Dispatching event to iframe window:', this._iframeWindow);
-		this._iframeWindow.dispatchEvent(event);
-		console.log('[NotebookView._exportNotebook] Event dispatched successfully');
+		this._processQueue();
 	}
 
-	/**
-	 * Override _handleKeyDown to prevent editing keys from being passed to the main window
-	 * when we're in an editable element (contenteditable or textarea)
-	 */
-	protected override _handleKeyDown(event: KeyboardEvent) {
-		const target = event.target as HTMLElement;
+	private _processQueue(): Promise<void> {
+		if (!this._queueProcessing) {
+			this._queueProcessing = this._processQueueInternal().finally(() => {
+				this._queueProcessing = null;
+			});
+		}
+		return this._queueProcessing;
+	}
 
-		// Check if we're editing in a contenteditable or textarea
-		const isEditing = target.isContentEditable
-			|| target.tagName === 'TEXTAREA'
-			|| target.tagName === 'INPUT'
-			|| target.closest('[contenteditable="true"]');
+	private async _processQueueInternal() {
+		while (this._executionQueue.length) {
+			const cellId = this._executionQueue.shift()!;
+			const reply = await this._executeCell(cellId);
 
-		if (isEditing) {
-			// List of keys that should be handled by the editable element, not passed to main window
-			const editingKeys = ['Backspace', 'Delete', 'ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown',
-				'Home', 'End', 'Enter', 'Tab'];
+			// The cell was skipped (deleted, converted, emptied)
+			if (this._cellStates.get(cellId)?.executionState === 'pending') {
+				this._setCellExecutionState(cellId, 'idle');
+			}
 
-			// For editing keys or regular typing, don't pass to parent handler
-			if (editingKeys.includes(event.key) || event.key.length === 1) {
-				// Don't call super._handleKeyDown - just handle focus ring logic
-				return;
+			// Like Jupyter, stop at the first error (including interrupts) and drop the rest of the queue
+			if (reply && reply.status !== 'ok') {
+				this._clearExecutionQueue();
 			}
 		}
-
-		// For non-editing scenarios, use normal handling
-		super._handleKeyDown(event);
 	}
 
-	private async _executeCell(cellId: string) {
-		console.log('[NotebookView._executeCell] START for cell:', cellId);
-
-		const state = this._cellStates.get(cellId);
-		console.log('[NotebookView._executeCell] Cell state:', state);
-		if (!state) {
-			console.log('[NotebookView._executeCell] Skipping - no state');
-			return;
+	private _clearExecutionQueue() {
+		const cellIds = this._executionQueue;
+		this._executionQueue = [];
+		for (const cellId of cellIds) {
+			this._setCellExecutionState(cellId, 'idle');
 		}
+	}
 
-		const cellElement = this._iframeDocument.querySelector(`.notebook-cell[data-cell-id="${cellId}"]`) as HTMLElement;
-		if (!cellElement) {
-			console.log('[NotebookView._executeCell] Skipping - no cell element found');
-			return;
-		}
+	private _runAll() {
+		if (!this._notebook) return;
+		this._queueCells(this._notebook.cells.map(c => c.id));
+	}
 
-		// Check if already running using CSS class (more reliable than state)
-		if (cellElement.classList.contains('cell-running')) {
-			console.log('[NotebookView._executeCell] Skipping - cell is currently executing');
-			return;
-		}
+	/**
+	 * Run all cells above (not including) the given cell
+	 */
+	private _runAbove(cellId: string) {
+		if (!this._notebook) return;
+		const index = this._notebook.cells.findIndex(c => c.id === cellId);
+		if (index === -1) return;
+		this._queueCells(this._notebook.cells.slice(0, index).map(c => c.id));
+	}
 
-		const outputDiv = cellElement.querySelector('.cell-output') as HTMLElement;
-		if (!outputDiv) {
-			console.log('[NotebookView._executeCell] Skipping - no output div found');
-			return;
+	/**
+	 * Run the given cell and all cells below it
+	 */
+	private _runBelow(cellId: string) {
+		if (!this._notebook) return;
+		const index = this._notebook.cells.findIndex(c => c.id === cellId);
+		if (index === -1) return;
+		this._queueCells(this._notebook.cells.slice(index).map(c => c.id));
+	}
+
+	private async _restartAndRunAll() {
+		if (this._kernel) {
+			await this._restartKernel();
+			// Let the interrupted cell finish so its error doesn't abort the new run
+			await this._queueProcessing;
 		}
+		this._runAll();
+	}
 
-		// Get the code from the textarea
-		const textarea = cellElement.querySelector('.code-input') as HTMLTextAreaElement;
-		const code = textarea?.value || state.source;
+	private async _interruptKernel() {
+		if (!this._kernel) return;
+		this._clearExecutionQueue();
+		await this._kernel.interrupt();
+		this._updateKernelStatus();
+	}
 
-		if (!code.trim()) return;
+	private async _restartKernel() {
+		if (!this._kernel) return;
+		this._clearExecutionQueue();
+		const restart = this._kernel.restart();
+		this._updateKernelStatus();
+		await restart;
+		this._updateKernelStatus();
+	}
 
-		// Clear any existing output for re-execution
-		console.log('[NotebookView._executeCell] Clearing output and resetting state');
-		outputDiv.innerHTML = '';
+	/**
+	 * Fallback when no kernel was provided: hand the code to the host, which writes
+	 * the result into the cell's output area itself
+	 */
+	private _dispatchHostExecution(cellId: string, code: string) {
+		const cellElement = this._iframeDocument.querySelector(`.notebook-cell[data-cell-id="${cellId}"]`) as HTMLElement;
+		const outputDiv = cellElement?.querySelector('.cell-output') as HTMLElement;
+		if (!outputDiv) return;
 
-		// Update state to running (reset from any previous state)
-		state.executionState = 'running';
 		cellElement.classList.add('cell-running');
-
-		// Show streaming indicator
-		outputDiv.innerHTML = `
-<div class="output-header">
-	<span>Output (running...)</span>
-</div>
-<div class="output-streaming">
-	<div class="spinner"></div>
-	<span>Executing code...</span>
-</div>`;
+		outputDiv.innerHTML = this._renderCellOutputs(cellId, [], true);
+		this._handleCellContentChange(cellId);
 
 		try {
-			// Call the code execution API
-			// Dispatch a custom event that the parent can handle
 			const language = this._notebook?.language || 'python';
-			
+
 			// Create event with just data (no callbacks - they don't work cross-compartment)
 			const event = new CustomEvent('notebook-execute-code', {
 				detail: {
@@ -975,21 +2241,16 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 					language
 				}
 			});
-			
-			// reader.js will directly update the DOM via Xray wrappers
-			// No need for message listeners - just dispatch the event
-			
+
 			// Dispatch to the iframe's own window - reader.js listens here
-			console.log('[NotebookView._executeCell] Dispatching notebook-execute-code event');
+			// and updates the DOM directly via Xray wrappers
 			this._iframeWindow.dispatchEvent(event);
-			
+
 			// Also try window directly in case they differ
 			if (this._iframeWindow !== window) {
 				window.dispatchEvent(event);
 			}
-
 		} catch (error) {
-			state.executionState = 'error';
 			cellElement.classList.remove('cell-running');
 
 			outputDiv.innerHTML = `
@@ -1003,6 +2264,336 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 		}
 	}
 
+	/**
+	 * Present the notebook as slides built from its slideshow metadata,
+	 * starting with the slide that has the selected cell
+	 */
+	private _startSlideshow() {
+		if (!this._notebook) return;
+
+		const slides = buildSlides(this._notebook.cells);
+		if (!slides.length) return;
+		const activeCellId = this._activeCellId;
+		const index = slides.findIndex(slide => slide.steps.some(step => activeCellId && step.includes(activeCellId)));
+
+		this._syncCellEditsToState();
+		this._setActiveCell(null, null);
+		this._slideshow = { slides, index: 0, step: 0 };
+		this._iframeDocument.body.classList.add('presenting');
+		this._showSlide(Math.max(index, 0), 0);
+	}
+
+	private _stopSlideshow() {
+		if (!this._slideshow) return;
+
+		const { slides, index } = this._slideshow;
+		this._slideshow = null;
+		this._iframeDocument.body.classList.remove('presenting');
+		for (const cellElement of this._iframeDocument.querySelectorAll('.slide-visible')) {
+			cellElement.classList.remove('slide-visible');
+		}
+		(this._options as NotebookViewOptions).onChangeSlide?.(null);
+
+		// Leave the reader where the presentation was
+		const cellId = slides[index].steps[0][0];
+		this._setActiveCell(cellId, 'command');
+		this._iframeDocument.querySelector(`[data-cell-id="${cellId}"]`)?.scrollIntoView({ block: 'start' });
+		this._handleViewUpdate();
+	}
+
+	/**
+	 * Show a slide with its first `step` fragments revealed
+	 */
+	private _showSlide(index: number, step: number) {
+		const slide = this._slideshow?.slides[index];
+		if (!this._slideshow || !slide) return;
+
+		this._slideshow.index = index;
+		this._slideshow.step = Math.min(step, slide.steps.length - 1);
+		const visibleCellIds = new Set(slide.steps.slice(0, this._slideshow.step + 1).flat());
+		for (const cellElement of this._iframeDocument.querySelectorAll<HTMLElement>('.notebook-cells > .notebook-cell')) {
+			cellElement.classList.toggle('slide-visible', visibleCellIds.has(cellElement.dataset.cellId!));
+		}
+
+		const position = this._iframeDocument.querySelector('.slideshow-position');
+		if (position) {
+			position.textContent = `${index + 1} / ${this._slideshow.slides.length}`;
+		}
+		this._iframeWindow.scrollTo(0, 0);
+		(this._options as NotebookViewOptions).onChangeSlide?.(index);
+		// Annotations have to be laid out again for the cells now on screen
+		this._handleViewUpdate();
+	}
+
+	/**
+	 * Returns true if the key was handled
+	 */
+	private _handleSlideshowKey(event: KeyboardEvent): boolean {
+		if (!this._slideshow) return false;
+
+		switch (event.key) {
+			case 'ArrowRight':
+			case 'ArrowDown':
+			case 'PageDown':
+			case ' ':
+				this.navigateToNextPage();
+				return true;
+			case 'ArrowLeft':
+			case 'ArrowUp':
+			case 'PageUp':
+				this.navigateToPreviousPage();
+				return true;
+			case 'Home':
+				this._showSlide(0, 0);
+				return true;
+			case 'End':
+				this._showSlide(this._slideshow.slides.length - 1, 0);
+				return true;
+			case 'Escape':
+				this._stopSlideshow();
+				return true;
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Next fragment, or the next slide once all fragments are shown
+	 */
+	navigateToNextPage() {
+		if (!this._slideshow) return;
+
+		const { slides, index, step } = this._slideshow;
+		if (step < slides[index].steps.length - 1) {
+			this._showSlide(index, step + 1);
+		}
+		else if (index < slides.length - 1) {
+			this._showSlide(index + 1, 0);
+		}
+	}
+
+	/**
+	 * Previous fragment, or the previous slide with all its fragments shown
+	 */
+	navigateToPreviousPage() {
+		if (!this._slideshow) return;
+
+		const { slides, index, step } = this._slideshow;
+		if (step > 0) {
+			this._showSlide(index, step - 1);
+		}
+		else if (index > 0) {
+			this._showSlide(index - 1, slides[index - 1].steps.length - 1);
+		}
+	}
+
+	/**
+	 * Show the speaker notes of a slide being presented in another view of this notebook
+	 * (the other side of a split view), or the notebook again if slideIndex is null
+	 */
+	showSpeakerNotes(slideIndex: number | null) {
+		if (!this.initialized) {
+			this.initializedPromise.then(() => this.showSpeakerNotes(slideIndex));
+			return;
+		}
+
+		const slides = this._notebook ? buildSlides(this._notebook.cells) : [];
+		const slide = slideIndex === null ? undefined : slides[slideIndex];
+		const panel = this._iframeDocument.querySelector('.speaker-notes');
+		this._iframeDocument.body.classList.toggle('showing-speaker-notes', !!slide);
+		if (!panel) return;
+		if (!slide || slideIndex === null) {
+			panel.replaceChildren();
+			this._handleViewUpdate();
+			return;
+		}
+
+		const notes = slide.notes.map((cellId) => {
+			const cell = this._notebook!.cells.find(c => c.id === cellId);
+			if (!cell) return '';
+			return cell.cell_type === 'markdown'
+				? `<div class="speaker-notes-cell output-markdown-content">${resolveAttachments(renderMarkdown(cell.source), cell)}</div>`
+				: `<pre class="speaker-notes-cell">${this._escapeHtml(cell.source)}</pre>`;
+		}).join('');
+		const nextSlide = slides[slideIndex + 1];
+
+		panel.innerHTML = `
+<div class="speaker-notes-header">Speaker notes &middot; Slide ${slideIndex + 1} of ${slides.length}</div>
+${notes || '<div class="speaker-notes-empty">No notes for this slide</div>'}
+${nextSlide ? `<div class="speaker-notes-next">Next: ${this._escapeHtml(this._getSlideTitle(nextSlide))}</div>` : ''}`;
+		this._renderMath(panel);
+		this._handleViewUpdate();
+	}
+
+	/**
+	 * The first heading or line of a slide
+	 */
+	private _getSlideTitle(slide: Slide): string {
+		const cell = this._notebook?.cells.find(c => c.id === slide.steps[0][0]);
+		const lines = cell?.source.split('\n').map(line => line.trim()).filter(Boolean) ?? [];
+		const line = lines.find(line => /^#+\s/.test(line)) ?? lines[0] ?? '';
+		return line.replace(/^#+\s*/, '').slice(0, 80);
+	}
+
+	/**
+	 * Compare the notebook with another version of it. Both sides use the same rows, so two views
+	 * can be shown next to each other: 'base' shows this notebook's cells, 'changed' the other one's.
+	 * Pass null to show the notebook again.
+	 */
+	setDiff(otherData: NotebookViewData | null, side: 'base' | 'changed' = 'base') {
+		// Parse now so that invalid files throw to the caller
+		let other: ParsedNotebook | null = null;
+		if (otherData) {
+			const { format, fileName } = otherData;
+			const content = otherData.buf || otherData.content;
+			if (!content) {
+				throw new Error('Notebook data (buf or content) is required');
+			}
+			other = parseNotebook(content, { format, fileName });
+		}
+		if (!this.initialized) {
+			this.initializedPromise.then(() => this._showDiff(other, side));
+			return;
+		}
+		this._showDiff(other, side);
+	}
+
+	private _showDiff(other: ParsedNotebook | null, side: 'base' | 'changed') {
+		const container = this._iframeDocument.querySelector('.notebook-diff');
+		if (!this._notebook || !container) return;
+
+		this._syncCellEditsToState();
+		this._stopSlideshow();
+		if (!other) {
+			this._diff = null;
+			container.replaceChildren();
+			this._iframeDocument.body.classList.remove('showing-diff');
+			this._handleViewUpdate();
+			return;
+		}
+
+		this._setActiveCell(null, null);
+		const rows = diffNotebooks(this._notebook, other);
+		this._diff = { rows, side };
+
+		const count = (status: string) => rows.filter(row => row.status === status).length;
+		const summary = [
+			`${count('modified')} modified`,
+			`${count('added')} added`,
+			`${count('removed')} removed`,
+			`${count('unchanged')} unchanged`,
+		].join(', ');
+		container.innerHTML = `
+<div class="notebook-diff-header">
+	<span class="notebook-diff-title">${side === 'base' ? 'Original' : 'Modified'}</span>
+	<span class="notebook-diff-summary">${summary}</span>
+	<button class="diff-close-button" data-action="close-diff">Close Comparison</button>
+</div>
+${rows.map((row, index) => this._renderDiffRow(row, index, side)).join('\n')}`;
+		this._iframeDocument.body.classList.add('showing-diff');
+		this._iframeWindow.scrollTo(0, 0);
+		this._renderMath(container);
+		this._handleViewUpdate();
+	}
+
+	private _renderDiffRow(row: CellDiff, index: number, side: 'base' | 'changed'): string {
+		const cell = row[side];
+		const labels = {
+			unchanged: 'Unchanged',
+			modified: 'Modified',
+			added: 'Added',
+			removed: 'Removed',
+		};
+		const label = `<div class="diff-status">${labels[row.status]}</div>`;
+		if (!cell) {
+			// Keep the row's height close to the other side's, so that both scroll alike
+			const otherCell = row[side === 'base' ? 'changed' : 'base']!;
+			const lines = otherCell.source.split('\n').length;
+			return `<div class="diff-row diff-${row.status} diff-missing" data-row="${index}">
+	${label}
+	<div class="diff-missing-cell" style="min-height: ${lines * 1.5}em"></div>
+</div>`;
+		}
+
+		let lines: string;
+		if (row.status === 'modified') {
+			lines = row.source.map((line) => {
+				const text = line[side];
+				const other = line[side === 'base' ? 'changed' : 'base'];
+				if (text === null) {
+					return '<div class="diff-line diff-line-filler">&nbsp;</div>';
+				}
+				if (line.type === 'modified' && other !== null) {
+					const range = side === 'base' ? getChangedRange(text, other) : getChangedRange(other, text);
+					const end = side === 'base' ? range.baseEnd : range.changedEnd;
+					return `<div class="diff-line diff-line-modified">${this._escapeHtml(text.slice(0, range.start))}`
+						+ `<span class="diff-changed-text">${this._escapeHtml(text.slice(range.start, end))}</span>`
+						+ `${this._escapeHtml(text.slice(end))}</div>`;
+				}
+				return `<div class="diff-line diff-line-${line.type}">${this._escapeHtml(text) || '&nbsp;'}</div>`;
+			}).join('');
+		}
+		else {
+			const type = row.status === 'unchanged' ? 'unchanged' : side === 'base' ? 'removed' : 'added';
+			lines = cell.source.replace(/\n$/, '').split('\n')
+				.map(text => `<div class="diff-line diff-line-${type}">${this._escapeHtml(text) || '&nbsp;'}</div>`)
+				.join('');
+		}
+
+		let outputs = '';
+		if (cell.cell_type === 'code' && cell.outputs.length) {
+			const rendered = cell.outputs.map((output) => {
+				const truncated = truncateOutput(output, OUTPUT_TRUNCATE_LINES, OUTPUT_TRUNCATE_LENGTH);
+				if (!truncated) return renderOutputToHtml(output, this._widgetState);
+				return truncated.output ? renderOutputToHtml(truncated.output, this._widgetState) : '';
+			}).join('\n');
+			outputs = `<div class="cell-output diff-outputs${row.outputsChanged ? ' diff-outputs-changed' : ''}">
+	${row.outputsChanged ? '<div class="output-header"><span>Output changed</span></div>' : ''}
+	<div class="output-content">${rendered}</div>
+</div>`;
+		}
+
+		return `<div class="diff-row diff-${row.status}" data-row="${index}" data-cell-id="${this._escapeAttr(cell.id)}">
+	${label}
+	<pre class="diff-source cell-${cell.cell_type}-source">${lines}</pre>
+	${outputs}
+</div>`;
+	}
+
+	private _handleDiffScroll() {
+		if (!this._diff) return;
+		if (this._diffScrollTarget !== null) {
+			// Scrolled by the other side
+			this._diffScrollTarget = null;
+			return;
+		}
+		const rowElements = this._iframeDocument.querySelectorAll<HTMLElement>('.diff-row');
+		for (const rowElement of rowElements) {
+			const rect = rowElement.getBoundingClientRect();
+			if (rect.bottom > 0) {
+				const offset = rect.height ? Math.max(0, -rect.top) / rect.height : 0;
+				(this._options as NotebookViewOptions).onDiffScroll?.(Number(rowElement.dataset.row), offset);
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Scroll the comparison to the same place as the other side
+	 */
+	scrollDiffTo(row: number, offset: number) {
+		if (!this._diff) return;
+		const rowElement = this._iframeDocument.querySelector<HTMLElement>(`.diff-row[data-row="${row}"]`);
+		if (!rowElement) return;
+		const rect = rowElement.getBoundingClientRect();
+		const maxTop = this._iframeDocument.documentElement.scrollHeight - this._iframeDocument.documentElement.clientHeight;
+		const top = Math.round(Math.min(Math.max(this._iframeWindow.scrollY + rect.top + rect.height * offset, 0), maxTop));
+		// No scroll event comes if the position doesn't change
+		if (top === Math.round(this._iframeWindow.scrollY)) return;
+		this._diffScrollTarget = top;
+		this._iframeWindow.scrollTo(0, top);
+	}
+
 	private _updateAnnotationOverlaySize() {
 		const overlay = this._annotationRenderRootEl;
 		if (!overlay) return;
@@ -1019,10 +2610,37 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 
 	// Required abstract method implementations
 	
+	/**
+	 * Text in a cell is addressed by the cell's ID and whether it's in the input or the output,
+	 * so edits elsewhere in the notebook don't move it:
+	 *
+	 * CssSelector `.notebook-cell[data-cell-id="..."] .cell-input`
+	 *   refinedBy TextPositionSelector (relative to the input or output)
+	 *     refinedBy TextQuoteSelector (to find the text again after the cell is edited)
+	 *
+	 * Ranges across cells fall back to a selector for the element containing them.
+	 */
 	toSelector(range: Range): Selector | null {
 		let doc = range.commonAncestorContainer.ownerDocument;
 		if (!doc) return null;
 
+		let part = closestElement(range.commonAncestorContainer)?.closest('.cell-input, .cell-output');
+		let cellId = part?.closest('.notebook-cell')?.getAttribute('data-cell-id');
+		if (part && cellId) {
+			let position = textPositionFromRange(range, part);
+			if (position) {
+				let partClass = part.classList.contains('cell-output') ? 'cell-output' : 'cell-input';
+				return {
+					type: 'CssSelector',
+					value: `.notebook-cell[data-cell-id="${cellId.replace(/["\\]/g, '\\$&')}"] .${partClass}`,
+					refinedBy: {
+						...position,
+						refinedBy: textQuoteFromPosition(getTextContent(part), position),
+					},
+				};
+			}
+		}
+
 		let targetNode;
 		if (range.startContainer === range.endContainer
 				&& range.startOffset == range.endOffset - 1
@@ -1053,16 +2671,112 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 		}
 	}
 
+	/**
+	 * Returns null if the element or the quoted text is gone, in which case the annotation
+	 * is reported as orphaned instead of being shown in the wrong place.
+	 * If the cell itself is gone (e.g. it was moved in a file without cell IDs), the quoted text
+	 * is looked for in the whole notebook.
+	 */
 	toDisplayedRange(selector: Selector): Range | null {
 		try {
-			if (!selector.refinedBy) return null;
-			return textPositionToRange(selector.refinedBy as TextPositionSelector, this._iframeDocument.body);
+			let root: Element | null = this._iframeDocument.body;
+			let refinement: Selector | undefined = selector;
+			if (isCss(selector)) {
+				root = this._iframeDocument.querySelector(selector.value);
+				refinement = selector.refinedBy;
+				let cellId = this._getSelectorCellId(selector);
+				if (!root && cellId && !this._iframeDocument.querySelector(`.notebook-cell[data-cell-id="${cellId}"]`)) {
+					let quote = refinement && isTextPosition(refinement) ? refinement.refinedBy : undefined;
+					if (!quote || !isTextQuote(quote)) {
+						return null;
+					}
+					root = this._iframeDocument.body;
+					refinement = quote;
+				}
+			}
+			if (!root) {
+				return null;
+			}
+			if (!refinement) {
+				let range = this._iframeDocument.createRange();
+				range.selectNodeContents(root);
+				return range;
+			}
+
+			let text = getTextContent(root);
+			let position = isTextPosition(refinement) ? refinement : undefined;
+			let quote = position?.refinedBy && isTextQuote(position.refinedBy)
+				? position.refinedBy
+				: (isTextQuote(refinement) ? refinement : undefined);
+			if (quote) {
+				position = anchorTextQuote(text, quote, position) ?? undefined;
+			}
+			if (!position || position.end > text.length) {
+				return null;
+			}
+			return textPositionToRange(position, root);
 		} catch (e) {
 			console.warn('Failed to convert selector to range', e);
 			return null;
 		}
 	}
 
+	/**
+	 * The cell a selector points into, for selectors that name one
+	 */
+	private _getSelectorCellId(selector: Selector): string | null {
+		let match = isCss(selector) && selector.value.match(/\[data-cell-id="((?:[^"\\]|\\.)*)"\]/);
+		return match ? match[1].replace(/\\(.)/g, '$1') : null;
+	}
+
+	private _isCellUnmounted(cellId: string): boolean {
+		return !!this._iframeDocument.querySelector(`.notebook-cell[data-cell-id="${cellId}"]`)
+			?.classList.contains('cell-placeholder');
+	}
+
+	protected override _renderAnnotations(synchronous = false) {
+		super._renderAnnotations(synchronous);
+		this._updateOrphanedAnnotations();
+	}
+
+	/**
+	 * Annotations that couldn't be anchored in the last render are orphaned:
+	 * flag them in the header and tell the host
+	 */
+	private _updateOrphanedAnnotations() {
+		// Nothing was anchored if annotations aren't being rendered
+		if (!this._annotationRenderRootEl || !this._showAnnotations || !this._orphanedAnnotationIDs) {
+			return;
+		}
+		// Annotations in cells that aren't mounted can't be anchored yet, but aren't lost
+		let orphanedIDs = this._annotations
+			.filter((annotation) => {
+				if (this._displayedAnnotationCache.has(annotation)) {
+					return false;
+				}
+				let cellId = this._getSelectorCellId(annotation.position);
+				return !cellId || !this._isCellUnmounted(cellId);
+			})
+			.map(annotation => annotation.id);
+		if (orphanedIDs.length === this._orphanedAnnotationIDs.size
+				&& orphanedIDs.every(id => this._orphanedAnnotationIDs.has(id))) {
+			return;
+		}
+		if (orphanedIDs.length) {
+			console.warn('[NotebookView] Annotations not found in the notebook:', orphanedIDs);
+		}
+		this._orphanedAnnotationIDs = new Set(orphanedIDs);
+		this._updateOrphanedAnnotationsIndicator();
+		(this._options as NotebookViewOptions).onSetOrphanedAnnotations?.(orphanedIDs);
+	}
+
+	/**
+	 * IDs of annotations whose text is no longer in the notebook
+	 */
+	get orphanedAnnotationIDs(): string[] {
+		return Array.from(this._orphanedAnnotationIDs ?? []);
+	}
+
 	protected _getHistoryLocation(): NavLocation | null {
 		return { scrollCoords: [this._iframeWindow.scrollX, this._iframeWindow.scrollY] };
 	}
@@ -1072,7 +2786,7 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 			return null;
 		}
 
-		let text = type === 'highlight' || type === 'underline' ? getInnerText(range).trim() : undefined;
+		let text = MARKUP_ANNOTATION_TYPES.includes(type) ? getInnerText(range).trim() : undefined;
 		if (text === '') {
 			return null;
 		}
@@ -1093,15 +2807,45 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 		};
 	}
 
+	/**
+	 * Offset in the text of the notebook, with cells that aren't mounted counted as if they were
+	 */
 	private _getSortIndex(range: Range): string {
 		let textPosition = textPositionFromRange(range, this._iframeDocument.body);
 		if (!textPosition) {
 			return '0'.padStart(SORT_INDEX_LENGTH, '0');
 		}
-		return textPosition.start.toString().padStart(SORT_INDEX_LENGTH, '0');
+		let offset = textPosition.start;
+		for (let placeholder of this._iframeDocument.querySelectorAll<HTMLElement>('.cell-placeholder')) {
+			if (!(placeholder.compareDocumentPosition(range.startContainer) & Node.DOCUMENT_POSITION_FOLLOWING)) {
+				break;
+			}
+			let cellId = placeholder.dataset.cellId!;
+			offset += this._getCellTextLength(cellId) - (placeholder.textContent?.length ?? 0);
+		}
+		return Math.min(offset, 10 ** SORT_INDEX_LENGTH - 1).toString().padStart(SORT_INDEX_LENGTH, '0');
+	}
+
+	/**
+	 * Length of the text an unmounted cell has when it's mounted
+	 */
+	private _getCellTextLength(cellId: string): number {
+		let length = this._cellTextLengths.get(cellId);
+		if (length === undefined) {
+			let cell = this._notebook?.cells.find(c => c.id === cellId);
+			let temp = this._iframeDocument.createElement('div');
+			temp.innerHTML = cell ? this._renderCell(cell) : '';
+			length = temp.firstElementChild?.textContent?.length ?? 0;
+			this._cellTextLengths.set(cellId, length);
+		}
+		return length;
 	}
 
 	protected _navigateToSelector(selector: Selector, options: NavigateOptions = {}): void {
+		let cellId = this._getSelectorCellId(selector);
+		if (cellId && this._mountCell(cellId)) {
+			this._handleCellContentChange(cellId);
+		}
 		let range = this.toDisplayedRange(selector);
 		if (!range) return;
 
@@ -1136,17 +2880,20 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 			canNavigateForward: this._history.canNavigateForward,
 			canNavigateToFirstPage: false,
 			canNavigateToLastPage: false,
-			canNavigateToPreviousPage: false,
-			canNavigateToNextPage: false,
+			canNavigateToPreviousPage: !!this._slideshow && (this._slideshow.index > 0 || this._slideshow.step > 0),
+			canNavigateToNextPage: !!this._slideshow && (
+				this._slideshow.index < this._slideshow.slides.length - 1
+				|| this._slideshow.step < this._slideshow.slides[this._slideshow.index].steps.length - 1
+			),
 			canNavigateToPreviousSection: false,
 			canNavigateToNextSection: false,
 			zoomAutoEnabled: false,
 			zoomPageHeightEnabled: false,
 			zoomPageWidthEnabled: false,
 			flowMode: undefined,
-			pageIndex: 0,
-			pageLabel: '',
-			pagesCount: 1,
+			pageIndex: this._slideshow?.index ?? 0,
+			pageLabel: this._slideshow ? String(this._slideshow.index + 1) : '',
+			pagesCount: this._slideshow?.slides.length ?? 1,
 			usePhysicalPageNumbers: false,
 		};
 		this._options.onChangeViewStats(viewStats);
@@ -1199,6 +2946,7 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 			if (this._find) {
 				this._find = null;
 			}
+			this._setPinnedCells([]);
 			return;
 		}
 
@@ -1209,6 +2957,9 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 				|| previousState.entireWord !== state.entireWord
 				|| previousState.active !== state.active) {
 				
+				// Find only searches mounted cells, so mount the ones that could match
+				this._setPinnedCells(this._virtualized ? this._getCellsMatchingQuery(state.query, state.caseSensitive) : []);
+
 				this._find = new DefaultFindProcessor({
 					findState: { ...state },
 					onSetFindState: (result) => {
@@ -1295,19 +3046,40 @@ class NotebookView extends DOMView<NotebookViewState, NotebookViewData> {
 	}
 
 	async print(): Promise<void> {
-		if (typeof (this._iframeWindow as any).zoteroPrint === 'function') {
-			await (this._iframeWindow as any).zoteroPrint({
-				overrideSettings: {
-					docURL: '',
-				},
-			});
+		// Every cell has to be mounted to be printed
+		let pinnedCellIds = this._pinnedCellIds;
+		this._setPinnedCells(this._notebook?.cells.map(cell => cell.id) ?? []);
+		try {
+			if (typeof (this._iframeWindow as any).zoteroPrint === 'function') {
+				await (this._iframeWindow as any).zoteroPrint({
+					overrideSettings: {
+						docURL: '',
+					},
+				});
+			}
+			else {
+				this._iframeWindow.print();
+			}
 		}
-		else {
-			this._iframeWindow.print();
+		finally {
+			this._setPinnedCells(pinnedCellIds);
 		}
 	}
 }
 
+export type NotebookViewOptions = DOMViewOptions<NotebookViewState, NotebookViewData> & {
+	// Executes code cells; owned by the host, which is responsible for shutting it down
+	kernel?: NotebookKernel;
+	// Called with the IDs of annotations whose text was edited away or removed, whenever they change
+	onSetOrphanedAnnotations?: (annotationIDs: string[]) => void;
+	// Called with the slide shown while presenting, and null when the presentation ends
+	onChangeSlide?: (slideIndex: number | null) => void;
+	// Called while scrolling a comparison, with the diff row at the top and how far into it (0 to 1)
+	onDiffScroll?: (row: number, offset: number) => void;
+	// Called when the comparison is closed from the view; if missing, the view closes it itself
+	onCloseDiff?: () => void;
+};
+
 export interface NotebookViewState extends DOMViewState {
 	scale?: number;
 	scrollYPercent?: number;
@@ -1316,6 +3088,9 @@ export interface NotebookViewState extends DOMViewState {
 export interface NotebookViewData {
 	buf?: ArrayBuffer;
 	content?: string;
+	// ipynb, or a percent script, Quarto or R Markdown file; detected from fileName or the content if missing
+	format?: NotebookSourceFormat;
+	fileName?: string;
 }
 
 export default NotebookView;
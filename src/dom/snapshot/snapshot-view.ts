@@ -36,6 +36,7 @@ import { isPageRectVisible } from "../common/lib/rect";
 import { debounceUntilScrollFinishes } from "../../common/lib/utilities";
 import { scrollIntoView } from "../common/lib/scroll-into-view";
 import { SORT_INDEX_LENGTH, SORT_INDEX_LENGTH_OLD } from "./defines";
+import { MARKUP_ANNOTATION_TYPES } from "../../common/defines";
 import { FocusMode } from "./focus-mode";
 
 class SnapshotView extends DOMView<SnapshotViewState, SnapshotViewData> {
@@ -356,7 +357,7 @@ class SnapshotView extends DOMView<SnapshotViewState, SnapshotViewData> {
 		if (range.collapsed) {
 			return null;
 		}
-		let text = type == 'highlight' || type == 'underline' ? getInnerText(range).trim() : undefined;
+		let text = MARKUP_ANNOTATION_TYPES.includes(type) ? getInnerText(range).trim() : undefined;
 		// If this annotation type wants text, but we didn't get any, abort
 		if (text === '') {
 			return null;
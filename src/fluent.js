@@ -2,6 +2,7 @@ import { FluentBundle, FluentResource } from '@fluent/bundle';
 
 import zotero from '../locales/en-US/zotero.ftl';
 import reader from '../locales/en-US/reader.ftl';
+import readerAdditions from '../res/locales/en-US/reader.ftl';
 
 export let bundle = new FluentBundle('en-US', {
 	functions: {
@@ -11,6 +12,8 @@ export let bundle = new FluentBundle('en-US', {
 
 bundle.addResource(new FluentResource(zotero));
 bundle.addResource(new FluentResource(reader));
+// Added after Zotero's strings, which win for messages defined in both
+bundle.addResource(new FluentResource(readerAdditions));
 
 export function getLocalizedString(key, args = {}) {
 	const message = bundle.getMessage(key);
@@ -91,6 +91,9 @@ async function createReader() {
 		},
 		onSaveCustomThemes(customThemes) {
 			console.log('Save custom themes', customThemes);
+		},
+		onSetOrphanedAnnotations(ids) {
+			console.log('Orphaned annotations', ids);
 		}
 	});
 	reader.enableAddToNote(true);
@@ -0,0 +1,396 @@
+/**
+ * Writing reader annotations into a PDF file as standard PDF annotations
+ * The file is updated incrementally: new annotation objects and new versions of the page objects
+ * they're added to are appended to the original file.
+ */
+
+import { PDFFile, Name, PDFString, Stream, formatNumber, fromBinaryString } from './pdf-file';
+import { getPositionBoundingRect } from './utilities';
+
+// Print
+const FLAGS = 4;
+// Print, NoZoom, NoRotate
+const NOTE_FLAGS = 28;
+const LINE_WIDTH = 1;
+const LINE_HEIGHT = 1.2;
+
+const MARKUP_SUBTYPES = {
+	highlight: 'Highlight',
+	underline: 'Underline',
+	strikeout: 'StrikeOut',
+	squiggly: 'Squiggly'
+};
+
+// Helvetica glyph widths for characters 32–126, in 1/1000 em
+const HELVETICA_WIDTHS = [278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584];
+const DEFAULT_WIDTH = 556;
+
+// Characters WinAnsiEncoding places at 0x80–0x9F, in order (control characters where it has none)
+const WIN_ANSI_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+/**
+ * Add annotations to a PDF file
+ *
+ * @param {ArrayBuffer|Uint8Array} buf
+ * @param {PDFAnnotation[]} annotations
+ * @param {Object} [options]
+ * @param {function(number, number[]): number} [options.getTextRotation] Rotation of the text under
+ *   a rect on a page, in degrees, so that lines and QuadPoints follow rotated text
+ * @returns {Promise<Uint8Array>}
+ */
+export async function exportAnnotationsToPDF(buf, annotations, { getTextRotation = () => 0 } = {}) {
+	let file = new PDFFile(buf);
+	await file.load();
+	let pages = await file.getPages();
+	let objects = [];
+	let pageAnnots = new Map();
+	let add = (pageIndex, dict, appearance) => {
+		let page = pages[pageIndex];
+		let ref = file.allocateRef();
+		dict.set('P', page.ref);
+		if (appearance) {
+			let appearanceRef = file.allocateRef();
+			objects.push({ ref: appearanceRef, value: appearance });
+			dict.set('AP', new Map([['N', appearanceRef]]));
+		}
+		objects.push({ ref, value: dict });
+		if (!pageAnnots.has(pageIndex)) {
+			pageAnnots.set(pageIndex, []);
+		}
+		pageAnnots.get(pageIndex).push(ref);
+		return ref;
+	};
+
+	for (let annotation of annotations) {
+		let { position } = annotation;
+		if (!pages[position.pageIndex]) {
+			continue;
+		}
+		if (MARKUP_SUBTYPES[annotation.type]) {
+			let parts = [{ pageIndex: position.pageIndex, rects: position.rects }];
+			// Text selected across a page break continues on the next page, as an annotation grouped with the first
+			if (position.nextPageRects && pages[position.pageIndex + 1]) {
+				parts.push({ pageIndex: position.pageIndex + 1, rects: position.nextPageRects });
+			}
+			let firstRef;
+			for (let { pageIndex, rects } of parts) {
+				let rotations = rects.map(rect => getTextRotation(pageIndex, rect));
+				let dict = createMarkupDict(annotation, rects, rotations);
+				if (firstRef) {
+					dict.delete('NM');
+					dict.set('IRT', firstRef);
+					dict.set('RT', new Name('Group'));
+				}
+				let appearance = annotation.type === 'highlight'
+					? createHighlightAppearance(annotation, rects)
+					: createLineAppearance(annotation, rects, rotations);
+				let ref = add(pageIndex, dict, appearance);
+				firstRef ||= ref;
+			}
+		}
+		else if (annotation.type === 'note') {
+			add(position.pageIndex, createNoteDict(annotation));
+		}
+		else if (annotation.type === 'ink') {
+			let dict = createInkDict(annotation);
+			add(position.pageIndex, dict, createInkAppearance(annotation, dict.get('Rect')));
+		}
+		else if (annotation.type === 'text') {
+			let dict = createFreeTextDict(annotation);
+			add(position.pageIndex, dict, createFreeTextAppearance(annotation));
+		}
+	}
+
+	for (let [pageIndex, refs] of pageAnnots) {
+		let { ref, dict } = pages[pageIndex];
+		let annots = await file.resolve(dict.get('Annots'));
+		let page = new Map(dict);
+		page.set('Annots', [...(Array.isArray(annots) ? annots : []), ...refs]);
+		objects.push({ ref, value: page });
+	}
+	return file.save(objects);
+}
+
+function createDict(annotation, subtype, rect) {
+	let dict = new Map([
+		['Type', new Name('Annot')],
+		['Subtype', new Name(subtype)],
+		['Rect', rect],
+		['F', FLAGS],
+		['NM', textString(annotation.id)],
+		['T', textString(annotation.authorName || '')],
+		['Contents', textString(annotation.comment || '')]
+	]);
+	for (let [key, date] of [['M', annotation.dateModified], ['CreationDate', annotation.dateCreated]]) {
+		if (date && !isNaN(new Date(date).getTime())) {
+			dict.set(key, dateString(date));
+		}
+	}
+	if (annotation.color) {
+		dict.set('C', getColorComponents(annotation.color));
+	}
+	return dict;
+}
+
+function createMarkupDict(annotation, rects, rotations) {
+	let dict = createDict(annotation, MARKUP_SUBTYPES[annotation.type], getBoundingRect(rects));
+	dict.set('QuadPoints', rects.flatMap((rect, i) => getQuadPoints(rect, rotations[i])));
+	return dict;
+}
+
+function createNoteDict(annotation) {
+	let dict = createDict(annotation, 'Text', annotation.position.rects[0]);
+	dict.set('F', NOTE_FLAGS);
+	dict.set('Name', new Name('Comment'));
+	dict.set('Open', false);
+	return dict;
+}
+
+function createInkDict(annotation) {
+	let { paths, width } = annotation.position;
+	let xs = paths.flatMap(path => path.filter((value, i) => i % 2 === 0));
+	let ys = paths.flatMap(path => path.filter((value, i) => i % 2 === 1));
+	let rect = [
+		Math.min(...xs) - width / 2,
+		Math.min(...ys) - width / 2,
+		Math.max(...xs) + width / 2,
+		Math.max(...ys) + width / 2
+	];
+	let dict = createDict(annotation, 'Ink', rect);
+	dict.set('InkList', paths);
+	dict.set('BS', new Map([['W', width]]));
+	return dict;
+}
+
+function createFreeTextDict(annotation) {
+	let { fontSize } = annotation.position;
+	let dict = createDict(annotation, 'FreeText', getPositionBoundingRect(annotation.position));
+	// For FreeText, /C is the background
+	dict.delete('C');
+	let color = getColorComponents(annotation.color).map(formatNumber).join(' ');
+	dict.set('DA', new PDFString(`/Helv ${formatNumber(fontSize)} Tf ${color} rg`));
+	return dict;
+}
+
+function createHighlightAppearance(annotation, rects) {
+	let content = [
+		'/GS0 gs',
+		`${getColorComponents(annotation.color).map(formatNumber).join(' ')} rg`,
+		...rects.map(([x1, y1, x2, y2]) => `${[x1, y1, x2 - x1, y2 - y1].map(formatNumber).join(' ')} re f`)
+	];
+	let resources = new Map([
+		['ExtGState', new Map([['GS0', new Map([['BM', new Name('Multiply')]])]])]
+	]);
+	return createAppearance(getBoundingRect(rects), content, resources);
+}
+
+function createLineAppearance(annotation, rects, rotations) {
+	let color = getColorComponents(annotation.color).map(formatNumber).join(' ');
+	let w = LINE_WIDTH;
+	let content = [`${color} rg`, `${color} RG`, `${formatNumber(w)} w`];
+	rects.forEach((rect, i) => {
+		let [x1, y1, x2, y2] = rect;
+		let rotation = rotations[i] || 0;
+		// Bottom left corner of the text, as it is read
+		let origin = (
+			rotation === 90 && [x2, y1]
+			|| rotation === 180 && [x2, y2]
+			|| rotation === 270 && [x1, y2]
+			|| [x1, y1]
+		);
+		let length = rotation % 180 ? y2 - y1 : x2 - x1;
+		let height = rotation % 180 ? x2 - x1 : y2 - y1;
+		let cos = Math.round(Math.cos(rotation * Math.PI / 180));
+		let sin = Math.round(Math.sin(rotation * Math.PI / 180));
+		// Draw in text space, where the text runs along x and its bottom is at 0
+		content.push('q', `${[cos, sin, -sin, cos, ...origin].map(formatNumber).join(' ')} cm`);
+		if (annotation.type === 'strikeout') {
+			content.push(`${[0, (height - w) / 2, length, w].map(formatNumber).join(' ')} re f`);
+		}
+		else if (annotation.type === 'squiggly') {
+			let period = w * 4;
+			let y = w * 1.5;
+			let path = [`0 ${formatNumber(y)} m`];
+			for (let x = 0, n = 0; x < length; x += period / 2, n++) {
+				// Each half wave is a quadratic curve, written as a cubic one
+				let cy = y + (n % 2 ? -w * 2 : w * 2) * 2 / 3;
+				let end = Math.min(x + period / 2, length);
+				path.push(`${[x + period / 6, cy, end - period / 6, cy, end, y].map(formatNumber).join(' ')} c`);
+			}
+			content.push(...path, 'S');
+		}
+		else {
+			content.push(`${[0, 0, length, w].map(formatNumber).join(' ')} re f`);
+		}
+		content.push('Q');
+	});
+	return createAppearance(getBoundingRect(rects), content);
+}
+
+function createInkAppearance(annotation, rect) {
+	let { paths, width } = annotation.position;
+	let content = [
+		`${formatNumber(width)} w 1 J 1 j`,
+		`${getColorComponents(annotation.color).map(formatNumber).join(' ')} RG`,
+		...paths.map((path) => {
+			let ops = [];
+			for (let i = 0; i < path.length - 1; i += 2) {
+				ops.push(`${formatNumber(path[i])} ${formatNumber(path[i + 1])} ${i ? 'l' : 'm'}`);
+			}
+			// A single point still needs a segment to be drawn
+			if (path.length === 2) {
+				ops.push(`${formatNumber(path[0])} ${formatNumber(path[1])} l`);
+			}
+			return ops.join(' ') + ' S';
+		})
+	];
+	return createAppearance(rect, content);
+}
+
+/**
+ * Text wrapped to the annotation's unrotated width and rotated with it by the appearance's matrix
+ */
+function createFreeTextAppearance(annotation) {
+	let { fontSize, rotation = 0 } = annotation.position;
+	let [x1, y1, x2, y2] = annotation.position.rects[0];
+	let width = x2 - x1;
+	let height = y2 - y1;
+	// Lines below the box would be cut off by it, so they're left out (the full text stays in /Contents)
+	let maxLines = Math.max(1, Math.floor((height - fontSize) / (fontSize * LINE_HEIGHT)) + 1);
+	let lines = wrapText(annotation.comment || '', width, fontSize).slice(0, maxLines);
+	let color = getColorComponents(annotation.color).map(formatNumber).join(' ');
+	let content = ['BT', `/Helv ${formatNumber(fontSize)} Tf`, `${color} rg`];
+	lines.forEach((line, i) => {
+		let y = height - fontSize - i * fontSize * LINE_HEIGHT;
+		content.push(`1 0 0 1 0 ${formatNumber(y)} Tm`, `<${encodeWinAnsi(line)}> Tj`);
+	});
+	content.push('ET');
+	let resources = new Map([
+		['Font', new Map([
+			['Helv', new Map([
+				['Type', new Name('Font')],
+				['Subtype', new Name('Type1')],
+				['BaseFont', new Name('Helvetica')],
+				['Encoding', new Name('WinAnsiEncoding')]
+			])]
+		])]
+	]);
+	let radians = rotation * Math.PI / 180;
+	let matrix = [Math.cos(radians), Math.sin(radians), -Math.sin(radians), Math.cos(radians), 0, 0];
+	return createAppearance([0, 0, width, height], content, resources, matrix);
+}
+
+function createAppearance(bbox, content, resources, matrix) {
+	let dict = new Map([
+		['Type', new Name('XObject')],
+		['Subtype', new Name('Form')],
+		['BBox', bbox]
+	]);
+	if (matrix) {
+		dict.set('Matrix', matrix);
+	}
+	if (resources) {
+		dict.set('Resources', resources);
+	}
+	return new Stream(dict, fromBinaryString(content.join('\n')));
+}
+
+function wrapText(text, width, fontSize) {
+	let measure = string => Array.from(string).reduce((sum, c) => sum + getCharWidth(c), 0) * fontSize / 1000;
+	let lines = [];
+	for (let paragraph of text.split('\n')) {
+		let line = '';
+		for (let word of paragraph.split(/(?<=\s)/)) {
+			if (measure(line + word.trimEnd()) <= width || !line) {
+				line += word;
+			}
+			else {
+				lines.push(line.trimEnd());
+				line = word;
+			}
+			// Break words that don't fit on a line by themselves
+			while (measure(line.trimEnd()) > width && line.length > 1) {
+				let i = line.length - 1;
+				while (i > 1 && measure(line.slice(0, i)) > width) {
+					i--;
+				}
+				lines.push(line.slice(0, i));
+				line = line.slice(i);
+			}
+		}
+		lines.push(line.trimEnd());
+	}
+	return lines;
+}
+
+function getCharWidth(c) {
+	let code = c.charCodeAt(0);
+	return code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH;
+}
+
+/**
+ * @returns {string} Hex-encoded WinAnsiEncoding bytes, with unsupported characters as '?'
+ */
+function encodeWinAnsi(text) {
+	return Array.from(text, (c) => {
+		let code = c.charCodeAt(0);
+		let index = WIN_ANSI_HIGH.indexOf(c);
+		if (code > 0xFF && index !== -1) {
+			code = 0x80 + index;
+		}
+		else if (c.length > 1 || code > 0xFF || code >= 0x80 && code < 0xA0) {
+			code = 0x3F;
+		}
+		return code.toString(16).padStart(2, '0');
+	}).join('');
+}
+
+/**
+ * QuadPoints corners in the order upper left, upper right, lower left, lower right of the text
+ */
+function getQuadPoints([x1, y1, x2, y2], rotation) {
+	if (rotation === 90) {
+		return [x1, y1, x1, y2, x2, y1, x2, y2];
+	}
+	if (rotation === 180) {
+		return [x2, y1, x1, y1, x2, y2, x1, y2];
+	}
+	if (rotation === 270) {
+		return [x2, y2, x2, y1, x1, y2, x1, y1];
+	}
+	return [x1, y2, x2, y2, x1, y1, x2, y1];
+}
+
+function getBoundingRect(rects) {
+	return [
+		Math.min(...rects.map(x => x[0])),
+		Math.min(...rects.map(x => x[1])),
+		Math.max(...rects.map(x => x[2])),
+		Math.max(...rects.map(x => x[3]))
+	];
+}
+
+function getColorComponents(hex = '#000000') {
+	let value = parseInt(hex.replace('#', '').slice(0, 6), 16) || 0;
+	return [(value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF].map(x => Math.round(x / 255 * 1000) / 1000);
+}
+
+/**
+ * PDF text string: PDFDocEncoding for printable ASCII, otherwise UTF-16BE with a byte order mark
+ */
+function textString(text) {
+	if (/^[\x20-\x7e]*$/.test(text)) {
+		return new PDFString(text);
+	}
+	let bytes = '\xFE\xFF';
+	for (let i = 0; i < text.length; i++) {
+		let code = text.charCodeAt(i);
+		bytes += String.fromCharCode(code >> 8, code & 0xFF);
+	}
+	return new PDFString(bytes);
+}
+
+function dateString(date) {
+	let iso = new Date(date).toISOString();
+	return new PDFString(`D:${iso.slice(0, 19).replace(/[-:T]/g, '')}Z`);
+}
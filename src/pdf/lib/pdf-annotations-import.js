@@ -0,0 +1,161 @@
+/**
+ * Reading annotations embedded in a PDF file, from the annotation data pdf.js extracts
+ * (PDFPageProxy.getAnnotations()), into reader annotation objects
+ * Text, sort index and page label are left to the view, which has the page chars and labels.
+ */
+
+import { ANNOTATION_COLORS, MARKUP_ANNOTATION_TYPES, PDF_NOTE_DIMENSIONS } from '../../common/defines';
+
+// Subtype → annotation type
+const ANNOTATION_TYPES = {
+	Highlight: 'highlight',
+	Underline: 'underline',
+	StrikeOut: 'strikeout',
+	Squiggly: 'squiggly',
+	Ink: 'ink',
+	FreeText: 'text',
+	Text: 'note'
+};
+
+const DEFAULT_FONT_SIZE = 12;
+
+/**
+ * @param {Object[][]} pages pdf.js annotation data for each page
+ * @returns {Object[]} New annotations without sortIndex, pageLabel and text
+ */
+export function parsePDFAnnotations(pages) {
+	let annotations = [];
+	let byID = new Map();
+	pages.forEach((items, pageIndex) => {
+		for (let data of items) {
+			let type = ANNOTATION_TYPES[data.subtype];
+			if (!type) {
+				continue;
+			}
+			// Markup continuing on the next page, as written by exportAnnotationsToPDF()
+			if (data.inReplyTo && data.replyType === 'Group') {
+				let parent = byID.get(data.inReplyTo);
+				if (parent && parent.type === type && parent.position.pageIndex === pageIndex - 1
+						&& !parent.position.nextPageRects && data.quadPoints) {
+					parent.position.nextPageRects = getQuadRects(data.quadPoints);
+				}
+				continue;
+			}
+			// Replies are comments on other annotations rather than annotations themselves
+			if (data.inReplyTo) {
+				continue;
+			}
+			let annotation = parseAnnotation(data, type, pageIndex);
+			if (annotation) {
+				annotations.push(annotation);
+				byID.set(data.id, annotation);
+			}
+		}
+	});
+	return annotations;
+}
+
+function parseAnnotation(data, type, pageIndex) {
+	let annotation = {
+		type,
+		color: getColor(data) || (type === 'strikeout' ? ANNOTATION_COLORS[1][1] : ANNOTATION_COLORS[0][1]),
+		comment: getText(data.contentsObj ?? data.contents),
+		authorName: getText(data.titleObj ?? data.title),
+		isAuthorNameAuthoritative: false
+	};
+	let dateModified = parsePDFDate(data.modificationDate);
+	let dateCreated = parsePDFDate(data.creationDate) || dateModified;
+	if (dateCreated) {
+		annotation.dateCreated = dateCreated;
+		annotation.dateModified = dateModified || dateCreated;
+	}
+
+	let [x1, y1, x2, y2] = data.rect;
+	if (MARKUP_ANNOTATION_TYPES.includes(type)) {
+		let rects = data.quadPoints ? getQuadRects(data.quadPoints) : [data.rect];
+		if (!rects.length) {
+			return null;
+		}
+		annotation.position = { pageIndex, rects };
+	}
+	else if (type === 'ink') {
+		let paths = (data.inkLists || []).map(getPoints).filter(path => path.length);
+		if (!paths.length) {
+			return null;
+		}
+		annotation.position = { pageIndex, width: data.borderStyle?.width || 1, paths };
+	}
+	else if (type === 'text') {
+		let rotation = data.rotation || 0;
+		let rect = data.rect;
+		// The rect is the bounding box of the rotated text box
+		if (rotation % 180) {
+			let cx = (x1 + x2) / 2;
+			let cy = (y1 + y2) / 2;
+			rect = [cx - (y2 - y1) / 2, cy - (x2 - x1) / 2, cx + (y2 - y1) / 2, cy + (x2 - x1) / 2];
+		}
+		annotation.comment = data.textContent?.join('\n') || annotation.comment;
+		annotation.position = {
+			pageIndex,
+			fontSize: data.defaultAppearanceData?.fontSize || DEFAULT_FONT_SIZE,
+			rotation,
+			rects: [rect]
+		};
+	}
+	else if (type === 'note') {
+		// The icon is anchored at the top left corner of the rect
+		annotation.position = {
+			pageIndex,
+			rects: [[x1, y2 - PDF_NOTE_DIMENSIONS, x1 + PDF_NOTE_DIMENSIONS, y2]]
+		};
+	}
+	return annotation;
+}
+
+/**
+ * Bounding rects of QuadPoints, which pdf.js gives either as a flat array of coordinates
+ * or as arrays of four { x, y } points
+ */
+function getQuadRects(quadPoints) {
+	let points = Array.isArray(quadPoints[0]) ? quadPoints.flatMap(quad => getPoints(quad)) : Array.from(quadPoints);
+	let rects = [];
+	for (let i = 0; i + 8 <= points.length; i += 8) {
+		let xs = [points[i], points[i + 2], points[i + 4], points[i + 6]];
+		let ys = [points[i + 1], points[i + 3], points[i + 5], points[i + 7]];
+		rects.push([Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]);
+	}
+	return rects;
+}
+
+function getPoints(list) {
+	return Array.from(list).flatMap(point => (typeof point === 'number' ? [point] : [point.x, point.y]));
+}
+
+function getColor(data) {
+	if (!data.color || data.color.length !== 3) {
+		return null;
+	}
+	return '#' + Array.from(data.color, x => Math.round(x).toString(16).padStart(2, '0')).join('');
+}
+
+function getText(value) {
+	return (typeof value === 'string' ? value : value?.str || '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * @param {string} [date] PDF date string, e.g. D:20240102030405+01'00'
+ * @returns {string|undefined} ISO 8601
+ */
+export function parsePDFDate(date) {
+	let match = date?.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+-])?(\d{2})?'?(\d{2})?/);
+	if (!match) {
+		return undefined;
+	}
+	let [, year, month = '01', day = '01', hours = '00', minutes = '00', seconds = '00', sign, offsetHours = '00', offsetMinutes = '00'] = match;
+	let time = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+	if (sign === '+' || sign === '-') {
+		time -= (sign === '+' ? 1 : -1) * (offsetHours * 60 + Number(offsetMinutes)) * 60000;
+	}
+	let result = new Date(time);
+	return isNaN(result.getTime()) ? undefined : result.toISOString();
+}
@@ -0,0 +1,811 @@
+/**
+ * Minimal PDF file reading and incremental updating
+ * Only what's needed to find the page objects and append new or changed objects to an existing file
+ * without rewriting it. Content isn't interpreted, and encrypted files aren't supported.
+ */
+
+const WHITESPACE = [0x00, 0x09, 0x0A, 0x0C, 0x0D, 0x20];
+const DELIMITERS = '()<>[]{}/%'.split('').map(c => c.charCodeAt(0));
+const STRING_ESCAPES = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+export class EncryptedPDFError extends Error {
+	constructor() {
+		super('PDF: encrypted documents are not supported');
+		this.name = 'EncryptedPDFError';
+	}
+}
+
+export class Ref {
+	constructor(num, gen) {
+		this.num = num;
+		this.gen = gen;
+	}
+}
+
+export class Name {
+	constructor(name) {
+		this.name = name;
+	}
+}
+
+/**
+ * A string object's bytes, as a binary string
+ */
+export class PDFString {
+	constructor(bytes) {
+		this.bytes = bytes;
+	}
+}
+
+/**
+ * A stream object's dictionary and its still encoded data
+ */
+export class Stream {
+	constructor(dict, bytes) {
+		this.dict = dict;
+		this.bytes = bytes;
+	}
+}
+
+class Parser {
+	constructor(bytes, pos = 0) {
+		this.bytes = bytes;
+		this.pos = pos;
+	}
+
+	skipWhitespace() {
+		let { bytes } = this;
+		while (this.pos < bytes.length) {
+			if (WHITESPACE.includes(bytes[this.pos])) {
+				this.pos++;
+			}
+			else if (bytes[this.pos] === 0x25) {
+				while (this.pos < bytes.length && bytes[this.pos] !== 0x0A && bytes[this.pos] !== 0x0D) {
+					this.pos++;
+				}
+			}
+			else {
+				break;
+			}
+		}
+	}
+
+	readToken() {
+		this.skipWhitespace();
+		let start = this.pos;
+		while (this.pos < this.bytes.length && !isDelimiterOrWhitespace(this.bytes[this.pos])) {
+			this.pos++;
+		}
+		return toBinaryString(this.bytes.subarray(start, this.pos));
+	}
+
+	peekToken() {
+		let pos = this.pos;
+		let token = this.readToken();
+		this.pos = pos;
+		return token;
+	}
+
+	parseObject() {
+		this.skipWhitespace();
+		let c = this.bytes[this.pos];
+		if (c === 0x2F) {
+			return this._parseName();
+		}
+		if (c === 0x28) {
+			return this._parseLiteralString();
+		}
+		if (c === 0x3C) {
+			if (this.bytes[this.pos + 1] === 0x3C) {
+				return this._parseDict();
+			}
+			return this._parseHexString();
+		}
+		if (c === 0x5B) {
+			this.pos++;
+			let array = [];
+			for (;;) {
+				this.skipWhitespace();
+				if (this.pos >= this.bytes.length) {
+					throw new Error('PDF: unterminated array');
+				}
+				if (this.bytes[this.pos] === 0x5D) {
+					this.pos++;
+					return array;
+				}
+				array.push(this.parseObject());
+			}
+		}
+
+		let token = this.readToken();
+		if (token === 'true' || token === 'false') {
+			return token === 'true';
+		}
+		if (token === 'null') {
+			return null;
+		}
+		if (!/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+			throw new Error(`PDF: unexpected token '${token}' at ${this.pos}`);
+		}
+		let number = parseFloat(token);
+		// An indirect reference is two integers followed by 'R'
+		if (/^\d+$/.test(token)) {
+			let pos = this.pos;
+			let gen = this.readToken();
+			if (/^\d+$/.test(gen) && this.readToken() === 'R') {
+				return new Ref(number, parseInt(gen));
+			}
+			this.pos = pos;
+		}
+		return number;
+	}
+
+	_parseName() {
+		this.pos++;
+		let name = this.readToken();
+		return new Name(name.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+	}
+
+	_parseDict() {
+		this.pos += 2;
+		let dict = new Map();
+		for (;;) {
+			this.skipWhitespace();
+			if (this.pos >= this.bytes.length) {
+				throw new Error('PDF: unterminated dictionary');
+			}
+			if (this.bytes[this.pos] === 0x3E && this.bytes[this.pos + 1] === 0x3E) {
+				this.pos += 2;
+				return dict;
+			}
+			let key = this.parseObject();
+			if (!(key instanceof Name)) {
+				throw new Error(`PDF: invalid dictionary key at ${this.pos}`);
+			}
+			dict.set(key.name, this.parseObject());
+		}
+	}
+
+	_parseLiteralString() {
+		let { bytes } = this;
+		let result = '';
+		let depth = 0;
+		this.pos++;
+		while (this.pos < bytes.length) {
+			let c = String.fromCharCode(bytes[this.pos++]);
+			if (c === '\\') {
+				let next = String.fromCharCode(bytes[this.pos++]);
+				if (STRING_ESCAPES[next]) {
+					result += STRING_ESCAPES[next];
+				}
+				else if (/[0-7]/.test(next)) {
+					let octal = next;
+					while (octal.length < 3 && /[0-7]/.test(String.fromCharCode(bytes[this.pos]))) {
+						octal += String.fromCharCode(bytes[this.pos++]);
+					}
+					result += String.fromCharCode(parseInt(octal, 8) & 0xFF);
+				}
+				else if (next === '\r') {
+					// Line continuation
+					if (bytes[this.pos] === 0x0A) {
+						this.pos++;
+					}
+				}
+				else if (next !== '\n') {
+					result += next;
+				}
+			}
+			else if (c === '(') {
+				depth++;
+				result += c;
+			}
+			else if (c === ')') {
+				if (!depth) {
+					return new PDFString(result);
+				}
+				depth--;
+				result += c;
+			}
+			else {
+				result += c;
+			}
+		}
+		throw new Error('PDF: unterminated string');
+	}
+
+	_parseHexString() {
+		let end = this.bytes.indexOf(0x3E, this.pos);
+		if (end === -1) {
+			throw new Error('PDF: unterminated hex string');
+		}
+		let hex = toBinaryString(this.bytes.subarray(this.pos + 1, end)).replace(/[^0-9a-fA-F]/g, '');
+		this.pos = end + 1;
+		if (hex.length % 2) {
+			hex += '0';
+		}
+		let result = '';
+		for (let i = 0; i < hex.length; i += 2) {
+			result += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+		}
+		return new PDFString(result);
+	}
+}
+
+export class PDFFile {
+	constructor(buf) {
+		this._bytes = new Uint8Array(buf);
+		// Object number → { type: 0 } (free), { type: 1, offset, gen } or { type: 2, streamNum, index }
+		this._entries = new Map();
+		this._objects = new Map();
+		this._objectStreams = new Map();
+		this._startXRef = null;
+		this._usesXRefStreams = false;
+		this.trailer = null;
+		this._nextNum = 0;
+	}
+
+	async load() {
+		try {
+			await this._readXRefChain();
+		}
+		catch (e) {
+			console.warn('PDF: broken cross-reference table, reconstructing', e);
+			this._entries.clear();
+			await this._reconstructXRef();
+		}
+		if (!this.trailer || !(this.trailer.get('Root') instanceof Ref)) {
+			throw new Error('PDF: document catalog not found');
+		}
+		if (this.trailer.has('Encrypt')) {
+			throw new EncryptedPDFError();
+		}
+		this._nextNum = this.trailer.get('Size') || 0;
+		for (let num of this._entries.keys()) {
+			this._nextNum = Math.max(this._nextNum, num + 1);
+		}
+	}
+
+	/**
+	 * @param {*} value
+	 * @returns {Promise<*>} The object a reference points to, or the value itself
+	 */
+	async resolve(value) {
+		if (!(value instanceof Ref)) {
+			return value;
+		}
+		if (this._objects.has(value.num)) {
+			return this._objects.get(value.num);
+		}
+		let entry = this._entries.get(value.num);
+		let object = null;
+		if (entry?.type === 1) {
+			object = (await this._parseIndirectObject(entry.offset)).object;
+		}
+		else if (entry?.type === 2) {
+			object = await this._getCompressedObject(entry.streamNum, entry.index);
+		}
+		this._objects.set(value.num, object);
+		return object;
+	}
+
+	/**
+	 * @returns {Promise<{ ref: Ref, dict: Map<string, *> }[]>} Page objects in document order
+	 */
+	async getPages() {
+		let catalog = await this.resolve(this.trailer.get('Root'));
+		let pages = [];
+		let visited = new Set();
+		let visit = async (ref) => {
+			if (!(ref instanceof Ref) || visited.has(ref.num)) {
+				return;
+			}
+			visited.add(ref.num);
+			let dict = await this.resolve(ref);
+			if (!(dict instanceof Map)) {
+				return;
+			}
+			let kids = await this.resolve(dict.get('Kids'));
+			if (Array.isArray(kids)) {
+				for (let kid of kids) {
+					await visit(kid);
+				}
+			}
+			else {
+				pages.push({ ref, dict });
+			}
+		};
+		await visit(catalog?.get('Pages'));
+		return pages;
+	}
+
+	/**
+	 * @returns {Ref} A reference for a new object
+	 */
+	allocateRef() {
+		return new Ref(this._nextNum++, 0);
+	}
+
+	/**
+	 * Append objects as an incremental update
+	 *
+	 * @param {{ ref: Ref, value: * }[]} objects New objects and new versions of existing ones
+	 * @returns {Uint8Array}
+	 */
+	save(objects) {
+		let chunks = [this._bytes];
+		let length = this._bytes.length;
+		let write = (data) => {
+			if (typeof data === 'string') {
+				data = fromBinaryString(data);
+			}
+			chunks.push(data);
+			length += data.length;
+		};
+
+		let last = this._bytes[this._bytes.length - 1];
+		if (last !== 0x0A && last !== 0x0D) {
+			write('\n');
+		}
+		let offsets = new Map();
+		for (let { ref, value } of objects) {
+			offsets.set(ref.num, { offset: length, gen: ref.gen });
+			write(`${ref.num} ${ref.gen} obj\n`);
+			if (value instanceof Stream) {
+				let dict = new Map(value.dict);
+				dict.set('Length', value.bytes.length);
+				write(`${serialize(dict)}\nstream\n`);
+				write(value.bytes);
+				write('\nendstream');
+			}
+			else {
+				write(serialize(value));
+			}
+			write('\nendobj\n');
+		}
+
+		let trailer = new Map();
+		for (let key of ['Root', 'Info', 'ID']) {
+			if (this.trailer.has(key)) {
+				trailer.set(key, this.trailer.get(key));
+			}
+		}
+		// Without a usable previous cross-reference section, the new one has to list every object
+		let entries = new Map(this._startXRef === null ? [[0, { type: 0 }], ...this._entries] : []);
+		for (let [num, { offset, gen }] of offsets) {
+			entries.set(num, { type: 1, offset, gen });
+		}
+		if (this._startXRef !== null) {
+			trailer.set('Prev', this._startXRef);
+		}
+
+		let startXRef = length;
+		if (this._usesXRefStreams || this._startXRef === null) {
+			let ref = this.allocateRef();
+			entries.set(ref.num, { type: 1, offset: startXRef, gen: 0 });
+			trailer.set('Size', this._nextNum);
+			write(`${ref.num} 0 obj\n`);
+			let data = createXRefStreamData(entries);
+			trailer.set('Type', new Name('XRef'));
+			trailer.set('W', [1, 4, 2]);
+			trailer.set('Index', data.index);
+			trailer.set('Length', data.bytes.length);
+			write(`${serialize(trailer)}\nstream\n`);
+			write(data.bytes);
+			write('\nendstream\nendobj\n');
+		}
+		else {
+			trailer.set('Size', this._nextNum);
+			write('xref\n');
+			let nums = [...entries.keys()].sort((a, b) => a - b);
+			for (let [start, count] of getRanges(nums)) {
+				write(`${start} ${count}\n`);
+				for (let num = start; num < start + count; num++) {
+					let { offset, gen } = entries.get(num);
+					write(`${String(offset).padStart(10, '0')} ${String(gen).padStart(5, '0')} n\r\n`);
+				}
+			}
+			write(`trailer\n${serialize(trailer)}\n`);
+		}
+		write(`startxref\n${startXRef}\n%%EOF\n`);
+
+		let result = new Uint8Array(length);
+		let pos = 0;
+		for (let chunk of chunks) {
+			result.set(chunk, pos);
+			pos += chunk.length;
+		}
+		return result;
+	}
+
+	async _readXRefChain() {
+		let tail = toBinaryString(this._bytes.subarray(Math.max(0, this._bytes.length - 1024)));
+		let match = tail.match(/startxref\s+(\d+)\s*(?:%%EOF)?\s*$/) || tail.match(/startxref\s+(\d+)(?![\s\S]*startxref)/);
+		if (!match) {
+			throw new Error('PDF: startxref not found');
+		}
+		let offset = parseInt(match[1]);
+		let visited = new Set();
+		let first = true;
+		while (Number.isInteger(offset) && !visited.has(offset)) {
+			visited.add(offset);
+			let { trailer, isStream } = await this._readXRefSection(offset);
+			if (first) {
+				this.trailer = trailer;
+				this._usesXRefStreams = isStream;
+				this._startXRef = offset;
+				first = false;
+			}
+			// Hybrid files keep compressed objects in a separate cross-reference stream
+			if (trailer.get('XRefStm')) {
+				await this._readXRefSection(trailer.get('XRefStm'));
+			}
+			offset = trailer.get('Prev');
+		}
+	}
+
+	async _readXRefSection(offset) {
+		let parser = new Parser(this._bytes, offset);
+		if (parser.peekToken() === 'xref') {
+			parser.readToken();
+			for (;;) {
+				let token = parser.readToken();
+				if (token === 'trailer') {
+					break;
+				}
+				let start = parseInt(token);
+				let count = parseInt(parser.readToken());
+				if (!Number.isInteger(start) || !Number.isInteger(count)) {
+					throw new Error(`PDF: invalid cross-reference table at ${offset}`);
+				}
+				for (let i = 0; i < count; i++) {
+					let entryOffset = parseInt(parser.readToken());
+					let gen = parseInt(parser.readToken());
+					let type = parser.readToken();
+					// Entries from newer sections, read first, take precedence
+					if (!this._entries.has(start + i)) {
+						this._entries.set(start + i, type === 'n' ? { type: 1, offset: entryOffset, gen } : { type: 0 });
+					}
+				}
+			}
+			let trailer = parser.parseObject();
+			if (!(trailer instanceof Map)) {
+				throw new Error(`PDF: invalid trailer at ${offset}`);
+			}
+			return { trailer, isStream: false };
+		}
+
+		let { object: stream } = await this._parseIndirectObject(offset);
+		if (!(stream instanceof Stream) || stream.dict.get('Type')?.name !== 'XRef') {
+			throw new Error(`PDF: invalid cross-reference stream at ${offset}`);
+		}
+		let data = await this._decodeStream(stream);
+		let widths = stream.dict.get('W');
+		let index = stream.dict.get('Index') || [0, stream.dict.get('Size')];
+		let pos = 0;
+		let readField = (width, defaultValue) => {
+			if (!width) {
+				return defaultValue;
+			}
+			let value = 0;
+			for (let i = 0; i < width; i++) {
+				value = value * 256 + data[pos++];
+			}
+			return value;
+		};
+		for (let i = 0; i < index.length; i += 2) {
+			for (let num = index[i]; num < index[i] + index[i + 1]; num++) {
+				let type = readField(widths[0], 1);
+				let field2 = readField(widths[1], 0);
+				let field3 = readField(widths[2], 0);
+				if (this._entries.has(num)) {
+					continue;
+				}
+				if (type === 1) {
+					this._entries.set(num, { type: 1, offset: field2, gen: field3 });
+				}
+				else if (type === 2) {
+					this._entries.set(num, { type: 2, streamNum: field2, index: field3 });
+				}
+				else {
+					this._entries.set(num, { type: 0 });
+				}
+			}
+		}
+		return { trailer: stream.dict, isStream: true };
+	}
+
+	/**
+	 * Rebuild cross-reference entries by scanning the file for objects
+	 */
+	async _reconstructXRef() {
+		let text = toBinaryString(this._bytes);
+		let regexp = /(?:^|[\r\n\s])(\d+)\s+(\d+)\s+obj\b/g;
+		let match;
+		while ((match = regexp.exec(text))) {
+			let offset = match.index + match[0].length - match[0].replace(/^[\r\n\s]/, '').length;
+			// Later definitions override earlier ones
+			this._entries.set(parseInt(match[1]), { type: 1, offset, gen: parseInt(match[2]) });
+		}
+		this._startXRef = null;
+		this._usesXRefStreams = true;
+
+		for (let [num, entry] of [...this._entries]) {
+			let object;
+			try {
+				({ object } = await this._parseIndirectObject(entry.offset));
+			}
+			catch (e) {
+				continue;
+			}
+			let type = object instanceof Stream && object.dict.get('Type')?.name;
+			if (type === 'ObjStm') {
+				let { offsets } = await this._getObjectStream(num);
+				offsets.forEach(([objectNum], index) => {
+					if (!this._entries.has(objectNum)) {
+						this._entries.set(objectNum, { type: 2, streamNum: num, index });
+					}
+				});
+			}
+			else if (type === 'XRef' && object.dict.get('Root')) {
+				this.trailer = object.dict;
+			}
+		}
+		let trailerIndex = text.lastIndexOf('trailer');
+		if (trailerIndex !== -1) {
+			try {
+				let trailer = new Parser(this._bytes, trailerIndex + 7).parseObject();
+				if (trailer instanceof Map && trailer.get('Root')) {
+					this.trailer = trailer;
+				}
+			}
+			catch (e) {
+				console.warn(e);
+			}
+		}
+	}
+
+	async _parseIndirectObject(offset) {
+		let parser = new Parser(this._bytes, offset);
+		let num = parseInt(parser.readToken());
+		let gen = parseInt(parser.readToken());
+		if (!Number.isInteger(num) || !Number.isInteger(gen) || parser.readToken() !== 'obj') {
+			throw new Error(`PDF: invalid object at ${offset}`);
+		}
+		let object = parser.parseObject();
+		if (object instanceof Map && parser.peekToken() === 'stream') {
+			parser.readToken();
+			// The keyword is followed by CRLF or LF
+			if (this._bytes[parser.pos] === 0x0D) {
+				parser.pos++;
+			}
+			if (this._bytes[parser.pos] === 0x0A) {
+				parser.pos++;
+			}
+			let start = parser.pos;
+			let length = object.get('Length');
+			if (length instanceof Ref) {
+				length = this._entries.get(length.num)?.type === 1
+					? (await this._parseIndirectObject(this._entries.get(length.num).offset)).object
+					: null;
+			}
+			let end = start + length;
+			let endParser = new Parser(this._bytes, end);
+			if (!Number.isInteger(length) || endParser.readToken() !== 'endstream') {
+				end = findSequence(this._bytes, 'endstream', start);
+				if (end === -1) {
+					throw new Error(`PDF: unterminated stream at ${offset}`);
+				}
+				while (end > start && WHITESPACE.includes(this._bytes[end - 1])) {
+					end--;
+				}
+			}
+			object = new Stream(object, this._bytes.subarray(start, end));
+		}
+		return { num, gen, object };
+	}
+
+	async _getObjectStream(num) {
+		if (!this._objectStreams.has(num)) {
+			let entry = this._entries.get(num);
+			if (entry?.type !== 1) {
+				throw new Error(`PDF: object stream ${num} not found`);
+			}
+			let { object: stream } = await this._parseIndirectObject(entry.offset);
+			let data = await this._decodeStream(stream);
+			let parser = new Parser(data);
+			let offsets = [];
+			for (let i = 0; i < stream.dict.get('N'); i++) {
+				offsets.push([parseInt(parser.readToken()), parseInt(parser.readToken())]);
+			}
+			this._objectStreams.set(num, { data, first: stream.dict.get('First'), offsets });
+		}
+		return this._objectStreams.get(num);
+	}
+
+	async _getCompressedObject(streamNum, index) {
+		let { data, first, offsets } = await this._getObjectStream(streamNum);
+		if (!offsets[index]) {
+			return null;
+		}
+		return new Parser(data, first + offsets[index][1]).parseObject();
+	}
+
+	async _decodeStream(stream) {
+		let filters = await this.resolve(stream.dict.get('Filter'));
+		let params = await this.resolve(stream.dict.get('DecodeParms'));
+		filters = Array.isArray(filters) ? filters : [filters].filter(Boolean);
+		params = Array.isArray(params) ? params : [params];
+		let data = stream.bytes;
+		for (let i = 0; i < filters.length; i++) {
+			if (filters[i].name !== 'FlateDecode') {
+				throw new Error(`PDF: unsupported stream filter ${filters[i].name}`);
+			}
+			data = await inflate(data);
+			let predictor = params[i]?.get('Predictor') || 1;
+			if (predictor >= 10) {
+				data = removePNGPredictor(data, params[i]);
+			}
+			else if (predictor !== 1) {
+				throw new Error(`PDF: unsupported predictor ${predictor}`);
+			}
+		}
+		return data;
+	}
+}
+
+/**
+ * @param {*} value
+ * @returns {string} PDF syntax for a direct object
+ */
+export function serialize(value) {
+	if (value === null || value === undefined) {
+		return 'null';
+	}
+	if (typeof value === 'boolean') {
+		return String(value);
+	}
+	if (typeof value === 'number') {
+		return formatNumber(value);
+	}
+	if (value instanceof Ref) {
+		return `${value.num} ${value.gen} R`;
+	}
+	if (value instanceof Name) {
+		return '/' + value.name.replace(/[^!-~]|[()<>[\]{}/%#]/g, c => '#' + c.charCodeAt(0).toString(16).padStart(2, '0'));
+	}
+	if (value instanceof PDFString) {
+		return '<' + Array.from(value.bytes, c => c.charCodeAt(0).toString(16).padStart(2, '0')).join('') + '>';
+	}
+	if (Array.isArray(value)) {
+		return '[' + value.map(serialize).join(' ') + ']';
+	}
+	if (value instanceof Map) {
+		let entries = [...value].filter(([, v]) => v !== undefined);
+		return '<<' + entries.map(([key, v]) => `${serialize(new Name(key))} ${serialize(v)}`).join(' ') + '>>';
+	}
+	throw new Error('PDF: unable to serialize a stream as a direct object');
+}
+
+export function formatNumber(number) {
+	if (Number.isInteger(number)) {
+		return String(number);
+	}
+	return number.toFixed(4).replace(/\.?0+$/, '');
+}
+
+function isDelimiterOrWhitespace(c) {
+	return WHITESPACE.includes(c) || DELIMITERS.includes(c);
+}
+
+export function toBinaryString(bytes) {
+	let result = '';
+	for (let i = 0; i < bytes.length; i += 8192) {
+		result += String.fromCharCode(...bytes.subarray(i, i + 8192));
+	}
+	return result;
+}
+
+export function fromBinaryString(string) {
+	let bytes = new Uint8Array(string.length);
+	for (let i = 0; i < string.length; i++) {
+		bytes[i] = string.charCodeAt(i) & 0xFF;
+	}
+	return bytes;
+}
+
+function findSequence(bytes, sequence, start) {
+	let first = sequence.charCodeAt(0);
+	for (let i = bytes.indexOf(first, start); i !== -1; i = bytes.indexOf(first, i + 1)) {
+		let j = 1;
+		while (j < sequence.length && bytes[i + j] === sequence.charCodeAt(j)) {
+			j++;
+		}
+		if (j === sequence.length) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+async function inflate(bytes) {
+	let stream = new Blob([bytes]).stream().pipeThrough(new window.DecompressionStream('deflate'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function removePNGPredictor(data, params) {
+	let colors = params.get('Colors') || 1;
+	let bitsPerComponent = params.get('BitsPerComponent') || 8;
+	let columns = params.get('Columns') || 1;
+	let bytesPerPixel = Math.max(1, Math.ceil(colors * bitsPerComponent / 8));
+	let rowLength = Math.ceil(columns * colors * bitsPerComponent / 8);
+	let rows = Math.floor(data.length / (rowLength + 1));
+	let result = new Uint8Array(rows * rowLength);
+	for (let row = 0; row < rows; row++) {
+		let type = data[row * (rowLength + 1)];
+		let input = data.subarray(row * (rowLength + 1) + 1, (row + 1) * (rowLength + 1));
+		let offset = row * rowLength;
+		for (let i = 0; i < rowLength; i++) {
+			let left = i >= bytesPerPixel ? result[offset + i - bytesPerPixel] : 0;
+			let up = row ? result[offset + i - rowLength] : 0;
+			let upLeft = row && i >= bytesPerPixel ? result[offset + i - rowLength - bytesPerPixel] : 0;
+			let value;
+			if (type === 1) {
+				value = left;
+			}
+			else if (type === 2) {
+				value = up;
+			}
+			else if (type === 3) {
+				value = (left + up) >> 1;
+			}
+			else if (type === 4) {
+				let p = left + up - upLeft;
+				let pa = Math.abs(p - left);
+				let pb = Math.abs(p - up);
+				let pc = Math.abs(p - upLeft);
+				value = pa <= pb && pa <= pc ? left : (pb <= pc ? up : upLeft);
+			}
+			else {
+				value = 0;
+			}
+			result[offset + i] = (input[i] + value) & 0xFF;
+		}
+	}
+	return result;
+}
+
+/**
+ * Group sorted numbers into [start, count] ranges of consecutive numbers
+ */
+function getRanges(nums) {
+	let ranges = [];
+	for (let num of nums) {
+		let range = ranges[ranges.length - 1];
+		if (range && range[0] + range[1] === num) {
+			range[1]++;
+		}
+		else {
+			ranges.push([num, 1]);
+		}
+	}
+	return ranges;
+}
+
+function createXRefStreamData(entries) {
+	let nums = [...entries.keys()].sort((a, b) => a - b);
+	let bytes = new Uint8Array(nums.length * 7);
+	nums.forEach((num, i) => {
+		let entry = entries.get(num);
+		let fields = entry.type === 1 && [1, entry.offset, entry.gen]
+			|| entry.type === 2 && [2, entry.streamNum, entry.index]
+			|| [0, 0, 0];
+		let pos = i * 7;
+		bytes[pos] = fields[0];
+		for (let j = 0; j < 4; j++) {
+			bytes[pos + 1 + j] = Math.floor(fields[1] / 256 ** (3 - j)) & 0xFF;
+		}
+		bytes[pos + 5] = (fields[2] >> 8) & 0xFF;
+		bytes[pos + 6] = fields[2] & 0xFF;
+	});
+	return { index: getRanges(nums).flat(), bytes };
+}
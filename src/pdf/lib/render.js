@@ -6,6 +6,7 @@ import {
 } from './utilities';
 import { getRectRotationOnText } from '../selection';
 import view from '../../common/view';
+import { LINE_MARKUP_ANNOTATION_TYPES } from '../../common/defines';
 
 function calculateLines(context, text, maxWidth) {
 	let words = text.split(' ');
@@ -44,6 +45,52 @@ function calculateLines(context, text, maxWidth) {
 	return lines;
 }
 
+/**
+ * Draw an underline, strikeout or squiggly line for a text rect
+ *
+ * @param {CanvasRenderingContext2D} ctx With fillStyle and strokeStyle set
+ * @param {string} type underline, strikeout or squiggly
+ * @param {number[]} rect View rect of the text
+ * @param {number} rotation Text rotation on the view, in degrees
+ * @param {number} width Line width
+ */
+export function drawLineMarkup(ctx, type, rect, rotation, width) {
+	let [x1, y1, x2, y2] = rect;
+	// Bottom left corner of the text, as it is read
+	let origin = (
+		rotation === 0 && [x1, y2]
+		|| rotation === 90 && [x2, y2]
+		|| rotation === 180 && [x2, y1]
+		|| rotation === 270 && [x1, y1]
+	);
+	let length = rotation % 180 ? y2 - y1 : x2 - x1;
+	let height = rotation % 180 ? x2 - x1 : y2 - y1;
+	ctx.save();
+	// Draw in text space, where the text runs along x and its top is at -height
+	ctx.translate(...origin);
+	ctx.rotate(-rotation * Math.PI / 180);
+	if (type === 'strikeout') {
+		ctx.fillRect(0, -(height + width) / 2, length, width);
+	}
+	else if (type === 'squiggly') {
+		let amplitude = width;
+		let period = width * 4;
+		let y = -amplitude - width / 2;
+		ctx.lineWidth = width;
+		ctx.beginPath();
+		ctx.moveTo(0, y);
+		for (let x = 0, i = 0; x < length; x += period / 2, i++) {
+			let dy = i % 2 ? amplitude * 2 : -amplitude * 2;
+			ctx.quadraticCurveTo(x + period / 4, y + dy, Math.min(x + period / 2, length), y);
+		}
+		ctx.stroke();
+	}
+	else {
+		ctx.fillRect(0, -width, length, width);
+	}
+	ctx.restore();
+}
+
 export function drawAnnotationsOnCanvas(canvas, viewport, annotations, pageIndex, pdfPages) {
 	let ctx = canvas.getContext('2d', { alpha: false });
 
@@ -73,10 +120,11 @@ export function drawAnnotationsOnCanvas(canvas, viewport, annotations, pageIndex
 				ctx.fillRect(rect[0], rect[1], rect[2] - rect[0], rect[3] - rect[1]);
 			}
 		}
-		else if (annotation.type === 'underline') {
+		else if (LINE_MARKUP_ANNOTATION_TYPES.includes(annotation.type)) {
 			let color = annotation.color;
 			let pageData = pdfPages[pageIndex];
 			ctx.fillStyle = color;
+			ctx.strokeStyle = color;
 			let rects;
 			let pdfRect;
 			if (position.nextPageRects && position.pageIndex + 1 === pageIndex) {
@@ -90,9 +138,9 @@ export function drawAnnotationsOnCanvas(canvas, viewport, annotations, pageIndex
 			let width = 1;
 			width *= viewport.scale;
 			for (let rect of rects) {
-				// Note: This gets underline line rect taking into account text rotation,
+				// Note: This gets line direction taking into account text rotation,
 				// if pageData exists, otherwise just uses 0 degrees, which
-				// result in incorrect underline annotation rendering
+				// result in incorrect line annotation rendering
 				let rotation = 0;
 				if (pageData) {
 					let { chars } = pageData;
@@ -101,14 +149,7 @@ export function drawAnnotationsOnCanvas(canvas, viewport, annotations, pageIndex
 				// Add page rotation to text rotation
 				rotation += getRotationDegrees(viewport.transform);
 				rotation = normalizeDegrees(rotation);
-				let [x1, y1, x2, y2] = rect;
-				let rect2 = (
-					rotation === 0 && [x1, y2 - width, x2, y2]
-					|| rotation === 90 && [x2 - width, y2, x2, y1]
-					|| rotation === 180 && [x1, y1, x2, y1 - width]
-					|| rotation === 270 && [x1, y2, x1 - width, y1]
-				);
-				ctx.fillRect(rect2[0], rect2[1], rect2[2] - rect2[0], rect2[3] - rect2[1]);
+				drawLineMarkup(ctx, annotation.type, rect, rotation, width);
 			}
 		}
 		else if (annotation.type === 'note') {
@@ -15,11 +15,13 @@ import {
 	FIND_RESULT_COLOR_ALL_LIGHT,
 	FIND_RESULT_COLOR_CURRENT_DARK,
 	FIND_RESULT_COLOR_CURRENT_LIGHT,
+	MARKUP_ANNOTATION_TYPES,
 	MIN_IMAGE_ANNOTATION_SIZE,
 	SELECTION_COLOR
 } from '../common/defines';
 import { getRectRotationOnText } from './selection';
 import { darkenHex } from './lib/utilities';
+import { drawLineMarkup } from './lib/render';
 
 export default class Page {
 	constructor(layer, originalPage) {
@@ -291,7 +293,7 @@ export default class Page {
 		let height = 7;
 		for (let annotation of annotations) {
 			if (
-				!['highlight', 'underline', 'image'].includes(annotation.type)
+				![...MARKUP_ANNOTATION_TYPES, 'image'].includes(annotation.type)
 				|| !annotation.comment
 				|| annotation.position.pageIndex !== this.pageIndex
 			) {
@@ -363,7 +365,8 @@ export default class Page {
 		this.actualContext.restore();
 	}
 
-	_renderUnderline(annotation) {
+	// Underline, strikeout and squiggly lines, drawn along the text direction
+	_renderLineMarkup(annotation) {
 		let color = annotation.color;
 		let pageData = this.layer._pdfPages[this.pageIndex];
 		if (!pageData) {
@@ -379,6 +382,7 @@ export default class Page {
 			this.actualContext.globalAlpha = 0.9;
 		}
 		this.actualContext.fillStyle = color;
+		this.actualContext.strokeStyle = color;
 		let rects;
 		let pdfRect;
 		if (position.nextPageRects && position.pageIndex + 1 === this.pageIndex) {
@@ -392,19 +396,12 @@ export default class Page {
 		let width = 1;
 		width *= this.scale;
 		for (let rect of rects) {
-			// Get the underline line rect taking into account text rotation
+			// Get the line direction taking into account text rotation
 			let rotation = getRectRotationOnText(chars, pdfRect);
 			// Add page rotation to text rotation
 			rotation += getRotationDegrees(this.transform);
 			rotation = normalizeDegrees(rotation);
-			let [x1, y1, x2, y2] = rect;
-			let rect2 = (
-				rotation === 0 && [x1, y2 - width, x2, y2]
-				|| rotation === 90 && [x2 - width, y2, x2, y1]
-				|| rotation === 180 && [x1, y1, x2, y1 - width]
-				|| rotation === 270 && [x1, y2, x1 - width, y1]
-			);
-			this.actualContext.fillRect(rect2[0], rect2[1], rect2[2] - rect2[0], rect2[3] - rect2[1]);
+			drawLineMarkup(this.actualContext, annotation.type, rect, rotation, width);
 		}
 		this.actualContext.restore();
 	}
@@ -637,8 +634,8 @@ export default class Page {
 			if (annotation.type === 'highlight' && !(action?.type === 'updateAnnotationRange' && action.annotation.id === annotation.id)) {
 				this._renderHighlight(annotation);
 			}
-			if (annotation.type === 'underline' && !(action?.type === 'updateAnnotationRange' && action.annotation.id === annotation.id)) {
-				this._renderUnderline(annotation);
+			else if (MARKUP_ANNOTATION_TYPES.includes(annotation.type) && !(action?.type === 'updateAnnotationRange' && action.annotation.id === annotation.id)) {
+				this._renderLineMarkup(annotation);
 			}
 			else if (annotation.type === 'note') {
 				this._renderNote(annotation);
@@ -669,8 +666,8 @@ export default class Page {
 			if (action.annotation.type === 'highlight') {
 				this._renderHighlight(action.annotation);
 			}
-			else if (action.annotation.type === 'underline') {
-				this._renderUnderline(action.annotation);
+			else {
+				this._renderLineMarkup(action.annotation);
 			}
 		}
 
@@ -857,7 +854,7 @@ export default class Page {
 
 		let annotation = annotations.find(x => x.id === selectedAnnotationIDs[0]);
 
-		if (annotation && ['highlight', 'underline'].includes(annotation.type)) {
+		if (annotation && MARKUP_ANNOTATION_TYPES.includes(annotation.type)) {
 			let annotation2 = annotation;
 			if (action?.type === 'updateAnnotationRange' && action.annotation) {
 				annotation2 = action.annotation;
@@ -942,7 +939,7 @@ export default class Page {
 
 
 		this.actualContext.save();
-		if (selectionRanges.length && !selectionRanges[0].collapsed && ['highlight', 'underline'].includes(this.layer._tool.type)) {
+		if (selectionRanges.length && !selectionRanges[0].collapsed && MARKUP_ANNOTATION_TYPES.includes(this.layer._tool.type)) {
 			let annotation = this.layer._getAnnotationFromSelectionRanges(selectionRanges, this.layer._tool.type, this.layer._tool.color);
 			if (annotation.position.pageIndex === this.pageIndex
 				|| annotation.position.nextPageRects && annotation.position.pageIndex + 1 === this.pageIndex) {
@@ -950,7 +947,7 @@ export default class Page {
 					this._renderHighlight(annotation);
 				}
 				else {
-					this._renderUnderline(annotation);
+					this._renderLineMarkup(annotation);
 				}
 			}
 		}
@@ -1092,7 +1089,7 @@ export default class Page {
 				ctx.fillRect(rect[0], rect[1], rect[2] - rect[0], rect[3] - rect[1]);
 			}
 		}
-		else if (annotation.type === 'underline') {
+		else if (MARKUP_ANNOTATION_TYPES.includes(annotation.type)) {
 			ctx.transform(scale, 0, 0, -scale, 0, height * pixelRatio);
 			let position = annotation.position;
 			// ctx.globalAlpha = 0.5;
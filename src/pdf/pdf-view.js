@@ -56,12 +56,16 @@ import { PDFThumbnails } from './pdf-thumbnails';
 import {
 	MIN_IMAGE_ANNOTATION_SIZE,
 	PDF_NOTE_DIMENSIONS,
-	A11Y_VIRT_CURSOR_DEBOUNCE_LENGTH
+	A11Y_VIRT_CURSOR_DEBOUNCE_LENGTH,
+	LINE_MARKUP_ANNOTATION_TYPES,
+	MARKUP_ANNOTATION_TYPES
 } from '../common/defines';
 import PDFRenderer from './pdf-renderer';
 import { drawAnnotationsOnCanvas } from './lib/render';
 import PopupDelayer from '../common/lib/popup-delayer';
 import { measureTextAnnotationDimensions } from './lib/text-annotation';
+import { exportAnnotationsToPDF } from './lib/pdf-annotations-export';
+import { parsePDFAnnotations } from './lib/pdf-annotations-import';
 import {
 	applyTransformationMatrixToInkPosition,
 	eraseInk,
@@ -86,6 +90,7 @@ class PDFView {
 		this._onRequestPassword = options.onRequestPassword;
 		this._onSetThumbnails = options.onSetThumbnails;
 		this._onSetOutline = options.onSetOutline;
+		this._onSetReferences = options.onSetReferences;
 		this._onSetPageLabels = options.onSetPageLabels;
 		this._onChangeViewState = options.onChangeViewState;
 		this._onChangeViewStats = options.onChangeViewStats;
@@ -528,6 +533,36 @@ class PDFView {
 		}
 		this._render();
 		this._updateViewStats();
+		if (this._primary) {
+			this._onSetReferences(this._getReferences());
+		}
+	}
+
+	/**
+	 * Collect bibliography entries from citation overlays, each with positions of the citations referring to it
+	 */
+	_getReferences() {
+		let references = new Map();
+		let pageIndexes = Object.keys(this._pdfPages).map(Number).sort((a, b) => a - b);
+		for (let pageIndex of pageIndexes) {
+			for (let overlay of this._pdfPages[pageIndex].overlays || []) {
+				if (overlay.type !== 'citation') {
+					continue;
+				}
+				for (let reference of overlay.references) {
+					let key = JSON.stringify(reference.position);
+					if (!references.has(key)) {
+						references.set(key, { ...reference, citations: [] });
+					}
+					references.get(key).citations.push(overlay.position);
+				}
+			}
+		}
+		// Order by where entries are in the bibliography
+		return [...references.values()].sort((a, b) => {
+			return a.position.pageIndex - b.position.pageIndex
+				|| getPositionBoundingRect(b.position)[3] - getPositionBoundingRect(a.position)[3];
+		});
 	}
 
 	async _ensureBasicPageData(pageIndex) {
@@ -723,13 +758,108 @@ class PDFView {
 	}
 
 	async renderPageAnnotationsOnCanvas(canvas, viewport, pageIndex) {
-		// Underline annotations need pdfPage[pageIndex].chars to determine text rotation
-		if (this._annotations.find(x => x.position.pageIndex === pageIndex && x.type === 'underline')) {
+		// Line markup annotations need pdfPage[pageIndex].chars to determine text rotation
+		if (this._annotations.find(x => x.position.pageIndex === pageIndex && LINE_MARKUP_ANNOTATION_TYPES.includes(x.type))) {
 			await this._ensureBasicPageData(pageIndex);
 		}
 		drawAnnotationsOnCanvas(canvas, viewport, this._annotations, pageIndex, this._pdfPages);
 	}
 
+	/**
+	 * @returns {Promise<{ count: number, lastModified?: Date }>}
+	 */
+	async getPDFAnnotationStats() {
+		try {
+			let annotations = await this._getEmbeddedAnnotations();
+			if (annotations.length) {
+				let dates = annotations.filter(x => x.dateModified).map(x => new Date(x.dateModified));
+				return {
+					count: annotations.length,
+					lastModified: dates.length ? dates.reduce((max, cur) => (cur > max ? cur : max)) : undefined,
+				};
+			}
+		}
+		catch (e) {
+			console.error(e);
+		}
+		return { count: 0 };
+	}
+
+	/**
+	 * Import Highlight, Underline, Squiggly, StrikeOut, Ink, FreeText and Text annotations embedded in the PDF,
+	 * with their author as the annotation's (non-authoritative) author
+	 */
+	async importAnnotationsFromPDF() {
+		for (let annotation of await this._getEmbeddedAnnotations()) {
+			let { position } = annotation;
+			await this._ensureBasicPageData(position.pageIndex);
+			if (position.nextPageRects) {
+				await this._ensureBasicPageData(position.pageIndex + 1);
+			}
+			if (MARKUP_ANNOTATION_TYPES.includes(annotation.type)) {
+				let selectionRanges = getSelectionRangesByPosition(this._pdfPages, position);
+				annotation.text = getTextFromSelectionRanges(selectionRanges);
+			}
+			annotation.pageLabel = this._getPageLabel(position.pageIndex);
+			annotation.sortIndex = getSortIndex(this._pdfPages, position);
+			this._upsertAnnotation(annotation);
+		}
+	}
+
+	async _getEmbeddedAnnotations() {
+		await this.initializedPromise;
+		let { pdfDocument } = this._iframeWindow.PDFViewerApplication;
+		let pages = [];
+		for (let i = 1; i <= pdfDocument.numPages; i++) {
+			let page = await pdfDocument.getPage(i);
+			pages.push(await page.getAnnotations());
+		}
+		return parsePDFAnnotations(pages);
+	}
+
+	/**
+	 * Update the comment of an identical existing annotation, e.g. from a previous import, or add a new one
+	 */
+	_upsertAnnotation(annotation) {
+		let existingAnnotation = this._annotations.find(
+			existingAnnotation => existingAnnotation.type === annotation.type
+				&& existingAnnotation.sortIndex === annotation.sortIndex
+				&& (existingAnnotation.text || '') === (annotation.text || '')
+		);
+		if (existingAnnotation) {
+			this._onUpdateAnnotations([{ id: existingAnnotation.id, comment: annotation.comment }]);
+		}
+		else {
+			this._onAddAnnotation(annotation);
+		}
+	}
+
+	/**
+	 * The open PDF file with annotations added as PDF annotations
+	 *
+	 * @param {PDFAnnotation[]} annotations
+	 * @returns {Promise<Uint8Array>}
+	 */
+	async exportAnnotationsToPDF(annotations) {
+		await this.initializedPromise;
+		// Markup annotations need pdfPage[pageIndex].chars to determine text rotation
+		for (let annotation of annotations) {
+			if (MARKUP_ANNOTATION_TYPES.includes(annotation.type)) {
+				await this._ensureBasicPageData(annotation.position.pageIndex);
+				if (annotation.position.nextPageRects) {
+					await this._ensureBasicPageData(annotation.position.pageIndex + 1);
+				}
+			}
+		}
+		let buf = await this._iframeWindow.PDFViewerApplication.pdfDocument.getData();
+		return exportAnnotationsToPDF(buf, annotations, {
+			getTextRotation: (pageIndex, rect) => {
+				let pageData = this._pdfPages[pageIndex];
+				return pageData ? getRectRotationOnText(pageData.chars, rect) : 0;
+			}
+		});
+	}
+
 	navigateToPosition(position, options = {}) {
 		let element = this._iframeWindow.document.getElementById('viewerContainer');
 
@@ -1292,7 +1422,7 @@ class PDFView {
 
 		p = [p[0], p[1], p[0], p[1]];
 
-		if (['highlight', 'underline'].includes(annotation.type)) {
+		if (MARKUP_ANNOTATION_TYPES.includes(annotation.type)) {
 			// Calculate text resizing handle rectangles taking into account text rotation
 			if (this._pdfPages[annotation.position.pageIndex]
 				&& (!annotation.position.nextPageRects || this._pdfPages[annotation.position.pageIndex + 1])) {
@@ -1495,7 +1625,7 @@ class PDFView {
 		}
 
 		if (
-			['highlight', 'underline', 'note'].includes(annotation.type)
+			[...MARKUP_ANNOTATION_TYPES, 'note'].includes(annotation.type)
 			&& intersectAnnotationWithPoint(annotation.position, position)
 		) {
 			let r = position.rects[0];
@@ -1703,8 +1833,8 @@ class PDFView {
 				action = { type: 'text' };
 			}
 			else {
-				// Enable text selection if using mouse or pen or touch (finger) with highlight/underline tool
-				if (mouse || event.pointerType === 'pen' || ['highlight', 'underline'].includes(this._tool.type)) {
+				// Enable text selection if using mouse or pen or touch (finger) with a text markup tool
+				if (mouse || event.pointerType === 'pen' || MARKUP_ANNOTATION_TYPES.includes(this._tool.type)) {
 					action = { type: 'selectText' };
 				}
 				// Otherwise don't trigger any action for touch/pen because it'll be scrolling
@@ -2593,7 +2723,7 @@ class PDFView {
 				}
 				if (action.type === 'selectText') {
 					// TODO: Handle triple click as well. Likely there should be a delay when action.mode is 'word'
-					if (['highlight', 'underline'].includes(this._tool.type)) {
+					if (MARKUP_ANNOTATION_TYPES.includes(this._tool.type)) {
 						if (this._selectionRanges.length && !this._selectionRanges[0].collapsed) {
 							let annotation = this._getAnnotationFromSelectionRanges(this._selectionRanges, this._tool.type, this._tool.color);
 							annotation.sortIndex = getSortIndex(this._pdfPages, annotation.position);
@@ -2838,7 +2968,7 @@ class PDFView {
 				event.stopPropagation();
 				event.preventDefault();
 			}
-			else if (['highlight', 'underline'].includes(type)
+			else if (MARKUP_ANNOTATION_TYPES.includes(type)
 				&& ['Shift-ArrowLeft', 'Shift-ArrowRight', 'Shift-ArrowUp', 'Shift-ArrowDown'].includes(key)) {
 				let selectionRanges = getSelectionRangesByPosition(this._pdfPages, annotation.position);
 				if (key === 'Shift-ArrowLeft') {
@@ -2864,7 +2994,7 @@ class PDFView {
 				event.stopPropagation();
 				event.preventDefault();
 			}
-			else if (['highlight', 'underline'].includes(type)
+			else if (MARKUP_ANNOTATION_TYPES.includes(type)
 				&& (
 					isMac() && ['Cmd-Shift-ArrowLeft', 'Cmd-Shift-ArrowRight', 'Cmd-Shift-ArrowUp', 'Cmd-Shift-ArrowDown'].includes(key)
 					|| (isWin() || isLinux()) && ['Alt-Shift-ArrowLeft', 'Alt-Shift-ArrowRight', 'Alt-Shift-ArrowUp', 'Alt-Shift-ArrowDown'].includes(key)
@@ -0,0 +1,124 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import AnnotationManager from '../../src/common/annotation-manager';
+import { KeyboardManager } from '../../src/common/keyboard-manager';
+import { NotebookEditHistory } from '../../src/dom/notebook/lib/edit-history';
+
+// Stands in for NotebookView's cell edit history
+function createNotebookView() {
+	let history = new NotebookEditHistory();
+	let snapshot = view => ({ cells: [], activeCellId: null, time: Date.now(), source: view.source });
+	let view = {
+		source: 'a',
+		edit(source) {
+			history.push(snapshot(view));
+			view.source = source;
+		},
+		get lastEditTime() {
+			return history.lastChangeTime;
+		},
+		get lastUndoTime() {
+			return history.lastUndoTime;
+		},
+		undoEdit() {
+			let restored = history.undo(snapshot(view));
+			if (restored) {
+				view.source = restored.source;
+			}
+			return !!restored;
+		},
+		redoEdit() {
+			let restored = history.redo(snapshot(view));
+			if (restored) {
+				view.source = restored.source;
+			}
+			return !!restored;
+		}
+	};
+	return view;
+}
+
+describe('KeyboardManager undo and redo', () => {
+	let annotations;
+	let annotationManager;
+	let view;
+	let keyboardManager;
+
+	function press(shiftKey = false) {
+		vi.setSystemTime(Date.now() + 1000);
+		let listener = event => keyboardManager._handleKeyDown(event, view);
+		document.body.addEventListener('keydown', listener, { once: true });
+		document.body.dispatchEvent(new KeyboardEvent('keydown', { key: 'z', code: 'KeyZ', ctrlKey: true, shiftKey }));
+	}
+
+	function later(fn) {
+		vi.setSystemTime(Date.now() + 1000);
+		fn();
+	}
+
+	beforeEach(() => {
+		vi.useFakeTimers({ now: 1000 });
+		annotationManager = new AnnotationManager({
+			readOnly: false,
+			authorName: '',
+			annotations: [],
+			onChangeFilter: () => undefined,
+			onSave: () => undefined,
+			onDelete: () => undefined,
+			onRender: (rendered) => {
+				annotations = rendered;
+			}
+		});
+		view = createNotebookView();
+		keyboardManager = new KeyboardManager({
+			reader: {
+				_annotationManager: annotationManager,
+				_getLastViewSafe: () => view,
+				setSelectedAnnotations: () => undefined
+			}
+		});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('undoes and redoes interleaved notebook and annotation edits in order', () => {
+		let id;
+		later(() => {
+			id = annotationManager.addAnnotation({
+				type: 'highlight',
+				color: '#ffd400',
+				sortIndex: '00001',
+				position: {}
+			}).id;
+		});
+		later(() => view.edit('b'));
+		later(() => annotationManager.updateAnnotations([{ id, color: '#ff6666' }]));
+
+		press();
+		expect(annotations.map(x => x.color)).toEqual(['#ffd400']);
+		expect(view.source).toBe('b');
+
+		// The remaining annotation change is older than the cell edit
+		press();
+		expect(annotations.map(x => x.color)).toEqual(['#ffd400']);
+		expect(view.source).toBe('a');
+
+		press();
+		expect(annotations).toEqual([]);
+
+		press(true);
+		expect(annotations.map(x => x.color)).toEqual(['#ffd400']);
+		expect(view.source).toBe('a');
+
+		// The cell edit was undone after the color change
+		press(true);
+		expect(annotations.map(x => x.color)).toEqual(['#ffd400']);
+		expect(view.source).toBe('b');
+
+		press(true);
+		expect(annotations.map(x => x.color)).toEqual(['#ff6666']);
+		expect(view.source).toBe('b');
+	});
+});
@@ -0,0 +1,79 @@
+// @vitest-environment jsdom
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { exportCommentsToDOCX } from '../../src/docx/lib/docx-comments-export';
+import { convertDOCXToHTML } from '../../src/docx/lib/docx-to-html';
+import { makeDOCX } from './docx-fixture';
+
+const BODY = '<w:p><w:r><w:rPr><w:b/></w:rPr><w:t>Hello world</w:t></w:r></w:p><w:p><w:r><w:t>Second</w:t></w:r></w:p>';
+const COMMENT = '<w:comment w:id="3" w:author="Ann" w:date="2024-01-02T03:04:05Z">'
+	+ '<w:p><w:r><w:rPr><w:i/></w:rPr><w:t>Old</w:t></w:r></w:p></w:comment>';
+
+async function readPart(buf, path) {
+	let zip = await JSZip.loadAsync(buf);
+	let text = await zip.file(path)?.async('string');
+	return text && new DOMParser().parseFromString(text, 'application/xml');
+}
+
+function describeParagraph(p) {
+	return Array.from(p.children).map((element) => {
+		if (element.localName === 'r') {
+			let t = element.getElementsByTagName('w:t')[0];
+			return t ? t.textContent : element.lastElementChild.localName;
+		}
+		return `${element.localName}:${element.getAttribute('w:id')}`;
+	});
+}
+
+describe('DOCX comment export', () => {
+	it('anchors new comments to text, splitting runs', async () => {
+		let buf = await exportCommentsToDOCX(await makeDOCX({ body: BODY }), [
+			{ start: { index: 0, offset: 6 }, end: { index: 1, offset: 3 }, author: 'Jane Doe', date: '2024-05-06T07:08:09.123Z', text: 'One\nTwo' },
+		]);
+
+		let doc = await readPart(buf, 'word/document.xml');
+		let [first, second] = doc.getElementsByTagName('w:p');
+		expect(describeParagraph(first)).toEqual(['Hello ', 'commentRangeStart:0', 'world']);
+		expect(describeParagraph(second)).toEqual(['Sec', 'commentRangeEnd:0', 'commentReference', 'ond']);
+		// Split runs keep their formatting
+		expect(first.getElementsByTagName('w:b')).toHaveLength(2);
+
+		let { comments } = await convertDOCXToHTML(buf);
+		expect(comments).toEqual([{ id: '0', author: 'Jane Doe', initials: 'JD', date: '2024-05-06T07:08:09Z', text: 'One\nTwo' }]);
+		let contentTypes = await readPart(buf, '[Content_Types].xml');
+		expect(contentTypes.querySelector('Override[PartName="/word/comments.xml"]')).not.toBeNull();
+	});
+
+	it('gives new comments IDs the document does not use yet', async () => {
+		let buf = await exportCommentsToDOCX(await makeDOCX({ body: BODY, comments: COMMENT }), [
+			{ start: { index: 1, offset: 0 }, end: { index: 1, offset: 6 }, author: '', text: 'New' },
+		]);
+		let { comments } = await convertDOCXToHTML(buf);
+		expect(comments.map(comment => comment.id)).toEqual(['3', '4']);
+	});
+
+	it('updates comments already in the file instead of adding them again', async () => {
+		let buf = await exportCommentsToDOCX(await makeDOCX({ body: BODY, comments: COMMENT }), [
+			{ id: '3', text: 'New text' },
+		]);
+		let { comments } = await convertDOCXToHTML(buf);
+		expect(comments).toEqual([{ id: '3', author: 'Ann', initials: '', date: '2024-01-02T03:04:05Z', text: 'New text' }]);
+		let doc = await readPart(buf, 'word/document.xml');
+		expect(doc.getElementsByTagName('w:commentRangeStart')).toHaveLength(0);
+	});
+
+	it('leaves unchanged comments as they are', async () => {
+		let input = await makeDOCX({ body: BODY, comments: COMMENT });
+		let buf = await exportCommentsToDOCX(input, [{ id: '3', text: 'Old' }]);
+		let comments = await readPart(buf, 'word/comments.xml');
+		expect(comments.getElementsByTagName('w:i')).toHaveLength(1);
+	});
+
+	it('skips comments with invalid ranges', async () => {
+		let buf = await exportCommentsToDOCX(await makeDOCX({ body: BODY }), [
+			{ start: { index: 1, offset: 2 }, end: { index: 0, offset: 1 }, author: '', text: 'Backwards' },
+			{ start: { index: 5, offset: 0 }, end: { index: 6, offset: 0 }, author: '', text: 'Missing' },
+		]);
+		expect(await readPart(buf, 'word/comments.xml')).toBeUndefined();
+	});
+});
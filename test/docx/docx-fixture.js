@@ -0,0 +1,39 @@
+import JSZip from 'jszip';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+/**
+ * Build a minimal .docx package
+ *
+ * @param {{ body: string, styles?: string, comments?: string }} parts
+ *   Inner XML of w:body, w:styles and w:comments
+ * @returns {Promise<Uint8Array>}
+ */
+export async function makeDOCX({ body, styles, comments }) {
+	let zip = new JSZip();
+	zip.file('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8"?>'
+		+ '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+		+ '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+		+ '<Default Extension="xml" ContentType="application/xml"/>'
+		+ '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+		+ '</Types>');
+	zip.file('_rels/.rels', '<?xml version="1.0" encoding="UTF-8"?>'
+		+ '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+		+ `<Relationship Id="rId1" Type="${REL_TYPE}/officeDocument" Target="word/document.xml"/>`
+		+ '</Relationships>');
+
+	let rels = [];
+	if (styles !== undefined) {
+		rels.push(`<Relationship Id="rId1" Type="${REL_TYPE}/styles" Target="styles.xml"/>`);
+		zip.file('word/styles.xml', `<w:styles xmlns:w="${W_NS}">${styles}</w:styles>`);
+	}
+	if (comments !== undefined) {
+		rels.push(`<Relationship Id="rId2" Type="${REL_TYPE}/comments" Target="comments.xml"/>`);
+		zip.file('word/comments.xml', `<w:comments xmlns:w="${W_NS}">${comments}</w:comments>`);
+	}
+	zip.file('word/_rels/document.xml.rels', '<?xml version="1.0" encoding="UTF-8"?>'
+		+ `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${rels.join('')}</Relationships>`);
+	zip.file('word/document.xml', `<w:document xmlns:w="${W_NS}"><w:body>${body}</w:body></w:document>`);
+	return zip.generateAsync({ type: 'uint8array' });
+}
@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { convertDOCXToHTML } from '../../src/docx/lib/docx-to-html';
+import { makeDOCX } from './docx-fixture';
+
+const STYLES = '<w:style w:type="character" w:styleId="Code">'
+	+ '<w:rPr><w:rFonts w:ascii="Courier &quot;New&quot; &amp; Co"/></w:rPr>'
+	+ '</w:style>';
+
+async function convert(body, parts = {}) {
+	return convertDOCXToHTML(await makeDOCX({ body, ...parts }));
+}
+
+function parse(html) {
+	let container = document.createElement('div');
+	container.innerHTML = html;
+	return container;
+}
+
+describe('DOCX to HTML', () => {
+	it('converts paragraphs and runs', async () => {
+		let { html } = await convert('<w:p><w:r><w:rPr><w:b/></w:rPr><w:t>Bold</w:t></w:r><w:r><w:t xml:space="preserve"> text</w:t></w:r></w:p>');
+		let p = parse(html).querySelector('p');
+		expect(p.textContent).toBe('Bold text');
+		expect(p.innerHTML).toMatch(/font-weight: bold/);
+	});
+
+	it('writes font names in style sheets as plain CSS strings', async () => {
+		let { styles } = await convert('<w:p/>', { styles: STYLES });
+		expect(styles).toContain('.docx-content .docx-r-');
+		expect(styles).toContain('font-family: "Courier \\"New\\" & Co"');
+		expect(styles).not.toContain('&quot;');
+		expect(styles).not.toContain('&amp;');
+	});
+
+	it('escapes font names in style attributes', async () => {
+		let { html } = await convert('<w:p><w:r><w:rPr><w:rFonts w:ascii="A &quot;B&quot; &amp; C"/></w:rPr><w:t>x</w:t></w:r></w:p>');
+		let span = parse(html).querySelector('span[style]');
+		expect(span.textContent).toBe('x');
+		expect(span.getAttribute('style')).toBe('font-family: "A \\"B\\" & C"');
+	});
+
+	it('returns comments', async () => {
+		let { comments } = await convert(
+			'<w:p><w:commentRangeStart w:id="0"/><w:r><w:t>Text</w:t></w:r><w:commentRangeEnd w:id="0"/></w:p>',
+			{ comments: '<w:comment w:id="0" w:author="Ann" w:initials="A" w:date="2024-01-02T03:04:05Z"><w:p><w:r><w:t>Note</w:t></w:r></w:p></w:comment>' }
+		);
+		expect(comments).toEqual([{ id: '0', author: 'Ann', initials: 'A', date: '2024-01-02T03:04:05Z', text: 'Note' }]);
+	});
+});
@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { convertOMMLToTeX } from '../../src/docx/lib/omml-to-tex';
+import { NS } from '../../src/docx/lib/docx-to-html';
+
+function tex(xml, root = 'oMath') {
+	let doc = new DOMParser().parseFromString(`<m:${root} xmlns:m="${NS.m}" xmlns:w="${NS.w}">${xml}</m:${root}>`, 'application/xml');
+	return convertOMMLToTeX(doc.documentElement);
+}
+
+function r(text, sty) {
+	return `<m:r>${sty ? `<m:rPr><m:sty m:val="${sty}"/></m:rPr>` : ''}<m:t>${text}</m:t></m:r>`;
+}
+
+describe('OMML to TeX', () => {
+	it('converts runs, escaping special characters and naming symbols', () => {
+		expect(tex(r('a+b=c'))).toBe('a+b=c');
+		expect(tex(r('α≤β'))).toBe('\\alpha \\leq \\beta');
+		expect(tex(r('50% &amp; {x}'))).toBe('50\\%\\ \\&\\ \\{x\\}');
+	});
+
+	it('converts a caret to a wedge rather than an accent', () => {
+		expect(tex(r('p^q'))).toBe('p\\wedge q');
+	});
+
+	it('converts accents', () => {
+		expect(tex(`<m:acc><m:e>${r('x')}</m:e></m:acc>`)).toBe('\\hat{x}');
+		expect(tex(`<m:acc><m:accPr><m:chr m:val="⃗"/></m:accPr><m:e>${r('v')}</m:e></m:acc>`)).toBe('\\vec{v}');
+	});
+
+	it('converts fractions, scripts and radicals', () => {
+		expect(tex(`<m:f><m:num>${r('1')}</m:num><m:den>${r('2')}</m:den></m:f>`)).toBe('\\frac{1}{2}');
+		expect(tex(`<m:f><m:fPr><m:type m:val="lin"/></m:fPr><m:num>${r('1')}</m:num><m:den>${r('2')}</m:den></m:f>`)).toBe('{1}/{2}');
+		expect(tex(`<m:sSubSup><m:e>${r('x')}</m:e><m:sub>${r('i')}</m:sub><m:sup>${r('2')}</m:sup></m:sSubSup>`)).toBe('{x}_{i}^{2}');
+		expect(tex(`<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${r('x')}</m:e></m:rad>`)).toBe('\\sqrt{x}');
+		expect(tex(`<m:rad><m:deg>${r('3')}</m:deg><m:e>${r('x')}</m:e></m:rad>`)).toBe('\\sqrt[3]{x}');
+	});
+
+	it('converts n-ary operators and delimiters', () => {
+		expect(tex(`<m:nary><m:naryPr><m:chr m:val="∑"/></m:naryPr><m:sub>${r('i=1')}</m:sub><m:sup>${r('n')}</m:sup><m:e>${r('i')}</m:e></m:nary>`))
+			.toBe('\\sum_{i=1}^{n}{i}');
+		expect(tex(`<m:d><m:e>${r('a')}</m:e><m:e>${r('b')}</m:e></m:d>`)).toBe('\\left(a \\middle| b\\right)');
+	});
+
+	it('writes function names upright without an explicit style', () => {
+		let func = (name, sty) => `<m:func><m:fName>${r(name, sty)}</m:fName><m:e>${r('x')}</m:e></m:func>`;
+		expect(tex(func('sin'))).toBe('\\sin {x}');
+		expect(tex(func('sin', 'p'))).toBe('\\sin {x}');
+		expect(tex(func('sgn'))).toBe('\\operatorname{sgn}{x}');
+		expect(tex(func('f', 'i'))).toBe('f{x}');
+	});
+
+	it('keeps scripts and limits in function names as they are', () => {
+		expect(tex(`<m:func><m:fName><m:sSup><m:e>${r('sin')}</m:e><m:sup>${r('2')}</m:sup></m:sSup></m:fName><m:e>${r('x')}</m:e></m:func>`))
+			.toBe('{\\sin }^{2}{x}');
+		expect(tex(`<m:func><m:fName><m:limLow><m:e>${r('lim')}</m:e><m:lim>${r('n→∞')}</m:lim></m:limLow></m:fName><m:e>${r('a')}</m:e></m:func>`))
+			.toBe('\\lim_{n\\rightarrow \\infty }{a}');
+	});
+
+	it('converts equation arrays, matrices and paragraphs', () => {
+		expect(tex(`<m:eqArr><m:e>${r('x&amp;=1')}</m:e><m:e>${r('y&amp;=2')}</m:e></m:eqArr>`))
+			.toBe('\\begin{aligned}x&=1 \\\\ y&=2\\end{aligned}');
+		expect(tex(`<m:m><m:mr><m:e>${r('1')}</m:e><m:e>${r('0')}</m:e></m:mr><m:mr><m:e>${r('0')}</m:e><m:e>${r('1')}</m:e></m:mr></m:m>`))
+			.toBe('\\begin{matrix}1 & 0 \\\\ 0 & 1\\end{matrix}');
+		expect(tex(`<m:oMath>${r('a')}</m:oMath><m:oMath>${r('b')}</m:oMath>`, 'oMathPara'))
+			.toBe('\\begin{gathered}a \\\\ b\\end{gathered}');
+	});
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { ansiToHtml, ansiToText, hasAnsiControls } from '../../src/dom/notebook/lib/ansi';
+
+describe('ansiToText', () => {
+	it('replaces the line with text written after \\r', () => {
+		expect(ansiToText('10%\r100%')).toBe('100%');
+		expect(ansiToText('100%\r10%')).toBe('10%');
+		expect(ansiToText('a\n0%\r50%\r100%\nb')).toBe('a\n100%\nb');
+	});
+
+	it('keeps the line when nothing follows \\r on it', () => {
+		expect(ansiToText('done\r')).toBe('done');
+		expect(ansiToText('one\r\ntwo')).toBe('one\ntwo');
+	});
+
+	it('overwrites after backspace and cursor movement', () => {
+		expect(ansiToText('abc\bX')).toBe('abX');
+		expect(ansiToText('abcdef\x1b[3DX')).toBe('abcXef');
+		expect(ansiToText('abcdef\r\x1b[2CX')).toBe('abXdef');
+	});
+
+	it('erases in line', () => {
+		expect(ansiToText('abcdef\x1b[3D\x1b[K')).toBe('abc');
+		expect(ansiToText('abcdef\x1b[2K')).toBe('');
+	});
+});
+
+describe('ansiToHtml', () => {
+	it('escapes plain text', () => {
+		expect(hasAnsiControls('<b> & "c"')).toBe(false);
+		expect(ansiToHtml('<b> & "c"')).toBe('&lt;b&gt; &amp; &quot;c&quot;');
+	});
+
+	it('renders theme colors and styles as classes', () => {
+		expect(ansiToHtml('\x1b[1;31mError\x1b[0m: <x>')).toBe('<span class="ansi-red-fg ansi-bold">Error</span>: &lt;x&gt;');
+		expect(ansiToHtml('\x1b[92;44mok\x1b[39;49m')).toBe('<span class="ansi-bright-green-fg ansi-blue-bg">ok</span>');
+	});
+
+	it('renders 256-color and truecolor values inline', () => {
+		expect(ansiToHtml('\x1b[38;5;196mx')).toBe('<span style="color: rgb(255, 0, 0)">x</span>');
+		expect(ansiToHtml('\x1b[48;2;1;2;3mx')).toBe('<span style="background-color: rgb(1, 2, 3)">x</span>');
+		expect(ansiToHtml('\x1b[38;5;244mx')).toBe('<span style="color: rgb(128, 128, 128)">x</span>');
+	});
+
+	it('swaps colors for inverse', () => {
+		expect(ansiToHtml('\x1b[7;32mx')).toBe('<span class="ansi-default-inverse-fg ansi-green-bg">x</span>');
+	});
+});
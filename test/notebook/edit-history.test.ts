@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { NotebookEditHistory, NotebookSnapshot } from '../../src/dom/notebook/lib/edit-history';
+
+function snapshot(time: number): NotebookSnapshot {
+	return { cells: [], activeCellId: null, time };
+}
+
+describe('NotebookEditHistory', () => {
+	it('reports when the last change and the last undo were made', () => {
+		const history = new NotebookEditHistory();
+		expect(history.lastChangeTime).toBe(0);
+		expect(history.lastUndoTime).toBe(0);
+
+		history.push(snapshot(100));
+		history.push(snapshot(200));
+		expect(history.lastChangeTime).toBe(200);
+
+		expect(history.undo(snapshot(300))?.time).toBe(200);
+		expect(history.lastChangeTime).toBe(100);
+		expect(history.lastUndoTime).toBe(300);
+
+		history.redo(snapshot(400));
+		expect(history.lastUndoTime).toBe(0);
+	});
+
+	it('clears redo history on a new change', () => {
+		const history = new NotebookEditHistory();
+		history.push(snapshot(100));
+		history.undo(snapshot(200));
+		expect(history.canRedo).toBe(true);
+		history.push(snapshot(300));
+		expect(history.canRedo).toBe(false);
+		expect(history.lastUndoTime).toBe(0);
+	});
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { highlightCode, resolveHighlightLanguage } from '../../src/dom/notebook/lib/highlight';
+
+describe('resolveHighlightLanguage', () => {
+	it('maps kernel names and aliases to registered languages', () => {
+		expect(resolveHighlightLanguage('python3')).toBe('python');
+		expect(resolveHighlightLanguage('IR')).toBe('r');
+		expect(resolveHighlightLanguage('c++')).toBe('cpp');
+		expect(resolveHighlightLanguage('js')).toBe('js');
+	});
+
+	it('returns null for unknown languages', () => {
+		expect(resolveHighlightLanguage('klingon')).toBeNull();
+		expect(resolveHighlightLanguage(undefined)).toBeNull();
+	});
+});
+
+describe('highlightCode', () => {
+	it('highlights registered languages', () => {
+		expect(highlightCode('def f(): pass', 'python')).toContain('<span class="hljs-keyword">def</span>');
+	});
+
+	it('only escapes unknown languages', () => {
+		expect(highlightCode('a < b', 'unknown')).toBe('a &lt; b');
+	});
+});
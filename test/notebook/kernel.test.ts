@@ -0,0 +1,107 @@
+/* eslint-disable camelcase -- nbformat JSON keys */
+import { describe, expect, it } from 'vitest';
+import { appendKernelMessage, InProcessKernel, InProcessKernelHandler, KernelMessage } from '../../src/dom/notebook/kernel';
+import { CellOutput } from '../../src/dom/notebook/notebook-parser';
+
+function collect() {
+	const messages: KernelMessage[] = [];
+	return { messages, onMessage: (message: KernelMessage) => messages.push(message) };
+}
+
+describe('InProcessKernel', () => {
+	it('streams outputs in order before the result', async () => {
+		const kernel = new InProcessKernel({
+			createHandler: (): InProcessKernelHandler => async (code, io) => {
+				io.stdout('one\n');
+				await Promise.resolve();
+				io.stderr('two\n');
+				io.stdout('three\n');
+				return 42;
+			}
+		});
+		const { messages, onMessage } = collect();
+		const reply = await kernel.execute('', { onMessage });
+
+		expect(reply).toEqual({ status: 'ok', execution_count: 1 });
+		expect(messages.map(message => message.msg_type)).toEqual(['stream', 'stream', 'stream', 'execute_result']);
+
+		const outputs: CellOutput[] = [];
+		for (const message of messages) {
+			appendKernelMessage(outputs, message);
+		}
+		expect(outputs.map(output => [output.name, output.text])).toEqual([
+			['stdout', 'one\n'],
+			['stderr', 'two\n'],
+			['stdout', 'three\n'],
+			[undefined, undefined],
+		]);
+		expect(outputs[3].data).toEqual({ 'text/plain': '42' });
+	});
+
+	it('runs requests one at a time, in the order they were submitted', async () => {
+		const order: string[] = [];
+		const kernel = new InProcessKernel({
+			createHandler: (): InProcessKernelHandler => async (code) => {
+				order.push(`start ${code}`);
+				await new Promise(resolve => setTimeout(resolve, code === 'a' ? 10 : 0));
+				order.push(`end ${code}`);
+			}
+		});
+		const replies = await Promise.all(['a', 'b'].map(code => kernel.execute(code, { onMessage: () => undefined })));
+
+		expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+		expect(replies.map(reply => reply.execution_count)).toEqual([1, 2]);
+	});
+
+	it('interrupts the running request and aborts queued ones', async () => {
+		const kernel = new InProcessKernel({
+			createHandler: (): InProcessKernelHandler => (code, io) => {
+				if (code === 'wait') {
+					io.stdout('started\n');
+					return new Promise(() => undefined);
+				}
+				return undefined;
+			}
+		});
+		const { messages, onMessage } = collect();
+		const running = kernel.execute('wait', { onMessage });
+		const queued = kernel.execute('wait', { onMessage });
+		await new Promise(resolve => setTimeout(resolve, 0));
+		expect(kernel.status).toBe('busy');
+
+		await kernel.interrupt();
+
+		expect(await running).toEqual({ status: 'error', execution_count: 1 });
+		expect(await queued).toEqual({ status: 'aborted', execution_count: null });
+		expect(messages.map(message => message.msg_type)).toEqual(['stream', 'error']);
+		expect(messages[1].content).toMatchObject({ ename: 'KeyboardInterrupt' });
+		expect(kernel.status).toBe('idle');
+
+		// Requests submitted after the interrupt run normally
+		expect(await kernel.execute('', { onMessage: () => undefined })).toEqual({ status: 'ok', execution_count: 2 });
+	});
+
+	it('clears variables and the execution count on restart', async () => {
+		const kernel = new InProcessKernel();
+		const { messages, onMessage } = collect();
+
+		await kernel.execute('x = 2', { onMessage });
+		expect(await kernel.execute('x * 21', { onMessage })).toEqual({ status: 'ok', execution_count: 2 });
+		expect(messages.at(-1)?.content).toMatchObject({ data: { 'text/plain': '42' }, execution_count: 2 });
+
+		await kernel.restart();
+		expect(kernel.status).toBe('idle');
+
+		const reply = await kernel.execute('typeof x', { onMessage });
+		expect(reply).toEqual({ status: 'ok', execution_count: 1 });
+		expect(messages.at(-1)?.content).toMatchObject({ data: { 'text/plain': '"undefined"' } });
+	});
+
+	it('rejects requests after shutdown', async () => {
+		const kernel = new InProcessKernel();
+		await kernel.shutdown();
+		expect(kernel.status).toBe('dead');
+		await expect(kernel.execute('1', { onMessage: () => undefined })).rejects.toThrow(/shut down/);
+		await expect(kernel.restart()).rejects.toThrow(/shut down/);
+	});
+});
@@ -0,0 +1,108 @@
+/* eslint-disable camelcase -- nbformat JSON keys */
+import { describe, expect, it } from 'vitest';
+import { NotebookFormatError, upgradeNotebook, validateNotebook } from '../../src/dom/notebook/lib/nbformat';
+
+describe('upgradeNotebook', () => {
+	it('reads notebooks without a version as nbformat 4', () => {
+		let notebook = { cells: [], metadata: {} };
+		expect(upgradeNotebook(notebook)).toBe(notebook);
+		expect(validateNotebook(notebook)).toEqual([]);
+	});
+
+	it('rejects unsupported versions', () => {
+		expect(() => upgradeNotebook({ nbformat: 2, cells: [] })).toThrow(NotebookFormatError);
+		expect(() => upgradeNotebook({ nbformat: 4 })).toThrow(/cells/);
+		expect(() => upgradeNotebook([])).toThrow(/JSON object/);
+	});
+
+	it('upgrades nbformat 3', () => {
+		let notebook = upgradeNotebook({
+			nbformat: 3,
+			nbformat_minor: 0,
+			metadata: { name: 'test', signature: 'sha256:0', kernelspec: { name: 'python3', display_name: 'Python 3' } },
+			worksheets: [{
+				cells: [
+					{ cell_type: 'heading', level: 2, source: ['Title'], metadata: {} },
+					{
+						cell_type: 'code',
+						input: 'print(1)',
+						prompt_number: 3,
+						collapsed: true,
+						metadata: {},
+						outputs: [
+							{ output_type: 'stream', stream: 'stdout', text: '1\n' },
+							{ output_type: 'pyout', prompt_number: 3, text: '1', png: 'iVBORw0KGgo=', metadata: { png: { width: 10 } } },
+							{ output_type: 'pyerr', ename: 'ValueError', evalue: 'bad', traceback: ['line'] }
+						]
+					}
+				]
+			}]
+		});
+		expect(notebook.nbformat).toBe(4);
+		expect(notebook.metadata).toEqual({ kernelspec: { name: 'python3', display_name: 'Python 3' } });
+		expect(notebook.cells.map(cell => cell.id)).toEqual(['cell-0', 'cell-1']);
+		expect(notebook.cells[0]).toMatchObject({ cell_type: 'markdown', source: '## Title' });
+		expect(notebook.cells[1]).toMatchObject({
+			cell_type: 'code',
+			source: 'print(1)',
+			execution_count: 3,
+			metadata: { collapsed: true },
+			outputs: [
+				{ output_type: 'stream', name: 'stdout', text: '1\n' },
+				{
+					output_type: 'execute_result',
+					execution_count: 3,
+					data: { 'text/plain': '1', 'image/png': 'iVBORw0KGgo=' },
+					metadata: { 'image/png': { width: 10 } }
+				},
+				{ output_type: 'error', ename: 'ValueError', evalue: 'bad', traceback: ['line'] }
+			]
+		});
+		expect(validateNotebook(notebook)).toEqual([]);
+	});
+});
+
+describe('validateNotebook', () => {
+	it('reports every problem with its path', () => {
+		let issues = validateNotebook({
+			nbformat: 4,
+			nbformat_minor: 5,
+			metadata: { kernelspec: { name: 'python3' } },
+			cells: [
+				{ cell_type: 'code', id: 'a', metadata: {}, source: '', execution_count: null, outputs: [{ output_type: 'bogus' }] },
+				{ cell_type: 'markdown', id: 'a', metadata: {}, source: 1 },
+				{ cell_type: 'raw', metadata: {}, source: '' }
+			]
+		});
+		expect(issues.map(issue => issue.path)).toEqual([
+			'metadata.kernelspec.display_name',
+			'cells[0].outputs[0].output_type',
+			'cells[1].id',
+			'cells[1].source',
+			'cells[2].id'
+		]);
+	});
+
+	it('checks MIME bundles', () => {
+		let issues = validateNotebook({
+			nbformat: 4,
+			nbformat_minor: 4,
+			metadata: {},
+			cells: [{
+				cell_type: 'code',
+				metadata: {},
+				source: '',
+				execution_count: 1,
+				outputs: [{
+					output_type: 'display_data',
+					metadata: {},
+					data: { 'application/json': { a: 1 }, 'text/plain': 5, 'not a type': '' }
+				}]
+			}]
+		});
+		expect(issues.map(issue => issue.path)).toEqual([
+			'cells[0].outputs[0].data["text/plain"]',
+			'cells[0].outputs[0].data["not a type"]'
+		]);
+	});
+});
@@ -0,0 +1,77 @@
+/* eslint-disable camelcase -- nbformat JSON keys */
+import { describe, expect, it } from 'vitest';
+import { NotebookCell, ParsedNotebook } from '../../src/dom/notebook/notebook-parser';
+import { diffLines, diffNotebooks, getChangedRange } from '../../src/dom/notebook/lib/notebook-diff';
+
+function makeNotebook(cells: [id: string, source: string][]): ParsedNotebook {
+	return {
+		cells: cells.map(([id, source]): NotebookCell => ({
+			id,
+			cell_type: 'code',
+			source,
+			outputs: [],
+			execution_count: null,
+			metadata: {},
+		})),
+		metadata: {},
+		nbformat: 4,
+		nbformat_minor: 5,
+		language: 'python',
+	};
+}
+
+describe('diffNotebooks', () => {
+	const open = makeNotebook([
+		['a', 'import os'],
+		['b', 'x = 1\nprint(x)'],
+		['c', 'removed()'],
+	]);
+	const compared = makeNotebook([
+		['a', 'import os'],
+		['b', 'x = 2\nprint(x)'],
+		['d', 'added()'],
+	]);
+
+	it('matches cells by ID', () => {
+		const rows = diffNotebooks(open, compared);
+		expect(rows.map(row => row.status)).toEqual(['unchanged', 'modified', 'removed', 'added']);
+		expect(rows[1].source).toEqual([
+			{ type: 'modified', base: 'x = 1', changed: 'x = 2' },
+			{ type: 'unchanged', base: 'print(x)', changed: 'print(x)' },
+		]);
+	});
+
+	it('gives each pane of a comparison its own notebook\'s cells', () => {
+		const rows = diffNotebooks(open, compared);
+		// The open notebook's pane shows row.base, the compared notebook's pane row.changed
+		expect(rows.map(row => row.base?.source ?? null))
+			.toEqual(['import os', 'x = 1\nprint(x)', 'removed()', null]);
+		expect(rows.map(row => row.changed?.source ?? null))
+			.toEqual(['import os', 'x = 2\nprint(x)', null, 'added()']);
+	});
+
+	it('matches cells without common IDs by their sources', () => {
+		const rows = diffNotebooks(
+			makeNotebook([['cell-0', 'a\nb\nc']]),
+			makeNotebook([['cell-0', 'a\nb\nd']]),
+		);
+		expect(rows.map(row => row.status)).toEqual(['modified']);
+	});
+});
+
+describe('diffLines', () => {
+	it('pairs removed and added lines', () => {
+		expect(diffLines(['a', 'b', 'c'], ['a', 'B', 'c', 'd'])).toEqual([
+			{ type: 'unchanged', base: 'a', changed: 'a' },
+			{ type: 'modified', base: 'b', changed: 'B' },
+			{ type: 'unchanged', base: 'c', changed: 'c' },
+			{ type: 'added', base: null, changed: 'd' },
+		]);
+	});
+});
+
+describe('getChangedRange', () => {
+	it('finds the part of a line that differs', () => {
+		expect(getChangedRange('x = 1 + y', 'x = 22 + y')).toEqual({ start: 4, baseEnd: 5, changedEnd: 6 });
+	});
+});
@@ -0,0 +1,36 @@
+/* eslint-disable camelcase -- nbformat JSON keys */
+import { describe, expect, it } from 'vitest';
+import { parseNotebook } from '../../src/dom/notebook/notebook-parser';
+import { exportNotebook, exportNotebookWithMath } from '../../src/dom/notebook/notebook-export';
+
+const notebook = parseNotebook(JSON.stringify({
+	cells: [
+		{ id: 'a', cell_type: 'markdown', metadata: {}, source: ['Euler: $e^{i\\pi} + 1 = 0$'] },
+		{ id: 'b', cell_type: 'code', metadata: {}, source: ['print("\\(x\\)")'], outputs: [], execution_count: 1 },
+	],
+	metadata: { title: 'Math' },
+	nbformat: 4,
+	nbformat_minor: 5,
+}));
+
+describe('HTML export', () => {
+	it('does not load anything by default', () => {
+		const { content } = exportNotebook(notebook, 'html');
+		expect(content).not.toContain('<script');
+		expect(content).toContain('\\(e^{i\\pi} + 1 = 0\\)');
+	});
+
+	it('loads MathJax from the given URL', () => {
+		const { content } = exportNotebook(notebook, 'html', { mathJaxURL: 'https://example.com/mathjax.js' });
+		expect(content).toContain('<script async src="https://example.com/mathjax.js"></script>');
+	});
+
+	it('typesets math as SVG', async () => {
+		const { content } = await exportNotebookWithMath(notebook, 'html');
+		expect(content).not.toContain('<script');
+		expect(content).not.toContain('\\(e^{i\\pi}');
+		expect(content).toMatch(/<mjx-container[^>]*><svg/);
+		// Code isn't searched for math
+		expect(content).toContain('\\(x\\)');
+	});
+});
@@ -0,0 +1,155 @@
+/* eslint-disable camelcase -- nbformat JSON keys */
+import { describe, expect, it } from 'vitest';
+import { parseNotebook, serializeNotebook } from '../../src/dom/notebook/notebook-parser';
+import { detectNotebookFormat } from '../../src/dom/notebook/lib/text-notebook';
+
+const PERCENT_SCRIPT = [
+	'# ---',
+	'# jupyter:',
+	'#   kernelspec:',
+	'#     name: python3',
+	'#     language: python',
+	'# ---',
+	'',
+	'# %% [markdown]',
+	'# # Title',
+	'# Some *text*',
+	'',
+	'# %%',
+	'import os',
+	'# %matplotlib inline',
+	'print(1)',
+	'',
+	'',
+	'# %% tags=["x"]',
+	'x = 1',
+	'',
+].join('\n');
+
+const QUARTO = [
+	'---',
+	'title: "Doc"',
+	'jupyter: python3',
+	'---',
+	'',
+	'Intro text.',
+	'',
+	'```{python}',
+	'#| label: fig',
+	'1 + 1',
+	'```',
+	'',
+].join('\n');
+
+const R_MARKDOWN = [
+	'---',
+	'title: x',
+	'---',
+	'',
+	'```{r setup, echo=FALSE}',
+	'library(x)',
+	'```',
+	'',
+	'Text',
+	'',
+].join('\n');
+
+describe('detectNotebookFormat', () => {
+	it('uses the file extension', () => {
+		expect(detectNotebookFormat('', 'a.ipynb')).toBe('ipynb');
+		expect(detectNotebookFormat('', 'a.py')).toBe('percent');
+		expect(detectNotebookFormat('', 'a.qmd')).toBe('quarto');
+		expect(detectNotebookFormat('', 'a.Rmd')).toBe('rmarkdown');
+	});
+
+	it('falls back to the content', () => {
+		expect(detectNotebookFormat('{"cells": []}')).toBe('ipynb');
+		expect(detectNotebookFormat(PERCENT_SCRIPT)).toBe('percent');
+		expect(detectNotebookFormat(QUARTO)).toBe('quarto');
+		expect(detectNotebookFormat(R_MARKDOWN)).toBe('rmarkdown');
+	});
+});
+
+describe('percent scripts', () => {
+	it('parses the header, cell markers and magics', () => {
+		const notebook = parseNotebook(PERCENT_SCRIPT, { fileName: 'a.py' });
+		expect(notebook.language).toBe('python');
+		expect(notebook.metadata.kernelspec).toEqual({ name: 'python3', language: 'python' });
+		expect(notebook.cells.map(cell => [cell.cell_type, cell.source])).toEqual([
+			['markdown', '# Title\nSome *text*'],
+			['code', 'import os\n%matplotlib inline\nprint(1)'],
+			['code', 'x = 1'],
+		]);
+		expect(notebook.cells[2].metadata).toEqual({ tags: ['x'] });
+	});
+
+	it('writes unchanged files back exactly', () => {
+		const notebook = parseNotebook(PERCENT_SCRIPT, { fileName: 'a.py' });
+		expect(serializeNotebook(notebook)).toBe(PERCENT_SCRIPT);
+	});
+
+	it('only rewrites edited cells', () => {
+		const notebook = parseNotebook(PERCENT_SCRIPT, { fileName: 'a.py' });
+		notebook.cells[2].source = 'y = 2';
+		expect(serializeNotebook(notebook)).toBe(PERCENT_SCRIPT.replace('x = 1', 'y = 2'));
+	});
+
+	it('keeps CRLF line endings', () => {
+		const content = PERCENT_SCRIPT.replace(/\n/g, '\r\n');
+		const notebook = parseNotebook(content, { fileName: 'a.py' });
+		expect(notebook.cells[0].source).toBe('# Title\nSome *text*');
+		expect(serializeNotebook(notebook)).toBe(content);
+	});
+
+	it('converts to ipynb', () => {
+		const notebook = parseNotebook(PERCENT_SCRIPT, { fileName: 'a.py' });
+		const json = JSON.parse(serializeNotebook(notebook, 'ipynb'));
+		expect(json.nbformat).toBe(4);
+		expect(json.cells.map((cell: { source: string[] }) => cell.source.join(''))).toEqual([
+			'# Title\nSome *text*',
+			'import os\n%matplotlib inline\nprint(1)',
+			'x = 1',
+		]);
+	});
+});
+
+describe('Quarto and R Markdown', () => {
+	it('keeps front matter as a raw cell', () => {
+		const notebook = parseNotebook(QUARTO, { fileName: 'a.qmd' });
+		expect(notebook.metadata.title).toBe('Doc');
+		expect(notebook.cells.map(cell => [cell.cell_type, cell.source])).toEqual([
+			['raw', '---\ntitle: "Doc"\njupyter: python3\n---'],
+			['markdown', 'Intro text.'],
+			['code', '#| label: fig\n1 + 1'],
+		]);
+		expect(serializeNotebook(notebook)).toBe(QUARTO);
+	});
+
+	it('keeps knitr chunk options', () => {
+		const notebook = parseNotebook(R_MARKDOWN, { fileName: 'a.Rmd' });
+		expect(notebook.language).toBe('R');
+		expect(notebook.cells[1].source).toBe('library(x)');
+		expect(notebook.cells[1].metadata).toEqual({ chunk_options: 'setup, echo=FALSE' });
+		expect(serializeNotebook(notebook)).toBe(R_MARKDOWN);
+
+		notebook.cells[2].source = 'Changed';
+		expect(serializeNotebook(notebook)).toBe(R_MARKDOWN.replace('Text', 'Changed'));
+	});
+});
+
+describe('ipynb to percent script', () => {
+	it('comments out markdown and magics', () => {
+		const notebook = parseNotebook(JSON.stringify({
+			cells: [
+				{ id: 'a', cell_type: 'markdown', metadata: {}, source: ['# Title'] },
+				{ id: 'b', cell_type: 'code', metadata: {}, source: ['%time f()'], outputs: [], execution_count: 1 },
+			],
+			metadata: { kernelspec: { name: 'python3', language: 'python', display_name: 'Python 3' } },
+			nbformat: 4,
+			nbformat_minor: 5,
+		}));
+		const script = serializeNotebook(notebook, 'percent');
+		expect(script).toContain('# %% [markdown]\n# # Title\n\n# %%\n# %time f()\n');
+		expect(parseNotebook(script, { fileName: 'a.py' }).cells.map(cell => cell.source)).toEqual(['# Title', '%time f()']);
+	});
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { exportAnnotationsToPDF } from '../../src/pdf/lib/pdf-annotations-export';
+import { Name, PDFFile, PDFString, toBinaryString } from '../../src/pdf/lib/pdf-file';
+import { makePDF } from './pdf-fixture';
+
+const BASE = {
+	color: '#ffd400',
+	comment: '',
+	authorName: 'Ann',
+	dateCreated: '2024-01-02T03:04:05.000Z',
+	dateModified: '2024-01-02T03:04:05.000Z',
+};
+
+async function exportAnnotations(annotations, options) {
+	let file = new PDFFile(await exportAnnotationsToPDF(makePDF(), annotations, options));
+	await file.load();
+	let [page] = await file.getPages();
+	let annots = [];
+	for (let ref of page.dict.get('Annots')) {
+		let dict = await file.resolve(ref);
+		let appearance = dict.has('AP') && await file.resolve(dict.get('AP').get('N'));
+		annots.push({ dict, content: appearance ? toBinaryString(appearance.bytes) : null });
+	}
+	return annots;
+}
+
+describe('PDF annotation export', () => {
+	it('writes markup annotations with QuadPoints following text rotation', async () => {
+		let [highlight, underline] = await exportAnnotations([
+			{ ...BASE, id: 'A', type: 'highlight', comment: 'Note', position: { pageIndex: 0, rects: [[10, 20, 110, 32]] } },
+			{ ...BASE, id: 'B', type: 'underline', position: { pageIndex: 0, rects: [[10, 20, 22, 120]] } },
+		], { getTextRotation: (pageIndex, rect) => (rect[3] - rect[1] > rect[2] - rect[0] ? 90 : 0) });
+
+		expect(highlight.dict.get('Subtype')).toEqual(new Name('Highlight'));
+		expect(highlight.dict.get('NM')).toEqual(new PDFString('A'));
+		expect(highlight.dict.get('Contents')).toEqual(new PDFString('Note'));
+		expect(highlight.dict.get('QuadPoints')).toEqual([10, 32, 110, 32, 10, 20, 110, 20]);
+		expect(highlight.content).toContain('10 20 100 12 re f');
+
+		expect(underline.dict.get('Subtype')).toEqual(new Name('Underline'));
+		// Upper left, upper right, lower left, lower right, as the text reads bottom to top
+		expect(underline.dict.get('QuadPoints')).toEqual([10, 20, 10, 120, 22, 20, 22, 120]);
+	});
+
+	it('leaves FreeText lines that do not fit in the box out of the appearance', async () => {
+		let comment = Array.from({ length: 10 }, (_, i) => `Line ${i}`).join('\n');
+		let [text] = await exportAnnotations([
+			{ ...BASE, id: 'C', type: 'text', comment, position: { pageIndex: 0, rects: [[100, 100, 200, 140]], fontSize: 10, rotation: 0 } },
+		]);
+		expect(text.dict.get('Subtype')).toEqual(new Name('FreeText'));
+		// Contents keeps the full text, as UTF-16BE since it has line breaks
+		let contents = text.dict.get('Contents').bytes;
+		expect(contents.slice(0, 2)).toBe('\xFE\xFF');
+		expect(Buffer.from(contents.slice(2), 'latin1').swap16().toString('utf16le')).toBe(comment);
+		// 40pt tall with 10pt text at 1.2 line height: baselines at 30, 18 and 6
+		expect(text.content.match(/ Tj/g)).toHaveLength(3);
+		expect(text.content).toContain('1 0 0 1 0 6 Tm');
+	});
+
+	it('writes a single FreeText line when the box is shorter than the text', async () => {
+		let [text] = await exportAnnotations([
+			{ ...BASE, id: 'D', type: 'text', comment: 'One\nTwo', position: { pageIndex: 0, rects: [[0, 0, 100, 5]], fontSize: 10 } },
+		]);
+		expect(text.content.match(/ Tj/g)).toHaveLength(1);
+	});
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { parsePDFAnnotations, parsePDFDate } from '../../src/pdf/lib/pdf-annotations-import';
+
+describe('PDF annotation import', () => {
+	it('reads markup annotations from QuadPoints', () => {
+		let [highlight, underline] = parsePDFAnnotations([[
+			{
+				id: '1R',
+				subtype: 'Highlight',
+				rect: [0, 0, 200, 100],
+				quadPoints: Float32Array.from([10, 32, 110, 32, 10, 20, 110, 20, 10, 52, 60, 52, 10, 40, 60, 40]),
+				color: Uint8ClampedArray.from([255, 212, 0]),
+				contentsObj: { str: 'One\r\nTwo' },
+				titleObj: { str: 'Ann' },
+				creationDate: 'D:20240102030405Z',
+				modificationDate: "D:20240203040506+01'00'",
+			},
+			{
+				id: '2R',
+				subtype: 'Underline',
+				rect: [10, 20, 110, 32],
+				quadPoints: [[{ x: 10, y: 32 }, { x: 110, y: 32 }, { x: 10, y: 20 }, { x: 110, y: 20 }]],
+			},
+		]]);
+		expect(highlight).toEqual({
+			type: 'highlight',
+			color: '#ffd400',
+			comment: 'One\nTwo',
+			authorName: 'Ann',
+			isAuthorNameAuthoritative: false,
+			dateCreated: '2024-01-02T03:04:05.000Z',
+			dateModified: '2024-02-03T03:05:06.000Z',
+			position: { pageIndex: 0, rects: [[10, 20, 110, 32], [10, 40, 60, 52]] },
+		});
+		expect(underline.position).toEqual({ pageIndex: 0, rects: [[10, 20, 110, 32]] });
+		expect(underline.comment).toBe('');
+		expect(underline.dateCreated).toBeUndefined();
+	});
+
+	it('gives markup without a color a default one', () => {
+		let [highlight, strikeout] = parsePDFAnnotations([[
+			{ id: '1R', subtype: 'Highlight', rect: [0, 0, 10, 10] },
+			{ id: '2R', subtype: 'StrikeOut', rect: [0, 0, 10, 10] },
+		]]);
+		expect(highlight.color).toBe('#ffd400');
+		expect(highlight.position.rects).toEqual([[0, 0, 10, 10]]);
+		expect(strikeout.color).toBe('#ff6666');
+	});
+
+	it('joins markup continued on the next page and skips replies', () => {
+		let annotations = parsePDFAnnotations([
+			[
+				{ id: '1R', subtype: 'Squiggly', rect: [0, 0, 0, 0], quadPoints: [10, 32, 110, 32, 10, 20, 110, 20] },
+				{ id: '2R', subtype: 'Text', rect: [0, 0, 20, 20], inReplyTo: '1R', contents: 'Reply' },
+			],
+			[
+				{ id: '3R', subtype: 'Squiggly', rect: [0, 0, 0, 0], quadPoints: [10, 782, 50, 782, 10, 770, 50, 770], inReplyTo: '1R', replyType: 'Group' },
+			],
+		]);
+		expect(annotations).toHaveLength(1);
+		expect(annotations[0].position).toEqual({ pageIndex: 0, rects: [[10, 20, 110, 32]], nextPageRects: [[10, 770, 50, 782]] });
+	});
+
+	it('reads ink, FreeText and note annotations', () => {
+		let [ink, text, note] = parsePDFAnnotations([[], [
+			{ id: '1R', subtype: 'Ink', rect: [0, 0, 50, 50], inkLists: [[{ x: 1, y: 2 }, { x: 3, y: 4 }], []], borderStyle: { width: 2 } },
+			{
+				id: '2R',
+				subtype: 'FreeText',
+				rect: [100, 100, 140, 200],
+				rotation: 90,
+				textContent: ['Hello', 'world'],
+				defaultAppearanceData: { fontSize: 14 },
+			},
+			{ id: '3R', subtype: 'Text', rect: [100, 500, 120, 520], contents: 'Note' },
+			{ id: '4R', subtype: 'Link', rect: [0, 0, 10, 10] },
+		]]);
+		expect(ink.position).toEqual({ pageIndex: 1, width: 2, paths: [[1, 2, 3, 4]] });
+		// The unrotated box, 100 wide and 40 tall, around the same center
+		expect(text.position).toEqual({ pageIndex: 1, fontSize: 14, rotation: 90, rects: [[70, 130, 170, 170]] });
+		expect(text.comment).toBe('Hello\nworld');
+		expect(note.position).toEqual({ pageIndex: 1, rects: [[100, 498, 122, 520]] });
+		expect(note.comment).toBe('Note');
+	});
+
+	it('skips ink without paths', () => {
+		expect(parsePDFAnnotations([[{ id: '1R', subtype: 'Ink', rect: [0, 0, 1, 1], inkLists: [[]] }]])).toEqual([]);
+	});
+});
+
+describe('parsePDFDate', () => {
+	it.each([
+		['D:20240102030405Z', '2024-01-02T03:04:05.000Z'],
+		["D:20240102030405-05'30'", '2024-01-02T08:34:05.000Z'],
+		['D:2024', '2024-01-01T00:00:00.000Z'],
+		['20240102', '2024-01-02T00:00:00.000Z'],
+	])('parses %s', (date, expected) => {
+		expect(parsePDFDate(date)).toBe(expected);
+	});
+
+	it('returns undefined for missing or invalid dates', () => {
+		expect(parsePDFDate(undefined)).toBeUndefined();
+		expect(parsePDFDate('yesterday')).toBeUndefined();
+	});
+});
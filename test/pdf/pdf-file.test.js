@@ -0,0 +1,90 @@
+import { DecompressionStream } from 'stream/web';
+import { describe, expect, it, vi } from 'vitest';
+import { EncryptedPDFError, Name, PDFFile, Ref, toBinaryString } from '../../src/pdf/lib/pdf-file';
+import { PAGE_OBJECTS, makePDF } from './pdf-fixture';
+
+// Streams are inflated with the window's DecompressionStream
+vi.stubGlobal('window', { DecompressionStream });
+
+async function load(bytes) {
+	let file = new PDFFile(bytes);
+	await file.load();
+	return file;
+}
+
+async function getMediaBoxes(file) {
+	return (await file.getPages()).map(({ dict }) => dict.get('MediaBox'));
+}
+
+/**
+ * Add an object and a new version of the page that refers to it
+ */
+async function update(file, key) {
+	let [page] = await file.getPages();
+	let ref = file.allocateRef();
+	let dict = new Map(page.dict);
+	dict.set(key, ref);
+	return file.save([
+		{ ref, value: new Map([['Type', new Name(key)]]) },
+		{ ref: page.ref, value: dict },
+	]);
+}
+
+describe('PDFFile', () => {
+	it.each([
+		['a cross-reference table', {}],
+		['a cross-reference stream', { xref: 'stream' }],
+		['a cross-reference stream and compressed objects', { xref: 'stream', compressed: [2, 3] }],
+		['a hybrid cross-reference table', { xref: 'hybrid', compressed: [2, 3] }],
+	])('reads pages from a file with %s', async (_, options) => {
+		let file = await load(makePDF(options));
+		expect(await getMediaBoxes(file)).toEqual([[0, 0, 612, 792]]);
+		expect(file.trailer.get('Root')).toEqual(new Ref(1, 0));
+	});
+
+	it('reconstructs a broken cross-reference table', async () => {
+		let warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		try {
+			let file = await load(makePDF({ startXRef: 12 }));
+			expect(warn).toHaveBeenCalled();
+			expect(await getMediaBoxes(file)).toEqual([[0, 0, 612, 792]]);
+
+			// Without a previous section to refer to, a save lists every object
+			let saved = await load(await update(file, 'Test'));
+			expect(saved.trailer.has('Prev')).toBe(false);
+			let [page] = await saved.getPages();
+			expect(await saved.resolve(page.dict.get('Test'))).toEqual(new Map([['Type', new Name('Test')]]));
+		}
+		finally {
+			warn.mockRestore();
+		}
+	});
+
+	it.each([
+		['table', { xref: 'table' }],
+		['stream', { xref: 'stream', compressed: [2, 3] }],
+		['hybrid', { xref: 'hybrid', compressed: [2, 3] }],
+	])('appends incremental updates to a file with a cross-reference %s', async (_, options) => {
+		let original = makePDF(options);
+		let first = await update(await load(original), 'First');
+		let second = await update(await load(first), 'Second');
+		expect(second.subarray(0, first.length)).toEqual(first);
+		expect(first.subarray(0, original.length)).toEqual(original);
+		expect(toBinaryString(second.subarray(first.length))).toContain(options.xref === 'stream' ? '/Type /XRef' : '\nxref\n');
+
+		let file = await load(second);
+		let [page] = await file.getPages();
+		expect(page.dict.get('MediaBox')).toEqual([0, 0, 612, 792]);
+		expect((await file.resolve(page.dict.get('First'))).get('Type')).toEqual(new Name('First'));
+		expect((await file.resolve(page.dict.get('Second'))).get('Type')).toEqual(new Name('Second'));
+		expect(page.dict.get('First').num).not.toBe(page.dict.get('Second').num);
+	});
+
+	it('rejects encrypted files', async () => {
+		let bytes = makePDF({
+			objects: { ...PAGE_OBJECTS, 4: '<< /Filter /Standard /V 1 /R 2 /O <00> /U <00> /P -4 >>' },
+			trailer: '/Encrypt 4 0 R',
+		});
+		await expect(load(bytes)).rejects.toBeInstanceOf(EncryptedPDFError);
+	});
+});
@@ -0,0 +1,87 @@
+import { deflateSync } from 'zlib';
+
+export const PAGE_OBJECTS = {
+	1: '<< /Type /Catalog /Pages 2 0 R >>',
+	2: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+	3: '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >>',
+};
+
+/**
+ * Build a PDF file
+ *
+ * @param {Object} options
+ * @param {Object<number, string>} [options.objects] Object bodies by object number
+ * @param {number[]} [options.compressed] Objects to put in an object stream
+ * @param {'table'|'stream'|'hybrid'} [options.xref] Cross-reference table, cross-reference stream,
+ *   or table for uncompressed objects with a stream for compressed ones (XRefStm)
+ * @param {string} [options.trailer] Extra trailer entries
+ * @param {number} [options.startXRef] Offset to write after startxref instead of the real one
+ * @returns {Uint8Array}
+ */
+export function makePDF({ objects = PAGE_OBJECTS, compressed = [], xref = 'table', trailer = '', startXRef } = {}) {
+	let text = '%PDF-1.7\n%\xe2\xe3\xcf\xd3\n';
+	let entries = new Map([[0, [0, 0, 65535]]]);
+	let nums = Object.keys(objects).map(Number);
+	let size = Math.max(...nums) + 1;
+	let writeObject = (num, body) => {
+		entries.set(num, [1, text.length, 0]);
+		text += `${num} 0 obj\n${body}\nendobj\n`;
+	};
+	let writeStream = (num, dict, data) => {
+		entries.set(num, [1, text.length, 0]);
+		text += `${num} 0 obj\n<< ${dict} /Length ${data.length} >>\nstream\n${data}\nendstream\nendobj\n`;
+	};
+
+	for (let num of nums) {
+		if (!compressed.includes(num)) {
+			writeObject(num, objects[num]);
+		}
+	}
+	let compressedEntries = new Map();
+	if (compressed.length) {
+		let streamNum = size++;
+		let header = [];
+		let body = '';
+		compressed.forEach((num, index) => {
+			header.push(`${num} ${body.length}`);
+			body += `${objects[num]}\n`;
+			compressedEntries.set(num, [2, streamNum, index]);
+		});
+		let data = `${header.join(' ')}\n`;
+		writeStream(streamNum, `/Type /ObjStm /N ${compressed.length} /First ${data.length}`, data + body);
+	}
+
+	let xrefStream = (streamEntries, extra) => {
+		let num = size++;
+		streamEntries.set(num, [1, text.length, 0]);
+		let sorted = [...streamEntries].sort(([a], [b]) => a - b);
+		let bytes = Buffer.alloc(sorted.length * 7);
+		sorted.forEach(([, [type, field2, field3]], i) => {
+			bytes.writeUInt8(type, i * 7);
+			bytes.writeUInt32BE(field2, i * 7 + 1);
+			bytes.writeUInt16BE(field3, i * 7 + 5);
+		});
+		let index = sorted.map(([n]) => `${n} 1`).join(' ');
+		let data = deflateSync(bytes).toString('latin1');
+		let offset = text.length;
+		text += `${num} 0 obj\n<< /Type /XRef /Size ${size} /W [1 4 2] /Index [${index}] /Filter /FlateDecode ${extra} /Length ${data.length} >>\nstream\n${data}\nendstream\nendobj\n`;
+		return offset;
+	};
+
+	let offset;
+	if (xref === 'stream') {
+		offset = xrefStream(new Map([...entries, ...compressedEntries]), `/Root 1 0 R ${trailer}`);
+	}
+	else {
+		let xrefStmOffset = xref === 'hybrid' ? xrefStream(compressedEntries, '') : null;
+		offset = text.length;
+		let sorted = [...entries].sort(([a], [b]) => a - b);
+		text += 'xref\n';
+		for (let [num, [type, entryOffset, gen]] of sorted) {
+			text += `${num} 1\n${String(entryOffset).padStart(10, '0')} ${String(gen).padStart(5, '0')} ${type ? 'n' : 'f'}\r\n`;
+		}
+		text += `trailer\n<< /Size ${size} /Root 1 0 R${xrefStmOffset === null ? '' : ` /XRefStm ${xrefStmOffset}`} ${trailer} >>\n`;
+	}
+	text += `startxref\n${startXRef ?? offset}\n%%EOF\n`;
+	return new Uint8Array(Buffer.from(text, 'latin1'));
+}